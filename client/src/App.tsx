@@ -6,6 +6,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { useAuth } from "@/hooks/useAuth";
 import { useHeartbeat } from "@/hooks/useHeartbeat";
+import { useTaxExemptions } from "@/hooks/useTaxExemptions";
 import { AppSidebar } from "@/components/AppSidebar";
 import { Header } from "@/components/Header";
 import Home from "@/pages/Home";
@@ -17,6 +18,10 @@ import Portfolio from "@/pages/Portfolio";
 import Goals from "@/pages/Goals";
 import Suggestions from "@/pages/Suggestions";
 import Recipes from "@/pages/Recipes";
+import GEOffers from "@/pages/GEOffers";
+import Trash from "@/pages/Trash";
+import Backtest from "@/pages/Backtest";
+import Item from "@/pages/Item";
 import Admin from "@/pages/Admin";
 import Profile from "@/pages/Profile";
 import NotFound from "@/pages/not-found";
@@ -44,10 +49,11 @@ function AuthenticatedLayout({ children }: { children: React.ReactNode }) {
 
 function Router() {
   const { isAuthenticated, isLoading } = useAuth();
+  const { isLoading: loadingTaxExemptions } = useTaxExemptions();
   
   useHeartbeat(30000);
 
-  if (isLoading) {
+  if (isLoading || loadingTaxExemptions) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-muted-foreground">Loading...</div>
@@ -68,6 +74,7 @@ function Router() {
     <AuthenticatedLayout>
       <Switch>
         <Route path="/" component={Home} />
+        <Route path="/offers" component={GEOffers} />
         <Route path="/portfolio" component={Portfolio} />
         <Route path="/goals" component={Goals} />
         <Route path="/suggestions" component={Suggestions} />
@@ -75,6 +82,9 @@ function Router() {
         <Route path="/market" component={MarketInsights} />
         <Route path="/alerts" component={Alerts} />
         <Route path="/stats" component={Stats} />
+        <Route path="/backtest" component={Backtest} />
+        <Route path="/item/:id" component={Item} />
+        <Route path="/trash" component={Trash} />
         <Route path="/profile" component={Profile} />
         <Route path="/admin" component={Admin} />
         <Route component={NotFound} />
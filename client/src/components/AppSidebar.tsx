@@ -1,4 +1,4 @@
-import { Home, BarChart3, Briefcase, Target, Sparkles, TrendingUp, Bell, BookOpen, Shield, Users } from "lucide-react";
+import { Home, BarChart3, Briefcase, Target, Sparkles, TrendingUp, Bell, BookOpen, Shield, Users, LayoutGrid, Trash2, FlaskConical } from "lucide-react";
 import { Link, useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import {
@@ -21,6 +21,7 @@ import { GPStackLogo } from "./GPStackLogo";
 
 const navItems = [
   { href: "/", label: "Flips", icon: Home },
+  { href: "/offers", label: "GE Offers", icon: LayoutGrid },
   { href: "/recipes", label: "Recipes", icon: BookOpen },
   { href: "/portfolio", label: "Portfolio", icon: Briefcase },
   { href: "/goals", label: "Goals", icon: Target },
@@ -28,6 +29,8 @@ const navItems = [
   { href: "/market", label: "Market", icon: TrendingUp },
   { href: "/alerts", label: "Alerts", icon: Bell },
   { href: "/stats", label: "Stats", icon: BarChart3 },
+  { href: "/backtest", label: "Backtest", icon: FlaskConical },
+  { href: "/trash", label: "Trash", icon: Trash2 },
 ];
 
 export function AppSidebar() {
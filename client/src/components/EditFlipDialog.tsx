@@ -6,9 +6,15 @@ import { Textarea } from "@/components/ui/textarea";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CalendarIcon } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { FlipHistoryPanel } from "./FlipHistoryPanel";
+import { TagPicker } from "./TagPicker";
+import { ListPriceHelper } from "./ListPriceHelper";
+import { CalendarIcon, Plus, X } from "lucide-react";
 import { format, subDays } from "date-fns";
 import { cn } from "@/lib/utils";
+import { getSellFills, type SellFill } from "@shared/flipSells";
+import { FLIP_STATUS_LABELS, isClosedStatus, type ClosedFlipStatus, type FlipStatus } from "@shared/flipStatus";
 import {
   Dialog,
   DialogContent,
@@ -20,6 +26,7 @@ import {
 
 interface Flip {
   id: string;
+  itemId?: number | null;
   itemName: string;
   itemIcon?: string;
   quantity: number;
@@ -29,6 +36,27 @@ interface Flip {
   sellDate?: Date;
   notes?: string;
   category?: string;
+  sells?: SellFill[];
+  tags?: { id: string }[];
+  status?: string;
+}
+
+// "active" leaves the status to the sells (open, partially sold or sold)
+type Closure = "active" | ClosedFlipStatus;
+
+export interface EditFlipSell {
+  id?: string;
+  quantity: number;
+  sellPrice: number;
+  sellDate: Date;
+}
+
+interface FillInput {
+  id?: string;
+  quantity: string;
+  sellPrice: string;
+  sellDate: Date;
+  dateOpen: boolean;
 }
 
 interface EditFlipDialogProps {
@@ -43,6 +71,9 @@ interface EditFlipDialogProps {
     sellDate?: Date;
     notes?: string;
     category?: string;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => void;
 }
 
@@ -51,49 +82,92 @@ const CATEGORIES = ["High Value", "Consumables", "Weapons", "Armor", "Skilling",
 export function EditFlipDialog({ flip, open, onOpenChange, onSubmit }: EditFlipDialogProps) {
   const [quantity, setQuantity] = useState("");
   const [buyPrice, setBuyPrice] = useState("");
-  const [sellPrice, setSellPrice] = useState("");
   const [buyDate, setBuyDate] = useState<Date>(new Date());
-  const [sellDate, setSellDate] = useState<Date | undefined>(undefined);
+  const [fills, setFills] = useState<FillInput[]>([]);
+  const [fillsChanged, setFillsChanged] = useState(false);
   const [notes, setNotes] = useState("");
   const [category, setCategory] = useState("");
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [tagsChanged, setTagsChanged] = useState(false);
+  const [closure, setClosure] = useState<Closure>("active");
   const [buyDateOpen, setBuyDateOpen] = useState(false);
-  const [sellDateOpen, setSellDateOpen] = useState(false);
+  const [tab, setTab] = useState("details");
 
   useEffect(() => {
     if (flip) {
       setQuantity(flip.quantity.toString());
       setBuyPrice(flip.buyPrice.toString());
-      setSellPrice(flip.sellPrice?.toString() ?? "");
       setBuyDate(new Date(flip.buyDate));
-      setSellDate(flip.sellDate ? new Date(flip.sellDate) : undefined);
+      setFills(getSellFills(flip).map(fill => ({
+        id: fill.id,
+        quantity: fill.quantity.toString(),
+        sellPrice: fill.sellPrice.toString(),
+        sellDate: new Date(fill.sellDate),
+        dateOpen: false,
+      })));
+      setFillsChanged(false);
       setNotes(flip.notes ?? "");
       setCategory(flip.category ?? "none");
+      setTagIds(flip.tags?.map(tag => tag.id) ?? []);
+      setTagsChanged(false);
+      setClosure(isClosedStatus(flip.status) ? flip.status : "active");
+      setTab("details");
     }
   }, [flip]);
 
+  const soldQuantity = fills.reduce((sum, fill) => sum + (parseInt(fill.quantity) || 0), 0);
+  const remainingQuantity = (parseInt(quantity) || 0) - soldQuantity;
+  const initialClosure: Closure = flip && isClosedStatus(flip.status) ? flip.status : "active";
+
+  const updateFill = (index: number, changes: Partial<FillInput>) => {
+    setFills(prev => prev.map((fill, i) => i === index ? { ...fill, ...changes } : fill));
+    if (changes.dateOpen === undefined || Object.keys(changes).length > 1) {
+      setFillsChanged(true);
+    }
+  };
+
+  const addFill = (sellPrice: string = "") => {
+    setFills(prev => [...prev, {
+      quantity: Math.max(remainingQuantity, 1).toString(),
+      sellPrice,
+      sellDate: new Date(),
+      dateOpen: false,
+    }]);
+    setFillsChanged(true);
+  };
+
+  const removeFill = (index: number) => {
+    setFills(prev => prev.filter((_, i) => i !== index));
+    setFillsChanged(true);
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (remainingQuantity < 0) return;
     
     onSubmit({
       quantity: parseInt(quantity),
       buyPrice: parseInt(buyPrice),
-      sellPrice: sellPrice ? parseInt(sellPrice) : undefined,
       buyDate,
-      sellDate,
       notes: notes || undefined,
       category: category && category !== "none" ? category : undefined,
+      // Only send fills when they were edited so untouched flips don't re-record sells
+      sells: fillsChanged
+        ? fills
+            .filter(fill => parseInt(fill.quantity) > 0 && parseInt(fill.sellPrice) > 0)
+            .map(fill => ({
+              id: fill.id,
+              quantity: parseInt(fill.quantity),
+              sellPrice: parseInt(fill.sellPrice),
+              sellDate: fill.sellDate,
+            }))
+        : undefined,
+      tagIds: tagsChanged ? tagIds : undefined,
+      status: closure !== initialClosure ? (closure === "active" ? "open" : closure) : undefined,
     });
   };
 
-  const setQuickDate = (type: 'buy' | 'sell', preset: 'today' | 'yesterday' | 'week' | 'clear') => {
-    if (preset === 'clear') {
-      if (type === 'sell') {
-        setSellDate(undefined);
-        setSellDateOpen(false);
-      }
-      return;
-    }
-
+  const setQuickDate = (preset: 'today' | 'yesterday' | 'week') => {
     let date: Date;
     switch (preset) {
       case 'today':
@@ -107,13 +181,8 @@ export function EditFlipDialog({ flip, open, onOpenChange, onSubmit }: EditFlipD
         break;
     }
     
-    if (type === 'buy') {
-      setBuyDate(date);
-      setBuyDateOpen(false);
-    } else {
-      setSellDate(date);
-      setSellDateOpen(false);
-    }
+    setBuyDate(date);
+    setBuyDateOpen(false);
   };
 
   if (!flip) return null;
@@ -128,187 +197,267 @@ export function EditFlipDialog({ flip, open, onOpenChange, onSubmit }: EditFlipD
           </DialogDescription>
         </DialogHeader>
         
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="edit-quantity">Quantity</Label>
-            <Input
-              id="edit-quantity"
-              type="number"
-              value={quantity}
-              onChange={(e) => setQuantity(e.target.value)}
-              min="1"
-              className="font-mono"
-              data-testid="input-edit-quantity"
-              required
-            />
-          </div>
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details" data-testid="tab-edit-details">Details</TabsTrigger>
+            <TabsTrigger value="history" data-testid="tab-edit-history">History</TabsTrigger>
+          </TabsList>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label htmlFor="edit-buyPrice">Buy Price</Label>
-              <Input
-                id="edit-buyPrice"
-                type="number"
-                value={buyPrice}
-                onChange={(e) => setBuyPrice(e.target.value)}
-                className="font-mono"
-                data-testid="input-edit-buy-price"
-                required
-              />
-            </div>
+          <TabsContent value="history">
+            <FlipHistoryPanel flipId={flip.id} onReverted={() => onOpenChange(false)} />
+          </TabsContent>
 
-            <div className="space-y-2">
-              <Label htmlFor="edit-sellPrice">Sell Price</Label>
-              <Input
-                id="edit-sellPrice"
-                type="number"
-                value={sellPrice}
-                onChange={(e) => setSellPrice(e.target.value)}
-                className="font-mono"
-                data-testid="input-edit-sell-price"
-              />
-            </div>
-          </div>
+          <TabsContent value="details">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-quantity">Quantity</Label>
+                <Input
+                  id="edit-quantity"
+                  type="number"
+                  value={quantity}
+                  onChange={(e) => setQuantity(e.target.value)}
+                  min="1"
+                  className="font-mono"
+                  data-testid="input-edit-quantity"
+                  required
+                />
+              </div>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div className="space-y-2">
-              <Label>Buy Date</Label>
-              <Popover open={buyDateOpen} onOpenChange={setBuyDateOpen}>
-                <PopoverTrigger asChild>
-                  <Button
-                    type="button"
-                    variant="outline"
-                    className={cn(
-                      "w-full justify-start text-left font-normal",
-                      !buyDate && "text-muted-foreground"
-                    )}
-                    data-testid="button-edit-buy-date"
-                  >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {buyDate ? format(buyDate, "MMM d, yyyy") : "Select date"}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <div className="flex gap-1 p-2 border-b">
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setQuickDate('buy', 'today')}
-                    >
-                      Today
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setQuickDate('buy', 'yesterday')}
-                    >
-                      Yesterday
-                    </Button>
-                  </div>
-                  <Calendar
-                    mode="single"
-                    selected={buyDate}
-                    onSelect={(date) => {
-                      if (date) {
-                        setBuyDate(date);
-                        setBuyDateOpen(false);
-                      }
-                    }}
-                    initialFocus
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-buyPrice">Buy Price</Label>
+                  <Input
+                    id="edit-buyPrice"
+                    type="number"
+                    value={buyPrice}
+                    onChange={(e) => setBuyPrice(e.target.value)}
+                    className="font-mono"
+                    data-testid="input-edit-buy-price"
+                    required
                   />
-                </PopoverContent>
-              </Popover>
-            </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Buy Date</Label>
+                  <Popover open={buyDateOpen} onOpenChange={setBuyDateOpen}>
+                    <PopoverTrigger asChild>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        className={cn(
+                          "w-full justify-start text-left font-normal",
+                          !buyDate && "text-muted-foreground"
+                        )}
+                        data-testid="button-edit-buy-date"
+                      >
+                        <CalendarIcon className="mr-2 h-4 w-4" />
+                        {buyDate ? format(buyDate, "MMM d, yyyy") : "Select date"}
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <div className="flex gap-1 p-2 border-b">
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setQuickDate('today')}
+                        >
+                          Today
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setQuickDate('yesterday')}
+                        >
+                          Yesterday
+                        </Button>
+                      </div>
+                      <Calendar
+                        mode="single"
+                        selected={buyDate}
+                        onSelect={(date) => {
+                          if (date) {
+                            setBuyDate(date);
+                            setBuyDateOpen(false);
+                          }
+                        }}
+                        initialFocus
+                      />
+                    </PopoverContent>
+                  </Popover>
+                </div>
+              </div>
 
-            <div className="space-y-2">
-              <Label>Sell Date</Label>
-              <Popover open={sellDateOpen} onOpenChange={setSellDateOpen}>
-                <PopoverTrigger asChild>
-                  <Button
-                    type="button"
-                    variant="outline"
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <Label>Sells</Label>
+                  {remainingQuantity > 0 && (
+                    <ListPriceHelper
+                      buyPrice={parseInt(buyPrice) || 0}
+                      quantity={remainingQuantity}
+                      itemId={flip.itemId}
+                      onUse={(price) => addFill(price.toString())}
+                      testIdPrefix="edit-list-price"
+                    />
+                  )}
+                  <span
                     className={cn(
-                      "w-full justify-start text-left font-normal",
-                      !sellDate && "text-muted-foreground"
+                      "text-xs font-mono",
+                      remainingQuantity < 0 ? "text-destructive" : "text-muted-foreground"
                     )}
-                    data-testid="button-edit-sell-date"
+                    data-testid="text-edit-remaining"
                   >
-                    <CalendarIcon className="mr-2 h-4 w-4" />
-                    {sellDate ? format(sellDate, "MMM d, yyyy") : "Not sold"}
-                  </Button>
-                </PopoverTrigger>
-                <PopoverContent className="w-auto p-0" align="start">
-                  <div className="flex gap-1 p-2 border-b">
+                    {remainingQuantity < 0
+                      ? `${Math.abs(remainingQuantity).toLocaleString()} over quantity`
+                      : `${remainingQuantity.toLocaleString()} remaining`}
+                  </span>
+                </div>
+                {fills.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Not sold yet</p>
+                )}
+                {fills.map((fill, index) => (
+                  <div key={fill.id ?? `new-${index}`} className="flex items-center gap-2" data-testid={`row-edit-sell-${index}`}>
+                    <Input
+                      type="number"
+                      value={fill.quantity}
+                      onChange={(e) => updateFill(index, { quantity: e.target.value })}
+                      min="1"
+                      placeholder="Qty"
+                      className="font-mono w-24"
+                      data-testid={`input-edit-sell-quantity-${index}`}
+                    />
+                    <Input
+                      type="number"
+                      value={fill.sellPrice}
+                      onChange={(e) => updateFill(index, { sellPrice: e.target.value })}
+                      placeholder="Sell price"
+                      className="font-mono flex-1"
+                      data-testid={`input-edit-sell-price-${index}`}
+                    />
+                    <Popover open={fill.dateOpen} onOpenChange={(open) => updateFill(index, { dateOpen: open })}>
+                      <PopoverTrigger asChild>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="font-normal"
+                          data-testid={`button-edit-sell-date-${index}`}
+                        >
+                          {format(fill.sellDate, "MMM d")}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0" align="end">
+                        <Calendar
+                          mode="single"
+                          selected={fill.sellDate}
+                          onSelect={(date) => {
+                            if (date) {
+                              updateFill(index, { sellDate: date, dateOpen: false });
+                            }
+                          }}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
                     <Button
                       type="button"
                       variant="ghost"
-                      size="sm"
-                      onClick={() => setQuickDate('sell', 'today')}
+                      size="icon"
+                      onClick={() => removeFill(index)}
+                      data-testid={`button-edit-remove-sell-${index}`}
                     >
-                      Today
-                    </Button>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => setQuickDate('sell', 'clear')}
-                    >
-                      Clear
+                      <X className="h-4 w-4" />
                     </Button>
                   </div>
-                  <Calendar
-                    mode="single"
-                    selected={sellDate}
-                    onSelect={(date) => {
-                      setSellDate(date);
-                      setSellDateOpen(false);
-                    }}
-                    initialFocus
-                  />
-                </PopoverContent>
-              </Popover>
-            </div>
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="edit-category">Category</Label>
-            <Select value={category} onValueChange={setCategory}>
-              <SelectTrigger data-testid="select-edit-category">
-                <SelectValue placeholder="Select category" />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="none">None</SelectItem>
-                {CATEGORIES.map((cat) => (
-                  <SelectItem key={cat} value={cat}>{cat}</SelectItem>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addFill()}
+                  disabled={remainingQuantity <= 0}
+                  data-testid="button-edit-add-sell"
+                >
+                  <Plus className="mr-1 h-3 w-3" />
+                  Add Sell
+                </Button>
+              </div>
+
+              {(remainingQuantity > 0 || closure !== "active") && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-status">Status</Label>
+                  <Select value={closure} onValueChange={(value) => setClosure(value as Closure)}>
+                    <SelectTrigger id="edit-status" data-testid="select-edit-status">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="active">{soldQuantity > 0 ? "Partially sold" : "Open"}</SelectItem>
+                      <SelectItem value="cancelled">{FLIP_STATUS_LABELS.cancelled}</SelectItem>
+                      <SelectItem value="written_off">{FLIP_STATUS_LABELS.written_off}</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {closure !== "active" && (
+                    <p className="text-xs text-muted-foreground" data-testid="text-edit-status-hint">
+                      {closure === "written_off"
+                        ? `The ${Math.max(remainingQuantity, 0).toLocaleString()} unsold are booked as a loss at their buy price.`
+                        : `The ${Math.max(remainingQuantity, 0).toLocaleString()} unsold are dropped with no profit or loss.`}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-category">Category</Label>
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger data-testid="select-edit-category">
+                    <SelectValue placeholder="Select category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {CATEGORIES.map((cat) => (
+                      <SelectItem key={cat} value={cat}>{cat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-tags">Strategy Tags</Label>
+                <TagPicker
+                  id="edit-tags"
+                  value={tagIds}
+                  onChange={(ids) => {
+                    setTagIds(ids);
+                    setTagsChanged(true);
+                  }}
+                />
+              </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="edit-notes">Notes</Label>
-            <Textarea
-              id="edit-notes"
-              value={notes}
-              onChange={(e) => setNotes(e.target.value)}
-              placeholder="Add notes about this flip..."
-              className="resize-none"
-              rows={2}
-              data-testid="input-edit-notes"
-            />
-          </div>
+              <div className="space-y-2">
+                <Label htmlFor="edit-notes">Notes</Label>
+                <Textarea
+                  id="edit-notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Add notes about this flip..."
+                  className="resize-none"
+                  rows={2}
+                  data-testid="input-edit-notes"
+                />
+              </div>
 
-          <DialogFooter>
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-edit-cancel">
-              Cancel
-            </Button>
-            <Button type="submit" data-testid="button-edit-save">
-              Save Changes
-            </Button>
-          </DialogFooter>
-        </form>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-edit-cancel">
+                  Cancel
+                </Button>
+                <Button type="submit" data-testid="button-edit-save">
+                  Save Changes
+                </Button>
+              </DialogFooter>
+            </form>
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
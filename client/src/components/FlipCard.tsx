@@ -1,13 +1,17 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { motion, AnimatePresence } from "framer-motion";
-import { ChevronDown, Trash2, Pencil, Zap, Loader2, LineChart, Tag, Clock, CalendarDays } from "lucide-react";
+import { ChevronDown, Trash2, Pencil, Zap, Loader2, LineChart, Tag, Clock, CalendarDays, Briefcase } from "lucide-react";
 import { ItemIcon } from "./ItemIcon";
+import { TagBadge } from "./TagBadge";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card } from "@/components/ui/card";
 import { formatDistanceToNow, format } from "date-fns";
 import { cn } from "@/lib/utils";
-import { calculateFlipTax, formatGp } from "@shared/taxCalculator";
+import { summarizeFlipSells, type SellFill } from "@shared/flipSells";
+import { FLIP_STATUS_LABELS, isClosedStatus } from "@shared/flipStatus";
+import type { OpenPositionValuation } from "@shared/flipValuation";
 
 interface FlipUser {
   id: string;
@@ -28,11 +32,14 @@ interface Flip {
   sellDate?: Date;
   notes?: string;
   category?: string;
-  strategyTag?: string;
+  tags?: { id: string; name: string; color: string }[];
   membershipStatus?: string;
   isMembers?: boolean;
   geLimit?: number;
   user?: FlipUser;
+  sells?: SellFill[];
+  status?: string;
+  closedAt?: Date | string | null;
 }
 
 interface FlipCardProps {
@@ -41,11 +48,8 @@ interface FlipCardProps {
   onEdit?: (flip: Flip) => void;
   onQuickSell?: (id: string, itemName: string) => Promise<void>;
   onViewChart?: (itemId: number | undefined, itemName: string) => void;
-}
-
-function getFlipTaxDetails(flip: Flip) {
-  if (!flip.sellPrice) return null;
-  return calculateFlipTax(flip.sellPrice, flip.buyPrice, flip.quantity, flip.itemId, flip.itemName);
+  onMoveToPortfolio?: (id: string) => void;
+  valuation?: OpenPositionValuation;
 }
 
 function formatPrice(price: number) {
@@ -65,16 +69,25 @@ function formatFullPrice(price: number) {
   return price.toLocaleString();
 }
 
-export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: FlipCardProps) {
+function formatSignedPrice(price: number) {
+  return `${price >= 0 ? "+" : "-"}${formatPrice(Math.abs(Math.round(price)))}`;
+}
+
+export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart, onMoveToPortfolio, valuation }: FlipCardProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   const [isQuickSelling, setIsQuickSelling] = useState(false);
 
-  const taxDetails = getFlipTaxDetails(flip);
-  const profit = taxDetails?.profit ?? null;
-  const roi = taxDetails?.roi ?? null;
-  const isCompleted = flip.sellPrice !== undefined && flip.sellPrice !== null;
+  const sellSummary = summarizeFlipSells(flip);
+  const hasSells = sellSummary.soldQuantity > 0;
+  const isClosed = isClosedStatus(sellSummary.status);
+  // Nothing left to sell: sold out, or the rest was cancelled or written off
+  const isCompleted = sellSummary.remainingQuantity === 0;
+  const isPartial = sellSummary.status === "partially_sold";
+  const hasBookedProfit = hasSells || sellSummary.writeOffLoss > 0;
+  const profit = hasBookedProfit ? sellSummary.profit : null;
+  const roi = hasBookedProfit ? sellSummary.roi : null;
   const isProfitable = profit !== null && profit > 0;
-  const tax = taxDetails?.totalTax ?? null;
+  const tax = hasSells ? sellSummary.totalTax : null;
 
   const handleQuickSell = async () => {
     if (!onQuickSell || isCompleted) return;
@@ -87,9 +100,11 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
   };
 
   const investment = flip.buyPrice * flip.quantity;
-  const holdTime = flip.sellDate && flip.buyDate
+  const openInvestment = flip.buyPrice * sellSummary.remainingQuantity;
+  const holdTime = sellSummary.lastSellDate && flip.buyDate
     ? formatDistanceToNow(new Date(flip.buyDate), { addSuffix: false })
     : null;
+  const unrealized = !isCompleted && valuation ? valuation.unrealizedProfit : null;
 
   return (
     <Card 
@@ -116,16 +131,43 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
           <div className="flex-1 min-w-0">
             <div className="flex items-center gap-2 flex-wrap">
               <h3 className="font-medium text-sm truncate" data-testid={`flip-item-name-${flip.id}`}>
-                {flip.itemName}
+                {flip.itemId ? (
+                  <Link href={`/item/${flip.itemId}`} className="hover:underline">{flip.itemName}</Link>
+                ) : (
+                  flip.itemName
+                )}
               </h3>
               {flip.quantity > 1 && (
                 <span className="text-xs text-muted-foreground">x{flip.quantity.toLocaleString()}</span>
               )}
-              {!isCompleted && (
+              {sellSummary.status === "open" && (
                 <Badge variant="outline" className="text-xs h-5 bg-warning/10 text-warning border-warning/30">
                   Open
                 </Badge>
               )}
+              {isPartial && (
+                <Badge
+                  variant="outline"
+                  className="text-xs h-5 bg-primary/10 text-primary border-primary/30"
+                  data-testid={`flip-partial-${flip.id}`}
+                >
+                  {sellSummary.soldQuantity.toLocaleString()}/{flip.quantity.toLocaleString()} sold
+                </Badge>
+              )}
+              {isClosed && (
+                <Badge
+                  variant="outline"
+                  className={cn(
+                    "text-xs h-5",
+                    sellSummary.status === "written_off"
+                      ? "bg-destructive/10 text-destructive border-destructive/30"
+                      : "bg-muted text-muted-foreground"
+                  )}
+                  data-testid={`flip-status-${flip.id}`}
+                >
+                  {FLIP_STATUS_LABELS[sellSummary.status]}
+                </Badge>
+              )}
               {flip.user && (
                 <Badge variant="secondary" className="text-xs h-5" data-testid={`flip-user-${flip.id}`}>
                   {flip.user.firstName || flip.user.email?.split('@')[0] || 'User'}
@@ -135,14 +177,17 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
 
             <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
               <span>Buy: <span className="font-mono text-foreground">{formatPrice(flip.buyPrice)}</span></span>
-              {isCompleted && (
-                <span>Sell: <span className="font-mono text-foreground">{formatPrice(flip.sellPrice!)}</span></span>
+              {sellSummary.averageSellPrice !== null && (
+                <span>
+                  {sellSummary.fills.length > 1 ? "Avg sell" : "Sell"}:{" "}
+                  <span className="font-mono text-foreground">{formatPrice(sellSummary.averageSellPrice)}</span>
+                </span>
               )}
             </div>
           </div>
 
           <div className="flex flex-col items-end gap-1">
-            {isCompleted && profit !== null ? (
+            {profit !== null ? (
               <>
                 <Badge 
                   variant={isProfitable ? "default" : "destructive"}
@@ -160,12 +205,31 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                 )}>
                   {roi !== null && `${roi >= 0 ? "+" : ""}${roi.toFixed(1)}% ROI`}
                 </span>
+                {isPartial && (
+                  <span className="text-xs text-muted-foreground font-mono">
+                    {formatPrice(openInvestment)} still open
+                  </span>
+                )}
               </>
+            ) : isClosed ? (
+              <div className="text-xs text-muted-foreground">Nothing booked</div>
             ) : (
               <div className="text-xs text-muted-foreground font-mono">
                 -{formatPrice(investment)} invested
               </div>
             )}
+            {unrealized !== null && (
+              <span
+                className={cn(
+                  "text-xs font-mono",
+                  unrealized >= 0 ? "text-success/80" : "text-destructive/80"
+                )}
+                title="Open quantity valued at the current GE price, after tax"
+                data-testid={`flip-unrealized-${flip.id}`}
+              >
+                {formatSignedPrice(unrealized)} unrealized
+              </span>
+            )}
           </div>
 
           <motion.div
@@ -195,11 +259,18 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                     <span>Bought:</span>
                     <span className="text-foreground">{format(new Date(flip.buyDate), "MMM d, yyyy")}</span>
                   </div>
-                  {flip.sellDate && (
+                  {sellSummary.lastSellDate && (
                     <div className="flex items-center gap-2 text-muted-foreground">
                       <CalendarDays className="h-3 w-3" />
-                      <span>Sold:</span>
-                      <span className="text-foreground">{format(new Date(flip.sellDate), "MMM d, yyyy")}</span>
+                      <span>{sellSummary.status === "sold" ? "Sold:" : "Last sell:"}</span>
+                      <span className="text-foreground">{format(sellSummary.lastSellDate, "MMM d, yyyy")}</span>
+                    </div>
+                  )}
+                  {sellSummary.closedAt && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <CalendarDays className="h-3 w-3" />
+                      <span>{FLIP_STATUS_LABELS[sellSummary.status]}:</span>
+                      <span className="text-foreground">{format(sellSummary.closedAt, "MMM d, yyyy")}</span>
                     </div>
                   )}
                   {holdTime && (
@@ -209,6 +280,15 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                       <span className="text-foreground">{holdTime}</span>
                     </div>
                   )}
+                  {!isCompleted && valuation && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Clock className="h-3 w-3" />
+                      <span>Held:</span>
+                      <span className="text-foreground">
+                        {formatDistanceToNow(new Date(valuation.openedAt), { addSuffix: false })}
+                      </span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -218,6 +298,14 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                       <span className="text-foreground font-mono">-{formatPrice(tax)}</span>
                     </div>
                   )}
+                  {sellSummary.writeOffLoss > 0 && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <span>Written off:</span>
+                      <span className="text-destructive font-mono">
+                        -{formatPrice(sellSummary.writeOffLoss)} ({sellSummary.closedQuantity.toLocaleString()} units)
+                      </span>
+                    </div>
+                  )}
                   {flip.geLimit && (
                     <div className="flex items-center gap-2 text-muted-foreground">
                       <span>GE Limit:</span>
@@ -228,11 +316,46 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                     <span>Investment:</span>
                     <span className="text-foreground font-mono">{formatFullPrice(investment)}</span>
                   </div>
+                  {!isCompleted && valuation && (
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <span>Current price:</span>
+                      <span className="text-foreground font-mono">
+                        {valuation.currentPrice !== null ? formatFullPrice(valuation.currentPrice) : "Unknown"}
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
-              {(flip.category || flip.membershipStatus) && (
+              {sellSummary.fills.length > 1 || isPartial ? (
+                <div className="mt-3 space-y-1 text-xs" data-testid={`flip-sells-${flip.id}`}>
+                  <div className="text-muted-foreground">
+                    Sells ({sellSummary.soldQuantity.toLocaleString()} of {flip.quantity.toLocaleString()})
+                  </div>
+                  {sellSummary.fills.map((fill, index) => (
+                    <div key={fill.id ?? index} className="flex items-center justify-between gap-2 rounded-md bg-muted/30 px-2 py-1">
+                      <span className="text-muted-foreground">
+                        {format(new Date(fill.sellDate), "MMM d")}
+                      </span>
+                      <span className="font-mono">
+                        {fill.quantity.toLocaleString()} @ {formatPrice(fill.sellPrice)}
+                      </span>
+                      <span className={cn(
+                        "font-mono",
+                        fill.tax.profit >= 0 ? "text-success" : "text-destructive"
+                      )}>
+                        {fill.tax.profit >= 0 ? "+" : ""}{formatPrice(fill.tax.profit)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+
+              {(flip.category || flip.membershipStatus || flip.tags?.length) && (
                 <div className="flex flex-wrap gap-2 mt-3">
+                  {flip.tags?.map(tag => (
+                    <TagBadge key={tag.id} tag={tag} className="text-xs h-5" />
+                  ))}
                   {flip.category && (
                     <Badge variant="secondary" className="text-xs h-5">
                       <Tag className="h-3 w-3 mr-1" />
@@ -294,6 +417,23 @@ export function FlipCard({ flip, onDelete, onEdit, onQuickSell, onViewChart }: F
                   </Button>
                 )}
 
+                {sellSummary.status === "open" && onMoveToPortfolio && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onMoveToPortfolio(flip.id);
+                    }}
+                    className="h-8"
+                    title="Hold this as a long-term investment instead"
+                    data-testid={`button-move-to-portfolio-${flip.id}`}
+                  >
+                    <Briefcase className="h-3 w-3 mr-1" />
+                    To Portfolio
+                  </Button>
+                )}
+
                 {onEdit && (
                   <Button
                     size="sm"
@@ -1,7 +1,9 @@
 import { useState, useMemo } from "react";
-import { Search, Filter, Download, X, ChevronDown, ArrowUpDown } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, Filter, Download, Upload, X, ChevronDown, ArrowUpDown } from "lucide-react";
 import { FlipCard } from "./FlipCard";
-import { EditFlipDialog } from "./EditFlipDialog";
+import { PnlSummary } from "./PnlSummary";
+import { EditFlipDialog, type EditFlipSell } from "./EditFlipDialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
@@ -20,9 +22,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuLabel,
 } from "@/components/ui/dropdown-menu";
+import { summarizeFlipSells, type SellFill } from "@shared/flipSells";
+import { flipLedger } from "@shared/profitLedger";
+import { FLIP_STATUS_LABELS, type FlipStatus } from "@shared/flipStatus";
+import { useFlipValuation } from "@/hooks/useFlipValuation";
+import type { StrategyTag } from "@shared/schema";
 
 const CATEGORIES = ["High Value", "Consumables", "Weapons", "Armor", "Skilling", "Misc"];
-const STRATEGIES = ["Fast Flip", "Slow Flip", "Bulk", "High Margin", "Speculative", "Other"];
 
 interface Flip {
   id: string;
@@ -36,15 +42,18 @@ interface Flip {
   sellDate?: Date;
   notes?: string;
   category?: string;
-  strategyTag?: string;
+  tags?: { id: string; name: string; color: string }[];
   membershipStatus?: string;
   isMembers?: boolean;
   geLimit?: number;
+  sells?: SellFill[];
+  status?: string;
+  closedAt?: Date | string | null;
 }
 
 type SortField = "date" | "profit" | "roi" | "item" | "investment";
 type SortDirection = "asc" | "desc";
-type StatusFilter = "all" | "completed" | "open";
+type StatusFilter = "all" | "completed" | Exclude<FlipStatus, "sold">;
 
 interface FlipCardGridProps {
   flips: Flip[];
@@ -55,44 +64,47 @@ interface FlipCardGridProps {
     sellPrice?: number;
     buyDate: Date;
     sellDate?: Date;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => void;
   onQuickSell?: (id: string, itemName: string) => Promise<void>;
   onViewChart?: (itemId: number | undefined, itemName: string) => void;
+  onMoveToPortfolio?: (id: string) => void;
+  onImport?: () => void;
 }
 
-const GE_TAX_RATE = 0.02;
-
-function calculateGETax(sellPrice: number, quantity: number) {
-  // 2% tax per item, floored, then multiplied by quantity
-  const taxPerItem = Math.floor(sellPrice * GE_TAX_RATE);
-  return taxPerItem * quantity;
+// Realized profit across all sell fills (partially sold flips count the sold part), plus
+// the cost of written-off units. Nothing is booked until a fill or a write-off, as in Stats.
+function hasBookedProfit(flip: Flip): boolean {
+  const summary = summarizeFlipSells(flip);
+  return summary.soldQuantity > 0 || summary.writeOffLoss > 0;
 }
 
-function calculateProfit(flip: Flip) {
-  if (!flip.sellPrice) return null;
-  const grossRevenue = flip.sellPrice * flip.quantity;
-  const tax = calculateGETax(flip.sellPrice, flip.quantity);
-  const netRevenue = grossRevenue - tax;
-  const totalCost = flip.buyPrice * flip.quantity;
-  return netRevenue - totalCost;
+function calculateProfit(flip: Flip): number | null {
+  if (!hasBookedProfit(flip)) return null;
+  return flipLedger(flip).profit;
 }
 
-function calculateROI(flip: Flip) {
-  if (!flip.sellPrice) return null;
-  const profit = calculateProfit(flip);
-  if (profit === null) return null;
-  const totalCost = flip.buyPrice * flip.quantity;
-  return (profit / totalCost) * 100;
+function calculateROI(flip: Flip): number | null {
+  if (!hasBookedProfit(flip)) return null;
+  return flipLedger(flip).roi;
 }
 
-export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart }: FlipCardGridProps) {
+export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart, onMoveToPortfolio, onImport }: FlipCardGridProps) {
   const [editingFlip, setEditingFlip] = useState<Flip | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortField, setSortField] = useState<SortField>("date");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
-  const [strategyFilter, setStrategyFilter] = useState<string>("all");
+  const [strategyFilter, setStrategyFilter] = useState<string>("all"); // tag id
+
+  const { data: tags = [] } = useQuery<StrategyTag[]>({
+    queryKey: ["/api/tags"],
+  });
+  const strategyFilterTag = tags.find(tag => tag.id === strategyFilter);
+  const { valuation, positionsByFlip } = useFlipValuation();
 
   const filteredAndSortedFlips = useMemo(() => {
     let result = [...flips];
@@ -104,10 +116,9 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
       );
     }
 
-    if (statusFilter === "completed") {
-      result = result.filter(flip => flip.sellDate !== undefined && flip.sellDate !== null);
-    } else if (statusFilter === "open") {
-      result = result.filter(flip => flip.sellDate === undefined || flip.sellDate === null);
+    if (statusFilter !== "all") {
+      const wantedStatus = statusFilter === "completed" ? "sold" : statusFilter;
+      result = result.filter(flip => summarizeFlipSells(flip).status === wantedStatus);
     }
 
     if (categoryFilter !== "all") {
@@ -115,7 +126,7 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
     }
 
     if (strategyFilter !== "all") {
-      result = result.filter(flip => flip.strategyTag === strategyFilter);
+      result = result.filter(flip => flip.tags?.some(tag => tag.id === strategyFilter));
     }
 
     result.sort((a, b) => {
@@ -147,6 +158,21 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
     return result;
   }, [flips, searchQuery, statusFilter, categoryFilter, strategyFilter, sortField, sortDirection]);
 
+  // Realized and unrealized P&L of the flips currently shown
+  const pnl = useMemo(() => {
+    let realized = 0;
+    let unrealized = 0;
+    let unpriced = 0;
+    for (const flip of filteredAndSortedFlips) {
+      realized += flipLedger(flip).profit;
+      const position = positionsByFlip.get(flip.id);
+      if (!position) continue;
+      if (position.unrealizedProfit === null) unpriced++;
+      else unrealized += position.unrealizedProfit;
+    }
+    return { realized, unrealized, unpriced };
+  }, [filteredAndSortedFlips, positionsByFlip]);
+
   const handleEditFlip = (flip: Flip) => {
     setEditingFlip(flip);
   };
@@ -157,6 +183,9 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
     sellPrice?: number;
     buyDate: Date;
     sellDate?: Date;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => {
     if (editingFlip) {
       onEdit(editingFlip.id, data);
@@ -165,21 +194,24 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
   };
 
   const exportToCSV = () => {
-    const headers = ["Item", "Quantity", "Buy Price", "Sell Price", "Buy Date", "Sell Date", "Profit", "ROI %", "Category", "Strategy", "Notes"];
+    const headers = ["Item", "Quantity", "Sold", "Buy Price", "Avg Sell Price", "Buy Date", "Last Sell Date", "Profit", "ROI %", "Category", "Tags", "Notes"];
     const rows = filteredAndSortedFlips.map(flip => {
+      const summary = summarizeFlipSells(flip);
       const profit = calculateProfit(flip);
       const roi = calculateROI(flip);
       return [
         flip.itemName,
         flip.quantity,
+        summary.soldQuantity,
         flip.buyPrice,
-        flip.sellPrice || "",
+        summary.averageSellPrice ?? "",
         new Date(flip.buyDate).toLocaleDateString(),
-        flip.sellDate ? new Date(flip.sellDate).toLocaleDateString() : "",
+        summary.lastSellDate ? summary.lastSellDate.toLocaleDateString() : "",
         profit !== null ? profit : "",
         roi !== null ? roi.toFixed(2) : "",
         flip.category || "",
-        flip.strategyTag || "",
+        // Semicolons keep multiple tags in one column; the CSV import splits on them
+        (flip.tags ?? []).map(tag => tag.name).join("; "),
         flip.notes || "",
       ].join(",");
     });
@@ -261,9 +293,18 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
               <DropdownMenuItem onClick={() => setStatusFilter("completed")}>
                 Completed {statusFilter === "completed" && "✓"}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStatusFilter("partially_sold")}>
+                Partially Sold {statusFilter === "partially_sold" && "✓"}
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={() => setStatusFilter("open")}>
                 Open {statusFilter === "open" && "✓"}
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStatusFilter("cancelled")}>
+                Cancelled {statusFilter === "cancelled" && "✓"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setStatusFilter("written_off")}>
+                Written Off {statusFilter === "written_off" && "✓"}
+              </DropdownMenuItem>
               
               <DropdownMenuSeparator />
               <DropdownMenuLabel>Category</DropdownMenuLabel>
@@ -281,9 +322,10 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
               <DropdownMenuItem onClick={() => setStrategyFilter("all")}>
                 All Strategies {strategyFilter === "all" && "✓"}
               </DropdownMenuItem>
-              {STRATEGIES.map(strat => (
-                <DropdownMenuItem key={strat} onClick={() => setStrategyFilter(strat)}>
-                  {strat} {strategyFilter === strat && "✓"}
+              {tags.map(tag => (
+                <DropdownMenuItem key={tag.id} onClick={() => setStrategyFilter(tag.id)}>
+                  <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                  {tag.name} {strategyFilter === tag.id && "✓"}
                 </DropdownMenuItem>
               ))}
 
@@ -342,6 +384,18 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
           >
             <Download className="h-4 w-4" />
           </Button>
+
+          {onImport && (
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={onImport}
+              title="Import from CSV"
+              data-testid="button-import-csv"
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+          )}
         </div>
       </div>
 
@@ -350,7 +404,7 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
           <span className="text-xs text-muted-foreground">Active filters:</span>
           {statusFilter !== "all" && (
             <Badge variant="secondary" className="text-xs h-5 gap-1">
-              Status: {statusFilter}
+              Status: {statusFilter === "completed" ? "Completed" : FLIP_STATUS_LABELS[statusFilter]}
               <X 
                 className="h-3 w-3 cursor-pointer" 
                 onClick={() => setStatusFilter("all")}
@@ -368,7 +422,7 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
           )}
           {strategyFilter !== "all" && (
             <Badge variant="secondary" className="text-xs h-5 gap-1">
-              {strategyFilter}
+              {strategyFilterTag?.name ?? "Tag"}
               <X 
                 className="h-3 w-3 cursor-pointer" 
                 onClick={() => setStrategyFilter("all")}
@@ -378,10 +432,15 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
         </div>
       )}
 
-      <div className="flex items-center justify-between text-sm text-muted-foreground">
+      <div className="flex items-center justify-between gap-2 flex-wrap text-sm text-muted-foreground">
         <span>
           Showing {filteredAndSortedFlips.length} of {flips.length} flips
         </span>
+        <PnlSummary
+          realized={pnl.realized}
+          unrealized={valuation ? pnl.unrealized : null}
+          unpricedPositions={pnl.unpriced}
+        />
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
@@ -393,6 +452,8 @@ export function FlipCardGrid({ flips, onDelete, onEdit, onQuickSell, onViewChart
             onEdit={handleEditFlip}
             onQuickSell={onQuickSell}
             onViewChart={onViewChart}
+            onMoveToPortfolio={onMoveToPortfolio}
+            valuation={positionsByFlip.get(flip.id)}
           />
         ))}
       </div>
@@ -1,33 +1,28 @@
-import { useState, useEffect, useRef, useMemo } from "react";
+import { useState, useRef, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar } from "@/components/ui/calendar";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { CalendarIcon, Search, Loader2, TrendingUp, TrendingDown, Minus, ThumbsUp, ThumbsDown, Clock, AlertTriangle, Star, X, Sparkles, ChevronDown, ChevronUp, LineChart } from "lucide-react";
-import { format, subDays } from "date-fns";
+import { format, formatDistanceToNow, subDays } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Favorite, RsAccount } from "@shared/schema";
+import type { Favorite, MarginCheck, RsAccount } from "@shared/schema";
 import { PriceHistoryChart } from "./PriceHistoryChart";
+import { TagPicker } from "./TagPicker";
+import { ListPriceHelper } from "./ListPriceHelper";
+import { MarginCheckEntry } from "./MarginCheckEntry";
 import { calculateFlipTax, formatGp } from "@shared/taxCalculator";
 import { parseGp } from "@shared/gpParser";
-
-interface GEItem {
-  id: number;
-  name: string;
-  price: number;
-  volume?: number;
-  icon?: string;
-  isMembers?: boolean;
-  geLimit?: number;
-  examine?: string;
-}
+import { BUY_LIMIT_WINDOW_MS, exceedsBuyLimit, type BuyLimitStatus } from "@shared/buyLimits";
+import { useItemSearch, type GEItem } from "@/hooks/useItemSearch";
 
 interface PriceTrend {
   direction: "rising" | "falling" | "stable";
@@ -58,6 +53,8 @@ interface PriceSuggestion {
   highPrice30d: number;
   volatility: number;
   trend: "rising" | "falling" | "stable";
+  source?: "history" | "margin_check";
+  marginCheck?: MarginCheck | null;
 }
 
 interface OpenPosition {
@@ -80,7 +77,7 @@ interface FlipFormProps {
     sellDate?: Date;
     notes?: string;
     category?: string;
-    strategyTag: "Fast Flip" | "Slow Flip" | "Bulk" | "High Margin" | "Speculative" | "Other";
+    tagIds: string[];
     membershipStatus: "F2P" | "Members" | "Unknown";
     rsAccountId?: string;
     isMembers?: boolean;
@@ -91,8 +88,6 @@ interface FlipFormProps {
 
 const CATEGORIES = ["High Value", "Consumables", "Weapons", "Armor", "Skilling", "Misc"];
 
-const STRATEGIES = ["Fast Flip", "Slow Flip", "Bulk", "High Margin", "Speculative", "Other"];
-
 const MEMBERSHIP_STATUSES = ["F2P", "Members", "Unknown"] as const;
 
 export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
@@ -104,7 +99,7 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
   const [sellDate, setSellDate] = useState<Date | undefined>(undefined);
   const [notes, setNotes] = useState("");
   const [category, setCategory] = useState("none");
-  const [strategyTag, setStrategyTag] = useState<"Fast Flip" | "Slow Flip" | "Bulk" | "High Margin" | "Speculative" | "Other">("Other");
+  const [tagIds, setTagIds] = useState<string[]>([]);
   const [membershipStatus, setMembershipStatus] = useState<"F2P" | "Members" | "Unknown">("Unknown");
   const [selectedRsAccountId, setSelectedRsAccountId] = useState<string>("");
   const [buyDateOpen, setBuyDateOpen] = useState(false);
@@ -115,26 +110,41 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
   const { data: rsAccounts = [] } = useQuery<RsAccount[]>({
     queryKey: ["/api/rs-accounts"],
   });
+
+  // How much of the item's 4-hour buy limit the selected account has already used
+  const [limitOverride, setLimitOverride] = useState(false);
+  const buyLimitParams = gePrice
+    ? new URLSearchParams({
+        itemId: String(gePrice.id),
+        itemName: gePrice.name,
+        ...(selectedRsAccountId ? { rsAccountId: selectedRsAccountId } : {}),
+      }).toString()
+    : null;
+  const { data: buyLimit } = useQuery<BuyLimitStatus>({
+    queryKey: ["/api/buy-limits", `item?${buyLimitParams}`],
+    enabled: !!buyLimitParams,
+    staleTime: 60 * 1000,
+  });
+  // Buys logged with an older date are outside the window and don't count
+  const countsTowardsLimit = Date.now() - buyDate.getTime() < BUY_LIMIT_WINDOW_MS;
+  const overBuyLimit = !!buyLimit && countsTowardsLimit && exceedsBuyLimit(buyLimit, parseInt(quantity) || 0);
   
   const taxCalc = useMemo(() => {
     const buy = parseGp(buyPrice) || 0;
     const sell = parseGp(sellPrice) || 0;
     const qty = parseInt(quantity) || 1;
     if (sell > 0 && buy > 0) {
-      return calculateFlipTax(sell, buy, qty, gePrice?.id, itemName);
+      return calculateFlipTax(sell, buy, qty, gePrice?.id, sellDate);
     }
     return null;
-  }, [buyPrice, sellPrice, quantity, gePrice?.id, itemName]);
+  }, [buyPrice, sellPrice, quantity, gePrice?.id, sellDate]);
   const [priceTrend, setPriceTrend] = useState<PriceTrend | null>(null);
   const [aiSuggestions, setAiSuggestions] = useState<PriceSuggestion | null>(null);
   const [showChart, setShowChart] = useState(false);
   const [isLookingUp, setIsLookingUp] = useState(false);
   const [lookupError, setLookupError] = useState("");
 
-  const [suggestions, setSuggestions] = useState<GEItem[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
-  const [showSuggestions, setShowSuggestions] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const { suggestions, isSearching, showSuggestions, setShowSuggestions, clearSuggestions } = useItemSearch(itemName);
   const inputRef = useRef<HTMLInputElement>(null);
 
   const { data: favorites = [] } = useQuery<Favorite[]>({
@@ -214,46 +224,10 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
     );
   }, [itemName, openPositions]);
 
-  useEffect(() => {
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-
-    if (itemName.trim().length < 2) {
-      setSuggestions([]);
-      setShowSuggestions(false);
-      return;
-    }
-
-    searchTimeoutRef.current = setTimeout(async () => {
-      setIsSearching(true);
-      try {
-        const response = await fetch(`/api/ge/search?q=${encodeURIComponent(itemName)}`);
-        if (response.ok) {
-          const items: GEItem[] = await response.json();
-          const validItems = items.filter(item => item.price && item.price > 0).slice(0, 10);
-          setSuggestions(validItems);
-          setShowSuggestions(validItems.length > 0);
-        }
-      } catch (error) {
-        console.error("Search failed:", error);
-      } finally {
-        setIsSearching(false);
-      }
-    }, 300);
-
-    return () => {
-      if (searchTimeoutRef.current) {
-        clearTimeout(searchTimeoutRef.current);
-      }
-    };
-  }, [itemName]);
-
   const handleSelectItem = (item: GEItem) => {
     setItemName(item.name);
     setGePrice(item);
-    setSuggestions([]);
-    setShowSuggestions(false);
+    clearSuggestions();
     
     if (item.isMembers !== undefined) {
       setMembershipStatus(item.isMembers ? "Members" : "F2P");
@@ -362,6 +336,7 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
     const parsedSellPrice = sellPrice ? parseGp(sellPrice) : undefined;
     
     if (!itemName || !quantity || !parsedBuyPrice || !buyDate) return;
+    if (overBuyLimit && !limitOverride) return;
 
     onSubmit({
       itemName,
@@ -374,7 +349,7 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
       sellDate: sellDate,
       notes: notes || undefined,
       category: category && category !== "none" ? category : undefined,
-      strategyTag,
+      tagIds,
       membershipStatus,
       rsAccountId: selectedRsAccountId || undefined,
       isMembers: gePrice?.isMembers,
@@ -390,14 +365,14 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
     setNotes("");
     setMembershipStatus("Unknown");
     setCategory("none");
-    setStrategyTag("Other");
+    setTagIds([]);
+    setLimitOverride(false);
     setGePrice(null);
     setPriceTrend(null);
     setAiSuggestions(null);
     setShowChart(false);
     setLookupError("");
-    setSuggestions([]);
-    setShowSuggestions(false);
+    clearSuggestions();
   };
 
   const handleUseSuggestedBuyPrice = () => {
@@ -697,19 +672,8 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="strategy" className="flex items-center gap-1">
-                  Strategy <span className="text-destructive">*</span>
-                </Label>
-                <Select value={strategyTag} onValueChange={(v) => setStrategyTag(v as typeof strategyTag)}>
-                  <SelectTrigger id="strategy" data-testid="select-strategy">
-                    <SelectValue placeholder="Select strategy..." />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {STRATEGIES.map(strat => (
-                      <SelectItem key={strat} value={strat}>{strat}</SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="strategy">Strategy Tags</Label>
+                <TagPicker id="strategy" value={tagIds} onChange={setTagIds} />
               </div>
             </div>
 
@@ -870,7 +834,14 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
                         <Sparkles className="h-4 w-4 text-primary" />
                         <span className="font-medium text-sm">AI Price Suggestions</span>
                       </div>
-                      {getConfidenceBadge()}
+                      <div className="flex items-center gap-2">
+                        {aiSuggestions.source === "margin_check" && aiSuggestions.marginCheck && (
+                          <Badge variant="outline" className="text-xs" data-testid="badge-margin-check-source">
+                            From margin check · {formatDistanceToNow(new Date(aiSuggestions.marginCheck.checkedAt), { addSuffix: true })}
+                          </Badge>
+                        )}
+                        {getConfidenceBadge()}
+                      </div>
                     </div>
 
                     <div className="grid grid-cols-2 gap-3">
@@ -950,6 +921,15 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
                   </div>
                 )}
 
+                {gePrice?.id && (
+                  <MarginCheckEntry
+                    itemId={gePrice.id}
+                    itemName={gePrice.name}
+                    rsAccountId={selectedRsAccountId || undefined}
+                    onSaved={() => fetchTrend(gePrice.id)}
+                  />
+                )}
+
                 {gePrice?.id && (
                   <div className="space-y-2">
                     <Button
@@ -988,6 +968,27 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
               className="font-mono"
               required
             />
+            {buyLimit && (buyLimit.limit !== null || buyLimit.used > 0) && (
+              <p
+                className={cn("text-xs", overBuyLimit ? "text-destructive" : "text-muted-foreground")}
+                data-testid="text-buy-limit"
+              >
+                {buyLimit.limit !== null
+                  ? `${buyLimit.remaining!.toLocaleString()} of ${buyLimit.limit.toLocaleString()} remaining`
+                  : `${buyLimit.used.toLocaleString()} bought in the last 4 hours (limit unknown)`}
+                {buyLimit.resetsAt && `, resets at ${format(new Date(buyLimit.resetsAt), "HH:mm")}`}
+              </p>
+            )}
+            {overBuyLimit && (
+              <label className="flex items-center gap-2 text-xs text-destructive">
+                <Checkbox
+                  checked={limitOverride}
+                  onCheckedChange={(checked) => setLimitOverride(!!checked)}
+                  data-testid="checkbox-buy-limit-override"
+                />
+                This goes over the GE buy limit. Log it anyway
+              </label>
+            )}
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -1022,18 +1023,27 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
             <div className="space-y-2">
               <div className="flex items-center justify-between gap-2">
                 <Label htmlFor="sellPrice">Sell Price</Label>
-                {gePrice && (
-                  <Button 
-                    type="button" 
-                    variant="ghost" 
-                    size="sm"
-                    className="h-auto px-2 py-0.5 text-xs"
-                    onClick={handleUseSellPrice}
-                    data-testid="button-use-sell-price"
-                  >
-                    Use GE
-                  </Button>
-                )}
+                <div className="flex items-center gap-1">
+                  <ListPriceHelper
+                    buyPrice={parseGp(buyPrice) || 0}
+                    quantity={parseInt(quantity) || 1}
+                    itemId={gePrice?.id}
+                    sellDate={sellDate}
+                    onUse={(price) => setSellPrice(price.toString())}
+                  />
+                  {gePrice && (
+                    <Button 
+                      type="button" 
+                      variant="ghost" 
+                      size="sm"
+                      className="h-auto px-2 py-0.5 text-xs"
+                      onClick={handleUseSellPrice}
+                      data-testid="button-use-sell-price"
+                    >
+                      Use GE
+                    </Button>
+                  )}
+                </div>
               </div>
               <Input
                 id="sellPrice"
@@ -1047,7 +1057,7 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
               {taxCalc && (
                 <div className="space-y-1 text-xs">
                   <div className="flex justify-between text-muted-foreground">
-                    <span>Tax ({taxCalc.isTaxExempt ? "Exempt" : "2%"}):</span>
+                    <span>Tax ({taxCalc.isTaxExempt ? "Exempt" : `${taxCalc.taxRate * 100}%`}):</span>
                     <span className="font-mono text-destructive">
                       -{formatGp(taxCalc.totalTax)} gp
                     </span>
@@ -1213,7 +1223,7 @@ export function FlipForm({ onSubmit, openPositions = [] }: FlipFormProps) {
             />
           </div>
 
-          <Button type="submit" className="w-full" data-testid="button-add-flip">
+          <Button type="submit" className="w-full" disabled={overBuyLimit && !limitOverride} data-testid="button-add-flip">
             Add Flip
           </Button>
         </form>
@@ -0,0 +1,175 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow, format } from "date-fns";
+import { History, Loader2, RotateCcw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FlipRevisionWithUser } from "@shared/schema";
+import type { FlipSnapshotField, FlipSnapshotSell, FlipSnapshotTag, FlipRevisionAction } from "@shared/flipRevisions";
+import { FLIP_STATUS_LABELS, type FlipStatus } from "@shared/flipStatus";
+
+const FIELD_LABELS: Record<FlipSnapshotField, string> = {
+  rsAccountId: "Account",
+  itemName: "Item",
+  itemIcon: "Icon",
+  itemId: "Item ID",
+  quantity: "Quantity",
+  buyPrice: "Buy price",
+  sellPrice: "Sell price",
+  buyDate: "Buy date",
+  sellDate: "Sell date",
+  notes: "Notes",
+  category: "Category",
+  tags: "Tags",
+  membershipStatus: "Membership",
+  isMembers: "Members item",
+  geLimit: "GE limit",
+  status: "Status",
+  closedAt: "Closed",
+  deletedAt: "Deleted",
+  sells: "Sells",
+};
+
+const ACTION_LABELS: Record<FlipRevisionAction, string> = {
+  create: "Created",
+  update: "Edited",
+  delete: "Deleted",
+  restore: "Restored",
+  revert: "Reverted",
+  move_to_portfolio: "Moved to portfolio",
+  undo_portfolio_move: "Back from portfolio",
+};
+
+// Icons are long URLs and only change alongside the item, so they're left out of the diff
+const HIDDEN_FIELDS: FlipSnapshotField[] = ["itemIcon"];
+
+function formatValue(field: FlipSnapshotField, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "sells" && Array.isArray(value)) {
+    if (value.length === 0) return "none";
+    return (value as FlipSnapshotSell[])
+      .map(sell => `${sell.quantity.toLocaleString()} @ ${sell.sellPrice.toLocaleString()}`)
+      .join(", ");
+  }
+  if (field === "tags" && Array.isArray(value)) {
+    return value.length === 0 ? "none" : (value as FlipSnapshotTag[]).map(tag => tag.name).join(", ");
+  }
+  if (field === "status") {
+    return FLIP_STATUS_LABELS[value as FlipStatus] ?? String(value);
+  }
+  if (field === "buyDate" || field === "sellDate" || field === "closedAt" || field === "deletedAt") {
+    return format(new Date(value as string), "MMM d, yyyy");
+  }
+  if (typeof value === "number") return value.toLocaleString();
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+function editorName(revision: FlipRevisionWithUser): string {
+  const editor = revision.changedByUser;
+  if (!editor) return "Unknown";
+  return [editor.firstName, editor.lastName].filter(Boolean).join(" ") || editor.email || "Unknown";
+}
+
+interface FlipHistoryPanelProps {
+  flipId: string;
+  onReverted?: () => void;
+}
+
+export function FlipHistoryPanel({ flipId, onReverted }: FlipHistoryPanelProps) {
+  const { toast } = useToast();
+
+  const { data: revisions = [], isLoading } = useQuery<FlipRevisionWithUser[]>({
+    queryKey: ["/api/flips", flipId, "revisions"],
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      return await apiRequest("POST", `/api/flips/${flipId}/revisions/${revisionId}/revert`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      toast({ title: "Flip reverted" });
+      onReverted?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to revert flip"), variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-8 text-center">
+        <History className="h-6 w-6 text-muted-foreground mb-2" />
+        <p className="text-sm text-muted-foreground">No history recorded for this flip yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-h-[420px] space-y-3 overflow-y-auto pr-1" data-testid="list-flip-history">
+      {revisions.map((revision, index) => {
+        const fields = (Object.keys(revision.changes) as FlipSnapshotField[])
+          .filter(field => !HIDDEN_FIELDS.includes(field));
+
+        return (
+          <div key={revision.id} className="rounded-md border p-3 space-y-2" data-testid={`row-revision-${revision.id}`}>
+            <div className="flex items-start justify-between gap-2">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant={index === 0 ? "default" : "secondary"}>{ACTION_LABELS[revision.action]}</Badge>
+                  <span className="text-sm font-medium">{editorName(revision)}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {revision.createdAt
+                    ? formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })
+                    : "Unknown time"}
+                </p>
+              </div>
+              {index > 0 && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => revertMutation.mutate(revision.id)}
+                  disabled={revertMutation.isPending}
+                  data-testid={`button-revert-${revision.id}`}
+                >
+                  {revertMutation.isPending && revertMutation.variables === revision.id ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                  )}
+                  Revert
+                </Button>
+              )}
+            </div>
+            {revision.action !== "create" && fields.length > 0 && (
+              <ul className="space-y-1 text-xs">
+                {fields.map(field => (
+                  <li key={field} className="flex flex-wrap gap-1">
+                    <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}:</span>
+                    <span className="font-mono line-through text-muted-foreground">
+                      {formatValue(field, revision.changes[field]?.from)}
+                    </span>
+                    <span className="text-muted-foreground">→</span>
+                    <span className="font-mono">{formatValue(field, revision.changes[field]?.to)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,11 +1,15 @@
-import { useState, useMemo } from "react";
-import { ArrowDownIcon, ArrowUpIcon, Trash2, Pencil, ChevronUp, ChevronDown, Search, X, Filter, MoreHorizontal, Tag, Zap, Loader2, Download, LineChart } from "lucide-react";
+import { useState, useMemo, useEffect, useRef } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowDownIcon, ArrowUpIcon, Trash2, Pencil, ChevronUp, ChevronDown, Search, X, Filter, MoreHorizontal, Tag, Zap, Loader2, Download, LineChart, Briefcase } from "lucide-react";
 import { ItemIcon } from "./ItemIcon";
+import { TagBadge } from "./TagBadge";
+import { PnlSummary } from "./PnlSummary";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { formatDistanceToNow } from "date-fns";
-import { EditFlipDialog } from "./EditFlipDialog";
+import { EditFlipDialog, type EditFlipSell } from "./EditFlipDialog";
 import {
   Select,
   SelectContent,
@@ -20,9 +24,19 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { summarizeFlipSells, type SellFill } from "@shared/flipSells";
+import { FLIP_STATUS_LABELS, type FlipStatus } from "@shared/flipStatus";
+import type { FlipPage } from "@shared/flipQuery";
+import type { StrategyTag } from "@shared/schema";
+import { useFlipValuation } from "@/hooks/useFlipValuation";
 
 const CATEGORIES = ["High Value", "Consumables", "Weapons", "Armor", "Skilling", "Misc"];
 
+// Rows have a fixed height so only the visible slice of the loaded pages is rendered
+const ROW_HEIGHT = 76;
+const VIEWPORT_HEIGHT = 640;
+const OVERSCAN = 8;
+
 interface Flip {
   id: string;
   itemName: string;
@@ -35,14 +49,31 @@ interface Flip {
   sellDate?: Date;
   notes?: string;
   category?: string;
+  tags?: { id: string; name: string; color: string }[];
+  sells?: SellFill[];
+  status?: string;
+  closedAt?: Date | string | null;
+}
+
+type ApiFlip = Omit<Flip, "buyDate" | "sellDate"> & {
+  buyDate: string;
+  sellDate?: string | null;
+};
+
+function toTableFlip(flip: ApiFlip): Flip {
+  return {
+    ...flip,
+    buyDate: new Date(flip.buyDate),
+    sellDate: flip.sellDate ? new Date(flip.sellDate) : undefined,
+  };
 }
 
 type SortField = "date" | "profit" | "roi" | "item" | "quantity";
 type SortDirection = "asc" | "desc";
-type StatusFilter = "all" | "completed" | "open";
+type StatusFilter = "all" | "completed" | Exclude<FlipStatus, "sold">;
 
 interface FlipTableProps {
-  flips: Flip[];
+  pageSize?: number;
   onDelete: (id: string) => void;
   onEdit: (id: string, data: Partial<{
     quantity: number;
@@ -50,26 +81,39 @@ interface FlipTableProps {
     sellPrice?: number;
     buyDate: Date;
     sellDate?: Date;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => void;
   onBulkDelete?: (ids: string[]) => void;
   onQuickSell?: (id: string, itemName: string) => Promise<void>;
   onViewChart?: (itemId: number | undefined, itemName: string) => void;
+  onMoveToPortfolio?: (id: string) => void;
 }
 
-const GE_TAX_RATE = 0.02;
-
-export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell, onViewChart }: FlipTableProps) {
+export function FlipTable({ pageSize = 50, onDelete, onEdit, onBulkDelete, onQuickSell, onViewChart, onMoveToPortfolio }: FlipTableProps) {
   const [editingFlip, setEditingFlip] = useState<Flip | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [sortField, setSortField] = useState<SortField>("date");
   const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [categoryFilter, setCategoryFilter] = useState<string>("all");
+  const [strategyFilter, setStrategyFilter] = useState<string>("all"); // tag id
+
+  const { valuation, positionsByFlip } = useFlipValuation();
+  const { data: tags = [] } = useQuery<StrategyTag[]>({
+    queryKey: ["/api/tags"],
+  });
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [quickSellLoadingId, setQuickSellLoadingId] = useState<string | null>(null);
 
   const handleQuickSell = async (flip: Flip) => {
-    if (!onQuickSell || flip.sellPrice) return;
+    if (!onQuickSell || summarizeFlipSells(flip).remainingQuantity === 0) return;
     setQuickSellLoadingId(flip.id);
     try {
       await onQuickSell(flip.id, flip.itemName);
@@ -78,88 +122,94 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
     }
   };
 
-  const calculateGETax = (sellPrice: number, quantity: number) => {
-    // 2% tax per item, floored, then multiplied by quantity
-    const taxPerItem = Math.floor(sellPrice * GE_TAX_RATE);
-    return taxPerItem * quantity;
-  };
-
+  // Profit, ROI and tax are realized per sell fill, so partially sold flips count the sold part.
+  // A write-off books its loss even without sells.
   const calculateProfit = (flip: Flip) => {
-    if (!flip.sellPrice) return null;
-    const grossRevenue = flip.sellPrice * flip.quantity;
-    const tax = calculateGETax(flip.sellPrice, flip.quantity);
-    const netRevenue = grossRevenue - tax;
-    const totalCost = flip.buyPrice * flip.quantity;
-    return netRevenue - totalCost;
+    const summary = summarizeFlipSells(flip);
+    if (summary.soldQuantity === 0 && summary.writeOffLoss === 0) return null;
+    return summary.profit;
   };
 
   const calculateROI = (flip: Flip) => {
-    if (!flip.sellPrice) return null;
-    const profit = calculateProfit(flip);
-    if (profit === null) return null;
-    const totalCost = flip.buyPrice * flip.quantity;
-    return (profit / totalCost) * 100;
+    const summary = summarizeFlipSells(flip);
+    if (summary.soldQuantity === 0 && summary.writeOffLoss === 0) return null;
+    return summary.roi;
   };
 
   const getTaxPaid = (flip: Flip) => {
-    if (!flip.sellPrice) return null;
-    return calculateGETax(flip.sellPrice, flip.quantity);
+    const summary = summarizeFlipSells(flip);
+    if (summary.soldQuantity === 0) return null;
+    return summary.totalTax;
   };
 
   const formatPrice = (price: number) => {
     return price.toLocaleString();
   };
 
-  const filteredAndSortedFlips = useMemo(() => {
-    let result = [...flips];
-
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      result = result.filter(flip => 
-        flip.itemName.toLowerCase().includes(query)
-      );
-    }
-
-    if (statusFilter === "completed") {
-      result = result.filter(flip => flip.sellPrice !== undefined && flip.sellPrice !== null);
-    } else if (statusFilter === "open") {
-      result = result.filter(flip => flip.sellPrice === undefined || flip.sellPrice === null);
-    }
-
-    if (categoryFilter !== "all") {
-      result = result.filter(flip => flip.category === categoryFilter);
-    }
-
-    result.sort((a, b) => {
-      let comparison = 0;
-      
-      switch (sortField) {
-        case "date":
-          comparison = new Date(a.buyDate).getTime() - new Date(b.buyDate).getTime();
-          break;
-        case "profit":
-          const profitA = calculateProfit(a) ?? -Infinity;
-          const profitB = calculateProfit(b) ?? -Infinity;
-          comparison = profitA - profitB;
-          break;
-        case "roi":
-          const roiA = calculateROI(a) ?? -Infinity;
-          const roiB = calculateROI(b) ?? -Infinity;
-          comparison = roiA - roiB;
-          break;
-        case "item":
-          comparison = a.itemName.localeCompare(b.itemName);
-          break;
-        case "quantity":
-          comparison = a.quantity - b.quantity;
-          break;
-      }
-      
-      return sortDirection === "desc" ? -comparison : comparison;
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchQuery]);
+
+  // Filtering and sorting happen server-side; see shared/flipQuery.ts
+  const queryParams = useMemo(() => {
+    const params = new URLSearchParams({
+      limit: String(pageSize),
+      sort: sortField,
+      direction: sortDirection,
     });
-
-    return result;
-  }, [flips, searchQuery, sortField, sortDirection, statusFilter, categoryFilter]);
+    if (debouncedSearch) params.set("item", debouncedSearch);
+    if (statusFilter !== "all") params.set("status", statusFilter === "completed" ? "sold" : statusFilter);
+    if (categoryFilter !== "all") params.set("category", categoryFilter);
+    if (strategyFilter !== "all") params.set("tagId", strategyFilter);
+    if (dateFrom) params.set("dateFrom", new Date(`${dateFrom}T00:00:00`).toISOString());
+    if (dateTo) params.set("dateTo", new Date(`${dateTo}T23:59:59.999`).toISOString());
+    return params.toString();
+  }, [pageSize, sortField, sortDirection, debouncedSearch, statusFilter, categoryFilter, strategyFilter, dateFrom, dateTo]);
+
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery<FlipPage<ApiFlip>>({
+    queryKey: ["/api/flips", "page", queryParams],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam as string)}` : "";
+      const res = await fetch(`/api/flips?${queryParams}${cursor}`, { credentials: "include" });
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return res.json();
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const loadedFlips = useMemo(
+    () => (data?.pages ?? []).flatMap(page => page.items.map(toTableFlip)),
+    [data],
+  );
+  const totalFlips = data?.pages[0]?.total ?? 0;
+
+  // Reset the scroll position whenever the result set changes
+  useEffect(() => {
+    setScrollTop(0);
+    scrollRef.current?.scrollTo({ top: 0 });
+    setSelectedIds(new Set());
+  }, [queryParams]);
+
+  const firstVisible = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastVisible = Math.min(loadedFlips.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleFlips = loadedFlips.slice(firstVisible, lastVisible);
+
+  // Load the next page once the user scrolls near the end of what's loaded
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && lastVisible >= loadedFlips.length - OVERSCAN) {
+      fetchNextPage();
+    }
+  }, [lastVisible, loadedFlips.length, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   const toggleSort = (field: SortField) => {
     if (sortField === field) {
@@ -172,7 +222,7 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedIds(new Set(filteredAndSortedFlips.map(f => f.id)));
+      setSelectedIds(new Set(loadedFlips.map(f => f.id)));
     } else {
       setSelectedIds(new Set());
     }
@@ -196,9 +246,11 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
   };
 
   const exportToCSV = () => {
-    const headers = ["Item Name", "Category", "Quantity", "Buy Price", "Sell Price", "Profit", "ROI %", "Tax Paid", "Buy Date", "Sell Date", "Notes"];
+    const headers = ["Item Name", "Category", "Quantity", "Sold", "Buy Price", "Avg Sell Price", "Profit", "ROI %", "Tax Paid", "Buy Date", "Last Sell Date", "Notes"];
     
-    const rows = filteredAndSortedFlips.map((flip) => {
+    // Exports the rows loaded so far
+    const rows = loadedFlips.map((flip) => {
+      const summary = summarizeFlipSells(flip);
       const profit = calculateProfit(flip);
       const roi = calculateROI(flip);
       const tax = getTaxPaid(flip);
@@ -207,13 +259,14 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
         flip.itemName,
         flip.category || "",
         flip.quantity.toString(),
+        summary.soldQuantity.toString(),
         flip.buyPrice.toString(),
-        flip.sellPrice?.toString() || "",
+        summary.averageSellPrice?.toString() || "",
         profit !== null ? Math.round(profit).toString() : "",
         roi !== null ? roi.toFixed(2) : "",
         tax !== null ? Math.round(tax).toString() : "",
         new Date(flip.buyDate).toISOString().split("T")[0],
-        flip.sellDate ? new Date(flip.sellDate).toISOString().split("T")[0] : "",
+        summary.lastSellDate ? summary.lastSellDate.toISOString().split("T")[0] : "",
         flip.notes || "",
       ];
     });
@@ -248,6 +301,9 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
     sellPrice?: number;
     buyDate: Date;
     sellDate?: Date;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => {
     if (editingFlip) {
       onEdit(editingFlip.id, data);
@@ -259,13 +315,17 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
     setSearchQuery("");
     setStatusFilter("all");
     setCategoryFilter("all");
+    setStrategyFilter("all");
+    setDateFrom("");
+    setDateTo("");
     setSortField("date");
     setSortDirection("desc");
   };
 
-  const hasActiveFilters = searchQuery.trim() || statusFilter !== "all" || categoryFilter !== "all" || sortField !== "date" || sortDirection !== "desc";
+  const hasActiveFilters = searchQuery.trim() || statusFilter !== "all" || categoryFilter !== "all" || strategyFilter !== "all"
+    || dateFrom || dateTo || sortField !== "date" || sortDirection !== "desc";
 
-  if (flips.length === 0) {
+  if (!isLoading && totalFlips === 0 && !hasActiveFilters) {
     return (
       <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-16 text-center">
         <div className="mb-4 rounded-full bg-muted p-4">
@@ -302,7 +362,10 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
             <SelectContent>
               <SelectItem value="all">All Flips</SelectItem>
               <SelectItem value="completed">Completed</SelectItem>
+              <SelectItem value="partially_sold">Partially Sold</SelectItem>
               <SelectItem value="open">Open</SelectItem>
+              <SelectItem value="cancelled">Cancelled</SelectItem>
+              <SelectItem value="written_off">Written Off</SelectItem>
             </SelectContent>
           </Select>
 
@@ -319,6 +382,38 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
             </SelectContent>
           </Select>
 
+          <Select value={strategyFilter} onValueChange={setStrategyFilter}>
+            <SelectTrigger className="w-[140px]" data-testid="select-strategy-filter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Strategies</SelectItem>
+              {tags.map((tag) => (
+                <SelectItem key={tag.id} value={tag.id}>{tag.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <div className="flex items-center gap-2">
+            <Input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-[150px]"
+              aria-label="Bought from"
+              data-testid="input-date-from"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-[150px]"
+              aria-label="Bought until"
+              data-testid="input-date-to"
+            />
+          </div>
+
           <Select value={`${sortField}-${sortDirection}`} onValueChange={(v) => {
             const [field, dir] = v.split("-") as [SortField, SortDirection];
             setSortField(field);
@@ -346,7 +441,7 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
             </Button>
           )}
 
-          <Button variant="outline" size="sm" onClick={exportToCSV} data-testid="button-export-csv">
+          <Button variant="outline" size="sm" onClick={exportToCSV} disabled={loadedFlips.length === 0} data-testid="button-export-csv">
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
@@ -365,7 +460,11 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
           </div>
         )}
 
-        {filteredAndSortedFlips.length === 0 ? (
+        {isLoading ? (
+          <div className="flex items-center justify-center rounded-lg border py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadedFlips.length === 0 ? (
           <div className="flex flex-col items-center justify-center rounded-lg border border-dashed py-12 text-center">
             <Search className="h-8 w-8 text-muted-foreground mb-4" />
             <h3 className="mb-2 text-lg font-semibold">No matching flips</h3>
@@ -378,14 +477,20 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
           </div>
         ) : (
           <div className="rounded-lg border">
-            <div className="overflow-x-auto">
+            <div
+              ref={scrollRef}
+              className="overflow-auto"
+              style={{ maxHeight: VIEWPORT_HEIGHT }}
+              onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+              data-testid="flip-table-scroll"
+            >
               <table className="w-full">
-                <thead>
-                  <tr className="border-b bg-muted/50">
+                <thead className="sticky top-0 z-10">
+                  <tr className="border-b bg-muted">
                     {onBulkDelete && (
                       <th className="px-4 py-3 w-10">
                         <Checkbox
-                          checked={selectedIds.size === filteredAndSortedFlips.length && filteredAndSortedFlips.length > 0}
+                          checked={selectedIds.size === loadedFlips.length && loadedFlips.length > 0}
                           onCheckedChange={handleSelectAll}
                           data-testid="checkbox-select-all"
                         />
@@ -431,15 +536,24 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredAndSortedFlips.map((flip, index) => {
+                  {firstVisible > 0 && (
+                    <tr aria-hidden style={{ height: firstVisible * ROW_HEIGHT }} />
+                  )}
+                  {visibleFlips.map((flip, offset) => {
+                    const index = firstVisible + offset;
+                    const summary = summarizeFlipSells(flip);
                     const profit = calculateProfit(flip);
                     const roi = calculateROI(flip);
                     const isProfit = profit !== null && profit > 0;
                     const isLoss = profit !== null && profit < 0;
+                    const unrealized = summary.remainingQuantity > 0
+                      ? positionsByFlip.get(flip.id)?.unrealizedProfit ?? null
+                      : null;
 
                     return (
                       <tr
                         key={flip.id}
+                        style={{ height: ROW_HEIGHT }}
                         className={`hover-elevate border-b transition-colors ${
                           index % 2 === 0 ? "bg-background" : "bg-card/50"
                         } ${selectedIds.has(flip.id) ? "bg-primary/10" : ""}`}
@@ -458,23 +572,61 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                           <div className="flex items-center gap-3">
                             <ItemIcon itemName={flip.itemName} itemIcon={flip.itemIcon} size="sm" />
                             <div className="flex flex-col gap-1">
-                              <span className="font-medium">{flip.itemName}</span>
-                              {flip.category && (
-                                <Badge variant="secondary" className="text-xs w-fit" data-testid={`badge-category-${flip.id}`}>
-                                  {flip.category}
-                                </Badge>
+                              {flip.itemId ? (
+                                <Link href={`/item/${flip.itemId}`} className="font-medium hover:underline" data-testid={`link-item-${flip.id}`}>
+                                  {flip.itemName}
+                                </Link>
+                              ) : (
+                                <span className="font-medium">{flip.itemName}</span>
+                              )}
+                              {(flip.category || flip.tags?.length) && (
+                                <div className="flex gap-1 overflow-hidden">
+                                  {flip.category && (
+                                    <Badge variant="secondary" className="text-xs w-fit" data-testid={`badge-category-${flip.id}`}>
+                                      {flip.category}
+                                    </Badge>
+                                  )}
+                                  {flip.tags?.map(tag => (
+                                    <TagBadge key={tag.id} tag={tag} className="text-xs w-fit whitespace-nowrap" />
+                                  ))}
+                                </div>
                               )}
                             </div>
                           </div>
                         </td>
                         <td className="px-4 py-3 text-center font-mono text-sm">
-                          {flip.quantity}
+                          {summary.status === "partially_sold" ? (
+                            <div className="flex flex-col items-center" data-testid={`text-partial-${flip.id}`}>
+                              <span>{flip.quantity}</span>
+                              <span className="text-xs text-muted-foreground">
+                                {summary.remainingQuantity} left
+                              </span>
+                            </div>
+                          ) : summary.closedQuantity > 0 ? (
+                            <div className="flex flex-col items-center" data-testid={`text-closed-${flip.id}`}>
+                              <span>{flip.quantity}</span>
+                              <span className={`text-xs ${summary.status === "written_off" ? "text-destructive" : "text-muted-foreground"}`}>
+                                {summary.closedQuantity} {FLIP_STATUS_LABELS[summary.status].toLowerCase()}
+                              </span>
+                            </div>
+                          ) : (
+                            flip.quantity
+                          )}
                         </td>
                         <td className="px-4 py-3 text-right font-mono text-sm">
                           {formatPrice(flip.buyPrice)}
                         </td>
                         <td className="px-4 py-3 text-right font-mono text-sm">
-                          {flip.sellPrice ? formatPrice(flip.sellPrice) : (
+                          {summary.averageSellPrice !== null ? (
+                            <div className="flex flex-col items-end">
+                              <span>{formatPrice(summary.averageSellPrice)}</span>
+                              {summary.fills.length > 1 && (
+                                <span className="text-xs text-muted-foreground">
+                                  avg of {summary.fills.length} sells
+                                </span>
+                              )}
+                            </div>
+                          ) : (
                             <span className="text-muted-foreground">-</span>
                           )}
                         </td>
@@ -497,6 +649,22 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                                   -{formatPrice(Math.round(getTaxPaid(flip)!))} tax
                                 </span>
                               )}
+                              {unrealized !== null && (
+                                <span className="text-xs text-muted-foreground font-mono" data-testid={`text-unrealized-${flip.id}`}>
+                                  {unrealized >= 0 ? "+" : ""}{formatPrice(Math.round(unrealized))} unrealized
+                                </span>
+                              )}
+                            </div>
+                          ) : unrealized !== null ? (
+                            <div className="flex flex-col items-end" data-testid={`text-unrealized-${flip.id}`}>
+                              <span
+                                className={`font-mono text-sm ${
+                                  unrealized > 0 ? "text-success/80" : unrealized < 0 ? "text-destructive/80" : "text-muted-foreground"
+                                }`}
+                              >
+                                {unrealized > 0 ? "+" : ""}{formatPrice(Math.round(unrealized))}
+                              </span>
+                              <span className="text-xs text-muted-foreground">unrealized</span>
                             </div>
                           ) : (
                             <span className="text-muted-foreground">-</span>
@@ -518,8 +686,8 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                         <td className="px-4 py-3">
                           <div className="text-xs text-muted-foreground">
                             <div>Buy: {formatDistanceToNow(flip.buyDate, { addSuffix: true })}</div>
-                            {flip.sellDate && (
-                              <div>Sell: {formatDistanceToNow(flip.sellDate, { addSuffix: true })}</div>
+                            {summary.lastSellDate && (
+                              <div>Sell: {formatDistanceToNow(summary.lastSellDate, { addSuffix: true })}</div>
                             )}
                           </div>
                         </td>
@@ -535,7 +703,7 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                               </Button>
                             </DropdownMenuTrigger>
                             <DropdownMenuContent align="end">
-                              {!flip.sellPrice && onQuickSell && (
+                              {summary.remainingQuantity > 0 && onQuickSell && (
                                 <DropdownMenuItem
                                   onClick={() => handleQuickSell(flip)}
                                   disabled={quickSellLoadingId === flip.id}
@@ -559,6 +727,15 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                                   View Price Chart
                                 </DropdownMenuItem>
                               )}
+                              {summary.status === "open" && onMoveToPortfolio && (
+                                <DropdownMenuItem
+                                  onClick={() => onMoveToPortfolio(flip.id)}
+                                  data-testid={`button-move-to-portfolio-${flip.id}`}
+                                >
+                                  <Briefcase className="h-4 w-4 mr-2" />
+                                  Move to Portfolio
+                                </DropdownMenuItem>
+                              )}
                               <DropdownMenuItem
                                 onClick={() => setEditingFlip(flip)}
                                 data-testid={`button-edit-${flip.id}`}
@@ -580,9 +757,31 @@ export function FlipTable({ flips, onDelete, onEdit, onBulkDelete, onQuickSell,
                       </tr>
                     );
                   })}
+                  {lastVisible < loadedFlips.length && (
+                    <tr aria-hidden style={{ height: (loadedFlips.length - lastVisible) * ROW_HEIGHT }} />
+                  )}
                 </tbody>
               </table>
             </div>
+            <div className="flex items-center justify-between border-t px-4 py-2 text-xs text-muted-foreground">
+              <span data-testid="text-flip-count">
+                Showing {loadedFlips.length.toLocaleString()} of {totalFlips.toLocaleString()} flips
+              </span>
+              {valuation && (
+                <PnlSummary
+                  className="text-xs"
+                  realized={valuation.totals.realizedProfit}
+                  unrealized={valuation.totals.unrealizedProfit}
+                  unpricedPositions={valuation.totals.unpricedPositions}
+                />
+              )}
+              {isFetchingNextPage && (
+                <span className="flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Loading more...
+                </span>
+              )}
+            </div>
           </div>
         )}
       </div>
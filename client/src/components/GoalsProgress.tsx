@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import type { ProfitGoal, Flip } from "@shared/schema";
+import type { ProfitGoal, FlipWithSells } from "@shared/schema";
 import { Progress } from "@/components/ui/progress";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,27 +7,10 @@ import { Badge } from "@/components/ui/badge";
 import { Target, Calendar, CalendarDays, CalendarRange, Check, ArrowRight } from "lucide-react";
 import { Link } from "wouter";
 import { useMemo } from "react";
-import { startOfDay, startOfWeek, startOfMonth, isAfter } from "date-fns";
-
-const GE_TAX_RATE = 0.02;
-
-const calculateGETax = (sellPrice: number, quantity: number) => {
-  // 2% tax per item, floored, then multiplied by quantity
-  const taxPerItem = Math.floor(sellPrice * GE_TAX_RATE);
-  return taxPerItem * quantity;
-};
-
-const calculateProfit = (flip: Flip) => {
-  if (!flip.sellPrice) return 0;
-  const grossRevenue = flip.sellPrice * flip.quantity;
-  const tax = calculateGETax(flip.sellPrice, flip.quantity);
-  const netRevenue = grossRevenue - tax;
-  const totalCost = flip.buyPrice * flip.quantity;
-  return netRevenue - totalCost;
-};
+import { periodProfits } from "@shared/profitLedger";
 
 interface GoalsProgressProps {
-  flips: Flip[];
+  flips: FlipWithSells[];
 }
 
 export function GoalsProgress({ flips }: GoalsProgressProps) {
@@ -35,34 +18,8 @@ export function GoalsProgress({ flips }: GoalsProgressProps) {
     queryKey: ["/api/goals"],
   });
 
-  const profitByPeriod = useMemo(() => {
-    const now = new Date();
-    const dayStart = startOfDay(now);
-    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const monthStart = startOfMonth(now);
-
-    let dailyProfit = 0;
-    let weeklyProfit = 0;
-    let monthlyProfit = 0;
-
-    flips.forEach((flip) => {
-      if (!flip.sellDate || !flip.sellPrice) return;
-      const sellDate = new Date(flip.sellDate);
-      const profit = calculateProfit(flip);
-
-      if (isAfter(sellDate, dayStart) || sellDate.getTime() === dayStart.getTime()) {
-        dailyProfit += profit;
-      }
-      if (isAfter(sellDate, weekStart) || sellDate.getTime() === weekStart.getTime()) {
-        weeklyProfit += profit;
-      }
-      if (isAfter(sellDate, monthStart) || sellDate.getTime() === monthStart.getTime()) {
-        monthlyProfit += profit;
-      }
-    });
-
-    return { daily: dailyProfit, weekly: weeklyProfit, monthly: monthlyProfit };
-  }, [flips]);
+  // Booked per sell fill on its sell date (and per write-off), the same way the server checks goals
+  const profitByPeriod = useMemo(() => periodProfits(flips), [flips]);
 
   const formatPrice = (price: number) => Math.round(price).toLocaleString();
 
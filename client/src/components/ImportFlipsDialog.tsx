@@ -0,0 +1,347 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Upload, CheckCircle2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatGP } from "@/lib/formatters";
+import { format } from "date-fns";
+import {
+  IMPORT_FIELDS,
+  parseCsv,
+  guessColumnMapping,
+  applyColumnMapping,
+  type ImportColumnMapping,
+  type FlipImportResult,
+  type FlipImportPreviewRow,
+} from "@shared/flipImport";
+
+type ImportStep = "upload" | "map" | "preview" | "done";
+
+interface ImportFlipsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const NOT_MAPPED = "none";
+
+const STATUS_BADGES: Record<FlipImportPreviewRow["status"], { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  ready: { label: "Ready", variant: "default" },
+  duplicate: { label: "Duplicate", variant: "secondary" },
+  error: { label: "Error", variant: "destructive" },
+};
+
+export function ImportFlipsDialog({ open, onOpenChange }: ImportFlipsDialogProps) {
+  const { toast } = useToast();
+  const [step, setStep] = useState<ImportStep>("upload");
+  const [csvText, setCsvText] = useState("");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportColumnMapping>({});
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [preview, setPreview] = useState<FlipImportResult | null>(null);
+
+  const reset = () => {
+    setStep("upload");
+    setCsvText("");
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setSkipDuplicates(true);
+    setPreview(null);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const response = await apiRequest("POST", "/api/flips/import", {
+        rows: applyColumnMapping(dataRows, mapping),
+        dryRun,
+        skipDuplicates,
+      });
+      return await response.json() as FlipImportResult;
+    },
+    onSuccess: (result, dryRun) => {
+      setPreview(result);
+      if (dryRun) {
+        setStep("preview");
+        return;
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      setStep("done");
+      toast({
+        title: "Flips imported",
+        description: `${result.imported.toLocaleString()} flip${result.imported !== 1 ? "s" : ""} added to your history`,
+      });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to import flips", variant: "destructive" });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsvText(await file.text());
+  };
+
+  const handleParse = () => {
+    const rows = parseCsv(csvText);
+    if (rows.length === 0) {
+      toast({ title: "Nothing to import", description: "The CSV is empty", variant: "destructive" });
+      return;
+    }
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const headerRow = hasHeader
+      ? rows[0]
+      : Array.from({ length: columnCount }, (_, i) => `Column ${i + 1}`);
+    setHeaders(headerRow);
+    setDataRows(hasHeader ? rows.slice(1) : rows);
+    setMapping(hasHeader ? guessColumnMapping(headerRow) : {});
+    setStep("map");
+  };
+
+  const missingRequired = IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined);
+  const importCount = preview
+    ? preview.summary.ready + (skipDuplicates ? 0 : preview.summary.duplicates)
+    : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Flips from CSV</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV file or paste its contents. Exports from this app import as-is."}
+            {step === "map" && `Match your columns to flip fields (${dataRows.length.toLocaleString()} rows found).`}
+            {step === "preview" && "Review the rows below. Nothing is saved until you confirm."}
+            {step === "done" && "Import finished."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">CSV File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                data-testid="input-import-file"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="import-text">Or paste CSV</Label>
+              <Textarea
+                id="import-text"
+                value={csvText}
+                onChange={(e) => setCsvText(e.target.value)}
+                placeholder={"Item Name,Quantity,Buy Price,Buy Date,Sell Price\nAbyssal whip,10,1.2m,2024-01-05,1.3m"}
+                className="font-mono text-xs"
+                rows={8}
+                data-testid="input-import-text"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="import-has-header"
+                checked={hasHeader}
+                onCheckedChange={(checked) => setHasHeader(checked === true)}
+                data-testid="checkbox-import-header"
+              />
+              <Label htmlFor="import-has-header" className="font-normal">First row is a header</Label>
+            </div>
+          </div>
+        )}
+
+        {step === "map" && (
+          <div className="grid gap-3 sm:grid-cols-2">
+            {IMPORT_FIELDS.map(field => {
+              const index = mapping[field.key];
+              const sample = index !== undefined ? dataRows[0]?.[index] : undefined;
+              return (
+                <div key={field.key} className="space-y-1">
+                  <Label>
+                    {field.label}
+                    {field.required && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={index !== undefined ? index.toString() : NOT_MAPPED}
+                    onValueChange={(value) => setMapping(prev => ({
+                      ...prev,
+                      [field.key]: value === NOT_MAPPED ? undefined : parseInt(value),
+                    }))}
+                  >
+                    <SelectTrigger data-testid={`select-import-${field.key}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                      {headers.map((header, i) => (
+                        <SelectItem key={i} value={i.toString()}>{header || `Column ${i + 1}`}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {sample && (
+                    <p className="text-xs text-muted-foreground font-mono truncate">e.g. {sample}</p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {step === "preview" && preview && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="default">{preview.summary.ready} ready</Badge>
+              <Badge variant="secondary">{preview.summary.duplicates} duplicates</Badge>
+              <Badge variant="destructive">{preview.summary.errors} errors</Badge>
+              <div className="ml-auto flex items-center gap-2">
+                <Checkbox
+                  id="import-skip-duplicates"
+                  checked={skipDuplicates}
+                  onCheckedChange={(checked) => setSkipDuplicates(checked === true)}
+                  data-testid="checkbox-import-skip-duplicates"
+                />
+                <Label htmlFor="import-skip-duplicates" className="font-normal">Skip duplicates</Label>
+              </div>
+            </div>
+            <div className="rounded-md border max-h-[50vh] overflow-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">Row</TableHead>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Buy</TableHead>
+                    <TableHead className="text-right">Sell</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.rows.map(row => (
+                    <TableRow key={row.index} data-testid={`row-import-${row.index}`}>
+                      <TableCell className="font-mono text-xs">{row.index + (hasHeader ? 2 : 1)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.flip?.itemName ?? "—"}</div>
+                        {[...row.errors, ...row.warnings].map((message, i) => (
+                          <div key={i} className={row.errors.includes(message) ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+                            {message}
+                          </div>
+                        ))}
+                        {row.duplicateOf && (
+                          <div className="text-xs text-muted-foreground">
+                            {row.duplicateOf === "existing" ? "Already in your flips" : "Repeated earlier in this file"}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {row.flip ? row.flip.quantity.toLocaleString() : ""}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {row.flip && (
+                          <>
+                            {formatGP(row.flip.buyPrice)}
+                            <div className="text-muted-foreground">{format(new Date(row.flip.buyDate), "MMM d, yyyy")}</div>
+                          </>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {row.flip?.sellPrice ? (
+                          <>
+                            {formatGP(row.flip.sellPrice)}
+                            {row.flip.soldQuantity !== row.flip.quantity && (
+                              <div className="text-muted-foreground">{row.flip.soldQuantity?.toLocaleString()} sold</div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">Open</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[row.status].variant}>{STATUS_BADGES[row.status].label}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        {step === "done" && preview && (
+          <div className="flex flex-col items-center gap-2 py-8 text-center">
+            <CheckCircle2 className="h-10 w-10 text-success" />
+            <p className="font-medium" data-testid="text-import-count">
+              Imported {preview.imported.toLocaleString()} flip{preview.imported !== 1 ? "s" : ""}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "upload" && (
+            <Button onClick={handleParse} disabled={!csvText.trim()} data-testid="button-import-parse">
+              Next
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("upload")}>Back</Button>
+              <Button
+                onClick={() => importMutation.mutate(true)}
+                disabled={missingRequired.length > 0 || dataRows.length === 0 || importMutation.isPending}
+                data-testid="button-import-preview"
+              >
+                {importMutation.isPending && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button variant="outline" onClick={() => setStep("map")}>Back</Button>
+              <Button
+                onClick={() => importMutation.mutate(false)}
+                disabled={importCount === 0 || importMutation.isPending}
+                data-testid="button-import-confirm"
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                Import {importCount.toLocaleString()} flip{importCount !== 1 ? "s" : ""}
+              </Button>
+            </>
+          )}
+          {step === "done" && (
+            <Button onClick={() => handleOpenChange(false)} data-testid="button-import-close">
+              Close
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { ItemAlias } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useItemSearch } from "@/hooks/useItemSearch";
+import { Loader2, Plus, Tags, Trash2 } from "lucide-react";
+
+// Admin editor for item search aliases ("ovl" -> Overload (4)). The server reloads
+// its search index after each change.
+export function ItemAliasesCard() {
+  const { toast } = useToast();
+  const { data: aliases = [], isLoading } = useQuery<ItemAlias[]>({ queryKey: ["/api/item-aliases"] });
+  const [alias, setAlias] = useState("");
+  const [itemName, setItemName] = useState("");
+  const { suggestions, showSuggestions, setShowSuggestions, clearSuggestions } = useItemSearch(itemName);
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update item aliases"), variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/item-aliases", { alias, itemName });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/item-aliases"] });
+      setAlias("");
+      setItemName("");
+      clearSuggestions();
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/item-aliases/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/item-aliases"] });
+    },
+    onError: showError,
+  });
+
+  const canAdd = alias.trim().length >= 2 && itemName.trim().length > 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Tags className="h-5 w-5 text-primary" />
+          Item Search Aliases
+        </CardTitle>
+        <CardDescription>Shorthand that finds an item in every item search</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading...</div>
+        ) : aliases.length === 0 ? (
+          <div className="text-muted-foreground">No item aliases</div>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {aliases.map((entry) => (
+              <Badge key={entry.id} variant="secondary" className="gap-1" data-testid={`item-alias-${entry.id}`}>
+                <span className="font-mono">{entry.alias}</span>
+                <span className="text-muted-foreground">→ {entry.itemName}</span>
+                <button
+                  type="button"
+                  onClick={() => deleteMutation.mutate(entry.id)}
+                  disabled={deleteMutation.isPending}
+                  aria-label={`Remove alias ${entry.alias}`}
+                  data-testid={`button-delete-item-alias-${entry.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-2 sm:grid-cols-[10rem_1fr_auto]">
+          <Input
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            placeholder="Alias"
+            maxLength={40}
+            data-testid="input-item-alias"
+          />
+          <div className="relative">
+            <Input
+              value={itemName}
+              onChange={(e) => setItemName(e.target.value)}
+              onFocus={() => suggestions.length > 0 && setShowSuggestions(true)}
+              placeholder="Item name"
+              maxLength={100}
+              data-testid="input-item-alias-item-name"
+            />
+            {showSuggestions && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                {suggestions.map(item => (
+                  <button
+                    key={item.id}
+                    type="button"
+                    className="block w-full px-3 py-2 text-left text-sm hover-elevate"
+                    onClick={() => {
+                      setItemName(item.name);
+                      clearSuggestions();
+                    }}
+                    data-testid={`option-item-alias-item-${item.id}`}
+                  >
+                    {item.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <Button
+            onClick={() => createMutation.mutate()}
+            disabled={!canAdd || createMutation.isPending}
+            data-testid="button-add-item-alias"
+          >
+            {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  breakEvenSellPrice,
+  calculateFlipTax,
+  formatGp,
+  minSellPriceForMargin,
+  minSellPriceForProfit,
+  minSellPriceForRoi,
+} from "@shared/taxCalculator";
+import { parseGp } from "@shared/gpParser";
+import { cn } from "@/lib/utils";
+
+type ListPriceTarget = "break_even" | "margin" | "profit" | "roi";
+
+const TARGET_LABELS: Record<ListPriceTarget, string> = {
+  break_even: "Break even",
+  margin: "Margin per item",
+  profit: "Total profit",
+  roi: "ROI %",
+};
+
+interface ListPriceHelperProps {
+  buyPrice: number;
+  quantity: number;
+  itemId?: number | null;
+  sellDate?: Date;
+  onUse: (sellPrice: number) => void;
+  testIdPrefix?: string;
+}
+
+// "What should I list at": the lowest sell price that breaks even or reaches a target
+// after GE tax, for the quantity still to sell
+export function ListPriceHelper({ buyPrice, quantity, itemId, sellDate, onUse, testIdPrefix = "list-price" }: ListPriceHelperProps) {
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState<ListPriceTarget>("break_even");
+  const [value, setValue] = useState("");
+
+  const targetValue = target === "roi" ? parseFloat(value) : parseGp(value);
+  const listPrice = (() => {
+    if (buyPrice <= 0) return null;
+    if (target === "break_even") return breakEvenSellPrice(buyPrice, itemId, sellDate);
+    if (targetValue === null || isNaN(targetValue)) return null;
+    if (target === "margin") return minSellPriceForMargin(buyPrice, targetValue, itemId, sellDate);
+    if (target === "profit") return minSellPriceForProfit(buyPrice, quantity, targetValue, itemId, sellDate);
+    return minSellPriceForRoi(buyPrice, targetValue, itemId, sellDate);
+  })();
+  const result = listPrice ? calculateFlipTax(listPrice, buyPrice, Math.max(quantity, 1), itemId, sellDate) : null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-auto px-2 py-0.5 text-xs"
+          disabled={buyPrice <= 0}
+          data-testid={`button-${testIdPrefix}-helper`}
+        >
+          What should I list at?
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3" align="end">
+        <div className="space-y-2">
+          <Label className="text-xs">Target</Label>
+          <Select value={target} onValueChange={(next) => setTarget(next as ListPriceTarget)}>
+            <SelectTrigger data-testid={`select-${testIdPrefix}-target`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(TARGET_LABELS) as ListPriceTarget[]).map(key => (
+                <SelectItem key={key} value={key}>{TARGET_LABELS[key]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {target !== "break_even" && (
+            <Input
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={target === "roi" ? "e.g. 5" : "e.g. 10k, 2.5m"}
+              className="font-mono"
+              data-testid={`input-${testIdPrefix}-target`}
+            />
+          )}
+        </div>
+
+        {listPrice !== null && result ? (
+          <div className="space-y-1 text-xs">
+            <div className="flex justify-between font-medium">
+              <span>List at:</span>
+              <span className="font-mono" data-testid={`text-${testIdPrefix}-result`}>
+                {listPrice.toLocaleString()} gp
+              </span>
+            </div>
+            <div className="flex justify-between text-muted-foreground">
+              <span>Tax:</span>
+              <span className="font-mono">-{formatGp(result.totalTax)} gp</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Profit ({Math.max(quantity, 1).toLocaleString()} items):</span>
+              <span className={cn("font-mono", result.profit >= 0 ? "text-success" : "text-destructive")}>
+                {result.profit >= 0 ? "+" : ""}{formatGp(result.profit)} gp ({result.roi}%)
+              </span>
+            </div>
+            <Button
+              type="button"
+              size="sm"
+              className="w-full mt-2"
+              onClick={() => {
+                onUse(listPrice);
+                setOpen(false);
+              }}
+              data-testid={`button-${testIdPrefix}-use`}
+            >
+              Use this price
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Enter a target to see the price</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { StrategyTag } from "@shared/schema";
+import { TAG_COLORS } from "@shared/strategyTags";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+
+interface TagDraft {
+  name: string;
+  color: string;
+  description: string;
+}
+
+const emptyDraft = (): TagDraft => ({ name: "", color: TAG_COLORS[0], description: "" });
+
+interface ManageTagsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function TagFields({ draft, onChange, idPrefix }: { draft: TagDraft; onChange: (draft: TagDraft) => void; idPrefix: string }) {
+  return (
+    <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+      <Input
+        value={draft.name}
+        onChange={(e) => onChange({ ...draft, name: e.target.value })}
+        placeholder="Tag name"
+        maxLength={50}
+        data-testid={`input-${idPrefix}-name`}
+      />
+      <div className="flex items-center gap-1">
+        {TAG_COLORS.map(color => (
+          <button
+            key={color}
+            type="button"
+            className="h-6 w-6 rounded-full border-2 flex items-center justify-center"
+            style={{ backgroundColor: color, borderColor: draft.color === color ? "hsl(var(--foreground))" : "transparent" }}
+            onClick={() => onChange({ ...draft, color })}
+            title={color}
+            data-testid={`button-${idPrefix}-color-${color.slice(1)}`}
+          />
+        ))}
+      </div>
+      <Input
+        className="sm:col-span-2"
+        value={draft.description}
+        onChange={(e) => onChange({ ...draft, description: e.target.value })}
+        placeholder="Description (optional)"
+        maxLength={500}
+        data-testid={`input-${idPrefix}-description`}
+      />
+    </div>
+  );
+}
+
+export function ManageTagsDialog({ open, onOpenChange }: ManageTagsDialogProps) {
+  const { toast } = useToast();
+  const [newTag, setNewTag] = useState<TagDraft>(emptyDraft);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState<TagDraft>(emptyDraft);
+
+  const { data: tags = [], isLoading } = useQuery<StrategyTag[]>({
+    queryKey: ["/api/tags"],
+    enabled: open,
+  });
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update tags"), variant: "destructive" });
+  };
+
+  // Tag names and colors are embedded in flip responses, so those are refreshed too
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (draft: TagDraft) => {
+      return await apiRequest("POST", "/api/tags", {
+        name: draft.name,
+        color: draft.color,
+        description: draft.description || undefined,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewTag(emptyDraft());
+    },
+    onError: showError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, draft }: { id: string; draft: TagDraft }) => {
+      return await apiRequest("PATCH", `/api/tags/${id}`, {
+        name: draft.name,
+        color: draft.color,
+        description: draft.description,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingId(null);
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/tags/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Tag deleted", description: "Flips that had it keep their other tags" });
+    },
+    onError: showError,
+  });
+
+  const startEditing = (tag: StrategyTag) => {
+    setEditingId(tag.id);
+    setEditDraft({ name: tag.name, color: tag.color, description: tag.description ?? "" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Strategy Tags</DialogTitle>
+          <DialogDescription>
+            Tag flips with your own strategies. Stats and recommendations are broken down by these tags.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[360px] space-y-2 overflow-y-auto pr-1" data-testid="list-strategy-tags">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : tags.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No tags yet</p>
+          ) : tags.map(tag => editingId === tag.id ? (
+            <div key={tag.id} className="space-y-2 rounded-md border p-3">
+              <TagFields draft={editDraft} onChange={setEditDraft} idPrefix={`edit-tag-${tag.id}`} />
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ id: tag.id, draft: editDraft })}
+                  disabled={!editDraft.name.trim() || updateMutation.isPending}
+                  data-testid={`button-save-tag-${tag.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div key={tag.id} className="flex items-center gap-3 rounded-md border p-3" data-testid={`row-tag-${tag.id}`}>
+              <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: tag.color }} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{tag.name}</p>
+                {tag.description && (
+                  <p className="text-xs text-muted-foreground truncate">{tag.description}</p>
+                )}
+              </div>
+              <Button type="button" variant="ghost" size="icon" onClick={() => startEditing(tag)} data-testid={`button-edit-tag-${tag.id}`}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(tag.id)}
+                disabled={deleteMutation.isPending}
+                data-testid={`button-delete-tag-${tag.id}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <Label>New tag</Label>
+          <TagFields draft={newTag} onChange={setNewTag} idPrefix="new-tag" />
+          <div className="flex justify-end">
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => createMutation.mutate(newTag)}
+              disabled={!newTag.name.trim() || createMutation.isPending}
+              data-testid="button-create-tag"
+            >
+              {createMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4 mr-1" />
+              )}
+              Add Tag
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState, type KeyboardEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import type { MarginCheck } from "@shared/schema";
+import { parseGp } from "@shared/gpParser";
+import { marginSpread } from "@shared/marginChecks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Scale } from "lucide-react";
+
+interface MarginCheckEntryProps {
+  itemId: number;
+  itemName: string;
+  rsAccountId?: string;
+  onSaved?: (check: MarginCheck) => void;
+}
+
+// Two prices and Enter: log a margin check without leaving the flip form
+export function MarginCheckEntry({ itemId, itemName, rsAccountId, onSaved }: MarginCheckEntryProps) {
+  const { toast } = useToast();
+  const [instaBuy, setInstaBuy] = useState("");
+  const [instaSell, setInstaSell] = useState("");
+
+  const instaBuyPrice = parseGp(instaBuy);
+  const instaSellPrice = parseGp(instaSell);
+  const canSave = !!instaBuyPrice && instaBuyPrice > 0 && !!instaSellPrice && instaSellPrice > 0;
+  const spread = canSave ? marginSpread({ itemId, instaBuyPrice, instaSellPrice, checkedAt: new Date() }) : null;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/margin-checks", {
+        itemId,
+        itemName,
+        instaBuyPrice,
+        instaSellPrice,
+        ...(rsAccountId ? { rsAccountId } : {}),
+      });
+      return await response.json() as MarginCheck;
+    },
+    onSuccess: (check) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-checks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/items/${itemId}/overview`] });
+      setInstaBuy("");
+      setInstaSell("");
+      toast({ title: "Margin check saved", description: `${itemName}: ${(check.instaBuyPrice - check.instaSellPrice).toLocaleString()} gp spread` });
+      onSaved?.(check);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to save margin check"), variant: "destructive" });
+    },
+  });
+
+  // The entry sits inside the flip form; Enter saves the check instead of the flip
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    if (canSave && !saveMutation.isPending) saveMutation.mutate();
+  };
+
+  return (
+    <div className="rounded-md border p-3 space-y-2" data-testid="margin-check-entry">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Scale className="h-4 w-4 text-primary" />
+        Margin Check
+      </div>
+      <div className="flex gap-2">
+        <Input
+          value={instaBuy}
+          onChange={(e) => setInstaBuy(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Insta-buy (e.g. 1.2m)"
+          className="font-mono"
+          data-testid="input-margin-insta-buy"
+        />
+        <Input
+          value={instaSell}
+          onChange={(e) => setInstaSell(e.target.value)}
+          onKeyDown={handleKeyDown}
+          placeholder="Insta-sell"
+          className="font-mono"
+          data-testid="input-margin-insta-sell"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => saveMutation.mutate()}
+          disabled={!canSave || saveMutation.isPending}
+          data-testid="button-save-margin-check"
+        >
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Save"}
+        </Button>
+      </div>
+      {spread && (
+        <p className="text-xs text-muted-foreground font-mono" data-testid="text-margin-spread">
+          {spread.margin.toLocaleString()} gp margin · {spread.netMargin.toLocaleString()} gp after tax ({spread.roi.toFixed(2)}%)
+        </p>
+      )}
+    </div>
+  );
+}
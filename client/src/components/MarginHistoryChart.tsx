@@ -0,0 +1,142 @@
+import { useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import type { MarginCheck, RsAccount } from "@shared/schema";
+import { marginSpread } from "@shared/marginChecks";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatGP } from "@/lib/formatters";
+import { Scale, Trash2 } from "lucide-react";
+
+const chartConfig = {
+  instaBuyPrice: {
+    label: "Insta-buy",
+    color: "hsl(var(--chart-1))",
+  },
+  instaSellPrice: {
+    label: "Insta-sell",
+    color: "hsl(var(--chart-2))",
+  },
+} satisfies ChartConfig;
+
+interface MarginHistoryChartProps {
+  itemId: number;
+  checks: MarginCheck[]; // newest first
+  rsAccounts?: RsAccount[];
+}
+
+// Insta-buy and insta-sell prices of an item's margin checks over time
+export function MarginHistoryChart({ itemId, checks, rsAccounts = [] }: MarginHistoryChartProps) {
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/margin-checks/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/margin-checks"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/items/${itemId}/overview`] });
+    },
+  });
+
+  const chartData = [...checks].reverse().map(check => ({
+    timestamp: new Date(check.checkedAt).getTime(),
+    instaBuyPrice: check.instaBuyPrice,
+    instaSellPrice: check.instaSellPrice,
+  }));
+  const accountName = (id: string | null) => rsAccounts.find(account => account.id === id)?.displayName;
+
+  return (
+    <Card data-testid="chart-margin-history">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Scale className="h-4 w-4" />
+          Margin Checks
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {checks.length === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            No margin checks logged for this item yet.
+          </div>
+        ) : (
+          <>
+            {chartData.length > 1 && (
+              <ChartContainer config={chartConfig} className="h-[180px] w-full">
+                <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                  <XAxis
+                    dataKey="timestamp"
+                    type="number"
+                    scale="time"
+                    domain={["dataMin", "dataMax"]}
+                    tickFormatter={(ts) => format(new Date(ts), "MMM d")}
+                    tick={{ fontSize: 10 }}
+                    tickLine={false}
+                    axisLine={false}
+                  />
+                  <YAxis
+                    domain={["auto", "auto"]}
+                    tickFormatter={formatGP}
+                    tick={{ fontSize: 10 }}
+                    tickLine={false}
+                    axisLine={false}
+                    width={50}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        labelFormatter={(_, payload) => {
+                          const ts = payload?.[0]?.payload?.timestamp;
+                          return ts ? format(new Date(ts), "MMM d, HH:mm") : "";
+                        }}
+                      />
+                    }
+                  />
+                  <Line type="stepAfter" dataKey="instaBuyPrice" stroke="var(--color-instaBuyPrice)" strokeWidth={2} dot={{ r: 2 }} />
+                  <Line type="stepAfter" dataKey="instaSellPrice" stroke="var(--color-instaSellPrice)" strokeWidth={2} dot={{ r: 2 }} />
+                </LineChart>
+              </ChartContainer>
+            )}
+            <div className="space-y-1">
+              {checks.slice(0, 5).map(check => {
+                const spread = marginSpread(check);
+                return (
+                  <div key={check.id} className="flex items-center gap-3 text-sm" data-testid={`margin-check-${check.id}`}>
+                    <span className="text-muted-foreground w-28 shrink-0">
+                      {formatDistanceToNow(new Date(check.checkedAt), { addSuffix: true })}
+                    </span>
+                    <span className="font-mono flex-1">
+                      {check.instaSellPrice.toLocaleString()} → {check.instaBuyPrice.toLocaleString()}
+                    </span>
+                    <span className={`font-mono ${spread.netMargin > 0 ? "text-success" : "text-destructive"}`}>
+                      {spread.netMargin.toLocaleString()} gp
+                    </span>
+                    {accountName(check.rsAccountId) && (
+                      <span className="text-xs text-muted-foreground">{accountName(check.rsAccountId)}</span>
+                    )}
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => deleteMutation.mutate(check.id)}
+                      disabled={deleteMutation.isPending}
+                      aria-label="Delete margin check"
+                      data-testid={`button-delete-margin-check-${check.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,46 @@
+import { cn } from "@/lib/utils";
+import { formatGP } from "@/lib/formatters";
+
+interface PnlSummaryProps {
+  realized: number;
+  unrealized: number | null; // null while prices are loading
+  unpricedPositions?: number;
+  className?: string;
+}
+
+function formatSigned(value: number) {
+  return `${value >= 0 ? "+" : "-"}${formatGP(Math.abs(Math.round(value)))}`;
+}
+
+// Realized vs mark-to-market P&L, shown side by side above the flip lists
+export function PnlSummary({ realized, unrealized, unpricedPositions = 0, className }: PnlSummaryProps) {
+  return (
+    <div className={cn("flex items-center gap-4 text-sm", className)} data-testid="pnl-summary">
+      <span>
+        Realized:{" "}
+        <span
+          className={cn("font-mono font-medium", realized >= 0 ? "text-success" : "text-destructive")}
+          data-testid="text-realized-pnl"
+        >
+          {formatSigned(realized)}
+        </span>
+      </span>
+      <span title="Open quantity valued at the current GE price, after tax">
+        Unrealized:{" "}
+        {unrealized !== null ? (
+          <span
+            className={cn("font-mono font-medium", unrealized >= 0 ? "text-success/80" : "text-destructive/80")}
+            data-testid="text-unrealized-pnl"
+          >
+            {formatSigned(unrealized)}
+          </span>
+        ) : (
+          <span className="font-mono">-</span>
+        )}
+        {unpricedPositions > 0 && (
+          <span className="text-xs text-muted-foreground"> ({unpricedPositions} unpriced)</span>
+        )}
+      </span>
+    </div>
+  );
+}
@@ -1,18 +1,21 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import {
   ChartContainer,
   ChartTooltip,
   ChartTooltipContent,
   type ChartConfig,
 } from "@/components/ui/chart";
-import { XAxis, YAxis, CartesianGrid, Area, Scatter, ComposedChart, Cell, ZAxis } from "recharts";
+import { XAxis, YAxis, CartesianGrid, Area, Scatter, ComposedChart, Cell, ZAxis, Line, Bar, ReferenceLine } from "recharts";
 import { TrendingUp, TrendingDown, Minus, X, CircleDot } from "lucide-react";
 import { format, parseISO } from "date-fns";
 import type { Flip } from "@shared/schema";
+import type { IndicatorPoint, ItemIndicators } from "@shared/indicators";
 
 interface PriceHistoryPoint {
   date: string;
@@ -43,6 +46,48 @@ const chartConfig = {
   },
 } satisfies ChartConfig;
 
+type Indicator = "sma" | "ema" | "bollinger" | "rsi" | "macd" | "roc";
+
+const INDICATOR_LABELS: Record<Indicator, string> = {
+  sma: "SMA",
+  ema: "EMA",
+  bollinger: "Bollinger",
+  rsi: "RSI",
+  macd: "MACD",
+  roc: "ROC",
+};
+
+// Lines drawn over the price; the rest get their own panel under the chart
+const PRICE_OVERLAYS: { indicator: Indicator; key: keyof IndicatorPoint; name: string; color: string }[] = [
+  { indicator: "sma", key: "sma", name: "SMA", color: "hsl(var(--chart-2))" },
+  { indicator: "ema", key: "ema", name: "EMA", color: "hsl(var(--chart-3))" },
+  { indicator: "bollinger", key: "bollingerUpper", name: "Upper band", color: "hsl(var(--chart-4))" },
+  { indicator: "bollinger", key: "bollingerLower", name: "Lower band", color: "hsl(var(--chart-4))" },
+];
+
+function IndicatorPanel({ title, data, children }: { title: string; data: object[]; children: React.ReactNode }) {
+  return (
+    <div className="space-y-1" data-testid={`panel-indicator-${title.split(" ")[0].toLowerCase()}`}>
+      <div className="text-xs text-muted-foreground">{title}</div>
+      <ChartContainer config={chartConfig} className="h-[90px] w-full">
+        <ComposedChart data={data} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+          <XAxis dataKey="timestamp" type="number" scale="time" domain={["dataMin", "dataMax"]} hide />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(ts) => format(new Date(Number(ts)), "MMM d, yyyy")}
+                formatter={(value, name) => [Number(value).toLocaleString(), ` ${name}`]}
+              />
+            }
+          />
+          {children}
+        </ComposedChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
 export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }: PriceHistoryChartProps) {
   // If itemId is missing, resolve it from itemName
   const { data: resolvedItem, isLoading: isResolvingId } = useQuery<{ id: number; name: string }>({
@@ -68,6 +113,13 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
 
   const isLoading = isResolvingId || isLoadingHistory;
 
+  const [indicators, setIndicators] = useState<Indicator[]>([]);
+  const { data: indicatorData } = useQuery<ItemIndicators>({
+    queryKey: ["/api/ge/indicators", effectiveItemId],
+    enabled: !!effectiveItemId && indicators.length > 0,
+  });
+  const showIndicator = (indicator: Indicator) => indicators.includes(indicator) && !!indicatorData;
+
   const { data: trend } = useQuery<{
     direction: "rising" | "falling" | "stable";
     changePercent: number;
@@ -195,9 +247,15 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
     );
   }
 
+  const indicatorsByDate = new Map((indicatorData?.points ?? []).map(point => [point.date, point]));
+  const visibleOverlays = PRICE_OVERLAYS.filter(overlay => showIndicator(overlay.indicator));
+
   const allPrices = [
     ...history.map(h => h.price),
-    ...userTrades.map(t => t.price)
+    ...userTrades.map(t => t.price),
+    // Keep the overlays inside the price axis
+    ...history.flatMap(h => visibleOverlays.map(overlay => indicatorsByDate.get(h.date)?.[overlay.key]))
+      .filter((value): value is number => typeof value === "number"),
   ];
   const minPrice = Math.min(...allPrices);
   const maxPrice = Math.max(...allPrices);
@@ -231,6 +289,7 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
     }));
 
   const chartDataWithTimestamps = history.map(h => ({
+    ...indicatorsByDate.get(h.date),
     ...h,
     timestamp: new Date(h.date).getTime(),
   }));
@@ -306,6 +365,10 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
                       const label = props?.payload?.label || "";
                       return [label, "Sell Trade"];
                     }
+                    const overlay = visibleOverlays.find(o => o.name === name);
+                    if (overlay) {
+                      return [formatFullPrice(value as number) + " gp", ` ${overlay.name}`];
+                    }
                     return [formatFullPrice(value as number) + " gp", "GE Price"];
                   }}
                 />
@@ -318,6 +381,19 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
               strokeWidth={2}
               fill={`url(#gradient-${effectiveItemId || 'pending'})`}
             />
+            {visibleOverlays.map(overlay => (
+              <Line
+                key={overlay.key}
+                type="monotone"
+                dataKey={overlay.key}
+                name={overlay.name}
+                stroke={overlay.color}
+                strokeWidth={1.5}
+                strokeDasharray={overlay.indicator === "bollinger" ? "4 3" : undefined}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
             {buyScatterData.length > 0 && (
               <Scatter
                 name="Your Buys"
@@ -339,6 +415,56 @@ export function PriceHistoryChart({ itemId, itemName, onClose, userFlips = [] }:
           </ComposedChart>
         </ChartContainer>
 
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="flex-wrap justify-start"
+          value={indicators}
+          onValueChange={(value) => setIndicators(value as Indicator[])}
+          data-testid="toggle-indicators"
+        >
+          {(Object.keys(INDICATOR_LABELS) as Indicator[]).map(indicator => (
+            <ToggleGroupItem key={indicator} value={indicator} className="h-7 px-2 text-xs" data-testid={`toggle-indicator-${indicator}`}>
+              {INDICATOR_LABELS[indicator]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        {indicatorData && showIndicator("rsi") && (
+          <IndicatorPanel title={`RSI (${indicatorData.windows.rsiPeriod})`} data={chartDataWithTimestamps}>
+            <YAxis domain={[0, 100]} ticks={[30, 70]} tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={50} />
+            <ReferenceLine y={70} stroke="hsl(var(--destructive))" strokeDasharray="3 3" />
+            <ReferenceLine y={30} stroke="hsl(var(--success))" strokeDasharray="3 3" />
+            <Line type="monotone" dataKey="rsi" name="RSI" stroke="hsl(var(--chart-5))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </IndicatorPanel>
+        )}
+
+        {indicatorData && showIndicator("macd") && (
+          <IndicatorPanel
+            title={`MACD (${indicatorData.windows.macdFast}, ${indicatorData.windows.macdSlow}, ${indicatorData.windows.macdSignal})`}
+            data={chartDataWithTimestamps}
+          >
+            <YAxis tickFormatter={formatPrice} tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={50} />
+            <ReferenceLine y={0} className="stroke-muted-foreground" />
+            <Bar dataKey="macdHistogram" name="Histogram" isAnimationActive={false}>
+              {chartDataWithTimestamps.map((point, index) => (
+                <Cell key={index} fill={(point.macdHistogram ?? 0) >= 0 ? "#22c55e" : "#ef4444"} />
+              ))}
+            </Bar>
+            <Line type="monotone" dataKey="macd" name="MACD" stroke="hsl(var(--chart-1))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+            <Line type="monotone" dataKey="macdSignal" name="Signal" stroke="hsl(var(--chart-4))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </IndicatorPanel>
+        )}
+
+        {indicatorData && showIndicator("roc") && (
+          <IndicatorPanel title={`Rate of change, % (${indicatorData.windows.rocWindow}d)`} data={chartDataWithTimestamps}>
+            <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} width={50} />
+            <ReferenceLine y={0} className="stroke-muted-foreground" />
+            <Line type="monotone" dataKey="roc" name="ROC" stroke="hsl(var(--chart-2))" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+          </IndicatorPanel>
+        )}
+
         {userTrades.length > 0 && (
           <div className="flex items-center gap-4 text-xs text-muted-foreground">
             <div className="flex items-center gap-1">
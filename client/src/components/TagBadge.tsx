@@ -0,0 +1,21 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface TagBadgeProps {
+  tag: { name: string; color: string };
+  className?: string;
+}
+
+// A strategy tag tinted with its own color
+export function TagBadge({ tag, className }: TagBadgeProps) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn("gap-1.5 font-normal", className)}
+      style={{ borderColor: `${tag.color}66`, backgroundColor: `${tag.color}1a` }}
+    >
+      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+      {tag.name}
+    </Badge>
+  );
+}
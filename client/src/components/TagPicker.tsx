@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { StrategyTag } from "@shared/schema";
+import { defaultTagColor } from "@shared/strategyTags";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from "@/components/ui/command";
+import { TagBadge } from "./TagBadge";
+import { ManageTagsDialog } from "./ManageTagsDialog";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Check, ChevronsUpDown, Plus, Settings2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tagIds: string[]) => void;
+  id?: string;
+}
+
+// Multi-select over the user's strategy tags; typing a new name offers to create it
+export function TagPicker({ value, onChange, id }: TagPickerProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [manageOpen, setManageOpen] = useState(false);
+
+  const { data: tags = [] } = useQuery<StrategyTag[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const selectedTags = tags.filter(tag => value.includes(tag.id));
+  const trimmedSearch = search.trim();
+  const canCreate = trimmedSearch.length > 0
+    && !tags.some(tag => tag.name.toLowerCase() === trimmedSearch.toLowerCase());
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", "/api/tags", { name, color: defaultTagColor(name) });
+      return await res.json() as StrategyTag;
+    },
+    onSuccess: (tag) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      onChange([...value, tag.id]);
+      setSearch("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to create tag"), variant: "destructive" });
+    },
+  });
+
+  const toggle = (tagId: string) => {
+    onChange(value.includes(tagId) ? value.filter(v => v !== tagId) : [...value, tagId]);
+  };
+
+  return (
+    <>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="h-auto min-h-9 w-full justify-between font-normal"
+            data-testid="select-tags"
+          >
+            <span className="flex flex-wrap gap-1">
+              {selectedTags.length > 0 ? (
+                selectedTags.map(tag => <TagBadge key={tag.id} tag={tag} />)
+              ) : (
+                <span className="text-muted-foreground">Select tags...</span>
+              )}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search or create tag..."
+              value={search}
+              onValueChange={setSearch}
+              data-testid="input-tag-search"
+            />
+            <CommandList>
+              <CommandEmpty>{canCreate ? "No matching tag" : "No tags yet"}</CommandEmpty>
+              {tags.length > 0 && (
+                <CommandGroup>
+                  {tags.map(tag => (
+                    <CommandItem
+                      key={tag.id}
+                      value={tag.name}
+                      onSelect={() => toggle(tag.id)}
+                      data-testid={`option-tag-${tag.id}`}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", value.includes(tag.id) ? "opacity-100" : "opacity-0")} />
+                      <span className="mr-2 h-2 w-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                      {tag.name}
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              )}
+              <CommandSeparator />
+              <CommandGroup>
+                {canCreate && (
+                  <CommandItem
+                    value={`create ${trimmedSearch}`}
+                    onSelect={() => createMutation.mutate(trimmedSearch)}
+                    disabled={createMutation.isPending}
+                    data-testid="option-create-tag"
+                  >
+                    <Plus className="mr-2 h-4 w-4" />
+                    Create "{trimmedSearch}"
+                  </CommandItem>
+                )}
+                <CommandItem
+                  value="manage tags"
+                  onSelect={() => {
+                    setOpen(false);
+                    setManageOpen(true);
+                  }}
+                  data-testid="option-manage-tags"
+                >
+                  <Settings2 className="mr-2 h-4 w-4" />
+                  Manage tags...
+                </CommandItem>
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      <ManageTagsDialog open={manageOpen} onOpenChange={setManageOpen} />
+    </>
+  );
+}
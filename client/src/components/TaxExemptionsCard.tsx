@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTaxExemptions } from "@/hooks/useTaxExemptions";
+import { Loader2, Plus, ShieldCheck, Trash2 } from "lucide-react";
+
+interface ExemptionDraft {
+  itemId: string;
+  itemName: string;
+  reason: string;
+  effectiveFrom: string; // yyyy-MM-dd
+}
+
+const emptyDraft = (): ExemptionDraft => ({
+  itemId: "",
+  itemName: "",
+  reason: "",
+  effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+});
+
+// Admin editor for the tax-exempt item registry. Changes re-tax recorded sells on
+// the server and every tax preview on the client.
+export function TaxExemptionsCard() {
+  const { toast } = useToast();
+  const { exemptions = [], isLoading } = useTaxExemptions();
+  const [draft, setDraft] = useState<ExemptionDraft>(emptyDraft);
+
+  const showError = (error: Error) => {
+    toast({ title: "Error", description: getApiErrorMessage(error, "Failed to update tax-exempt items"), variant: "destructive" });
+  };
+
+  // useTaxExemptions refreshes the flip data and stats taxed with the old list once
+  // the new one is applied
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tax-exemptions"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (draft: ExemptionDraft) => {
+      return await apiRequest("POST", "/api/admin/tax-exemptions", {
+        itemId: parseInt(draft.itemId),
+        itemName: draft.itemName,
+        reason: draft.reason,
+        effectiveFrom: new Date(`${draft.effectiveFrom}T00:00:00Z`).toISOString(),
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      setDraft(emptyDraft());
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/tax-exemptions/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Exemption removed", description: "Sales of that item are taxed again" });
+    },
+    onError: showError,
+  });
+
+  const canAdd = parseInt(draft.itemId) > 0 && draft.itemName.trim() && draft.reason.trim() && draft.effectiveFrom;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-primary" />
+          Tax-Exempt Items
+        </CardTitle>
+        <CardDescription>Sales of these items on or after their effective date pay no GE tax</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading...</div>
+        ) : exemptions.length === 0 ? (
+          <div className="text-muted-foreground">No tax-exempt items</div>
+        ) : (
+          <div className="space-y-2">
+            {exemptions.map((exemption) => (
+              <div key={exemption.id} className="flex items-center gap-3" data-testid={`tax-exemption-${exemption.id}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {exemption.itemName} <span className="text-muted-foreground">#{exemption.itemId}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {exemption.reason} · from {format(new Date(exemption.effectiveFrom), "MMM d, yyyy")}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => deleteMutation.mutate(exemption.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-tax-exemption-${exemption.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-2 sm:grid-cols-[8rem_1fr]">
+          <Input
+            type="number"
+            min={1}
+            value={draft.itemId}
+            onChange={(e) => setDraft({ ...draft, itemId: e.target.value })}
+            placeholder="Item ID"
+            data-testid="input-tax-exemption-item-id"
+          />
+          <Input
+            value={draft.itemName}
+            onChange={(e) => setDraft({ ...draft, itemName: e.target.value })}
+            placeholder="Item name"
+            maxLength={100}
+            data-testid="input-tax-exemption-item-name"
+          />
+          <Input
+            type="date"
+            value={draft.effectiveFrom}
+            onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+            data-testid="input-tax-exemption-effective-from"
+          />
+          <div className="flex gap-2">
+            <Input
+              value={draft.reason}
+              onChange={(e) => setDraft({ ...draft, reason: e.target.value })}
+              placeholder="Reason"
+              maxLength={200}
+              data-testid="input-tax-exemption-reason"
+            />
+            <Button
+              onClick={() => createMutation.mutate(draft)}
+              disabled={!canAdd || createMutation.isPending}
+              data-testid="button-add-tax-exemption"
+            >
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from "recharts";
+import { format } from "date-fns";
+import { DollarSign, Percent, ShieldCheck, TrendingUp } from "lucide-react";
+import { formatGp } from "@shared/taxCalculator";
+import type { TaxReport, TaxReportRow } from "@shared/taxReport";
+
+type Period = "day" | "week" | "month";
+
+// How many of the latest periods the chart shows
+const PERIOD_WINDOWS: Record<Period, { label: string; count: number }> = {
+  day: { label: "Daily (last 30 days)", count: 30 },
+  week: { label: "Weekly (last 12 weeks)", count: 12 },
+  month: { label: "Monthly (last 12 months)", count: 12 },
+};
+
+function periodRows(report: TaxReport, period: Period): TaxReportRow[] {
+  const rows = period === "day" ? report.byDay : period === "week" ? report.byWeek : report.byMonth;
+  return rows.slice(-PERIOD_WINDOWS[period].count);
+}
+
+function periodLabel(row: TaxReportRow, period: Period): string {
+  if (period === "month") return row.label;
+  const date = new Date(`${row.key}T00:00:00`);
+  return period === "week" ? `w/c ${format(date, "MMM d")}` : format(date, "MMM d");
+}
+
+function formatShare(share: number | null): string {
+  return share === null ? "—" : `${share}%`;
+}
+
+function BreakdownCard({ title, rows, emptyText, testId }: { title: string; rows: TaxReportRow[]; emptyText: string; testId: string }) {
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">{emptyText}</div>
+        ) : (
+          <div className="max-h-80 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                  <TableHead className="text-right">Tax Paid</TableHead>
+                  <TableHead className="text-right">% of Profit</TableHead>
+                  <TableHead className="text-right">Saved</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => (
+                  <TableRow key={row.key} data-testid={`${testId}-row-${row.key || "none"}`}>
+                    <TableCell className="font-medium">{row.label}</TableCell>
+                    <TableCell className="text-right font-mono">{row.sales.toLocaleString()}</TableCell>
+                    <TableCell className="text-right font-mono text-yellow-500">{formatGp(row.taxPaid)}</TableCell>
+                    <TableCell className="text-right font-mono">{formatShare(row.taxShareOfProfit)}</TableCell>
+                    <TableCell className="text-right font-mono text-success">
+                      {row.exemptSavings > 0 ? formatGp(row.exemptSavings) : "—"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Stats "Tax" tab: GE tax paid by period, item, strategy tag and RS account
+export function TaxReportPanel() {
+  const [period, setPeriod] = useState<Period>("day");
+  const { data: report, isLoading } = useQuery<TaxReport>({
+    queryKey: ["/api/stats/tax-report"],
+  });
+
+  if (isLoading || !report) {
+    return (
+      <div className="text-center py-12 text-muted-foreground">
+        {isLoading ? "Loading tax report..." : "Tax report unavailable"}
+      </div>
+    );
+  }
+
+  const { totals } = report;
+  const chartData = periodRows(report, period).map(row => ({
+    name: periodLabel(row, period),
+    tax: row.taxPaid,
+    saved: row.exemptSavings,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        <Card data-testid="card-tax-report-paid">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-sm font-medium">Tax Paid</CardTitle>
+            <DollarSign className="h-4 w-4 text-yellow-500" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold font-mono text-yellow-500">{formatGp(totals.taxPaid)} gp</div>
+            <p className="text-xs text-muted-foreground">Over {totals.sales.toLocaleString()} sells</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="card-tax-report-gross-profit">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-sm font-medium">Gross Profit</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold font-mono">{formatGp(totals.grossProfit)} gp</div>
+            <p className="text-xs text-muted-foreground">Sell value minus buy cost, before tax</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="card-tax-report-share">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-sm font-medium">Tax Share of Profit</CardTitle>
+            <Percent className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold font-mono">{formatShare(totals.taxShareOfProfit)}</div>
+            <p className="text-xs text-muted-foreground">Of gross profit paid as GE tax</p>
+          </CardContent>
+        </Card>
+        <Card data-testid="card-tax-report-saved">
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-sm font-medium">Saved by Exemptions</CardTitle>
+            <ShieldCheck className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold font-mono text-success">{formatGp(totals.exemptSavings)} gp</div>
+            <p className="text-xs text-muted-foreground">Tax exempt items would otherwise have paid</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card data-testid="chart-tax-by-period">
+        <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
+          <CardTitle>Tax Paid Over Time</CardTitle>
+          <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+            <SelectTrigger className="w-56" data-testid="select-tax-period">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(PERIOD_WINDOWS) as Period[]).map(key => (
+                <SelectItem key={key} value={key}>{PERIOD_WINDOWS[key].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {chartData.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">No sells yet</div>
+          ) : (
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                  <XAxis dataKey="name" tick={{ fontSize: 10 }} tickLine={false} axisLine={false} />
+                  <YAxis tick={{ fontSize: 10 }} tickLine={false} axisLine={false} tickFormatter={(v) => formatGp(v)} />
+                  <Tooltip
+                    formatter={(value: number, name: string) => [`${formatGp(value)} gp`, name === "tax" ? "Tax paid" : "Saved"]}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "8px",
+                    }}
+                  />
+                  <Bar dataKey="tax" fill="hsl(45 93% 47%)" radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="saved" fill="hsl(140 70% 50%)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <BreakdownCard title="By Item" rows={report.byItem} emptyText="No sells yet" testId="table-tax-by-item" />
+        <BreakdownCard title="By Strategy Tag" rows={report.byTag} emptyText="No sells yet" testId="table-tax-by-tag" />
+        <BreakdownCard title="By RS Account" rows={report.byAccount} emptyText="No sells yet" testId="table-tax-by-account" />
+        <BreakdownCard
+          title="Exemptions"
+          rows={report.byExemption}
+          emptyText="No exemptions have saved tax yet. At 2% floored, items at 49 gp or less wouldn't pay any tax anyway."
+          testId="table-tax-by-exemption"
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { FlipValuation, OpenPositionValuation } from "@shared/flipValuation";
+
+// Current-price valuation of the user's open flips, shared by the flip views and Stats.
+// Prices move slowly, so it's refetched at most every 5 minutes unless flips change.
+export function useFlipValuation(enabled: boolean = true) {
+  const { data: valuation, isLoading } = useQuery<FlipValuation>({
+    queryKey: ["/api/flips", "valuation"],
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const positionsByFlip = useMemo(() => {
+    const map = new Map<string, OpenPositionValuation>();
+    for (const position of valuation?.positions ?? []) {
+      map.set(position.flipId, position);
+    }
+    return map;
+  }, [valuation]);
+
+  return { valuation, positionsByFlip, isLoading };
+}
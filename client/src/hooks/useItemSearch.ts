@@ -0,0 +1,63 @@
+import { useState, useEffect, useRef } from "react";
+
+export interface GEItem {
+  id: number;
+  name: string;
+  price: number;
+  volume?: number;
+  icon?: string;
+  isMembers?: boolean;
+  geLimit?: number;
+  examine?: string;
+}
+
+// Debounced GE item autocomplete behind every item picker (flip form, GE offers,
+// recipes, backtest). The server side is typo-tolerant and understands aliases.
+export function useItemSearch(query: string, delayMs: number = 300) {
+  const [suggestions, setSuggestions] = useState<GEItem[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current);
+    }
+
+    if (query.trim().length < 2) {
+      setSuggestions([]);
+      setShowSuggestions(false);
+      return;
+    }
+
+    searchTimeoutRef.current = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/ge/search?q=${encodeURIComponent(query)}`);
+        if (response.ok) {
+          const items: GEItem[] = await response.json();
+          const validItems = items.filter(item => item.price && item.price > 0).slice(0, 10);
+          setSuggestions(validItems);
+          setShowSuggestions(validItems.length > 0);
+        }
+      } catch (error) {
+        console.error("Search failed:", error);
+      } finally {
+        setIsSearching(false);
+      }
+    }, delayMs);
+
+    return () => {
+      if (searchTimeoutRef.current) {
+        clearTimeout(searchTimeoutRef.current);
+      }
+    };
+  }, [query, delayMs]);
+
+  const clearSuggestions = () => {
+    setSuggestions([]);
+    setShowSuggestions(false);
+  };
+
+  return { suggestions, isSearching, showSuggestions, setShowSuggestions, clearSuggestions };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { setTaxExemptions } from "@shared/taxCalculator";
+import type { TaxExemptItem } from "@shared/schema";
+
+// Responses taxed with the registry: the flip list and its valuation, stats, the tax
+// report and item pages
+const TAXED_QUERY_PREFIXES = ["/api/flips", "/api/stats/", "/api/admin/stats", "/api/items/"];
+
+function isTaxedQuery(queryKey: readonly unknown[]): boolean {
+  const [path] = queryKey;
+  return typeof path === "string" && TAXED_QUERY_PREFIXES.some(prefix => path.startsWith(prefix));
+}
+
+// Loads the tax-exempt item registry into the shared tax calculator, so every tax
+// preview on the client uses the same exemptions as the server. Still loading until
+// the current list has been applied.
+export function useTaxExemptions() {
+  const { data: exemptions, isLoading } = useQuery<TaxExemptItem[]>({
+    queryKey: ["/api/tax-exemptions"],
+    retry: false,
+  });
+  const [applied, setApplied] = useState<TaxExemptItem[] | undefined>();
+  const previous = useRef<TaxExemptItem[] | undefined>();
+
+  useEffect(() => {
+    if (!exemptions) return;
+    setTaxExemptions(exemptions);
+    setApplied(exemptions);
+    // Previews worked out under the old list are refetched and recomputed
+    if (previous.current && previous.current !== exemptions) {
+      queryClient.invalidateQueries({ predicate: query => isTaxedQuery(query.queryKey) });
+    }
+    previous.current = exemptions;
+  }, [exemptions]);
+
+  return { exemptions, isLoading: isLoading || (!!exemptions && applied !== exemptions) };
+}
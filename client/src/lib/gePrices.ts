@@ -0,0 +1,13 @@
+import { apiRequest } from "./queryClient";
+
+// Current GE price for each item ID in one request; items without a price are left out
+export async function fetchGePrices(itemIds: number[]): Promise<Map<number, number>> {
+  const prices = new Map<number, number>();
+  const ids = Array.from(new Set(itemIds));
+  if (ids.length === 0) return prices;
+
+  const response = await apiRequest("POST", "/api/ge/prices", { ids });
+  const data: Record<string, { price: number }> = await response.json();
+  for (const [id, item] of Object.entries(data)) prices.set(Number(id), item.price);
+  return prices;
+}
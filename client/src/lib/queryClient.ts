@@ -23,6 +23,18 @@ export async function apiRequest(
   return res;
 }
 
+// The server's { error } message from an apiRequest failure, for toasts
+export function getApiErrorMessage(error: unknown, fallback: string): string {
+  const body = error instanceof Error ? error.message.replace(/^\d+: /, "") : "";
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.error === "string") return parsed.error;
+  } catch {
+    // not JSON
+  }
+  return body || fallback;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
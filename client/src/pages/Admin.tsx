@@ -5,6 +5,8 @@ import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Users, UserCheck, UserX, TrendingUp, DollarSign, Activity, Package } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
+import { TaxExemptionsCard } from "@/components/TaxExemptionsCard";
+import { ItemAliasesCard } from "@/components/ItemAliasesCard";
 
 interface AdminUser {
   id: string;
@@ -316,6 +318,9 @@ export default function Admin() {
             </CardContent>
           </Card>
         </div>
+
+        <TaxExemptionsCard />
+        <ItemAliasesCard />
       </div>
     </div>
   );
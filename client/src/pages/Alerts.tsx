@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { fetchGePrices } from "@/lib/gePrices";
 import type { PriceAlert } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -150,23 +151,23 @@ export default function Alerts() {
   const fetchLivePricesAndCheck = useCallback(async () => {
     if (alerts.length === 0) return;
 
-    const newPrices = new Map<number, number>();
+    let newPrices: Map<number, number>;
+    try {
+      newPrices = await fetchGePrices(alerts.map(alert => alert.itemId));
+    } catch {
+      return;
+    }
+
     for (const alert of alerts) {
-      try {
-        const response = await fetch(`/api/ge/price?name=${encodeURIComponent(alert.itemName)}`);
-        if (response.ok) {
-          const data = await response.json();
-          newPrices.set(alert.itemId, data.price);
+      const price = newPrices.get(alert.itemId);
+      if (price === undefined) continue;
 
-          const isTriggered = alert.alertType === "below" 
-            ? data.price <= alert.targetPrice
-            : data.price >= alert.targetPrice;
+      const isTriggered = alert.alertType === "below" 
+        ? price <= alert.targetPrice
+        : price >= alert.targetPrice;
 
-          if (isTriggered && alert.isActive === 1) {
-            sendPriceNotification(alert, data.price);
-          }
-        }
-      } catch {
+      if (isTriggered && alert.isActive === 1) {
+        sendPriceNotification(alert, price);
       }
     }
     setLivePrices(newPrices);
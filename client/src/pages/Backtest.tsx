@@ -0,0 +1,233 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { MAX_BACKTEST_ITEMS, type BacktestReport, type BacktestRuleScore, type HorizonScore } from "@shared/backtest";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useItemSearch } from "@/hooks/useItemSearch";
+import { Loader2, RotateCcw, X } from "lucide-react";
+
+const RULE_LABELS: Record<string, string> = {
+  near_low: "Near 30-day low",
+  near_high: "Near 30-day high",
+  falling_streak: "Falling streak",
+  rising_streak: "Rising streak",
+  below_average: "Below 30-day average",
+  above_average: "Above 30-day average",
+  normal_range: "Normal range",
+  moderate_volatility: "Moderate volatility, good spread (high)",
+  high_volatility: "High volatility (low)",
+  narrow_margin: "Narrow margin (low)",
+  falling_above_average: "Falling, above average (medium)",
+  rising_below_average: "Rising from below average (high)",
+  standard: "Standard conditions (medium)",
+};
+
+const ACTION_CLASSES: Record<string, string> = {
+  buy: "bg-success/10 text-success border-success/20",
+  sell: "bg-destructive/10 text-destructive border-destructive/20",
+  hold: "bg-muted text-muted-foreground",
+};
+
+function hitRateClass(hitRate: number | null): string {
+  if (hitRate === null) return "text-muted-foreground";
+  if (hitRate >= 55) return "text-success";
+  if (hitRate < 45) return "text-destructive";
+  return "";
+}
+
+function HorizonCell({ score }: { score: HorizonScore }) {
+  if (score.hitRate === null) {
+    return <TableCell className="text-right text-muted-foreground">—</TableCell>;
+  }
+  return (
+    <TableCell className="text-right">
+      <div className={`font-mono font-medium ${hitRateClass(score.hitRate)}`}>{score.hitRate}%</div>
+      <div className="text-xs text-muted-foreground font-mono">
+        {score.avgReturn! >= 0 ? "+" : ""}{score.avgReturn}% · n={score.samples}
+      </div>
+    </TableCell>
+  );
+}
+
+function RuleTable({ title, description, rules, horizons, testId }: {
+  title: string;
+  description: string;
+  rules: BacktestRuleScore[];
+  horizons: number[];
+  testId: string;
+}) {
+  return (
+    <Card data-testid={testId}>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+        <p className="text-sm text-muted-foreground">{description}</p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Rule</TableHead>
+              <TableHead>Call</TableHead>
+              <TableHead className="text-right">Signals</TableHead>
+              {horizons.map(days => (
+                <TableHead key={days} className="text-right">{days}d hit rate</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map(rule => (
+              <TableRow key={rule.rule} data-testid={`${testId}-row-${rule.rule}`}>
+                <TableCell className="font-medium">{RULE_LABELS[rule.rule] ?? rule.rule}</TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={ACTION_CLASSES[rule.action]}>{rule.action.toUpperCase()}</Badge>
+                </TableCell>
+                <TableCell className="text-right font-mono">{rule.signals.toLocaleString()}</TableCell>
+                {rule.horizons.map(score => <HorizonCell key={score.days} score={score} />)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Backtest() {
+  // null = the user's most flipped items
+  const [customItems, setCustomItems] = useState<{ id: number; name: string }[] | null>(null);
+  const [search, setSearch] = useState("");
+  const { suggestions, showSuggestions, setShowSuggestions, clearSuggestions } = useItemSearch(search);
+
+  const url = customItems
+    ? `/api/backtest?itemIds=${customItems.map(item => item.id).join(",")}`
+    : "/api/backtest";
+  const { data: report, isLoading, isFetching } = useQuery<BacktestReport>({
+    queryKey: [url],
+    enabled: customItems === null || customItems.length > 0,
+  });
+
+  const addItem = (item: { id: number; name: string }) => {
+    const current = customItems ?? report?.items.map(entry => ({ id: entry.itemId, name: entry.itemName })) ?? [];
+    if (!current.some(entry => entry.id === item.id)) {
+      setCustomItems([...current, { id: item.id, name: item.name }].slice(-MAX_BACKTEST_ITEMS));
+    }
+    setSearch("");
+    clearSuggestions();
+  };
+
+  const removeItem = (itemId: number) => {
+    const current = customItems ?? report?.items.map(entry => ({ id: entry.itemId, name: entry.itemName })) ?? [];
+    setCustomItems(current.filter(entry => entry.id !== itemId));
+  };
+
+  const trendRules = report?.rules.filter(rule => rule.engine === "trend") ?? [];
+  const suggestionRules = report?.rules.filter(rule => rule.engine === "suggestion") ?? [];
+
+  return (
+    <div className="bg-background" data-testid="page-backtest">
+      <main className="mx-auto max-w-6xl px-4 py-8 sm:px-6 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold">Recommendation Backtest</h1>
+          <p className="text-muted-foreground mt-1">
+            Each day of the last 90 is replayed with only the prices known that day. Buy calls count as hits when the price
+            went up, sell calls when it went down, and holds when it moved less than {report?.holdBandPercent ?? 2}%.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+            <CardTitle className="text-base">
+              {customItems ? "Items" : "Your most flipped items"}
+            </CardTitle>
+            {customItems && (
+              <Button variant="ghost" size="sm" onClick={() => setCustomItems(null)} data-testid="button-reset-backtest-items">
+                <RotateCcw className="h-4 w-4 mr-1" />
+                Use my flips
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="relative max-w-sm">
+              <Input
+                placeholder="Add an item..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onFocus={() => suggestions.length > 0 && setShowSuggestions(true)}
+                data-testid="input-backtest-item"
+              />
+              {showSuggestions && (
+                <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                  {suggestions.map(item => (
+                    <button
+                      key={item.id}
+                      type="button"
+                      className="block w-full px-3 py-2 text-left text-sm hover-elevate"
+                      onClick={() => addItem(item)}
+                      data-testid={`option-backtest-item-${item.id}`}
+                    >
+                      {item.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(report?.items ?? []).map(item => (
+                <Badge key={item.itemId} variant="secondary" className="gap-1" data-testid={`badge-backtest-item-${item.itemId}`}>
+                  {item.itemName}
+                  <span className="text-muted-foreground">· {item.days}d</span>
+                  <button type="button" onClick={() => removeItem(item.itemId)} aria-label={`Remove ${item.itemName}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {report && report.skippedItemIds.length > 0 && (
+                <span className="text-xs text-muted-foreground self-center">
+                  {report.skippedItemIds.length} item(s) had no price history
+                </span>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {isLoading || isFetching ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Replaying price history...
+          </div>
+        ) : !report || report.items.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            {customItems ? "Add an item to backtest" : "Log some flips with GE items, or add items above, to run a backtest"}
+          </div>
+        ) : (
+          <>
+            <RuleTable
+              title="Trend Recommendations"
+              description="The buy/sell/hold call shown with an item's price trend"
+              rules={trendRules}
+              horizons={report.horizons}
+              testId="table-backtest-trend"
+            />
+            <RuleTable
+              title="Price Suggestion Confidence"
+              description="Confident suggestions are scored as buys, and ones that advise waiting as holds"
+              rules={suggestionRules}
+              horizons={report.horizons}
+              testId="table-backtest-suggestions"
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,567 @@
+import { useState, useMemo } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { GE_SLOT_COUNT, type GeOffer, type FlipWithSells, type RsAccount } from "@shared/schema";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useItemSearch, type GEItem } from "@/hooks/useItemSearch";
+import { LayoutGrid, Plus, Loader2, Check, Ban, Trash2 } from "lucide-react";
+import { formatGP } from "@/lib/formatters";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+
+const NO_ACCOUNT = "none";
+
+const SLOTS = Array.from({ length: GE_SLOT_COUNT }, (_, i) => i + 1);
+
+interface OfferResult extends GeOffer {
+  flips: FlipWithSells[];
+  unmatchedQuantity: number;
+  achievements: { goalType: string; targetAmount: number }[];
+}
+
+function isActive(offer: GeOffer) {
+  return offer.status === "placed" || offer.status === "partial";
+}
+
+function accountKey(rsAccountId: string | null | undefined) {
+  return rsAccountId ?? NO_ACCOUNT;
+}
+
+export default function GEOffers() {
+  const { toast } = useToast();
+  const [accountId, setAccountId] = useState(NO_ACCOUNT);
+  const [slot, setSlot] = useState("");
+  const [offerType, setOfferType] = useState<"buy" | "sell">("buy");
+  const [itemName, setItemName] = useState("");
+  const [selectedItem, setSelectedItem] = useState<GEItem | null>(null);
+  const [limitPrice, setLimitPrice] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [flipId, setFlipId] = useState("auto");
+  const [fillInputs, setFillInputs] = useState<Record<string, string>>({});
+
+  const { suggestions, isSearching, showSuggestions, setShowSuggestions, clearSuggestions } = useItemSearch(itemName);
+
+  const { data: offers = [], isLoading } = useQuery<GeOffer[]>({
+    queryKey: ["/api/ge-offers"],
+  });
+
+  const { data: rsAccounts = [] } = useQuery<RsAccount[]>({
+    queryKey: ["/api/rs-accounts"],
+  });
+
+  const { data: flips = [] } = useQuery<FlipWithSells[]>({
+    queryKey: ["/api/flips"],
+  });
+
+  const activeOffers = offers.filter(isActive);
+  const finishedOffers = offers.filter(offer => !isActive(offer)).slice(0, 10);
+
+  // One board per RS account, plus "No account" when there are no accounts or it has offers
+  const boards = useMemo(() => {
+    const list = rsAccounts.map(account => ({ key: account.id, label: account.displayName }));
+    if (list.length === 0 || activeOffers.some(offer => !offer.rsAccountId)) {
+      list.push({ key: NO_ACCOUNT, label: "No account" });
+    }
+    return list;
+  }, [rsAccounts, activeOffers]);
+
+  const usedSlots = new Set(
+    activeOffers
+      .filter(offer => accountKey(offer.rsAccountId) === accountId)
+      .map(offer => offer.slot)
+  );
+
+  // Open flips a sell offer could close, matched on item and account
+  const sellableFlips = useMemo(() => {
+    if (offerType !== "sell" || !selectedItem) return [];
+    return flips.filter(flip => {
+      if (flip.itemId ? flip.itemId !== selectedItem.id : flip.itemName.toLowerCase() !== selectedItem.name.toLowerCase()) return false;
+      if (accountId !== NO_ACCOUNT && flip.rsAccountId !== accountId) return false;
+      return summarizeFlipSells(flip).remainingQuantity > 0;
+    });
+  }, [flips, offerType, selectedItem, accountId]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/ge-offers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/buy-limits"] });
+  };
+
+  const notifyResult = (result: OfferResult) => {
+    if (result.status !== "completed" && result.status !== "aborted") return;
+    if (result.offerType === "buy" && result.flips.length > 0) {
+      toast({ title: "Flip opened", description: `${result.filledQuantity.toLocaleString()} x ${result.itemName} added to your flips` });
+    } else if (result.offerType === "sell" && result.filledQuantity > 0) {
+      toast({
+        title: "Flips updated",
+        description: result.unmatchedQuantity > 0
+          ? `${result.unmatchedQuantity.toLocaleString()} sold ${result.itemName} had no open flip to close`
+          : `Sold ${result.filledQuantity.toLocaleString()} x ${result.itemName}`,
+      });
+    }
+    for (const achievement of result.achievements) {
+      const goalLabel = { daily: "Daily", weekly: "Weekly", monthly: "Monthly" }[achievement.goalType] || achievement.goalType;
+      setTimeout(() => {
+        toast({
+          title: `🎉 ${goalLabel} Goal Achieved!`,
+          description: `Congratulations! You've hit your ${goalLabel.toLowerCase()} profit target of ${(achievement.targetAmount / 1000000).toFixed(1)}M gp!`,
+          duration: 10000,
+        });
+      }, 500);
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: {
+      rsAccountId?: string;
+      slot: number;
+      offerType: "buy" | "sell";
+      itemName: string;
+      itemIcon?: string;
+      itemId?: number;
+      limitPrice: number;
+      quantity: number;
+      flipId?: string;
+    }) => {
+      return await apiRequest("POST", "/api/ge-offers", data);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Offer placed" });
+      resetForm();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to place offer. Is that slot already in use?", variant: "destructive" });
+    },
+  });
+
+  const fillMutation = useMutation({
+    mutationFn: async ({ id, filledQuantity }: { id: string; filledQuantity: number }) => {
+      const response = await apiRequest("PATCH", `/api/ge-offers/${id}`, { filledQuantity });
+      return await response.json() as OfferResult;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setFillInputs(prev => ({ ...prev, [result.id]: "" }));
+      notifyResult(result);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to update offer", variant: "destructive" });
+    },
+  });
+
+  const abortMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/ge-offers/${id}/abort`);
+      return await response.json() as OfferResult;
+    },
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: "Offer aborted" });
+      notifyResult(result);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to abort offer", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/ge-offers/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ge-offers"] });
+    },
+  });
+
+  const handleSelectItem = (item: GEItem) => {
+    setItemName(item.name);
+    setSelectedItem(item);
+    setLimitPrice(item.price.toString());
+    setFlipId("auto");
+    clearSuggestions();
+  };
+
+  const resetForm = () => {
+    setSlot("");
+    setItemName("");
+    setSelectedItem(null);
+    setLimitPrice("");
+    setQuantity("");
+    setFlipId("auto");
+  };
+
+  const selectSlot = (boardKey: string, slotNumber: number) => {
+    setAccountId(boardKey);
+    setSlot(slotNumber.toString());
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedItem || !slot) return;
+
+    createMutation.mutate({
+      rsAccountId: accountId !== NO_ACCOUNT ? accountId : undefined,
+      slot: parseInt(slot),
+      offerType,
+      itemName: selectedItem.name,
+      itemIcon: selectedItem.icon,
+      itemId: selectedItem.id,
+      limitPrice: parseInt(limitPrice),
+      quantity: parseInt(quantity),
+      flipId: offerType === "sell" && flipId !== "auto" ? flipId : undefined,
+    });
+  };
+
+  const handleFill = (offer: GeOffer) => {
+    const filledQuantity = parseInt(fillInputs[offer.id] ?? "");
+    if (isNaN(filledQuantity)) return;
+    fillMutation.mutate({ id: offer.id, filledQuantity: Math.min(filledQuantity, offer.quantity) });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="bg-background">
+        <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6">
+          <div className="text-center text-muted-foreground">Loading offers...</div>
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-background">
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <LayoutGrid className="h-6 w-6" />
+            GE Offers
+          </h1>
+          <p className="text-muted-foreground">
+            Track your Grand Exchange slots. Completed buys open a flip, completed sells close one.
+          </p>
+        </div>
+
+        <div className="grid gap-8 lg:grid-cols-3">
+          <div className="lg:col-span-1">
+            <Card>
+              <CardHeader className="pb-4">
+                <CardTitle className="text-lg">Place Offer</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSubmit} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>RS Account</Label>
+                      <Select value={accountId} onValueChange={(v) => { setAccountId(v); setSlot(""); }}>
+                        <SelectTrigger data-testid="select-offer-account">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_ACCOUNT}>No account</SelectItem>
+                          {rsAccounts.map(account => (
+                            <SelectItem key={account.id} value={account.id}>{account.displayName}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Slot</Label>
+                      <Select value={slot} onValueChange={setSlot}>
+                        <SelectTrigger data-testid="select-offer-slot">
+                          <SelectValue placeholder="Slot" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SLOTS.map(slotNumber => (
+                            <SelectItem key={slotNumber} value={slotNumber.toString()} disabled={usedSlots.has(slotNumber)}>
+                              Slot {slotNumber}{usedSlots.has(slotNumber) ? " (in use)" : ""}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Offer Type</Label>
+                    <Select value={offerType} onValueChange={(v) => setOfferType(v as "buy" | "sell")}>
+                      <SelectTrigger data-testid="select-offer-type">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="buy">Buy</SelectItem>
+                        <SelectItem value="sell">Sell</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Item Name</Label>
+                    <div className="relative">
+                      <Input
+                        value={itemName}
+                        onChange={(e) => {
+                          setItemName(e.target.value);
+                          setSelectedItem(null);
+                        }}
+                        onFocus={() => suggestions.length > 0 && setShowSuggestions(true)}
+                        onBlur={() => setTimeout(() => setShowSuggestions(false), 200)}
+                        placeholder="Search for an item..."
+                        data-testid="input-offer-item"
+                        autoComplete="off"
+                      />
+                      {isSearching && (
+                        <div className="absolute right-3 top-1/2 -translate-y-1/2">
+                          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                        </div>
+                      )}
+                      {showSuggestions && suggestions.length > 0 && (
+                        <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-lg max-h-64 overflow-auto">
+                          {suggestions.map((item) => (
+                            <button
+                              key={item.id}
+                              type="button"
+                              className="w-full flex items-center gap-3 px-3 py-2 hover-elevate text-left"
+                              onClick={() => handleSelectItem(item)}
+                              data-testid={`offer-suggestion-${item.id}`}
+                            >
+                              {item.icon && (
+                                <img src={item.icon} alt={item.name} className="h-6 w-6 object-contain" />
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <div className="font-medium truncate">{item.name}</div>
+                                <div className="text-xs text-muted-foreground font-mono">
+                                  {item.price.toLocaleString()} gp
+                                </div>
+                              </div>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Limit Price</Label>
+                      <Input
+                        type="number"
+                        value={limitPrice}
+                        onChange={(e) => setLimitPrice(e.target.value)}
+                        min="1"
+                        className="font-mono"
+                        data-testid="input-offer-price"
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Quantity</Label>
+                      <Input
+                        type="number"
+                        value={quantity}
+                        onChange={(e) => setQuantity(e.target.value)}
+                        min="1"
+                        placeholder={selectedItem?.geLimit ? `Limit ${selectedItem.geLimit.toLocaleString()}` : undefined}
+                        className="font-mono"
+                        data-testid="input-offer-quantity"
+                        required
+                      />
+                    </div>
+                  </div>
+
+                  {offerType === "sell" && selectedItem && (
+                    <div className="space-y-2">
+                      <Label>Closes Flip</Label>
+                      <Select value={flipId} onValueChange={setFlipId}>
+                        <SelectTrigger data-testid="select-offer-flip">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Oldest open flip</SelectItem>
+                          {sellableFlips.map(flip => (
+                            <SelectItem key={flip.id} value={flip.id}>
+                              {summarizeFlipSells(flip).remainingQuantity.toLocaleString()} @ {formatGP(flip.buyPrice)} ({format(new Date(flip.buyDate), "MMM d")})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {sellableFlips.length === 0 && (
+                        <p className="text-xs text-muted-foreground">No open flips for this item yet</p>
+                      )}
+                    </div>
+                  )}
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={!selectedItem || !slot || createMutation.isPending}
+                    data-testid="button-place-offer"
+                  >
+                    {createMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    ) : (
+                      <Plus className="h-4 w-4 mr-2" />
+                    )}
+                    Place Offer
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="lg:col-span-2 space-y-6">
+            {boards.map(board => (
+              <Card key={board.key} data-testid={`board-${board.key}`}>
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg flex items-center justify-between gap-2">
+                    {board.label}
+                    <span className="text-sm font-normal text-muted-foreground">
+                      {activeOffers.filter(offer => accountKey(offer.rsAccountId) === board.key).length}/{GE_SLOT_COUNT} slots used
+                    </span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid gap-3 sm:grid-cols-2 xl:grid-cols-4">
+                    {SLOTS.map(slotNumber => {
+                      const offer = activeOffers.find(o => accountKey(o.rsAccountId) === board.key && o.slot === slotNumber);
+                      if (!offer) {
+                        return (
+                          <button
+                            key={slotNumber}
+                            type="button"
+                            onClick={() => selectSlot(board.key, slotNumber)}
+                            className={cn(
+                              "flex min-h-32 flex-col items-center justify-center rounded-lg border border-dashed text-sm text-muted-foreground hover-elevate",
+                              accountId === board.key && slot === slotNumber.toString() && "border-primary text-foreground"
+                            )}
+                            data-testid={`slot-empty-${board.key}-${slotNumber}`}
+                          >
+                            <span className="font-medium">Slot {slotNumber}</span>
+                            <span className="text-xs">Empty</span>
+                          </button>
+                        );
+                      }
+                      return (
+                        <div
+                          key={slotNumber}
+                          className="flex min-h-32 flex-col gap-2 rounded-lg border p-3"
+                          data-testid={`slot-offer-${offer.id}`}
+                        >
+                          <div className="flex items-center justify-between gap-2 text-xs">
+                            <span className="text-muted-foreground">Slot {slotNumber}</span>
+                            <Badge variant={offer.offerType === "buy" ? "default" : "secondary"}>
+                              {offer.offerType === "buy" ? "Buy" : "Sell"}
+                            </Badge>
+                          </div>
+                          <div className="flex items-center gap-2 min-w-0">
+                            {offer.itemIcon && (
+                              <img src={offer.itemIcon} alt={offer.itemName} className="h-6 w-6 object-contain" />
+                            )}
+                            <span className="font-medium truncate text-sm">{offer.itemName}</span>
+                          </div>
+                          <div className="text-xs font-mono text-muted-foreground">
+                            {formatGP(offer.limitPrice)} gp each
+                          </div>
+                          <Progress value={(offer.filledQuantity / offer.quantity) * 100} className="h-2" />
+                          <div className="text-xs font-mono">
+                            {offer.filledQuantity.toLocaleString()} / {offer.quantity.toLocaleString()}
+                          </div>
+                          <div className="flex gap-1">
+                            <Input
+                              type="number"
+                              value={fillInputs[offer.id] ?? ""}
+                              onChange={(e) => setFillInputs(prev => ({ ...prev, [offer.id]: e.target.value }))}
+                              min="0"
+                              max={offer.quantity}
+                              placeholder="Filled"
+                              className="h-8 font-mono text-xs"
+                              data-testid={`input-offer-filled-${offer.id}`}
+                            />
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8"
+                              onClick={() => handleFill(offer)}
+                              disabled={fillMutation.isPending}
+                              data-testid={`button-offer-fill-${offer.id}`}
+                            >
+                              Set
+                            </Button>
+                          </div>
+                          <div className="flex gap-1">
+                            <Button
+                              size="sm"
+                              className="h-8 flex-1"
+                              onClick={() => fillMutation.mutate({ id: offer.id, filledQuantity: offer.quantity })}
+                              disabled={fillMutation.isPending}
+                              data-testid={`button-offer-complete-${offer.id}`}
+                            >
+                              <Check className="h-3 w-3 mr-1" />
+                              Done
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-8 flex-1"
+                              onClick={() => abortMutation.mutate(offer.id)}
+                              disabled={abortMutation.isPending}
+                              data-testid={`button-offer-abort-${offer.id}`}
+                            >
+                              <Ban className="h-3 w-3 mr-1" />
+                              Abort
+                            </Button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+
+            {finishedOffers.length > 0 && (
+              <Card>
+                <CardHeader className="pb-4">
+                  <CardTitle className="text-lg">Recent Offers</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {finishedOffers.map(offer => (
+                    <div key={offer.id} className="flex items-center gap-3 text-sm" data-testid={`row-finished-offer-${offer.id}`}>
+                      <Badge variant={offer.status === "completed" ? "default" : "outline"}>
+                        {offer.status === "completed" ? "Completed" : "Aborted"}
+                      </Badge>
+                      <span className="text-muted-foreground">{offer.offerType === "buy" ? "Buy" : "Sell"}</span>
+                      <span className="font-medium truncate flex-1">{offer.itemName}</span>
+                      <span className="font-mono text-xs">
+                        {offer.filledQuantity.toLocaleString()}/{offer.quantity.toLocaleString()} @ {formatGP(offer.limitPrice)}
+                      </span>
+                      {offer.completedAt && (
+                        <span className="text-xs text-muted-foreground">{format(new Date(offer.completedAt), "MMM d, HH:mm")}</span>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        onClick={() => deleteMutation.mutate(offer.id)}
+                        data-testid={`button-delete-offer-${offer.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
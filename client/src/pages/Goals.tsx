@@ -1,6 +1,6 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { ProfitGoal, Flip } from "@shared/schema";
+import type { ProfitGoal, FlipWithSells } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -10,7 +10,7 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Target, TrendingUp, Calendar, CalendarDays, CalendarRange, Trash2, Plus, Check } from "lucide-react";
 import { useState, useMemo } from "react";
-import { startOfDay, startOfWeek, startOfMonth, isAfter } from "date-fns";
+import { periodProfits } from "@shared/profitLedger";
 import {
   Dialog,
   DialogContent,
@@ -28,23 +28,6 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 
-const GE_TAX_RATE = 0.02;
-
-const calculateGETax = (sellPrice: number, quantity: number) => {
-  // 2% tax per item, floored, then multiplied by quantity
-  const taxPerItem = Math.floor(sellPrice * GE_TAX_RATE);
-  return taxPerItem * quantity;
-};
-
-const calculateProfit = (flip: Flip) => {
-  if (!flip.sellPrice) return 0;
-  const grossRevenue = flip.sellPrice * flip.quantity;
-  const tax = calculateGETax(flip.sellPrice, flip.quantity);
-  const netRevenue = grossRevenue - tax;
-  const totalCost = flip.buyPrice * flip.quantity;
-  return netRevenue - totalCost;
-};
-
 export default function Goals() {
   const { toast } = useToast();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -55,7 +38,7 @@ export default function Goals() {
     queryKey: ["/api/goals"],
   });
 
-  const { data: flips = [], isLoading: flipsLoading } = useQuery<Flip[]>({
+  const { data: flips = [], isLoading: flipsLoading } = useQuery<FlipWithSells[]>({
     queryKey: ["/api/flips"],
   });
 
@@ -121,34 +104,8 @@ export default function Goals() {
     },
   });
 
-  const profitByPeriod = useMemo(() => {
-    const now = new Date();
-    const dayStart = startOfDay(now);
-    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const monthStart = startOfMonth(now);
-
-    let dailyProfit = 0;
-    let weeklyProfit = 0;
-    let monthlyProfit = 0;
-
-    flips.forEach((flip) => {
-      if (!flip.sellDate || !flip.sellPrice) return;
-      const sellDate = new Date(flip.sellDate);
-      const profit = calculateProfit(flip);
-
-      if (isAfter(sellDate, dayStart) || sellDate.getTime() === dayStart.getTime()) {
-        dailyProfit += profit;
-      }
-      if (isAfter(sellDate, weekStart) || sellDate.getTime() === weekStart.getTime()) {
-        weeklyProfit += profit;
-      }
-      if (isAfter(sellDate, monthStart) || sellDate.getTime() === monthStart.getTime()) {
-        monthlyProfit += profit;
-      }
-    });
-
-    return { daily: dailyProfit, weekly: weeklyProfit, monthly: monthlyProfit };
-  }, [flips]);
+  // Booked per sell fill on its sell date (and per write-off), the same way the server checks goals
+  const profitByPeriod = useMemo(() => periodProfits(flips), [flips]);
 
   const getGoalByType = (type: string) => goals.find((g) => g.goalType === type);
 
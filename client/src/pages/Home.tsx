@@ -3,9 +3,13 @@ import { FlipForm } from "@/components/FlipForm";
 import { FlipCardGrid } from "@/components/FlipCardGrid";
 import { GoalsProgress } from "@/components/GoalsProgress";
 import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { ImportFlipsDialog } from "@/components/ImportFlipsDialog";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { queryClient, apiRequest } from "@/lib/queryClient";
-import type { Flip, User } from "@shared/schema";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import type { FlipWithSells, FlipWithTags, User } from "@shared/schema";
+import { summarizeFlipSells } from "@shared/flipSells";
+import type { FlipStatus } from "@shared/flipStatus";
+import type { EditFlipSell } from "@/components/EditFlipDialog";
 import { useToast } from "@/hooks/use-toast";
 import { ToastAction } from "@/components/ui/toast";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
@@ -49,6 +53,7 @@ export default function Home() {
   const [selectedChart, setSelectedChart] = useState<{ itemId?: number; itemName: string } | null>(null);
   const [viewScope, setViewScope] = useState<'mine' | 'all'>('mine');
   const [filterUserId, setFilterUserId] = useState<string | null>(null);
+  const [importOpen, setImportOpen] = useState(false);
   const hasCheckedGoals = useRef(false);
   
   // Check for already-met goals on first page load (first-time-of-day celebration)
@@ -134,7 +139,7 @@ export default function Home() {
       : `/api/flips?scope=all`
     : `/api/flips`;
 
-  const { data: flips = [], isLoading } = useQuery<Flip[]>({
+  const { data: flips = [], isLoading } = useQuery<(FlipWithSells & FlipWithTags)[]>({
     queryKey: flipsQueryKey,
     queryFn: async () => {
       const res = await fetch(flipsQueryUrl, { credentials: 'include' });
@@ -155,12 +160,13 @@ export default function Home() {
       sellDate?: Date;
       notes?: string;
       category?: string;
-      strategyTag: "Fast Flip" | "Slow Flip" | "Bulk" | "High Margin" | "Speculative" | "Other";
+      tagIds: string[];
     }) => {
       return await apiRequest("POST", "/api/flips", flipData);
     },
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/buy-limits"] });
       toast({
         title: "Flip added",
         description: "Your flip has been logged successfully",
@@ -238,6 +244,59 @@ export default function Home() {
     },
   });
 
+  const undoMoveToPortfolioMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/flips/${id}/portfolio`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/holdings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/summary"] });
+      toast({
+        title: "Flip moved back",
+        description: "The flip is back in your flips",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to move flip back"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const moveToPortfolioMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/flips/${id}/portfolio`);
+    },
+    onSuccess: (_, movedId) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/holdings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/summary"] });
+      toast({
+        title: "Moved to portfolio",
+        description: "The flip is now a long-term holding",
+        action: (
+          <ToastAction
+            altText="Undo move"
+            onClick={() => undoMoveToPortfolioMutation.mutate(movedId)}
+            data-testid="button-undo-move-to-portfolio"
+          >
+            Undo
+          </ToastAction>
+        ),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getApiErrorMessage(error, "Failed to move flip to portfolio"),
+        variant: "destructive",
+      });
+    },
+  });
+
   const updateFlipMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: Partial<{
       quantity: number;
@@ -247,6 +306,9 @@ export default function Home() {
       sellDate?: Date;
       notes?: string;
       category?: string;
+      sells?: EditFlipSell[];
+      tagIds?: string[];
+      status?: FlipStatus;
     }> }) => {
       return await apiRequest("PATCH", `/api/flips/${id}`, data);
     },
@@ -320,7 +382,7 @@ export default function Home() {
     sellDate?: Date;
     notes?: string;
     category?: string;
-    strategyTag: "Fast Flip" | "Slow Flip" | "Bulk" | "High Margin" | "Speculative" | "Other";
+    tagIds: string[];
     membershipStatus: "F2P" | "Members" | "Unknown";
     rsAccountId?: string;
     isMembers?: boolean;
@@ -341,6 +403,9 @@ export default function Home() {
     sellDate?: Date;
     notes?: string;
     category?: string;
+    sells?: EditFlipSell[];
+    tagIds?: string[];
+    status?: FlipStatus;
   }>) => {
     updateFlipMutation.mutate({ id, data });
   };
@@ -377,40 +442,22 @@ export default function Home() {
     setSelectedChart({ itemId, itemName });
   };
 
-  const GE_TAX_RATE = 0.02;
+  // Profit and tax are realized per sell fill, including partially sold flips
+  const sellSummaries = flips.map((flip) => ({ flip, summary: summarizeFlipSells(flip) }));
 
-  const calculateGETax = (sellPrice: number, quantity: number) => {
-    // 2% tax per item, floored, then multiplied by quantity
-    const taxPerItem = Math.floor(sellPrice * GE_TAX_RATE);
-    return taxPerItem * quantity;
-  };
+  const totalProfit = sellSummaries.reduce((sum, { summary }) => sum + summary.profit, 0);
 
-  const totalProfit = flips.reduce((sum, flip) => {
-    if (flip.sellPrice) {
-      const grossRevenue = flip.sellPrice * flip.quantity;
-      const tax = calculateGETax(flip.sellPrice, flip.quantity);
-      const netRevenue = grossRevenue - tax;
-      const totalCost = flip.buyPrice * flip.quantity;
-      return sum + (netRevenue - totalCost);
-    }
-    return sum;
-  }, 0);
-
-  const totalTaxPaid = flips.reduce((sum, flip) => {
-    if (flip.sellPrice) {
-      return sum + calculateGETax(flip.sellPrice, flip.quantity);
-    }
-    return sum;
-  }, 0);
+  const totalTaxPaid = sellSummaries.reduce((sum, { summary }) => sum + summary.totalTax, 0);
 
-  const completedFlips = flips.filter((flip) => flip.sellPrice).length;
+  // Nothing left open and something booked; a flip cancelled before any sells doesn't count
+  const completedFlips = sellSummaries.filter(({ summary }) => summary.remainingQuantity === 0 && summary.costBasis > 0).length;
 
-  const openPositions = flips
-    .filter((flip) => !flip.sellPrice)
-    .map((flip) => ({
+  const openPositions = sellSummaries
+    .filter(({ summary }) => summary.remainingQuantity > 0)
+    .map(({ flip, summary }) => ({
       id: flip.id,
       itemName: flip.itemName,
-      quantity: flip.quantity,
+      quantity: summary.remainingQuantity,
       buyPrice: flip.buyPrice,
       buyDate: new Date(flip.buyDate),
     }));
@@ -542,17 +589,22 @@ export default function Home() {
               sellDate: flip.sellDate ? new Date(flip.sellDate) : undefined,
               notes: flip.notes ?? undefined,
               category: flip.category ?? undefined,
-              strategyTag: flip.strategyTag ?? undefined,
+              tags: flip.tags,
               membershipStatus: flip.membershipStatus ?? undefined,
               isMembers: flip.isMembers ?? undefined,
               geLimit: flip.geLimit ?? undefined,
+              sells: flip.sells,
             }))} 
             onDelete={handleDeleteFlip}
             onEdit={handleEditFlip}
             onQuickSell={handleQuickSell}
             onViewChart={handleViewChart}
+            onMoveToPortfolio={viewScope === 'mine' ? (id) => moveToPortfolioMutation.mutate(id) : undefined}
+            onImport={viewScope === 'mine' ? () => setImportOpen(true) : undefined}
           />
         </div>
+
+        <ImportFlipsDialog open={importOpen} onOpenChange={setImportOpen} />
       </main>
     </div>
   );
@@ -0,0 +1,328 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import type { ItemOverview, ItemTradeSummary } from "@shared/itemOverview";
+import type { FlipWithSells, RsAccount } from "@shared/schema";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { flipLedger } from "@shared/profitLedger";
+import { FLIP_STATUS_LABELS } from "@shared/flipStatus";
+import { queryClient } from "@/lib/queryClient";
+import { formatGP, formatPercent } from "@/lib/formatters";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ItemIcon } from "@/components/ItemIcon";
+import { PriceHistoryChart } from "@/components/PriceHistoryChart";
+import { MarginHistoryChart } from "@/components/MarginHistoryChart";
+import { MarginCheckEntry } from "@/components/MarginCheckEntry";
+import { ArrowLeft, Bell, Eye, Loader2, TrendingDown, TrendingUp, Minus, Users } from "lucide-react";
+
+const RECOMMENDATION_CLASSES: Record<string, string> = {
+  buy: "bg-success/10 text-success border-success/20",
+  sell: "bg-destructive/10 text-destructive border-destructive/20",
+  hold: "bg-muted text-muted-foreground",
+};
+
+function profitClass(value: number): string {
+  return value > 0 ? "text-success" : value < 0 ? "text-destructive" : "";
+}
+
+function Stat({ label, value, detail, className = "" }: { label: string; value: string; detail?: string; className?: string }) {
+  return (
+    <div>
+      <div className="text-xs text-muted-foreground">{label}</div>
+      <div className={`font-mono font-semibold ${className}`}>{value}</div>
+      {detail && <div className="text-xs text-muted-foreground">{detail}</div>}
+    </div>
+  );
+}
+
+function TradeSummary({ trades }: { trades: ItemTradeSummary }) {
+  return (
+    <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+      <Stat label="Flips" value={trades.flipCount.toLocaleString()} />
+      <Stat
+        label="Realized profit"
+        value={`${formatGP(trades.realizedProfit)} gp`}
+        className={profitClass(trades.realizedProfit)}
+      />
+      <Stat
+        label="Avg buy / sell"
+        value={`${trades.avgBuyPrice !== null ? formatGP(trades.avgBuyPrice) : "—"} / ${trades.avgSellPrice !== null ? formatGP(trades.avgSellPrice) : "—"}`}
+      />
+      <Stat
+        label="Units bought / sold"
+        value={`${trades.unitsBought.toLocaleString()} / ${trades.unitsSold.toLocaleString()}`}
+        detail={trades.openQuantity > 0 ? `${trades.openQuantity.toLocaleString()} still held` : undefined}
+      />
+    </div>
+  );
+}
+
+function FlipRows({ flips, testId }: { flips: FlipWithSells[]; testId: string }) {
+  return (
+    <Table data-testid={testId}>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Bought</TableHead>
+          <TableHead className="text-right">Qty</TableHead>
+          <TableHead className="text-right">Buy</TableHead>
+          <TableHead className="text-right">Avg sell</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="text-right">Profit</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {flips.map(flip => {
+          const summary = summarizeFlipSells(flip);
+          const { profit } = flipLedger(flip);
+          return (
+            <TableRow key={flip.id} data-testid={`${testId}-row-${flip.id}`}>
+              <TableCell>{format(new Date(flip.buyDate), "MMM d, yyyy")}</TableCell>
+              <TableCell className="text-right font-mono">
+                {summary.soldQuantity > 0 && summary.soldQuantity < flip.quantity
+                  ? `${summary.soldQuantity.toLocaleString()}/${flip.quantity.toLocaleString()}`
+                  : flip.quantity.toLocaleString()}
+              </TableCell>
+              <TableCell className="text-right font-mono">{formatGP(flip.buyPrice)}</TableCell>
+              <TableCell className="text-right font-mono">
+                {summary.averageSellPrice !== null ? formatGP(summary.averageSellPrice) : "—"}
+              </TableCell>
+              <TableCell>
+                <Badge variant="outline">{FLIP_STATUS_LABELS[summary.status]}</Badge>
+              </TableCell>
+              <TableCell className={`text-right font-mono ${profitClass(profit)}`}>
+                {summary.soldQuantity > 0 || summary.writeOffLoss > 0 ? formatGP(profit) : "—"}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function Item() {
+  const params = useParams<{ id: string }>();
+  const itemId = parseInt(params.id);
+
+  const { data: overview, isLoading, error } = useQuery<ItemOverview>({
+    queryKey: [`/api/items/${itemId}/overview`],
+    enabled: !isNaN(itemId),
+  });
+
+  const { data: rsAccounts = [] } = useQuery<RsAccount[]>({
+    queryKey: ["/api/rs-accounts"],
+  });
+
+  // The chart reads history and trend from their own queries; seed them so it
+  // doesn't fetch again what the overview already brought
+  useEffect(() => {
+    if (!overview) return;
+    if (overview.history) queryClient.setQueryData(["/api/ge/history", itemId], overview.history);
+    if (overview.trend) queryClient.setQueryData(["/api/ge/trend", itemId], overview.trend);
+  }, [overview, itemId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-12 text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading item...
+      </div>
+    );
+  }
+
+  if (error || !overview) {
+    return (
+      <div className="text-center py-12 text-muted-foreground" data-testid="text-item-not-found">
+        Item not found
+      </div>
+    );
+  }
+
+  const { item, trend, suggestions, communityPrice, volume, trades, flips, openFlips, watchlist, alerts, marginChecks } = overview;
+  const itemName = item?.name ?? flips[0]?.itemName ?? `Item ${itemId}`;
+  const TrendIcon = trend?.direction === "rising" ? TrendingUp : trend?.direction === "falling" ? TrendingDown : Minus;
+
+  return (
+    <div className="bg-background" data-testid="page-item">
+      <main className="mx-auto max-w-6xl px-4 py-8 sm:px-6 space-y-6">
+        <div className="flex items-center gap-4">
+          <Button variant="ghost" size="icon" asChild>
+            <Link href="/" aria-label="Back" data-testid="link-item-back">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <ItemIcon itemName={itemName} itemIcon={item?.icon ?? flips[0]?.itemIcon ?? undefined} size="lg" />
+          <div className="min-w-0">
+            <h1 className="text-2xl font-bold truncate" data-testid="text-item-name">{itemName}</h1>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              {item?.isMembers !== undefined && <Badge variant="outline">{item.isMembers ? "Members" : "F2P"}</Badge>}
+              {item?.geLimit && <span>Buy limit {item.geLimit.toLocaleString()}</span>}
+              {watchlist && (
+                <Badge variant="secondary" className="gap-1" data-testid="badge-item-watchlist">
+                  <Eye className="h-3 w-3" />
+                  Watching
+                </Badge>
+              )}
+            </div>
+            {item?.examine && <p className="text-sm text-muted-foreground mt-1">{item.examine}</p>}
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="grid grid-cols-2 gap-4 pt-6 sm:grid-cols-4">
+            <Stat
+              label="GE price"
+              value={item ? `${item.price.toLocaleString()} gp` : "—"}
+              detail={item?.volume ? `${item.volume.toLocaleString()} traded today` : undefined}
+            />
+            <div>
+              <div className="text-xs text-muted-foreground">Trend</div>
+              {trend ? (
+                <>
+                  <div className="flex items-center gap-2 font-mono font-semibold">
+                    <TrendIcon className="h-4 w-4" />
+                    {formatPercent(trend.changePercent)}
+                    <Badge variant="outline" className={RECOMMENDATION_CLASSES[trend.recommendation]}>
+                      {trend.recommendation.toUpperCase()}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">{trend.recommendationReason}</div>
+                </>
+              ) : (
+                <div className="font-mono font-semibold">—</div>
+              )}
+            </div>
+            <Stat
+              label="Suggested buy / sell"
+              value={suggestions ? `${formatGP(suggestions.suggestedBuyPrice)} / ${formatGP(suggestions.suggestedSellPrice)}` : "—"}
+              detail={suggestions
+                ? suggestions.source === "margin_check"
+                  ? `From your margin check · ${suggestions.potentialROI.toFixed(1)}% ROI`
+                  : `${suggestions.confidence} confidence · ${suggestions.potentialROI.toFixed(1)}% ROI`
+                : undefined}
+            />
+            <Stat
+              label="Community buy / sell"
+              value={communityPrice ? `${formatGP(communityPrice.communityBuyPrice)} / ${formatGP(communityPrice.communitySellPrice)}` : "—"}
+              detail={communityPrice
+                ? `${communityPrice.tradeCount} trades by ${communityPrice.uniqueTraders} traders · ${communityPrice.confidence} confidence`
+                : "No community trades yet"}
+            />
+          </CardContent>
+        </Card>
+
+        <PriceHistoryChart itemId={itemId} itemName={itemName} userFlips={flips} />
+
+        <MarginHistoryChart itemId={itemId} checks={marginChecks} rsAccounts={rsAccounts} />
+        <MarginCheckEntry itemId={itemId} itemName={itemName} />
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Your Trades</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {flips.length === 0 ? (
+              <div className="text-muted-foreground">You haven't flipped this item yet</div>
+            ) : (
+              <>
+                <TradeSummary trades={trades} />
+                {openFlips.length > 0 && (
+                  <div>
+                    <h3 className="text-sm font-medium mb-1">Open flips</h3>
+                    <FlipRows flips={openFlips} testId="table-item-open-flips" />
+                  </div>
+                )}
+                <div>
+                  <h3 className="text-sm font-medium mb-1">History</h3>
+                  <FlipRows flips={flips} testId="table-item-flips" />
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid gap-6 md:grid-cols-2">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Bell className="h-4 w-4" />
+                Watchlist &amp; Alerts
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm">
+              {watchlist ? (
+                <div data-testid="text-item-watchlist-targets">
+                  Watching · target buy {watchlist.targetBuyPrice ? `${formatGP(watchlist.targetBuyPrice)} gp` : "—"},
+                  target sell {watchlist.targetSellPrice ? `${formatGP(watchlist.targetSellPrice)} gp` : "—"}
+                  {watchlist.notes && <div className="text-muted-foreground">{watchlist.notes}</div>}
+                </div>
+              ) : (
+                <div className="text-muted-foreground">Not on your watchlist</div>
+              )}
+              {alerts.length === 0 ? (
+                <div className="text-muted-foreground">No price alerts</div>
+              ) : (
+                alerts.map(alert => (
+                  <div key={alert.id} className="flex items-center gap-2" data-testid={`item-alert-${alert.id}`}>
+                    <Badge variant={alert.isActive ? "secondary" : "outline"}>
+                      {alert.isActive ? "Active" : "Triggered"}
+                    </Badge>
+                    <span>
+                      {alert.alertType === "above" ? "Above" : "Below"} {alert.targetPrice.toLocaleString()} gp
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <Users className="h-4 w-4" />
+                Community Volume
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {volume.weekly.length === 0 ? (
+                <div className="text-sm text-muted-foreground">No community trades logged</div>
+              ) : (
+                <Table data-testid="table-item-volume">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Week</TableHead>
+                      <TableHead className="text-right">Trades</TableHead>
+                      <TableHead className="text-right">Quantity</TableHead>
+                      <TableHead className="text-right">Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {volume.weekly.map(week => (
+                      <TableRow key={week.week}>
+                        <TableCell>{week.week}</TableCell>
+                        <TableCell className="text-right font-mono">{week.transactionCount.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{week.totalQuantity.toLocaleString()}</TableCell>
+                        <TableCell className="text-right font-mono">{formatGP(week.totalValue)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useState, useRef, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import type { PortfolioHolding, PortfolioCategory, PortfolioSnapshot, HoldingTransaction } from "@shared/schema";
+import { saleLedger } from "@shared/profitLedger";
 import { ItemIcon } from "@/components/ItemIcon";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -11,13 +12,13 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
-import { queryClient, apiRequest } from "@/lib/queryClient";
+import { queryClient, apiRequest, getApiErrorMessage } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { formatDistanceToNow, format } from "date-fns";
 import { 
   Briefcase, TrendingUp, Package, Coins, Plus, 
   Trash2, FolderPlus, Loader2, X, RefreshCw, ChevronDown,
-  BarChart3, PieChart, TrendingDown, Edit2, Search, History, ArrowDownCircle, ArrowUpCircle
+  BarChart3, PieChart, TrendingDown, Edit2, Search, History, ArrowDownCircle, ArrowUpCircle, Undo2
 } from "lucide-react";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { PortfolioValueChart } from "@/components/PortfolioValueChart";
@@ -212,6 +213,23 @@ export default function Portfolio() {
     },
   });
 
+  // Moves a flip that was turned into a holding back to the flips
+  const undoFlipMoveMutation = useMutation({
+    mutationFn: async (flipId: string) => {
+      return await apiRequest("DELETE", `/api/flips/${flipId}/portfolio`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/holdings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/summary"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+      setHistoryHolding(null);
+      toast({ title: "Flip moved back", description: "The flip is back in your flips" });
+    },
+    onError: (error) => {
+      toast({ title: "Error", description: getApiErrorMessage(error, "Failed to move flip back"), variant: "destructive" });
+    },
+  });
+
   const resetTransactionForm = () => {
     setTxType("buy");
     setTxQuantity("");
@@ -1093,10 +1111,12 @@ export default function Portfolio() {
                     {(() => {
                       const qty = parseInt(txQuantity) || 0;
                       const price = parseInt(txPrice) || 0;
-                      const fees = parseInt(txFees) || 0;
-                      const costBasis = transactionHolding.avgBuyPrice * qty;
-                      const proceeds = price * qty - fees;
-                      const pnl = proceeds - costBasis;
+                      const { costBasis, netSellTotal: proceeds, profit: pnl } = saleLedger({
+                        sellPrice: price,
+                        quantity: qty,
+                        costBasis: transactionHolding.avgBuyPrice * qty,
+                        tax: parseInt(txFees) || 0,
+                      });
                       return (
                         <div className="space-y-1 text-xs">
                           <div className="flex justify-between">
@@ -1204,6 +1224,19 @@ export default function Portfolio() {
                               {tx.notes}
                             </div>
                           )}
+                          {tx.flipId && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 mt-1 text-xs"
+                              onClick={() => undoFlipMoveMutation.mutate(tx.flipId!)}
+                              disabled={undoFlipMoveMutation.isPending}
+                              data-testid={`button-undo-flip-move-${tx.id}`}
+                            >
+                              <Undo2 className="mr-1 h-3 w-3" />
+                              Move back to flips
+                            </Button>
+                          )}
                         </div>
                         <div className="text-right">
                           <div className="font-mono text-sm font-medium">
@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import type { Recipe, RecipeWithComponents, RecipeRun, RecipeRunWithDetails, RsAccount } from "@shared/schema";
 import { ItemIcon } from "@/components/ItemIcon";
@@ -13,18 +13,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Textarea } from "@/components/ui/textarea";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useItemSearch, type GEItem } from "@/hooks/useItemSearch";
 import { 
   BookOpen, Plus, Trash2, Loader2, Play, CheckCircle2, 
   Package, ChevronRight
 } from "lucide-react";
 import { formatGP } from "@/lib/formatters";
-
-interface GEItem {
-  id: number;
-  name: string;
-  price: number;
-  icon?: string;
-}
+import { recipeRunLedger } from "@shared/profitLedger";
 
 interface ComponentInput {
   itemId?: number;
@@ -45,16 +40,10 @@ export default function Recipes() {
   const [outputQuantity, setOutputQuantity] = useState("1");
   const [recipeNotes, setRecipeNotes] = useState("");
   const [components, setComponents] = useState<ComponentInput[]>([]);
-  const [selectedOutputItem, setSelectedOutputItem] = useState<GEItem | null>(null);
-  const [outputSuggestions, setOutputSuggestions] = useState<GEItem[]>([]);
-  const [showOutputSuggestions, setShowOutputSuggestions] = useState(false);
-  const [isSearchingOutput, setIsSearchingOutput] = useState(false);
-  const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const outputSearch = useItemSearch(outputItemName);
 
   const [componentSearch, setComponentSearch] = useState("");
-  const [componentSuggestions, setComponentSuggestions] = useState<GEItem[]>([]);
-  const [showComponentSuggestions, setShowComponentSuggestions] = useState(false);
-  const [isSearchingComponent, setIsSearchingComponent] = useState(false);
+  const componentItemSearch = useItemSearch(componentSearch);
   const [componentQuantity, setComponentQuantity] = useState("1");
 
   const [isStartRunOpen, setIsStartRunOpen] = useState(false);
@@ -86,67 +75,22 @@ export default function Recipes() {
   const activeRuns = runs.filter(r => r.status === "gathering" || r.status === "ready");
   const completedRuns = runs.filter(r => r.status === "sold" || r.status === "crafted");
 
-  const searchItems = async (query: string): Promise<GEItem[]> => {
-    if (query.length < 2) return [];
-    const response = await fetch(`/api/ge/search?q=${encodeURIComponent(query)}`);
-    if (!response.ok) return [];
-    return response.json();
-  };
-
   const handleOutputSearch = (value: string) => {
     setOutputItemName(value);
-    setSelectedOutputItem(null);
-    
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-    
-    if (value.length >= 2) {
-      setIsSearchingOutput(true);
-      searchTimeoutRef.current = setTimeout(async () => {
-        const results = await searchItems(value);
-        setOutputSuggestions(results);
-        setShowOutputSuggestions(true);
-        setIsSearchingOutput(false);
-      }, 300);
-    } else {
-      setOutputSuggestions([]);
-      setShowOutputSuggestions(false);
-    }
+    setOutputItemId(undefined);
+    setOutputItemIcon(undefined);
   };
 
   const selectOutputItem = (item: GEItem) => {
-    setSelectedOutputItem(item);
     setOutputItemName(item.name);
     setOutputItemId(item.id);
     setOutputItemIcon(item.icon);
-    setShowOutputSuggestions(false);
+    outputSearch.clearSuggestions();
     if (!recipeName) {
       setRecipeName(item.name);
     }
   };
 
-  const handleComponentSearch = (value: string) => {
-    setComponentSearch(value);
-    
-    if (searchTimeoutRef.current) {
-      clearTimeout(searchTimeoutRef.current);
-    }
-    
-    if (value.length >= 2) {
-      setIsSearchingComponent(true);
-      searchTimeoutRef.current = setTimeout(async () => {
-        const results = await searchItems(value);
-        setComponentSuggestions(results);
-        setShowComponentSuggestions(true);
-        setIsSearchingComponent(false);
-      }, 300);
-    } else {
-      setComponentSuggestions([]);
-      setShowComponentSuggestions(false);
-    }
-  };
-
   const addComponent = (item: GEItem) => {
     const qty = parseInt(componentQuantity) || 1;
     setComponents([...components, {
@@ -157,7 +101,7 @@ export default function Recipes() {
     }]);
     setComponentSearch("");
     setComponentQuantity("1");
-    setShowComponentSuggestions(false);
+    componentItemSearch.clearSuggestions();
   };
 
   const removeComponent = (index: number) => {
@@ -266,7 +210,6 @@ export default function Recipes() {
     setOutputQuantity("1");
     setRecipeNotes("");
     setComponents([]);
-    setSelectedOutputItem(null);
   };
 
   const resetLogForm = () => {
@@ -489,12 +432,12 @@ export default function Recipes() {
                   placeholder="Search for the crafted item..."
                   data-testid="input-output-item"
                 />
-                {isSearchingOutput && (
+                {outputSearch.isSearching && (
                   <Loader2 className="absolute right-3 top-8 h-4 w-4 animate-spin" />
                 )}
-                {showOutputSuggestions && outputSuggestions.length > 0 && (
+                {outputSearch.showSuggestions && (
                   <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-lg max-h-48 overflow-y-auto">
-                    {outputSuggestions.map((item) => (
+                    {outputSearch.suggestions.map((item) => (
                       <div
                         key={item.id}
                         className="flex items-center gap-2 p-2 hover:bg-accent cursor-pointer"
@@ -541,13 +484,13 @@ export default function Recipes() {
                   <div className="relative flex-1">
                     <Input 
                       value={componentSearch} 
-                      onChange={(e) => handleComponentSearch(e.target.value)}
+                      onChange={(e) => setComponentSearch(e.target.value)}
                       placeholder="Search component..."
                       data-testid="input-component-search"
                     />
-                    {showComponentSuggestions && componentSuggestions.length > 0 && (
+                    {componentItemSearch.showSuggestions && (
                       <div className="absolute z-50 w-full mt-1 bg-popover border rounded-md shadow-lg max-h-48 overflow-y-auto">
-                        {componentSuggestions.map((item) => (
+                        {componentItemSearch.suggestions.map((item) => (
                           <div
                             key={item.id}
                             className="flex items-center gap-2 p-2 hover:bg-accent cursor-pointer"
@@ -863,17 +806,27 @@ export default function Recipes() {
                 />
               </div>
 
-              {completeSellPrice && selectedRun && (
-                <div className="p-3 bg-muted rounded-md">
-                  <div className="flex items-center justify-between">
-                    <span className="text-muted-foreground">Estimated Profit:</span>
-                    <span className={`font-mono font-bold ${parseInt(completeSellPrice) > (selectedRun.totalComponentCost || 0) ? 'text-green-400' : 'text-red-400'}`}>
-                      {formatGP(parseInt(completeSellPrice) - (selectedRun.totalComponentCost || 0))}
-                    </span>
+              {completeSellPrice && selectedRun && (() => {
+                const { profit } = recipeRunLedger({
+                  sellPrice: parseInt(completeSellPrice) || 0,
+                  outputQuantity: selectedRun.recipe.outputQuantity,
+                  totalComponentCost: selectedRun.totalComponentCost || 0,
+                  itemId: selectedRun.recipe.outputItemId,
+                });
+                return (
+                  <div className="p-3 bg-muted rounded-md">
+                    <div className="flex items-center justify-between">
+                      <span className="text-muted-foreground">Estimated Profit:</span>
+                      <span className={`font-mono font-bold ${profit > 0 ? 'text-green-400' : 'text-red-400'}`}>
+                        {formatGP(profit)}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      (After GE tax, for {selectedRun.recipe.outputQuantity.toLocaleString()} crafted)
+                    </p>
                   </div>
-                  <p className="text-xs text-muted-foreground mt-1">(Before GE tax)</p>
-                </div>
-              )}
+                );
+              })()}
             </div>
 
             <DialogFooter>
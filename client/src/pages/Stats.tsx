@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import type { Flip } from "@shared/schema";
+import type { FlipWithSells, FlipWithTags } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { TrendingUp, TrendingDown, DollarSign, Package, Percent, Calendar, BarChart3 } from "lucide-react";
 import { useMemo } from "react";
@@ -18,43 +18,57 @@ import {
   Cell
 } from "recharts";
 import { format, subDays, startOfDay, addDays } from "date-fns";
-import { calculateFlipTax } from "@shared/taxCalculator";
+import { bookedProfits, summarizeFlipSells } from "@shared/flipSells";
+import { flipLedger } from "@shared/profitLedger";
+import { UNTAGGED_LABEL } from "@shared/strategyTags";
 import { ItemLeaderboard } from "@/components/ItemLeaderboard";
+import { TaxReportPanel } from "@/components/TaxReportPanel";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useFlipValuation } from "@/hooks/useFlipValuation";
+
+// Profit, ROI and tax are realized per sell fill, so partially sold flips count the sold part.
+// Written-off flips book the unsold units' cost as a loss; cancelled ones book nothing for them.
+function hasBookedProfit(flip: FlipWithSells): boolean {
+  const summary = summarizeFlipSells(flip);
+  return summary.soldQuantity > 0 || summary.writeOffLoss > 0;
+}
 
-function calculateProfit(flip: Flip): number | null {
-  if (flip.sellPrice === null || flip.sellPrice === undefined) return null;
-  const taxDetails = calculateFlipTax(flip.sellPrice, flip.buyPrice, flip.quantity, flip.itemId ?? undefined, flip.itemName);
-  return taxDetails.profit;
+function calculateProfit(flip: FlipWithSells): number | null {
+  if (!hasBookedProfit(flip)) return null;
+  return flipLedger(flip).profit;
 }
 
-function calculateROI(flip: Flip): number | null {
-  if (flip.sellPrice === null || flip.sellPrice === undefined) return null;
-  const taxDetails = calculateFlipTax(flip.sellPrice, flip.buyPrice, flip.quantity, flip.itemId ?? undefined, flip.itemName);
-  return taxDetails.roi;
+function calculateROI(flip: FlipWithSells): number | null {
+  if (!hasBookedProfit(flip)) return null;
+  return flipLedger(flip).roi;
 }
 
-function calculateTax(flip: Flip): number {
-  if (flip.sellPrice === null || flip.sellPrice === undefined) return 0;
-  const taxDetails = calculateFlipTax(flip.sellPrice, flip.buyPrice, flip.quantity, flip.itemId ?? undefined, flip.itemName);
-  return taxDetails.totalTax;
+function calculateTax(flip: FlipWithSells): number {
+  return flipLedger(flip).totalTax;
 }
 
 export default function Stats() {
-  const { data: flips = [], isLoading } = useQuery<Flip[]>({
+  const { data: flips = [], isLoading } = useQuery<(FlipWithSells & FlipWithTags)[]>({
     queryKey: ["/api/flips"],
   });
+  const { valuation } = useFlipValuation();
 
   const stats = useMemo(() => {
-    const completedFlips = flips.filter(f => f.sellDate !== null && f.sellDate !== undefined);
-    const openFlips = flips.filter(f => f.sellDate === null || f.sellDate === undefined);
+    // "Completed" covers every flip with at least one sell fill, plus write-offs
+    const completedFlips = flips.filter(hasBookedProfit);
+    const openFlips = flips.filter(f => summarizeFlipSells(f).remainingQuantity > 0);
+    const partialCount = flips.filter(f => summarizeFlipSells(f).status === "partially_sold").length;
+    const writtenOffFlips = flips.filter(f => summarizeFlipSells(f).writeOffLoss > 0);
+    const totalWriteOffLoss = writtenOffFlips.reduce((sum, f) => sum + summarizeFlipSells(f).writeOffLoss, 0);
+    const cancelledCount = flips.filter(f => summarizeFlipSells(f).status === "cancelled").length;
     
     const flipsWithProfit = completedFlips
       .map(f => ({ flip: f, profit: calculateProfit(f), roi: calculateROI(f) }))
-      .filter(item => item.profit !== null && item.roi !== null) as { flip: Flip; profit: number; roi: number }[];
+      .filter(item => item.profit !== null && item.roi !== null) as { flip: FlipWithSells; profit: number; roi: number }[];
     
     const totalProfit = flipsWithProfit.reduce((sum, { profit }) => sum + profit, 0);
-    const totalInvested = flipsWithProfit.reduce((sum, { flip }) => sum + flip.buyPrice * flip.quantity, 0);
-    const currentlyInvested = openFlips.reduce((sum, f) => sum + f.buyPrice * f.quantity, 0);
+    const totalInvested = flipsWithProfit.reduce((sum, { flip }) => sum + summarizeFlipSells(flip).costBasis, 0);
+    const currentlyInvested = openFlips.reduce((sum, f) => sum + f.buyPrice * summarizeFlipSells(f).remainingQuantity, 0);
     const avgROI = flipsWithProfit.length > 0 
       ? flipsWithProfit.reduce((sum, { roi }) => sum + roi, 0) / flipsWithProfit.length 
       : 0;
@@ -76,10 +90,7 @@ export default function Stats() {
     }, 0);
 
     const totalGrossRevenue = completedFlips.reduce((sum, f) => {
-      if (f.sellPrice !== null && f.sellPrice !== undefined) {
-        return sum + (f.sellPrice * f.quantity);
-      }
-      return sum;
+      return sum + summarizeFlipSells(f).grossSellTotal;
     }, 0);
 
     return {
@@ -90,6 +101,10 @@ export default function Stats() {
       winRate,
       completedCount: flipsWithProfit.length,
       openCount: openFlips.length,
+      partialCount,
+      writtenOffCount: writtenOffFlips.length,
+      totalWriteOffLoss,
+      cancelledCount,
       bestFlip,
       worstFlip,
       completedFlips,
@@ -104,16 +119,15 @@ export default function Stats() {
       const dayStart = startOfDay(subDays(new Date(), i));
       const dayEnd = startOfDay(addDays(dayStart, 1));
       
-      const dayFlips = stats.completedFlips.filter(f => {
-        const sellDate = f.sellDate ? new Date(f.sellDate) : null;
-        if (!sellDate) return false;
-        return sellDate >= dayStart && sellDate < dayEnd;
+      // Each sell fill lands on its own day, a write-off on the day it was written off
+      const dayEntries = stats.completedFlips.flatMap(bookedProfits).filter(entry => {
+        return entry.date >= dayStart && entry.date < dayEnd;
       });
 
       last30Days.push({
         date: format(dayStart, "MMM d"),
-        profit: dayFlips.reduce((sum, f) => sum + (calculateProfit(f) ?? 0), 0),
-        count: dayFlips.length,
+        profit: dayEntries.reduce((sum, entry) => sum + entry.profit, 0),
+        count: dayEntries.length,
       });
     }
     return last30Days;
@@ -167,8 +181,11 @@ export default function Stats() {
     return price.toLocaleString();
   };
 
+  // Grouped by tag id; a flip with several tags counts towards each of them
   const performanceByStrategy = useMemo(() => {
     const strategies: Record<string, {
+      name: string;
+      color: string | null;
       profit: number;
       roiTotal: number;
       wins: number;
@@ -177,29 +194,30 @@ export default function Stats() {
     }> = {};
 
     stats.completedFlips.forEach(f => {
-      const strategy = f.strategyTag || "Other";
-      if (!strategies[strategy]) {
-        strategies[strategy] = { profit: 0, roiTotal: 0, wins: 0, total: 0, holdTimes: [] };
-      }
-
       const profit = calculateProfit(f);
       const roi = calculateROI(f);
-      
-      if (profit !== null && roi !== null) {
-        strategies[strategy].profit += profit;
-        strategies[strategy].roiTotal += roi;
-        if (profit > 0) strategies[strategy].wins++;
-        strategies[strategy].total++;
-
-        if (f.sellDate && f.buyDate) {
-          const holdDays = Math.floor((new Date(f.sellDate).getTime() - new Date(f.buyDate).getTime()) / (1000 * 60 * 60 * 24));
-          strategies[strategy].holdTimes.push(holdDays);
+      if (profit === null || roi === null) return;
+
+      const { holdTimeMs } = flipLedger(f);
+      const holdDays = holdTimeMs !== null ? Math.floor(holdTimeMs / (1000 * 60 * 60 * 24)) : null;
+
+      const flipTags = f.tags?.length ? f.tags : [{ id: "", name: UNTAGGED_LABEL, color: null }];
+      for (const tag of flipTags) {
+        if (!strategies[tag.id]) {
+          strategies[tag.id] = { name: tag.name, color: tag.color, profit: 0, roiTotal: 0, wins: 0, total: 0, holdTimes: [] };
         }
+        strategies[tag.id].profit += profit;
+        strategies[tag.id].roiTotal += roi;
+        if (profit > 0) strategies[tag.id].wins++;
+        strategies[tag.id].total++;
+        if (holdDays !== null) strategies[tag.id].holdTimes.push(holdDays);
       }
     });
 
-    return Object.entries(strategies).map(([name, data]) => ({
-      strategy: name,
+    return Object.entries(strategies).map(([id, data]) => ({
+      id,
+      strategy: data.name,
+      color: data.color,
       totalProfit: data.profit,
       avgROI: data.total > 0 ? data.roiTotal / data.total : 0,
       winRate: data.total > 0 ? (data.wins / data.total) * 100 : 0,
@@ -229,344 +247,426 @@ export default function Stats() {
           <p className="text-muted-foreground">Analyze your flipping performance</p>
         </div>
 
-        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8">
-          <Card data-testid="card-total-profit">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Total Profit</CardTitle>
-              <DollarSign className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className={`text-2xl font-bold font-mono ${stats.totalProfit >= 0 ? "text-success" : "text-destructive"}`}>
-                {stats.totalProfit >= 0 ? "+" : ""}{formatPrice(stats.totalProfit)} gp
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">
-                From {stats.completedCount} completed flips
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card data-testid="card-avg-roi">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Average ROI</CardTitle>
-              <Percent className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className={`text-2xl font-bold font-mono ${stats.avgROI >= 0 ? "text-success" : "text-destructive"}`}>
-                {stats.avgROI.toFixed(1)}%
-              </div>
-              <p className="text-xs text-muted-foreground mt-1">
-                Win rate: {stats.winRate.toFixed(0)}%
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card data-testid="card-open-positions">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Open Positions</CardTitle>
-              <Package className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold font-mono">{stats.openCount}</div>
-              <p className="text-xs text-muted-foreground mt-1">
-                {formatPrice(stats.currentlyInvested)} gp invested
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card data-testid="card-total-volume">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Total GP Traded</CardTitle>
-              <Calendar className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold font-mono">{formatPrice(stats.totalInvested)} gp</div>
-              <p className="text-xs text-muted-foreground mt-1">
-                Total traded amount
-              </p>
-            </CardContent>
-          </Card>
-        </div>
-
-        <Card className="mb-8" data-testid="card-tax-summary">
-          <CardHeader className="pb-4">
-            <CardTitle className="flex items-center gap-2">
-              <DollarSign className="h-5 w-5 text-yellow-500" />
-              GE Tax Summary
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid gap-4 sm:grid-cols-3">
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Total Tax Paid</p>
-                <p className="text-2xl font-bold font-mono text-yellow-500" data-testid="text-total-tax-paid">
-                  {formatPrice(stats.totalTaxPaid)} gp
-                </p>
-                <p className="text-xs text-muted-foreground">2% of sell value (capped at 5M per trade)</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Gross Revenue</p>
-                <p className="text-2xl font-bold font-mono" data-testid="text-gross-revenue">
-                  {formatPrice(stats.totalGrossRevenue)} gp
-                </p>
-                <p className="text-xs text-muted-foreground">Total sell value before tax</p>
-              </div>
-              <div className="space-y-1">
-                <p className="text-sm text-muted-foreground">Net Revenue</p>
-                <p className="text-2xl font-bold font-mono text-success" data-testid="text-net-revenue">
-                  {formatPrice(stats.totalGrossRevenue - stats.totalTaxPaid)} gp
-                </p>
-                <p className="text-xs text-muted-foreground">Revenue after tax deduction</p>
-              </div>
-            </div>
-            <div className="mt-4 p-3 bg-muted/50 rounded-lg">
-              <p className="text-xs text-muted-foreground">
-                <strong>RS3 GE Tax:</strong> 2% of the sell price per item is deducted as Grand Exchange tax (floored). 
-                Items sold for 49 gp or less are exempt. Bonds are also exempt.
-              </p>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid gap-6 lg:grid-cols-2 mb-8">
-          <Card data-testid="card-best-flip">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium">Best Flip</CardTitle>
-              <TrendingUp className="h-4 w-4 text-success" />
-            </CardHeader>
-            <CardContent>
-              {stats.bestFlip ? (
-                <div className="flex items-center gap-3">
-                  {stats.bestFlip.itemIcon && (
-                    <img src={stats.bestFlip.itemIcon} alt="" className="h-10 w-10 object-contain" />
+        <Tabs defaultValue="overview">
+          <TabsList className="mb-6">
+            <TabsTrigger value="overview" data-testid="tab-stats-overview">Overview</TabsTrigger>
+            <TabsTrigger value="tax" data-testid="tab-stats-tax">Tax</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="overview">
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8">
+              <Card data-testid="card-total-profit">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Total Profit</CardTitle>
+                  <DollarSign className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className={`text-2xl font-bold font-mono ${stats.totalProfit >= 0 ? "text-success" : "text-destructive"}`}>
+                    {stats.totalProfit >= 0 ? "+" : ""}{formatPrice(stats.totalProfit)} gp
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    From {stats.completedCount} completed flips
+                  </p>
+                  {stats.writtenOffCount > 0 && (
+                    <p className="text-xs text-destructive mt-1" data-testid="text-write-off-loss">
+                      Incl. -{formatPrice(stats.totalWriteOffLoss)} gp from {stats.writtenOffCount} written off
+                    </p>
                   )}
-                  <div>
-                    <div className="font-medium">{stats.bestFlip.itemName}</div>
-                    <div className="text-success font-mono text-lg">
-                      +{formatPrice(calculateProfit(stats.bestFlip) ?? 0)} gp
-                    </div>
-                    <div className="text-xs text-muted-foreground">
-                      ROI: {(calculateROI(stats.bestFlip) ?? 0).toFixed(1)}%
-                    </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-avg-roi">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Average ROI</CardTitle>
+                  <Percent className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className={`text-2xl font-bold font-mono ${stats.avgROI >= 0 ? "text-success" : "text-destructive"}`}>
+                    {stats.avgROI.toFixed(1)}%
                   </div>
-                </div>
-              ) : (
-                <div className="text-muted-foreground">No completed flips yet</div>
-              )}
-            </CardContent>
-          </Card>
-
-          <Card data-testid="card-worst-flip">
-            <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
-              <CardTitle className="text-sm font-medium">Worst Flip</CardTitle>
-              <TrendingDown className="h-4 w-4 text-destructive" />
-            </CardHeader>
-            <CardContent>
-              {stats.worstFlip && (calculateProfit(stats.worstFlip) ?? 0) < 0 ? (
-                <div className="flex items-center gap-3">
-                  {stats.worstFlip.itemIcon && (
-                    <img src={stats.worstFlip.itemIcon} alt="" className="h-10 w-10 object-contain" />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Win rate: {stats.winRate.toFixed(0)}%
+                  </p>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-open-positions">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Open Positions</CardTitle>
+                  <Package className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold font-mono">{stats.openCount}</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {formatPrice(stats.currentlyInvested)} gp invested
+                    {stats.partialCount > 0 && ` · ${stats.partialCount} partially sold`}
+                  </p>
+                  {stats.cancelledCount > 0 && (
+                    <p className="text-xs text-muted-foreground mt-1" data-testid="text-cancelled-count">
+                      {stats.cancelledCount} cancelled
+                    </p>
                   )}
-                  <div>
-                    <div className="font-medium">{stats.worstFlip.itemName}</div>
-                    <div className="text-destructive font-mono text-lg">
-                      {formatPrice(calculateProfit(stats.worstFlip) ?? 0)} gp
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-total-volume">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Total GP Traded</CardTitle>
+                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold font-mono">{formatPrice(stats.totalInvested)} gp</div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Total traded amount
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card className="mb-8" data-testid="card-pnl-summary">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5 text-primary" />
+                  Realized vs Unrealized P&L
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Realized P&L</p>
+                    <p
+                      className={`text-2xl font-bold font-mono ${stats.totalProfit >= 0 ? "text-success" : "text-destructive"}`}
+                      data-testid="text-realized-pnl"
+                    >
+                      {stats.totalProfit >= 0 ? "+" : ""}{formatPrice(stats.totalProfit)} gp
+                    </p>
+                    <p className="text-xs text-muted-foreground">From sell fills, after tax</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Unrealized P&L</p>
+                    {valuation ? (
+                      <p
+                        className={`text-2xl font-bold font-mono ${valuation.totals.unrealizedProfit >= 0 ? "text-success" : "text-destructive"}`}
+                        data-testid="text-unrealized-pnl"
+                      >
+                        {valuation.totals.unrealizedProfit >= 0 ? "+" : ""}{formatPrice(valuation.totals.unrealizedProfit)} gp
+                      </p>
+                    ) : (
+                      <p className="text-2xl font-bold font-mono text-muted-foreground">-</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Open positions at the current GE price, after tax
+                      {valuation && valuation.totals.unpricedPositions > 0 && ` · ${valuation.totals.unpricedPositions} unpriced`}
+                    </p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Open Market Value</p>
+                    <p className="text-2xl font-bold font-mono" data-testid="text-open-market-value">
+                      {valuation ? `${formatPrice(valuation.totals.marketValue)} gp` : "-"}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Cost basis {formatPrice(valuation?.totals.openCostBasis ?? stats.currentlyInvested)} gp
+                      {valuation && ` · priced ${format(new Date(valuation.pricedAt), "HH:mm")}`}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="mb-8" data-testid="card-tax-summary">
+              <CardHeader className="pb-4">
+                <CardTitle className="flex items-center gap-2">
+                  <DollarSign className="h-5 w-5 text-yellow-500" />
+                  GE Tax Summary
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Total Tax Paid</p>
+                    <p className="text-2xl font-bold font-mono text-yellow-500" data-testid="text-total-tax-paid">
+                      {formatPrice(stats.totalTaxPaid)} gp
+                    </p>
+                    <p className="text-xs text-muted-foreground">2% of sell value (capped at 5M per trade)</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Gross Revenue</p>
+                    <p className="text-2xl font-bold font-mono" data-testid="text-gross-revenue">
+                      {formatPrice(stats.totalGrossRevenue)} gp
+                    </p>
+                    <p className="text-xs text-muted-foreground">Total sell value before tax</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-sm text-muted-foreground">Net Revenue</p>
+                    <p className="text-2xl font-bold font-mono text-success" data-testid="text-net-revenue">
+                      {formatPrice(stats.totalGrossRevenue - stats.totalTaxPaid)} gp
+                    </p>
+                    <p className="text-xs text-muted-foreground">Revenue after tax deduction</p>
+                  </div>
+                </div>
+                <div className="mt-4 p-3 bg-muted/50 rounded-lg">
+                  <p className="text-xs text-muted-foreground">
+                    <strong>RS3 GE Tax:</strong> 2% of the sell price per item is deducted as Grand Exchange tax (floored). 
+                    Items sold for 49 gp or less are exempt, as are the items on the tax-exempt list (bonds and the like).
+                  </p>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 lg:grid-cols-2 mb-8">
+              <Card data-testid="card-best-flip">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium">Best Flip</CardTitle>
+                  <TrendingUp className="h-4 w-4 text-success" />
+                </CardHeader>
+                <CardContent>
+                  {stats.bestFlip ? (
+                    <div className="flex items-center gap-3">
+                      {stats.bestFlip.itemIcon && (
+                        <img src={stats.bestFlip.itemIcon} alt="" className="h-10 w-10 object-contain" />
+                      )}
+                      <div>
+                        <div className="font-medium">{stats.bestFlip.itemName}</div>
+                        <div className="text-success font-mono text-lg">
+                          +{formatPrice(calculateProfit(stats.bestFlip) ?? 0)} gp
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          ROI: {(calculateROI(stats.bestFlip) ?? 0).toFixed(1)}%
+                        </div>
+                      </div>
                     </div>
-                    <div className="text-xs text-muted-foreground">
-                      ROI: {(calculateROI(stats.worstFlip) ?? 0).toFixed(1)}%
+                  ) : (
+                    <div className="text-muted-foreground">No completed flips yet</div>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card data-testid="card-worst-flip">
+                <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2">
+                  <CardTitle className="text-sm font-medium">Worst Flip</CardTitle>
+                  <TrendingDown className="h-4 w-4 text-destructive" />
+                </CardHeader>
+                <CardContent>
+                  {stats.worstFlip && (calculateProfit(stats.worstFlip) ?? 0) < 0 ? (
+                    <div className="flex items-center gap-3">
+                      {stats.worstFlip.itemIcon && (
+                        <img src={stats.worstFlip.itemIcon} alt="" className="h-10 w-10 object-contain" />
+                      )}
+                      <div>
+                        <div className="font-medium">{stats.worstFlip.itemName}</div>
+                        <div className="text-destructive font-mono text-lg">
+                          {formatPrice(calculateProfit(stats.worstFlip) ?? 0)} gp
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          ROI: {(calculateROI(stats.worstFlip) ?? 0).toFixed(1)}%
+                        </div>
+                      </div>
                     </div>
+                  ) : (
+                    <div className="text-muted-foreground">No losing flips (great job!)</div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2 mb-8">
+              <Card data-testid="chart-profit-over-time">
+                <CardHeader className="pb-4">
+                  <CardTitle>Profit Over Time (Last 30 Days)</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={profitByDay}>
+                        <defs>
+                          <linearGradient id="profitGradient" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="hsl(140 70% 50%)" stopOpacity={0.3}/>
+                            <stop offset="95%" stopColor="hsl(140 70% 50%)" stopOpacity={0}/>
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                        <XAxis 
+                          dataKey="date" 
+                          tick={{ fontSize: 10 }} 
+                          tickLine={false}
+                          axisLine={false}
+                          interval="preserveStartEnd"
+                        />
+                        <YAxis 
+                          tick={{ fontSize: 10 }} 
+                          tickLine={false}
+                          axisLine={false}
+                          tickFormatter={(v) => formatPrice(v)}
+                        />
+                        <Tooltip 
+                          formatter={(value: number) => [`${formatPrice(value)} gp`, "Profit"]}
+                          contentStyle={{
+                            backgroundColor: "hsl(var(--card))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "8px",
+                          }}
+                        />
+                        <Area 
+                          type="monotone" 
+                          dataKey="profit" 
+                          stroke="hsl(140 70% 50%)" 
+                          fill="url(#profitGradient)"
+                          strokeWidth={2}
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
                   </div>
-                </div>
-              ) : (
-                <div className="text-muted-foreground">No losing flips (great job!)</div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+                </CardContent>
+              </Card>
+
+              <Card data-testid="chart-roi-distribution">
+                <CardHeader className="pb-4">
+                  <CardTitle>ROI Distribution</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <PieChart>
+                        <Pie
+                          data={roiDistribution}
+                          cx="50%"
+                          cy="50%"
+                          innerRadius={60}
+                          outerRadius={80}
+                          paddingAngle={5}
+                          dataKey="count"
+                          label={({ range, count }) => `${range}: ${count}`}
+                        >
+                          {roiDistribution.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={entry.color} />
+                          ))}
+                        </Pie>
+                        <Tooltip 
+                          formatter={(value: number) => [
+                            `${value} flips`,
+                            "Count"
+                          ]}
+                          contentStyle={{
+                            backgroundColor: "hsl(var(--card))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "8px",
+                          }}
+                        />
+                      </PieChart>
+                    </ResponsiveContainer>
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
 
-        <div className="grid gap-6 lg:grid-cols-2 mb-8">
-          <Card data-testid="chart-profit-over-time">
-            <CardHeader className="pb-4">
-              <CardTitle>Profit Over Time (Last 30 Days)</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="h-64">
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={profitByDay}>
-                    <defs>
-                      <linearGradient id="profitGradient" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="hsl(140 70% 50%)" stopOpacity={0.3}/>
-                        <stop offset="95%" stopColor="hsl(140 70% 50%)" stopOpacity={0}/>
-                      </linearGradient>
-                    </defs>
-                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                    <XAxis 
-                      dataKey="date" 
-                      tick={{ fontSize: 10 }} 
-                      tickLine={false}
-                      axisLine={false}
-                      interval="preserveStartEnd"
-                    />
-                    <YAxis 
-                      tick={{ fontSize: 10 }} 
-                      tickLine={false}
-                      axisLine={false}
-                      tickFormatter={(v) => formatPrice(v)}
-                    />
-                    <Tooltip 
-                      formatter={(value: number) => [`${formatPrice(value)} gp`, "Profit"]}
-                      contentStyle={{
-                        backgroundColor: "hsl(var(--card))",
-                        border: "1px solid hsl(var(--border))",
-                        borderRadius: "8px",
-                      }}
-                    />
-                    <Area 
-                      type="monotone" 
-                      dataKey="profit" 
-                      stroke="hsl(140 70% 50%)" 
-                      fill="url(#profitGradient)"
-                      strokeWidth={2}
-                    />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card data-testid="chart-roi-distribution">
-            <CardHeader className="pb-4">
-              <CardTitle>ROI Distribution</CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="h-64">
-                <ResponsiveContainer width="100%" height="100%">
-                  <PieChart>
-                    <Pie
-                      data={roiDistribution}
-                      cx="50%"
-                      cy="50%"
-                      innerRadius={60}
-                      outerRadius={80}
-                      paddingAngle={5}
-                      dataKey="count"
-                      label={({ range, count }) => `${range}: ${count}`}
-                    >
-                      {roiDistribution.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={entry.color} />
-                      ))}
-                    </Pie>
-                    <Tooltip 
-                      formatter={(value: number) => [
-                        `${value} flips`,
-                        "Count"
-                      ]}
-                      contentStyle={{
-                        backgroundColor: "hsl(var(--card))",
-                        border: "1px solid hsl(var(--border))",
-                        borderRadius: "8px",
-                      }}
-                    />
-                  </PieChart>
-                </ResponsiveContainer>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+            <Card data-testid="chart-performance-by-strategy">
+              <CardHeader className="pb-4">
+                <CardTitle>Performance by Strategy</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {performanceByStrategy.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No completed flips yet
+                  </div>
+                ) : (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="border-b">
+                          <th className="text-left py-2 px-2 font-medium">Strategy</th>
+                          <th className="text-right py-2 px-2 font-medium">Total Profit</th>
+                          <th className="text-right py-2 px-2 font-medium">Avg ROI</th>
+                          <th className="text-right py-2 px-2 font-medium">Win Rate</th>
+                          <th className="text-right py-2 px-2 font-medium">Avg Hold Time</th>
+                          <th className="text-right py-2 px-2 font-medium">Flips</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {performanceByStrategy.map((row) => (
+                          <tr key={row.id} className="border-b hover-elevate">
+                            <td className="py-2 px-2">
+                              <span className="flex items-center gap-2">
+                                <span
+                                  className="h-2.5 w-2.5 rounded-full bg-muted-foreground/40"
+                                  style={row.color ? { backgroundColor: row.color } : undefined}
+                                />
+                                <span className={row.color ? undefined : "text-muted-foreground"}>{row.strategy}</span>
+                              </span>
+                            </td>
+                            <td className={`text-right py-2 px-2 font-mono ${row.totalProfit >= 0 ? "text-green-500" : "text-red-500"}`}>
+                              {row.totalProfit >= 0 ? "+" : ""}{formatPrice(row.totalProfit)} gp
+                            </td>
+                            <td className="text-right py-2 px-2 font-mono">{row.avgROI.toFixed(2)}%</td>
+                            <td className="text-right py-2 px-2 font-mono">{row.winRate.toFixed(1)}%</td>
+                            <td className="text-right py-2 px-2 font-mono">{row.avgHoldTime} days</td>
+                            <td className="text-right py-2 px-2">{row.flipsCount}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-        <Card data-testid="chart-performance-by-strategy">
-          <CardHeader className="pb-4">
-            <CardTitle>Performance by Strategy</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {performanceByStrategy.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No completed flips yet
-              </div>
-            ) : (
-              <div className="overflow-x-auto">
-                <table className="w-full text-sm">
-                  <thead>
-                    <tr className="border-b">
-                      <th className="text-left py-2 px-2 font-medium">Strategy</th>
-                      <th className="text-right py-2 px-2 font-medium">Total Profit</th>
-                      <th className="text-right py-2 px-2 font-medium">Avg ROI</th>
-                      <th className="text-right py-2 px-2 font-medium">Win Rate</th>
-                      <th className="text-right py-2 px-2 font-medium">Avg Hold Time</th>
-                      <th className="text-right py-2 px-2 font-medium">Flips</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {performanceByStrategy.map((row) => (
-                      <tr key={row.strategy} className="border-b hover-elevate">
-                        <td className="py-2 px-2">{row.strategy}</td>
-                        <td className={`text-right py-2 px-2 font-mono ${row.totalProfit >= 0 ? "text-green-500" : "text-red-500"}`}>
-                          {row.totalProfit >= 0 ? "+" : ""}{formatPrice(row.totalProfit)} gp
-                        </td>
-                        <td className="text-right py-2 px-2 font-mono">{row.avgROI.toFixed(2)}%</td>
-                        <td className="text-right py-2 px-2 font-mono">{row.winRate.toFixed(1)}%</td>
-                        <td className="text-right py-2 px-2 font-mono">{row.avgHoldTime} days</td>
-                        <td className="text-right py-2 px-2">{row.flipsCount}</td>
-                      </tr>
-                    ))}
-                  </tbody>
-                </table>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        <div className="mb-8">
-          <ItemLeaderboard />
-        </div>
+            <div className="mb-8">
+              <ItemLeaderboard />
+            </div>
 
-        <Card data-testid="chart-top-items">
-          <CardHeader className="pb-4">
-            <CardTitle>Top Items by Profit</CardTitle>
-          </CardHeader>
-          <CardContent>
-            {itemProfitRanking.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No completed flips yet
-              </div>
-            ) : (
-              <div className="h-80">
-                <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={itemProfitRanking} layout="vertical" margin={{ left: 100 }}>
-                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" horizontal={true} vertical={false} />
-                    <XAxis 
-                      type="number" 
-                      tick={{ fontSize: 10 }} 
-                      tickLine={false}
-                      axisLine={false}
-                      tickFormatter={(v) => formatPrice(v)}
-                    />
-                    <YAxis 
-                      type="category" 
-                      dataKey="name" 
-                      tick={{ fontSize: 11 }}
-                      tickLine={false}
-                      axisLine={false}
-                      width={100}
-                    />
-                    <Tooltip 
-                      formatter={(value: number) => [`${formatPrice(value)} gp`, "Profit"]}
-                      contentStyle={{
-                        backgroundColor: "hsl(var(--card))",
-                        border: "1px solid hsl(var(--border))",
-                        borderRadius: "8px",
-                      }}
-                    />
-                    <Bar 
-                      dataKey="profit" 
-                      fill="hsl(140 70% 50%)" 
-                      radius={[0, 4, 4, 0]}
-                    />
-                  </BarChart>
-                </ResponsiveContainer>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+            <Card data-testid="chart-top-items">
+              <CardHeader className="pb-4">
+                <CardTitle>Top Items by Profit</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {itemProfitRanking.length === 0 ? (
+                  <div className="text-center py-8 text-muted-foreground">
+                    No completed flips yet
+                  </div>
+                ) : (
+                  <div className="h-80">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={itemProfitRanking} layout="vertical" margin={{ left: 100 }}>
+                        <CartesianGrid strokeDasharray="3 3" className="stroke-muted" horizontal={true} vertical={false} />
+                        <XAxis 
+                          type="number" 
+                          tick={{ fontSize: 10 }} 
+                          tickLine={false}
+                          axisLine={false}
+                          tickFormatter={(v) => formatPrice(v)}
+                        />
+                        <YAxis 
+                          type="category" 
+                          dataKey="name" 
+                          tick={{ fontSize: 11 }}
+                          tickLine={false}
+                          axisLine={false}
+                          width={100}
+                        />
+                        <Tooltip 
+                          formatter={(value: number) => [`${formatPrice(value)} gp`, "Profit"]}
+                          contentStyle={{
+                            backgroundColor: "hsl(var(--card))",
+                            border: "1px solid hsl(var(--border))",
+                            borderRadius: "8px",
+                          }}
+                        />
+                        <Bar 
+                          dataKey="profit" 
+                          fill="hsl(140 70% 50%)" 
+                          radius={[0, 4, 4, 0]}
+                        />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="tax">
+            <TaxReportPanel />
+          </TabsContent>
+        </Tabs>
       </main>
     </div>
   );
@@ -0,0 +1,260 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import type { FlipTrash } from "@shared/schema";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ItemIcon } from "@/components/ItemIcon";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatGP } from "@/lib/formatters";
+import { Trash2, RotateCcw, Loader2 } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // null = empty the whole trash
+  const [purgeTarget, setPurgeTarget] = useState<string[] | null | undefined>(undefined);
+
+  const { data, isLoading } = useQuery<FlipTrash>({
+    queryKey: ["/api/flips", "trash"],
+  });
+  const trashedFlips = data?.flips ?? [];
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flips"] });
+    setSelectedIds(new Set());
+  };
+
+  const restoreMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const res = await apiRequest("POST", "/api/flips/trash/restore", { ids });
+      return await res.json() as { restored: number };
+    },
+    onSuccess: ({ restored }) => {
+      invalidate();
+      toast({ title: "Flips restored", description: `${restored} flip(s) moved back to your history` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to restore flips", variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      const res = await apiRequest("POST", "/api/flips/trash/purge", { ids });
+      return await res.json() as { deleted: number };
+    },
+    onSuccess: ({ deleted }) => {
+      invalidate();
+      toast({ title: "Flips deleted", description: `${deleted} flip(s) permanently deleted` });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete flips", variant: "destructive" });
+    },
+  });
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(id);
+    } else {
+      next.delete(id);
+    }
+    setSelectedIds(next);
+  };
+
+  const allSelected = trashedFlips.length > 0 && selectedIds.size === trashedFlips.length;
+  const isBusy = restoreMutation.isPending || purgeMutation.isPending;
+
+  return (
+    <div className="bg-background">
+      <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6">
+        <div className="mb-6">
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Trash2 className="h-6 w-6" />
+            Trash
+          </h1>
+          <p className="text-muted-foreground">
+            {data && data.retentionDays > 0
+              ? `Deleted flips are kept for ${data.retentionDays} days, then permanently deleted.`
+              : "Deleted flips are kept until you delete them permanently."}
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <CardTitle className="text-lg flex items-center gap-2">
+                Deleted Flips
+                <Badge variant="secondary">{trashedFlips.length}</Badge>
+              </CardTitle>
+              <div className="flex flex-wrap items-center gap-2">
+                {selectedIds.size > 0 ? (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(Array.from(selectedIds))}
+                      disabled={isBusy}
+                      data-testid="button-restore-selected"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore {selectedIds.size}
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setPurgeTarget(Array.from(selectedIds))}
+                      disabled={isBusy}
+                      data-testid="button-purge-selected"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete {selectedIds.size} Forever
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => restoreMutation.mutate(undefined)}
+                      disabled={isBusy || trashedFlips.length === 0}
+                      data-testid="button-restore-all"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore All
+                    </Button>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => setPurgeTarget(null)}
+                      disabled={isBusy || trashedFlips.length === 0}
+                      data-testid="button-empty-trash"
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Empty Trash
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : trashedFlips.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-12 text-center">
+                <Trash2 className="h-8 w-8 text-muted-foreground mb-4" />
+                <h3 className="mb-2 text-lg font-semibold">Trash is empty</h3>
+                <p className="text-sm text-muted-foreground">Flips you delete will show up here</p>
+              </div>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                <div className="flex items-center gap-3 bg-muted/50 px-4 py-2 text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                  <Checkbox
+                    checked={allSelected}
+                    onCheckedChange={(checked) => setSelectedIds(checked ? new Set(trashedFlips.map(f => f.id)) : new Set())}
+                    data-testid="checkbox-select-all-trash"
+                  />
+                  <span className="flex-1">Item</span>
+                  <span className="hidden w-32 text-right sm:block">Profit</span>
+                  <span className="w-40 text-right">Deleted</span>
+                  <span className="w-10"></span>
+                </div>
+                {trashedFlips.map(flip => {
+                  const summary = summarizeFlipSells(flip);
+                  return (
+                    <div key={flip.id} className="flex items-center gap-3 px-4 py-3" data-testid={`row-trash-${flip.id}`}>
+                      <Checkbox
+                        checked={selectedIds.has(flip.id)}
+                        onCheckedChange={(checked) => toggleSelected(flip.id, !!checked)}
+                        data-testid={`checkbox-trash-${flip.id}`}
+                      />
+                      <div className="flex flex-1 items-center gap-3 min-w-0">
+                        <ItemIcon itemName={flip.itemName} itemIcon={flip.itemIcon ?? undefined} size="sm" />
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{flip.itemName}</p>
+                          <p className="text-xs text-muted-foreground font-mono">
+                            {flip.quantity.toLocaleString()} × {formatGP(flip.buyPrice)} · bought {format(new Date(flip.buyDate), "MMM d, yyyy")}
+                          </p>
+                        </div>
+                      </div>
+                      <span className="hidden w-32 text-right font-mono text-sm sm:block">
+                        {summary.soldQuantity > 0 ? (
+                          <span className={summary.profit >= 0 ? "text-success" : "text-destructive"}>
+                            {summary.profit > 0 ? "+" : ""}{formatGP(Math.round(summary.profit))}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </span>
+                      <div className="w-40 text-right text-xs text-muted-foreground">
+                        <div>{formatDistanceToNow(new Date(flip.deletedAt!), { addSuffix: true })}</div>
+                        {flip.purgeAt && (
+                          <div>Purged {formatDistanceToNow(new Date(flip.purgeAt), { addSuffix: true })}</div>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => restoreMutation.mutate([flip.id])}
+                        disabled={isBusy}
+                        title="Restore"
+                        data-testid={`button-restore-${flip.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <AlertDialog open={purgeTarget !== undefined} onOpenChange={(open) => !open && setPurgeTarget(undefined)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete permanently?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget
+                ? `${purgeTarget.length} flip(s) will be deleted along with their sells and history.`
+                : "Every flip in the trash will be deleted along with its sells and history."}
+              {" "}This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-purge-cancel">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                purgeMutation.mutate(purgeTarget ?? undefined);
+                setPurgeTarget(undefined);
+              }}
+              className="bg-destructive text-destructive-foreground"
+              data-testid="button-purge-confirm"
+            >
+              Delete Forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
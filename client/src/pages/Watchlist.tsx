@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { fetchGePrices } from "@/lib/gePrices";
 import type { WatchlistItem } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -71,18 +72,10 @@ export default function Watchlist() {
 
   useEffect(() => {
     const fetchLivePrices = async () => {
-      const newPrices = new Map<number, number>();
-      for (const item of watchlist) {
-        try {
-          const response = await fetch(`/api/ge/price?name=${encodeURIComponent(item.itemName)}`);
-          if (response.ok) {
-            const data = await response.json();
-            newPrices.set(item.itemId, data.price);
-          }
-        } catch {
-        }
+      try {
+        setLivePrices(await fetchGePrices(watchlist.map(item => item.itemId)));
+      } catch {
       }
-      setLivePrices(newPrices);
     };
 
     if (watchlist.length > 0) {
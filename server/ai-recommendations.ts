@@ -1,8 +1,43 @@
 import OpenAI from "openai";
-import type { Flip } from "@shared/schema";
+import type { Flip, FlipSell } from "@shared/schema";
+import { LEGACY_STRATEGY_COLORS, UNTAGGED_LABEL } from "@shared/strategyTags";
+import { summarizeFlipSells, type FlipSellSummary } from "@shared/flipSells";
+import { flipLedger, saleLedger, type LedgerEntry } from "@shared/profitLedger";
 
 const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
+// Strategies are the user's own tags; a flip counts towards every tag it carries
+type TaggedFlip = Flip & { tags?: { name: string }[]; sells?: FlipSell[] };
+
+interface ClosedTrade {
+  flip: TaggedFlip;
+  summary: FlipSellSummary;
+  ledger: LedgerEntry;
+  closedAt: Date;
+}
+
+// A flip is a finished trade once nothing is left open. Cancelling books nothing for the
+// unsold units, so a flip cancelled before any sells isn't a trade at all.
+function closedTrades(flips: TaggedFlip[]): ClosedTrade[] {
+  const trades: ClosedTrade[] = [];
+  for (const flip of flips) {
+    if (flip.deletedAt) continue;
+    const summary = summarizeFlipSells(flip);
+    if (summary.remainingQuantity > 0 || summary.costBasis === 0) continue;
+    const closedAt = summary.closedAt ?? summary.lastSellDate ?? new Date(flip.buyDate);
+    trades.push({ flip, summary, ledger: flipLedger(flip), closedAt });
+  }
+  return trades;
+}
+
+function strategyNames(flip: TaggedFlip): string[] {
+  return flip.tags && flip.tags.length > 0 ? flip.tags.map(tag => tag.name) : [UNTAGGED_LABEL];
+}
+
+function hasStrategy(strategies: UserTradingProfile["preferredStrategies"], name: string, minFrequency: number): boolean {
+  return strategies.some(s => s.strategy.toLowerCase() === name.toLowerCase() && s.frequency > minFrequency);
+}
+
 export interface UserTradingProfile {
   preferredStrategies: { strategy: string; frequency: number; avgROI: number; winRate: number }[];
   preferredPriceRange: { min: number; max: number };
@@ -35,8 +70,9 @@ export interface PersonalizedRecommendation {
   estimatedHoldTime: string;
 }
 
-export function analyzeUserTradingProfile(flips: Flip[]): UserTradingProfile {
-  const completedFlips = flips.filter(f => f.sellPrice && f.sellDate && !f.deletedAt);
+export function analyzeUserTradingProfile(flips: TaggedFlip[]): UserTradingProfile {
+  const trades = closedTrades(flips);
+  const completedFlips = trades.map(trade => trade.flip);
   
   const strategyStats = new Map<string, { count: number; totalROI: number; wins: number }>();
   const itemCounts = new Map<string, number>();
@@ -56,33 +92,30 @@ export function analyzeUserTradingProfile(flips: Flip[]): UserTradingProfile {
   let weeklyVolume = 0;
   let monthlyVolume = 0;
   
-  for (const flip of completedFlips) {
-    const sellPrice = flip.sellPrice as number;
-    const sellValue = sellPrice * flip.quantity;
+  for (const { flip, summary, ledger } of trades) {
     const buyValue = flip.buyPrice * flip.quantity;
-    const taxPaid = Math.floor(sellPrice * 0.02) * flip.quantity; // 2% per item, floored
-    const profit = sellValue - buyValue - taxPaid;
-    const roi = ((sellValue - buyValue - taxPaid) / buyValue) * 100;
+    // Write-offs count as a loss of their buy cost
+    const { profit, roi } = ledger;
     
     totalProfit += profit;
     totalROI += roi;
     if (profit > 0) wins++;
     
-    const holdTime = new Date(flip.sellDate as Date).getTime() - new Date(flip.buyDate).getTime();
-    totalHoldTime += holdTime;
+    totalHoldTime += ledger.holdTimeMs ?? 0;
     
     minPrice = Math.min(minPrice, flip.buyPrice);
-    maxPrice = Math.max(maxPrice, flip.buyPrice, sellPrice);
+    maxPrice = Math.max(maxPrice, flip.buyPrice, summary.averageSellPrice ?? 0);
     
     if (flip.isMembers) membersCount++;
     else f2pCount++;
     
-    const strategy = flip.strategyTag || "Other";
-    const stats = strategyStats.get(strategy) || { count: 0, totalROI: 0, wins: 0 };
-    stats.count++;
-    stats.totalROI += roi;
-    if (profit > 0) stats.wins++;
-    strategyStats.set(strategy, stats);
+    for (const strategy of strategyNames(flip)) {
+      const stats = strategyStats.get(strategy) || { count: 0, totalROI: 0, wins: 0 };
+      stats.count++;
+      stats.totalROI += roi;
+      if (profit > 0) stats.wins++;
+      strategyStats.set(strategy, stats);
+    }
     
     const itemName = flip.itemName;
     itemCounts.set(itemName, (itemCounts.get(itemName) || 0) + 1);
@@ -117,8 +150,9 @@ export function analyzeUserTradingProfile(flips: Flip[]): UserTradingProfile {
     ? completedFlips.reduce((sum, f) => sum + f.buyPrice * f.quantity, 0) / completedFlips.length 
     : 0;
   
-  const hasFastFlips = preferredStrategies.some(s => s.strategy === "Fast Flip" && s.frequency > 2);
-  const hasSpeculative = preferredStrategies.some(s => s.strategy === "Speculative" && s.frequency > 1);
+  // Only users who kept the original tag names get the tag-based risk hints
+  const hasFastFlips = hasStrategy(preferredStrategies, "Fast Flip", 2);
+  const hasSpeculative = hasStrategy(preferredStrategies, "Speculative", 1);
   
   if (hasSpeculative || avgROI > 15) {
     riskProfile = "aggressive";
@@ -176,10 +210,9 @@ interface ItemTradingStats {
 }
 
 // Calculate detailed stats for each item from user's trading history
-function calculateItemStats(flips: Flip[]): ItemTradingStats[] {
-  const completedFlips = flips.filter(f => f.sellPrice && f.sellDate && !f.deletedAt);
+function calculateItemStats(flips: TaggedFlip[]): ItemTradingStats[] {
   const itemMap = new Map<string, {
-    trades: Flip[];
+    trades: ClosedTrade[];
     totalProfit: number;
     totalBuyPrice: number;
     totalSellPrice: number;
@@ -189,12 +222,11 @@ function calculateItemStats(flips: Flip[]): ItemTradingStats[] {
     strategies: Set<string>;
   }>();
   
-  for (const flip of completedFlips) {
-    const sellPrice = flip.sellPrice as number;
-    const taxPaid = Math.floor(sellPrice * 0.02) * flip.quantity;
-    const profit = (sellPrice * flip.quantity) - (flip.buyPrice * flip.quantity) - taxPaid;
-    const roi = ((sellPrice - flip.buyPrice - Math.floor(sellPrice * 0.02)) / flip.buyPrice) * 100;
-    const holdTime = new Date(flip.sellDate as Date).getTime() - new Date(flip.buyDate).getTime();
+  for (const trade of closedTrades(flips)) {
+    const { flip, summary, ledger } = trade;
+    const { profit, roi } = ledger;
+    const sellPrice = summary.averageSellPrice ?? 0;
+    const holdTime = ledger.holdTimeMs ?? 0;
     
     const existing = itemMap.get(flip.itemName) || {
       trades: [],
@@ -207,23 +239,22 @@ function calculateItemStats(flips: Flip[]): ItemTradingStats[] {
       strategies: new Set<string>(),
     };
     
-    existing.trades.push(flip);
+    existing.trades.push(trade);
     existing.totalProfit += profit;
     existing.totalBuyPrice += flip.buyPrice;
     existing.totalSellPrice += sellPrice;
     existing.totalROI += roi;
     if (profit > 0) existing.wins++;
     existing.totalHoldTime += holdTime;
-    if (flip.strategyTag) existing.strategies.add(flip.strategyTag);
+    flip.tags?.forEach(tag => existing.strategies.add(tag.name));
     
     itemMap.set(flip.itemName, existing);
   }
   
   return Array.from(itemMap.entries()).map(([itemName, data]) => {
     const count = data.trades.length;
-    const latestFlip = data.trades.sort((a, b) => 
-      new Date(b.sellDate as Date).getTime() - new Date(a.sellDate as Date).getTime()
-    )[0];
+    const latestTrade = data.trades.sort((a, b) => b.closedAt.getTime() - a.closedAt.getTime())[0];
+    const latestFlip = latestTrade?.flip;
     
     return {
       itemName,
@@ -236,7 +267,7 @@ function calculateItemStats(flips: Flip[]): ItemTradingStats[] {
       avgROI: data.totalROI / count,
       winRate: (data.wins / count) * 100,
       avgHoldTimeMs: data.totalHoldTime / count,
-      lastTraded: new Date(latestFlip?.sellDate as Date),
+      lastTraded: latestTrade.closedAt,
       strategies: Array.from(data.strategies),
       isMembers: latestFlip?.isMembers ?? null,
     };
@@ -245,10 +276,10 @@ function calculateItemStats(flips: Flip[]): ItemTradingStats[] {
 
 export async function getPersonalizedRecommendations(
   profile: UserTradingProfile,
-  existingFlips: Flip[]
+  existingFlips: TaggedFlip[]
 ): Promise<PersonalizedRecommendation[]> {
   const openPositions = existingFlips
-    .filter(f => !f.sellPrice && !f.deletedAt)
+    .filter(f => !f.deletedAt && summarizeFlipSells(f).remainingQuantity > 0)
     .map(f => f.itemName.toLowerCase());
   
   // Calculate stats for all items the user has traded
@@ -291,6 +322,14 @@ export async function getPersonalizedRecommendations(
       members: item.isMembers ? "Members" : "F2P",
     }));
   
+  // Suggest strategies by the user's own tag names, falling back to the original set
+  const userStrategies = profile.preferredStrategies
+    .map(s => s.strategy)
+    .filter(strategy => strategy !== UNTAGGED_LABEL);
+  const strategyOptions = userStrategies.length > 0
+    ? userStrategies
+    : Object.keys(LEGACY_STRATEGY_COLORS).filter(strategy => strategy !== "Other");
+  
   const prompt = `You are an RS3 trading advisor. Analyze this user's trading history and select the 5 BEST items they should trade again.
 
 USER PROFILE:
@@ -314,7 +353,7 @@ Respond with JSON containing an "items" array. Each item must use the EXACT item
     {
       "itemName": "EXACT name from list",
       "reasoning": "Why this item suits them",
-      "suggestedStrategy": "Fast Flip|Slow Flip|Bulk|High Margin|Speculative",
+      "suggestedStrategy": "${strategyOptions.join("|")}",
       "confidence": "high|medium|low",
       "matchScore": 0-100,
       "tips": "Specific trading tip for this item"
@@ -402,8 +441,13 @@ function buildRecommendation(
   reasoning: string,
   aiData?: { confidence?: string; matchScore?: number; strategy?: string; tips?: string }
 ): PersonalizedRecommendation {
-  const potentialProfit = item.avgSellPrice - item.avgBuyPrice - Math.floor(item.avgSellPrice * 0.02);
-  const potentialROI = item.avgBuyPrice > 0 ? (potentialProfit / item.avgBuyPrice) * 100 : 0;
+  // Per item, at the user's average prices
+  const { profit: potentialProfit, roi: potentialROI } = saleLedger({
+    sellPrice: item.avgSellPrice,
+    quantity: 1,
+    costBasis: item.avgBuyPrice,
+    itemId: item.itemId,
+  });
   
   let confidence: "high" | "medium" | "low" = "medium";
   if (aiData?.confidence === "high" || item.winRate >= 80) confidence = "high";
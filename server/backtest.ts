@@ -0,0 +1,26 @@
+import { storage } from "./storage";
+import { getItemPriceHistory, getItemPrices } from "./ge-api";
+import { buildBacktestReport, MAX_BACKTEST_ITEMS, type BacktestReport } from "@shared/backtest";
+
+// The items a user has flipped most, for a backtest that reflects what they trade
+export async function getMostFlippedItemIds(userId: string, limit: number = MAX_BACKTEST_ITEMS): Promise<number[]> {
+  const counts = new Map<number, number>();
+  for (const flip of await storage.getFlips(userId)) {
+    if (flip.itemId && !flip.deletedAt) counts.set(flip.itemId, (counts.get(flip.itemId) ?? 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([itemId]) => itemId);
+}
+
+// Replay the trend and suggestion rules over each item's 90-day history
+export async function runBacktest(itemIds: number[]): Promise<BacktestReport> {
+  const names = await getItemPrices(itemIds);
+  const series = await Promise.all(itemIds.map(async itemId => ({
+    itemId,
+    itemName: names.get(itemId)?.name ?? `Item ${itemId}`,
+    points: (await getItemPriceHistory(itemId)) ?? [],
+  })));
+  return buildBacktestReport(series);
+}
@@ -0,0 +1,102 @@
+import { storage } from "./storage";
+import { getItemBuyLimit } from "./ge-api";
+import { BUY_LIMIT_WINDOW_MS, summarizeBuyWindow, type BuyLimitEntry, type BuyLimitStatus } from "@shared/buyLimits";
+
+interface BuyLimitItem {
+  itemId?: number | null;
+  itemName?: string | null;
+}
+
+interface AccountBuy extends BuyLimitEntry {
+  itemId: number | null;
+  itemName: string;
+  rsAccountId: string | null;
+  geLimit: number | null;
+}
+
+// Items match on ID when both sides have one, otherwise on name
+function isSameItem(item: BuyLimitItem, buy: AccountBuy): boolean {
+  if (item.itemId && buy.itemId) return item.itemId === buy.itemId;
+  return !!item.itemName && item.itemName.toLowerCase() === buy.itemName.toLowerCase();
+}
+
+// Everything the user bought in the current window: logged flips, plus units filled
+// on buy offers that are still active (they only become flips once the offer ends).
+// Offer fills are only known in total, so they're dated from the offer's last update.
+async function getWindowBuys(userId: string, now: Date): Promise<AccountBuy[]> {
+  const since = new Date(now.getTime() - BUY_LIMIT_WINDOW_MS);
+  const flipBuys: AccountBuy[] = (await storage.getFlipsBoughtSince(userId, since)).map(flip => ({
+    itemId: flip.itemId,
+    itemName: flip.itemName,
+    rsAccountId: flip.rsAccountId,
+    geLimit: flip.geLimit,
+    quantity: flip.quantity,
+    boughtAt: flip.buyDate,
+  }));
+
+  const offerBuys: AccountBuy[] = (await storage.getGeOffers(userId))
+    .filter(offer => offer.offerType === "buy"
+      && (offer.status === "placed" || offer.status === "partial")
+      && offer.filledQuantity > 0)
+    .map(offer => ({
+      itemId: offer.itemId,
+      itemName: offer.itemName,
+      rsAccountId: offer.rsAccountId,
+      geLimit: null,
+      quantity: offer.filledQuantity,
+      boughtAt: offer.updatedAt ?? offer.placedAt ?? now,
+    }));
+
+  return [...flipBuys, ...offerBuys];
+}
+
+// The GE item data is preferred; flips logged with a limit are the fallback
+async function resolveLimit(itemId: number | null, buys: AccountBuy[]): Promise<number | null> {
+  const geLimit = itemId ? await getItemBuyLimit(itemId) : undefined;
+  return geLimit ?? buys.find(buy => buy.geLimit)?.geLimit ?? null;
+}
+
+// How much of an item's buy limit one account (null = flips without an account) has used
+export async function getBuyLimitStatus(
+  userId: string,
+  item: BuyLimitItem,
+  rsAccountId: string | null,
+  now: Date = new Date()
+): Promise<BuyLimitStatus> {
+  const buys = (await getWindowBuys(userId, now))
+    .filter(buy => buy.rsAccountId === rsAccountId && isSameItem(item, buy));
+  const itemId = item.itemId ?? buys.find(buy => buy.itemId)?.itemId ?? null;
+
+  return {
+    itemId,
+    itemName: buys[0]?.itemName ?? item.itemName ?? `Item ${itemId}`,
+    rsAccountId,
+    ...summarizeBuyWindow(buys, await resolveLimit(itemId, buys), now),
+  };
+}
+
+// Every item/account pair with buys in the current window, soonest reset first
+export async function getActiveBuyLimits(userId: string, now: Date = new Date()): Promise<BuyLimitStatus[]> {
+  const groups = new Map<string, AccountBuy[]>();
+  for (const buy of await getWindowBuys(userId, now)) {
+    const key = `${buy.rsAccountId ?? ""}|${buy.itemId ?? buy.itemName.toLowerCase()}`;
+    const list = groups.get(key) ?? [];
+    list.push(buy);
+    groups.set(key, list);
+  }
+
+  const statuses: BuyLimitStatus[] = [];
+  for (const buys of Array.from(groups.values())) {
+    const { itemId, itemName, rsAccountId } = buys[0];
+    statuses.push({
+      itemId,
+      itemName,
+      rsAccountId,
+      ...summarizeBuyWindow(buys, await resolveLimit(itemId, buys), now),
+    });
+  }
+
+  return statuses
+    .filter(status => status.used > 0)
+    .sort((a, b) => (a.resetsAt ?? "").localeCompare(b.resetsAt ?? ""));
+}
@@ -1,5 +1,7 @@
-import type { Flip } from "@shared/schema";
+import type { Flip, FlipSell } from "@shared/schema";
 import { formatGpShorthand } from "@shared/gpParser";
+import { formatTagNames } from "@shared/strategyTags";
+import { flipLedger } from "@shared/profitLedger";
 
 interface DiscordEmbed {
   title: string;
@@ -23,17 +25,18 @@ function formatDate(date: Date | string | null | undefined): string {
   });
 }
 
-function getStatusAndColor(flip: Flip): { status: string; color: number } {
-  if (!flip.sellDate) {
-    return { status: "🟡 Open Position", color: 0xf59e0b };
+// Sells are passed along where the caller has them; without them the flip's own
+// sellPrice is treated as a single sell
+type DiscordFlip = Flip & { tags?: { name: string }[]; sells?: FlipSell[] };
+
+function getStatusAndColor(flip: DiscordFlip): { status: string; color: number } {
+  const { profit, costBasis } = flipLedger(flip);
+  if (costBasis === 0) {
+    return flip.status === "cancelled"
+      ? { status: "⚪ Cancelled", color: 0x6b7280 }
+      : { status: "🟡 Open Position", color: 0xf59e0b };
   }
   
-  const buyTotal = Number(flip.buyPrice) * flip.quantity;
-  const sellTotal = Number(flip.sellPrice || 0) * flip.quantity;
-  const taxPerItem = Math.floor(Number(flip.sellPrice || 0) * 0.02);
-  const totalTax = taxPerItem * flip.quantity;
-  const profit = sellTotal - buyTotal - totalTax;
-  
   if (profit > 0) {
     return { status: "🟢 Profitable", color: 0x22c55e };
   } else if (profit < 0) {
@@ -42,7 +45,7 @@ function getStatusAndColor(flip: Flip): { status: string; color: number } {
   return { status: "⚪ Break Even", color: 0x6b7280 };
 }
 
-export async function sendFlipToDiscord(flip: Flip): Promise<boolean> {
+export async function sendFlipToDiscord(flip: DiscordFlip): Promise<boolean> {
   const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
   
   if (!webhookUrl) {
@@ -120,7 +123,8 @@ export async function sendFlipToDiscord(flip: Flip): Promise<boolean> {
   }
 }
 
-export async function sendFlipUpdateToDiscord(oldFlip: Flip, newFlip: Flip): Promise<boolean> {
+// Tags are compared only when the caller loaded them for both versions of the flip
+export async function sendFlipUpdateToDiscord(oldFlip: DiscordFlip, newFlip: DiscordFlip): Promise<boolean> {
   const webhookUrl = process.env.DISCORD_WEBHOOK_URL;
   
   if (!webhookUrl) {
@@ -157,10 +161,12 @@ export async function sendFlipUpdateToDiscord(oldFlip: Flip, newFlip: Flip): Pro
       });
     }
     
-    if (oldFlip.strategyTag !== newFlip.strategyTag) {
+    const oldTags = oldFlip.tags && formatTagNames(oldFlip.tags);
+    const newTags = newFlip.tags && formatTagNames(newFlip.tags);
+    if (oldFlip.tags && newFlip.tags && oldTags !== newTags) {
       changes.push({
         name: "Strategy",
-        value: `${oldFlip.strategyTag || "None"} → ${newFlip.strategyTag || "None"}`,
+        value: `${oldTags || "None"} → ${newTags || "None"}`,
         inline: true,
       });
     }
@@ -181,19 +187,13 @@ export async function sendFlipUpdateToDiscord(oldFlip: Flip, newFlip: Flip): Pro
     
     const { status, color } = getStatusAndColor(newFlip);
     
-    // Calculate profit if completed
+    // Profit booked so far (sells and any write-off)
     let profitField: { name: string; value: string; inline?: boolean } | null = null;
-    if (newFlip.sellPrice && newFlip.sellDate) {
-      const buyTotal = Number(newFlip.buyPrice) * newFlip.quantity;
-      const sellTotal = Number(newFlip.sellPrice) * newFlip.quantity;
-      const taxPerItem = Math.floor(Number(newFlip.sellPrice) * 0.02);
-      const totalTax = taxPerItem * newFlip.quantity;
-      const profit = sellTotal - buyTotal - totalTax;
-      const roi = buyTotal > 0 ? ((profit / buyTotal) * 100).toFixed(1) : "0";
-      
+    const ledger = flipLedger(newFlip);
+    if (ledger.costBasis > 0) {
       profitField = {
-        name: profit >= 0 ? "💰 Profit" : "📉 Loss",
-        value: `${formatGpShorthand(Math.abs(profit))} gp (${roi}% ROI)`,
+        name: ledger.profit >= 0 ? "💰 Profit" : "📉 Loss",
+        value: `${formatGpShorthand(Math.abs(ledger.profit))} gp (${ledger.roi.toFixed(1)}% ROI)`,
         inline: true,
       };
     }
@@ -0,0 +1,74 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import path from "path";
+import type { PriceProvider, CatalogEntry, LatestPrice, PriceHistoryEntry } from "./price-provider";
+import { parseItemDump, parsePriceHistory } from "./weirdgloop-provider";
+
+// Replays recorded WeirdGloop responses from a directory, for offline use and tests:
+//   rs_dump.json         - the GE dump; the catalog and every item's latest price
+//   history/<itemId>.json - a /last90d response for that item
+// Files are read once and kept in memory. fixtures/prices (the default directory)
+// holds a small recorded set: a few items in the dump, with history for 4151 and 29492.
+export class FixturePriceProvider implements PriceProvider {
+  readonly name: string;
+  private catalog: Promise<CatalogEntry[]> | null = null;
+  private histories = new Map<number, Promise<PriceHistoryEntry[] | null>>();
+
+  constructor(private readonly directory: string) {
+    if (!existsSync(directory)) {
+      throw new Error(`Price fixture directory ${path.resolve(directory)} does not exist`);
+    }
+    this.name = `fixture (${directory})`;
+  }
+
+  private async readJson(file: string): Promise<Record<string, any> | null> {
+    try {
+      return JSON.parse(await readFile(path.resolve(this.directory, file), "utf-8"));
+    } catch (error: unknown) {
+      if (error instanceof Error && "code" in error && error.code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  getCatalog(): Promise<CatalogEntry[]> {
+    if (!this.catalog) {
+      this.catalog = this.readJson("rs_dump.json").then(data => {
+        if (!data) throw new Error(`No rs_dump.json in ${this.directory}`);
+        return parseItemDump(data);
+      });
+      // Let a fixed file be picked up on the next call
+      this.catalog.catch(() => { this.catalog = null; });
+    }
+    return this.catalog;
+  }
+
+  private async findLatest(match: (entry: CatalogEntry) => boolean): Promise<LatestPrice | null> {
+    const entry = (await this.getCatalog()).find(match);
+    if (!entry?.price) return null;
+    return { id: entry.id, name: entry.name, price: entry.price, volume: entry.volume };
+  }
+
+  async getLatestPrice(itemName: string): Promise<LatestPrice | null> {
+    const nameLower = itemName.trim().toLowerCase();
+    return this.findLatest(entry => entry.name.toLowerCase() === nameLower);
+  }
+
+  async getLatestPriceById(itemId: number): Promise<LatestPrice | null> {
+    return this.findLatest(entry => entry.id === itemId);
+  }
+
+  getPriceHistory90d(itemId: number): Promise<PriceHistoryEntry[] | null> {
+    let history = this.histories.get(itemId);
+    if (!history) {
+      history = this.readJson(path.join("history", `${itemId}.json`))
+        .then(data => data ? parsePriceHistory(data, itemId) : null);
+      this.histories.set(itemId, history);
+      // Only keep histories that loaded, so a fixture added later is picked up
+      history.then(
+        entries => { if (!entries) this.histories.delete(itemId); },
+        () => { this.histories.delete(itemId); }
+      );
+    }
+    return history;
+  }
+}
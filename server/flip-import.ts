@@ -0,0 +1,180 @@
+import { searchItems, type GEItem } from "./ge-api";
+import { parseGp } from "@shared/gpParser";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { saleLedger } from "@shared/profitLedger";
+import { formatTagNames } from "@shared/strategyTags";
+import type { Flip, StrategyTag } from "@shared/schema";
+import type { FlipImportEntry, FlipImportRow, FlipImportPreviewRow, ParsedImportFlip } from "@shared/flipImport";
+
+function parseImportDate(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function dayKey(date: Date | string): string {
+  return new Date(date).toISOString().split("T")[0];
+}
+
+// Same item, quantity, buy price and buy day counts as the same flip
+function duplicateKey(itemName: string, quantity: number, buyPrice: number, buyDate: Date | string): string {
+  return `${itemName.trim().toLowerCase()}|${quantity}|${buyPrice}|${dayKey(buyDate)}`;
+}
+
+async function resolveItem(name: string, cache: Map<string, GEItem | null>): Promise<{ item: GEItem | null; exact: boolean }> {
+  const key = name.trim().toLowerCase();
+  if (!cache.has(key)) {
+    const results = await searchItems(name.trim());
+    cache.set(key, results.find(item => item.name.toLowerCase() === key) ?? results[0] ?? null);
+  }
+  const item = cache.get(key) ?? null;
+  return { item, exact: item !== null && item.name.toLowerCase() === key };
+}
+
+// A tags cell holds one or more names separated by commas or semicolons
+function parseTagNames(value: string | undefined): string[] {
+  const names = (value ?? "").split(/[,;]/).map(name => name.trim().slice(0, 50)).filter(Boolean);
+  return names.filter((name, i) => names.findIndex(n => n.toLowerCase() === name.toLowerCase()) === i);
+}
+
+export async function previewFlipImport(rows: FlipImportRow[], existingFlips: Flip[], existingTags: StrategyTag[]): Promise<FlipImportPreviewRow[]> {
+  const existingKeys = new Set(existingFlips.map(flip => duplicateKey(flip.itemName, flip.quantity, flip.buyPrice, flip.buyDate)));
+  const fileKeys = new Set<string>();
+  const itemCache = new Map<string, GEItem | null>();
+  const preview: FlipImportPreviewRow[] = [];
+
+  for (let index = 0; index < rows.length; index++) {
+    const row = rows[index];
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const quantity = parseGp(row.quantity ?? "");
+    const buyPrice = parseGp(row.buyPrice ?? "");
+    const buyDate = parseImportDate(row.buyDate);
+    const sellPrice = row.sellPrice ? parseGp(row.sellPrice) : null;
+    const soldQuantityInput = row.soldQuantity ? parseGp(row.soldQuantity) : null;
+    const sellDate = parseImportDate(row.sellDate);
+
+    if (!row.itemName) errors.push("Missing item name");
+    if (!quantity || quantity <= 0) errors.push(`Invalid quantity "${row.quantity ?? ""}"`);
+    if (!buyPrice || buyPrice <= 0) errors.push(`Invalid buy price "${row.buyPrice ?? ""}"`);
+    if (!buyDate) errors.push(`Invalid buy date "${row.buyDate ?? ""}"`);
+    if (row.sellPrice && (!sellPrice || sellPrice <= 0)) errors.push(`Invalid sell price "${row.sellPrice}"`);
+    if (row.sellDate && !sellDate) errors.push(`Invalid sell date "${row.sellDate}"`);
+
+    // An export row with a sell price but "0" sold is still an open position
+    const soldQuantity = sellPrice ? (soldQuantityInput ?? quantity ?? 0) : 0;
+    if (quantity && soldQuantity > quantity) errors.push("Sold quantity exceeds quantity");
+
+    if (errors.length > 0 || !row.itemName || !quantity || !buyPrice || !buyDate) {
+      preview.push({ index, status: "error", errors, warnings, itemMatch: "none" });
+      continue;
+    }
+
+    const { item, exact } = await resolveItem(row.itemName, itemCache);
+    if (!item) {
+      warnings.push("Item not found in the GE catalog; it will be imported without an item ID");
+    } else if (!exact) {
+      warnings.push(`Matched to "${item.name}"`);
+    }
+
+    const tags = parseTagNames(row.tags)
+      .map(name => existingTags.find(tag => tag.name.toLowerCase() === name.toLowerCase())?.name ?? name);
+    const newTags = tags.filter(name => !existingTags.some(tag => tag.name === name));
+    if (newTags.length > 0) {
+      warnings.push(`New tag${newTags.length > 1 ? "s" : ""} will be created: ${newTags.join(", ")}`);
+    }
+
+    const itemName = item?.name ?? row.itemName;
+    const flip: ParsedImportFlip = {
+      itemName,
+      itemId: item?.id,
+      itemIcon: item?.icon,
+      quantity,
+      buyPrice,
+      buyDate: buyDate.toISOString(),
+      sellPrice: soldQuantity > 0 && sellPrice ? sellPrice : undefined,
+      soldQuantity: soldQuantity > 0 ? soldQuantity : undefined,
+      // Historical rows without a sell date are assumed to have sold the day they were bought
+      sellDate: soldQuantity > 0 ? (sellDate ?? buyDate).toISOString() : undefined,
+      category: row.category?.slice(0, 50),
+      tags,
+      notes: row.notes,
+    };
+
+    const key = duplicateKey(itemName, quantity, buyPrice, buyDate);
+    const duplicateOf = existingKeys.has(key) ? "existing" : fileKeys.has(key) ? "file" : undefined;
+    fileKeys.add(key);
+
+    preview.push({
+      index,
+      status: duplicateOf ? "duplicate" : "ready",
+      errors,
+      warnings,
+      itemMatch: item ? (exact ? "exact" : "fuzzy") : "none",
+      flip,
+      duplicateOf,
+    });
+  }
+
+  return preview;
+}
+
+// What storage.importFlips writes for a previewed row. The status, summary sell
+// price and transactions match what creating the flip and its sell one by one
+// would have left behind.
+export function flipImportEntry(parsed: ParsedImportFlip, tags: StrategyTag[]): FlipImportEntry {
+  const { soldQuantity, sellPrice, sellDate, tags: _tagNames, ...flipData } = parsed;
+  const buyDate = new Date(flipData.buyDate);
+  const sell = soldQuantity && sellPrice
+    ? { quantity: soldQuantity, sellPrice, sellDate: sellDate ? new Date(sellDate) : buyDate }
+    : null;
+  const summary = summarizeFlipSells({ ...flipData, sells: sell ? [sell] : [] });
+  const isSold = summary.status === "sold";
+  const strategyTag = formatTagNames(tags);
+
+  const transactions: FlipImportEntry["transactions"] = [];
+  if (flipData.itemId) {
+    transactions.push({
+      itemId: flipData.itemId,
+      itemName: flipData.itemName,
+      transactionType: 'buy',
+      price: flipData.buyPrice,
+      quantity: flipData.quantity,
+      strategyTag,
+      transactionDate: buyDate,
+    });
+    if (sell) {
+      transactions.push({
+        itemId: flipData.itemId,
+        itemName: flipData.itemName,
+        transactionType: 'sell',
+        price: sell.sellPrice,
+        quantity: sell.quantity,
+        taxPaid: saleLedger({
+          sellPrice: sell.sellPrice,
+          quantity: sell.quantity,
+          costBasis: flipData.buyPrice * sell.quantity,
+          itemId: flipData.itemId,
+          soldAt: sell.sellDate,
+        }).totalTax,
+        strategyTag,
+        transactionDate: sell.sellDate,
+      });
+    }
+  }
+
+  return {
+    flip: {
+      ...flipData,
+      buyDate,
+      sellPrice: isSold ? summary.averageSellPrice ?? undefined : undefined,
+      sellDate: isSold ? summary.lastSellDate ?? undefined : undefined,
+      membershipStatus: "Unknown",
+    },
+    status: summary.status,
+    tagIds: tags.map(tag => tag.id),
+    sell,
+    transactions,
+  };
+}
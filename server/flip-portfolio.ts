@@ -0,0 +1,95 @@
+import { storage } from "./storage";
+import { getItemPrice } from "./ge-api";
+import type { Flip, PortfolioHolding, HoldingTransaction } from "@shared/schema";
+import { isClosedStatus } from "@shared/flipStatus";
+
+export interface FlipPortfolioMove {
+  flip: Flip;
+  holding: PortfolioHolding;
+  transaction: HoldingTransaction;
+}
+
+// Holdings are keyed by item ID; flips logged without one are looked up by name
+export async function resolveFlipItemId(flip: Flip): Promise<number | null> {
+  if (flip.itemId) return flip.itemId;
+  return (await getItemPrice(flip.itemName))?.id ?? null;
+}
+
+// Holdings created without transactions can have a zero totalCost
+function holdingCost(holding: PortfolioHolding): number {
+  return holding.totalCost || holding.avgBuyPrice * holding.quantity;
+}
+
+// Move an unsold flip into the portfolio: add a buy at the flip's price and date to the
+// user's holding of that item (created with source "flip" if there's none) and link the flip
+// to the holding, which hides it from the flips until the move is undone. Cancelled and
+// written-off flips no longer hold their units, so they can't be moved.
+export async function moveFlipToPortfolio(flip: Flip, itemId: number): Promise<FlipPortfolioMove | undefined> {
+  if (isClosedStatus(flip.status)) return undefined;
+  const userId = flip.userId;
+  const cost = flip.buyPrice * flip.quantity;
+
+  const existing = (await storage.getPortfolioHoldings(userId)).find(h => h.itemId === itemId);
+  const holding = existing ?? await storage.createPortfolioHolding(userId, {
+    itemId,
+    itemName: flip.itemName,
+    itemIcon: flip.itemIcon,
+    quantity: flip.quantity,
+    avgBuyPrice: flip.buyPrice,
+    source: "flip",
+  });
+
+  const transaction = await storage.createHoldingTransaction(userId, {
+    holdingId: holding.id,
+    transactionType: "buy",
+    quantity: flip.quantity,
+    pricePerUnit: flip.buyPrice,
+    notes: "Moved from flips",
+    transactionDate: new Date(flip.buyDate),
+  }, flip.id);
+
+  const quantity = existing ? existing.quantity + flip.quantity : flip.quantity;
+  const totalCost = existing ? holdingCost(existing) + cost : cost;
+  const updatedHolding = await storage.updatePortfolioHolding(holding.id, userId, {
+    quantity,
+    avgBuyPrice: Math.round(totalCost / quantity),
+    totalCost,
+  });
+
+  const movedFlip = await storage.setFlipPortfolioHolding(flip.id, userId, holding.id);
+  if (!movedFlip || !updatedHolding) return undefined;
+  return { flip: movedFlip, holding: updatedHolding, transaction };
+}
+
+// Units of the holding sold since the move would be sold twice if the flip came back
+export async function canUndoPortfolioMove(flip: Flip): Promise<boolean> {
+  if (!flip.portfolioHoldingId) return true;
+  const holding = await storage.getPortfolioHolding(flip.portfolioHoldingId);
+  return !holding || holding.quantity >= flip.quantity;
+}
+
+// Take the flip's units back out of the holding and show the flip again. A holding the
+// move created is deleted once nothing else is left in it.
+export async function undoFlipPortfolioMove(flip: Flip): Promise<Flip | undefined> {
+  const userId = flip.userId;
+  const transaction = await storage.getHoldingTransactionForFlip(flip.id);
+  if (transaction) await storage.deleteHoldingTransaction(transaction.id, userId);
+
+  const holding = flip.portfolioHoldingId ? await storage.getPortfolioHolding(flip.portfolioHoldingId) : undefined;
+  if (holding) {
+    const quantity = holding.quantity - flip.quantity;
+    const remainingTxs = await storage.getHoldingTransactions(holding.id, userId);
+    if (quantity <= 0 && remainingTxs.length === 0) {
+      await storage.deletePortfolioHolding(holding.id, userId);
+    } else {
+      const totalCost = Math.max(0, holdingCost(holding) - flip.buyPrice * flip.quantity);
+      await storage.updatePortfolioHolding(holding.id, userId, {
+        quantity: Math.max(0, quantity),
+        avgBuyPrice: quantity > 0 ? Math.round(totalCost / quantity) : 0,
+        totalCost,
+      });
+    }
+  }
+
+  return await storage.setFlipPortfolioHolding(flip.id, userId, null);
+}
@@ -0,0 +1,29 @@
+import { storage, storageReady } from "./storage";
+import { summarizeFlipSells } from "@shared/flipSells";
+
+// Flips logged before the status column existed all start out "open"; their real
+// status follows from the fills. Safe to run on every start.
+export async function backfillFlipStatuses(): Promise<number> {
+  await storageReady;
+  const staleFlips = await storage.getFlipsWithStaleOpenStatus();
+  if (staleFlips.length === 0) return 0;
+
+  const sells = await storage.getFlipSellsForFlips(staleFlips.map(flip => flip.id));
+  let updated = 0;
+  for (const flip of staleFlips) {
+    try {
+      const { status } = summarizeFlipSells({ ...flip, sells: sells.filter(sell => sell.flipId === flip.id) });
+      if (status !== flip.status) {
+        await storage.setFlipStatus(flip.id, status, null);
+        updated++;
+      }
+    } catch (error) {
+      console.error(`[FlipStatus] Failed to backfill flip ${flip.id}:`, error);
+    }
+  }
+
+  if (updated > 0) {
+    console.log(`[FlipStatus] Set the status of ${updated} flip(s) from their sells`);
+  }
+  return updated;
+}
@@ -0,0 +1,94 @@
+// Flip summaries in SQL
+// The status, profit and ROI that summarizeFlipSells (shared/flipSells.ts) works
+// out, as SQL expressions, so the flip list can filter and sort by them in the
+// database. The rules are the same: a flip's sell fills, or its legacy
+// sellPrice/sellDate as one fill of the full quantity, each taxed per item under
+// the rule set of its sell date (shared/taxCalculator.ts) and the tax-exempt registry.
+
+import { sql, inArray, type SQL, type SQLWrapper } from "drizzle-orm";
+import { flips, flipSells, taxExemptItems } from "@shared/schema";
+import { TAX_RULE_SETS, type TaxRuleSet } from "@shared/taxCalculator";
+import { CLOSED_FLIP_STATUSES } from "@shared/flipStatus";
+
+function ruleTaxSql(rules: TaxRuleSet, price: SQLWrapper, itemId: SQLWrapper, sellDate: SQLWrapper): SQL {
+  if (rules.rate === 0) return sql`0`;
+  const tax = sql`floor(${price} * ${rules.rate}::numeric)`;
+  const cappedTax = rules.maxTaxPerItem !== undefined ? sql`least(${tax}, ${rules.maxTaxPerItem})` : tax;
+  return sql`case
+    when ${price} <= ${rules.exemptMaxPrice} then 0
+    when exists (
+      select 1 from ${taxExemptItems}
+      where ${taxExemptItems.itemId} = ${itemId} and ${taxExemptItems.effectiveFrom} <= ${sellDate}
+    ) then 0
+    else ${cappedTax}
+  end`;
+}
+
+// calculateTaxPerItem: the newest rule set in force on the sell date
+function taxPerItemSql(price: SQLWrapper, itemId: SQLWrapper, sellDate: SQLWrapper): SQL {
+  const [first, ...later] = TAX_RULE_SETS;
+  if (later.length === 0) return ruleTaxSql(first, price, itemId, sellDate);
+  const branches = [...later].reverse().map(rules =>
+    sql`when ${sellDate} >= ${rules.effectiveFrom.toISOString()}::timestamp then ${ruleTaxSql(rules, price, itemId, sellDate)}`
+  );
+  return sql`case ${sql.join(branches, sql` `)} else ${ruleTaxSql(first, price, itemId, sellDate)} end`;
+}
+
+// A single-table select drops the table name from columns at the top level of a
+// selected expression, and the correlated subqueries below need it
+function qualified(expression: SQL, alias: string): SQL.Aliased<number> {
+  return sql<number>`${expression}`.mapWith(Number).as(alias);
+}
+
+// Sold quantity, gross sell total and tax of the flip row of the enclosing query.
+// Aggregates over no fills are null, which falls through to the legacy sell.
+export function fillTotalsSql() {
+  const sellsOfFlip = sql`from ${flipSells} where ${flipSells.flipId} = ${flips.id}`;
+  const legacySellDate = sql`coalesce(${flips.sellDate}, now())`;
+  return {
+    soldQuantity: qualified(sql`coalesce(
+      (select sum(${flipSells.quantity}) ${sellsOfFlip}),
+      case when ${flips.sellPrice} is not null then ${flips.quantity} else 0 end
+    )`, "sold_quantity"),
+    grossSellTotal: qualified(sql`coalesce(
+      (select sum(${flipSells.quantity} * ${flipSells.sellPrice}) ${sellsOfFlip}),
+      ${flips.quantity} * ${flips.sellPrice},
+      0
+    )`, "gross_sell_total"),
+    totalTax: qualified(sql`coalesce(
+      (select sum(${flipSells.quantity} * ${taxPerItemSql(flipSells.sellPrice, flips.itemId, flipSells.sellDate)}) ${sellsOfFlip}),
+      ${flips.quantity} * ${taxPerItemSql(flips.sellPrice, flips.itemId, legacySellDate)},
+      0
+    )`, "total_tax"),
+  };
+}
+
+interface FillTotals {
+  soldQuantity: SQLWrapper;
+  grossSellTotal: SQLWrapper;
+  totalTax: SQLWrapper;
+}
+
+// Status, profit and ROI from a flip's fill totals. A closed status only counts
+// while something is unsold, and a write-off adds the unsold units to the cost.
+// Profit and ROI sort as null until something has sold.
+export function flipSummarySql(totals: FillTotals) {
+  const unsoldQuantity = sql`greatest(${flips.quantity} - ${totals.soldQuantity}, 0)`;
+  const closed = sql`(${inArray(flips.status, [...CLOSED_FLIP_STATUSES])} and ${unsoldQuantity} > 0)`;
+  const writeOffLoss = sql`case when ${closed} and ${flips.status} = 'written_off' then ${flips.buyPrice} * ${unsoldQuantity} else 0 end`;
+  const costBasis = sql`(${flips.buyPrice} * ${totals.soldQuantity} + ${writeOffLoss})`;
+  const profit = sql`(${totals.grossSellTotal} - ${totals.totalTax} - ${costBasis})`;
+  // Math.round rounds halves up, so floor(x + 0.5) rather than round()
+  const roi = sql`case when ${costBasis} > 0 then floor(${profit} * 10000.0 / ${costBasis} + 0.5) / 100 else 0 end`;
+
+  return {
+    status: sql<string>`case
+      when ${closed} then ${flips.status}
+      when ${totals.soldQuantity} = 0 then 'open'
+      when ${unsoldQuantity} > 0 then 'partially_sold'
+      else 'sold'
+    end`,
+    profit: sql<number>`case when ${totals.soldQuantity} = 0 then null else ${profit} end`.mapWith(Number),
+    roi: sql<number>`case when ${totals.soldQuantity} = 0 then null else ${roi} end`.mapWith(Number),
+  };
+}
@@ -0,0 +1,87 @@
+import { storage, storageReady } from "./storage";
+import { calculateTaxPerItem, TAX_RULE_SETS } from "@shared/taxCalculator";
+
+const TAX_RULES_STATE_KEY = "tax_rules_applied";
+
+// Re-tax each recorded sell under the rules in force on its date and the current
+// exemption registry; only rows whose tax changes are written. Runs when the
+// registry changes and once for every change to the rule sets.
+export async function recomputeTransactionTax(): Promise<number> {
+  await storageReady;
+  const transactions = await storage.getAllTransactions();
+  let updated = 0;
+  for (const tx of transactions) {
+    if (tx.transactionType !== "sell") continue;
+    const taxPaid = calculateTaxPerItem(tx.price, tx.itemId, tx.transactionDate) * tx.quantity;
+    if (taxPaid === (tx.taxPaid ?? 0)) continue;
+    try {
+      await storage.setTransactionTaxPaid(tx.id, taxPaid);
+      updated++;
+    } catch (error) {
+      console.error(`[FlipTax] Failed to re-tax transaction ${tx.id}:`, error);
+    }
+  }
+
+  if (updated > 0) {
+    console.log(`[FlipTax] Re-taxed ${updated} sell transaction(s) under the rules of their sale date`);
+  }
+  return updated;
+}
+
+function taxRulesVersion(): string {
+  return JSON.stringify(TAX_RULE_SETS.map(rules => [
+    rules.id,
+    rules.effectiveFrom.toISOString(),
+    rules.rate,
+    rules.exemptMaxPrice,
+    rules.maxTaxPerItem ?? null,
+  ]));
+}
+
+// On start: re-tax only if the rule sets differ from the ones the recorded sells were
+// last taxed under (always, the first time). Call once the exemption registry is loaded.
+export async function recomputeTransactionTaxForRuleChange(): Promise<number> {
+  await storageReady;
+  const version = taxRulesVersion();
+  if (await storage.getSystemState(TAX_RULES_STATE_KEY) === version) return 0;
+  const updated = await recomputeTransactionTax();
+  await storage.setSystemState(TAX_RULES_STATE_KEY, version);
+  return updated;
+}
+
+const SELL_LINKS_STATE_KEY = "sell_transactions_linked";
+
+// Sell transactions recorded before they carried their fill's ID are linked to the
+// fill with the same flip, price, quantity and date, so later edits reach them.
+// Runs once.
+export async function linkSellTransactionsToFills(): Promise<number> {
+  await storageReady;
+  if (await storage.getSystemState(SELL_LINKS_STATE_KEY)) return 0;
+
+  const transactions = await storage.getAllTransactions();
+  const unlinked = transactions.filter(tx => tx.transactionType === "sell" && tx.flipId && !tx.sellId);
+  const flipIds = Array.from(new Set(unlinked.map(tx => tx.flipId!)));
+  const sells = flipIds.length > 0 ? await storage.getFlipSellsForFlips(flipIds) : [];
+  const linkedSellIds = new Set(transactions.map(tx => tx.sellId).filter(Boolean));
+
+  let linked = 0;
+  for (const tx of unlinked) {
+    const sell = sells.find(sell =>
+      !linkedSellIds.has(sell.id)
+      && sell.flipId === tx.flipId
+      && sell.sellPrice === tx.price
+      && sell.quantity === tx.quantity
+      && new Date(sell.sellDate).getTime() === new Date(tx.transactionDate).getTime()
+    );
+    if (!sell) continue;
+    await storage.linkTransactionToSell(tx.id, sell.id);
+    linkedSellIds.add(sell.id);
+    linked++;
+  }
+
+  await storage.setSystemState(SELL_LINKS_STATE_KEY, new Date().toISOString());
+  if (linked > 0) {
+    console.log(`[FlipTax] Linked ${linked} sell transaction(s) to their fills`);
+  }
+  return linked;
+}
@@ -0,0 +1,56 @@
+import { storage, storageReady } from "./storage";
+import { addDays, subDays } from "date-fns";
+
+// Soft-deleted flips stay in the trash this many days before they are purged for good.
+// Set FLIP_TRASH_RETENTION_DAYS to change it; 0 keeps deleted flips forever.
+const DEFAULT_RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+function parseRetentionDays(value: string | undefined): number {
+  if (value === undefined || value.trim() === "") return DEFAULT_RETENTION_DAYS;
+  const days = parseInt(value, 10);
+  return Number.isNaN(days) || days < 0 ? DEFAULT_RETENTION_DAYS : days;
+}
+
+export const FLIP_TRASH_RETENTION_DAYS = parseRetentionDays(process.env.FLIP_TRASH_RETENTION_DAYS);
+
+// When a flip deleted at deletedAt will be purged, or null if retention is disabled
+export function getFlipPurgeDate(deletedAt: Date | string): Date | null {
+  if (FLIP_TRASH_RETENTION_DAYS === 0) return null;
+  return addDays(new Date(deletedAt), FLIP_TRASH_RETENTION_DAYS);
+}
+
+// Hard-delete every trashed flip older than the retention period
+export async function purgeExpiredFlips(now: Date = new Date()): Promise<number> {
+  if (FLIP_TRASH_RETENTION_DAYS === 0) return 0;
+
+  const expired = await storage.getExpiredDeletedFlips(subDays(now, FLIP_TRASH_RETENTION_DAYS));
+  let purged = 0;
+  for (const flip of expired) {
+    try {
+      if (await storage.deleteFlip(flip.id, flip.userId)) purged++;
+    } catch (error) {
+      console.error(`[FlipTrash] Failed to purge flip ${flip.id}:`, error);
+    }
+  }
+
+  if (purged > 0) {
+    console.log(`[FlipTrash] Purged ${purged} flip(s) deleted more than ${FLIP_TRASH_RETENTION_DAYS} days ago`);
+  }
+  return purged;
+}
+
+export function startFlipTrashPurge(): void {
+  if (FLIP_TRASH_RETENTION_DAYS === 0) {
+    console.log("[FlipTrash] Retention disabled, deleted flips are kept until emptied manually");
+    return;
+  }
+
+  const run = () => {
+    purgeExpiredFlips().catch(error => {
+      console.error("[FlipTrash] Purge failed:", error);
+    });
+  };
+  storageReady.then(run);
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,54 @@
+import { storage } from "./storage";
+import { getItemPrices, getItemPrice } from "./ge-api";
+import type { Flip, FlipSell } from "@shared/schema";
+import { summarizeFlipSells } from "@shared/flipSells";
+import {
+  valueOpenPosition,
+  summarizeValuation,
+  type FlipValuation,
+  type OpenPositionValuation,
+} from "@shared/flipValuation";
+
+function priceKey(flip: Flip): string {
+  return flip.itemId ? `id:${flip.itemId}` : `name:${flip.itemName.toLowerCase()}`;
+}
+
+// Current GE price for each distinct item, looked up once per valuation. Items with
+// an ID come from one batch catalog lookup; legacy flips without one go by name.
+async function fetchCurrentPrices(flips: Flip[]): Promise<Map<string, number | null>> {
+  const prices = new Map<string, number | null>();
+  const lookups = new Map<string, Flip>();
+  for (const flip of flips) lookups.set(priceKey(flip), flip);
+
+  const itemIds = flips.filter(flip => flip.itemId).map(flip => flip.itemId!);
+  const batchPrices = await getItemPrices(itemIds);
+
+  await Promise.all(Array.from(lookups.entries()).map(async ([key, flip]) => {
+    const item = flip.itemId ? batchPrices.get(flip.itemId) : await getItemPrice(flip.itemName);
+    prices.set(key, item?.price ?? null);
+  }));
+  return prices;
+}
+
+// Price every open (or partially sold) flip at the current GE price
+export async function getFlipValuation(userId: string, now: Date = new Date()): Promise<FlipValuation> {
+  const flips = await storage.getFlips(userId);
+  const sells = await storage.getFlipSellsForFlips(flips.map(f => f.id));
+  const sellsByFlip = new Map<string, FlipSell[]>();
+  for (const sell of sells) {
+    const list = sellsByFlip.get(sell.flipId) ?? [];
+    list.push(sell);
+    sellsByFlip.set(sell.flipId, list);
+  }
+  const flipsWithSells = flips.map(flip => ({ ...flip, sells: sellsByFlip.get(flip.id) ?? [] }));
+
+  const openFlips = flipsWithSells.filter(flip => summarizeFlipSells(flip).remainingQuantity > 0);
+  const prices = await fetchCurrentPrices(openFlips);
+
+  const positions = openFlips
+    .map(flip => valueOpenPosition(flip, prices.get(priceKey(flip)) ?? null, now))
+    .filter((position): position is OpenPositionValuation => position !== null)
+    .sort((a, b) => b.ageMs - a.ageMs);
+
+  return summarizeValuation(flipsWithSells, positions, now);
+}
@@ -0,0 +1,148 @@
+// Shared HTTP layer for the WeirdGloop GE APIs
+// - Requests for a URL that's already in flight share its response
+// - A token bucket paces requests so bursts (many users, backfills) don't trip the
+//   upstream rate limit
+// - 429 and 5xx responses are retried with exponential backoff
+// - Responses can be cached for a TTL (price history only changes once a day)
+// The counters are exposed to admins for monitoring.
+
+const USER_AGENT = "RS3FlipTracker/1.0 (Replit App; contact@replit.com)";
+
+const BUCKET_CAPACITY = 10; // burst size
+const TOKENS_PER_SECOND = 4;
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10_000;
+
+const MAX_CACHE_ENTRIES = 500;
+
+export interface GeHttpStats {
+  requests: number; // sent upstream, retries included
+  retries: number;
+  rateLimited: number; // 429 responses
+  failures: number; // gave up on, after retries
+  deduplicated: number; // served by a request already in flight
+  cacheHits: number;
+  cacheMisses: number;
+  cacheSize: number;
+}
+
+const stats: Omit<GeHttpStats, "cacheSize"> = {
+  requests: 0,
+  retries: 0,
+  rateLimited: 0,
+  failures: 0,
+  deduplicated: 0,
+  cacheHits: 0,
+  cacheMisses: 0,
+};
+
+export function getGeHttpStats(): GeHttpStats {
+  return { ...stats, cacheSize: cache.size };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Token bucket
+let tokens = BUCKET_CAPACITY;
+let lastRefill = Date.now();
+
+function refillTokens(): void {
+  const now = Date.now();
+  tokens = Math.min(BUCKET_CAPACITY, tokens + ((now - lastRefill) / 1000) * TOKENS_PER_SECOND);
+  lastRefill = now;
+}
+
+async function takeToken(): Promise<void> {
+  refillTokens();
+  while (tokens < 1) {
+    await sleep(Math.ceil(((1 - tokens) / TOKENS_PER_SECOND) * 1000));
+    refillTokens();
+  }
+  tokens -= 1;
+}
+
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+// Retry-After in seconds if the upstream sent one, otherwise exponential backoff
+function retryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers.get("retry-after"));
+  const delay = retryAfter > 0 ? retryAfter * 1000 : RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(delay, MAX_RETRY_DELAY_MS);
+}
+
+// Null for a non-OK response; network errors are thrown
+async function fetchWithRetry(url: string): Promise<Record<string, any> | null> {
+  for (let attempt = 0; ; attempt++) {
+    await takeToken();
+    stats.requests++;
+    const response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT },
+    });
+    if (response.ok) return await response.json();
+
+    if (response.status === 429) stats.rateLimited++;
+    if (!isRetryable(response.status) || attempt >= MAX_RETRIES) {
+      stats.failures++;
+      return null;
+    }
+    stats.retries++;
+    await sleep(retryDelay(response, attempt));
+  }
+}
+
+const inFlight = new Map<string, Promise<Record<string, any> | null>>();
+const cache = new Map<string, { data: Record<string, any>; expiresAt: number }>();
+
+function readCache(url: string): Record<string, any> | undefined {
+  const entry = cache.get(url);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= Date.now()) {
+    cache.delete(url);
+    return undefined;
+  }
+  return entry.data;
+}
+
+function writeCache(url: string, data: Record<string, any>, ttlMs: number): void {
+  cache.delete(url);
+  cache.set(url, { data, expiresAt: Date.now() + ttlMs });
+  // Maps keep insertion order, so the first key is the oldest write
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    cache.delete(cache.keys().next().value!);
+  }
+}
+
+// GET a JSON document. Pass cacheTtlMs to cache successful responses; failures are
+// never cached.
+export async function geFetchJson(url: string, options: { cacheTtlMs?: number } = {}): Promise<Record<string, any> | null> {
+  const { cacheTtlMs } = options;
+  if (cacheTtlMs) {
+    const cached = readCache(url);
+    if (cached) {
+      stats.cacheHits++;
+      return cached;
+    }
+    stats.cacheMisses++;
+  }
+
+  const pending = inFlight.get(url);
+  if (pending) {
+    stats.deduplicated++;
+    return pending;
+  }
+
+  const request = fetchWithRetry(url)
+    .then(data => {
+      if (data && cacheTtlMs) writeCache(url, data, cacheTtlMs);
+      return data;
+    })
+    .finally(() => inFlight.delete(url));
+  inFlight.set(url, request);
+  return request;
+}
@@ -1,6 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startFlipTrashPurge } from "./flip-trash";
+import { startItemCatalogRefresh } from "./item-catalog";
+import { migrateLegacyStrategyTags } from "./strategy-tags";
+import { backfillFlipStatuses } from "./flip-status";
+import { recomputeTransactionTaxForRuleChange, linkSellTransactionsToFills } from "./flip-tax";
+import { loadTaxExemptions } from "./tax-exemptions";
+import { loadItemAliases } from "./item-aliases";
+import { getPriceProvider } from "./price-provider";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +45,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Pick the price provider up front so a bad PRICE_PROVIDER setup (such as a
+  // missing fixture directory) stops the server instead of failing every request
+  getPriceProvider();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -67,5 +78,29 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    startFlipTrashPurge();
+    startItemCatalogRefresh();
+    migrateLegacyStrategyTags().catch(error => {
+      console.error("[StrategyTags] Migration failed:", error);
+    });
+    backfillFlipStatuses().catch(error => {
+      console.error("[FlipStatus] Backfill failed:", error);
+    });
+    linkSellTransactionsToFills().catch(error => {
+      console.error("[FlipTax] Linking sell transactions failed:", error);
+    });
+    loadItemAliases().catch(error => {
+      console.error("[ItemAliases] Load failed:", error);
+    });
+    // Re-tax only once the exemption registry is loaded; without it the defaults
+    // would overwrite the recorded tax
+    loadTaxExemptions().then(
+      () => recomputeTransactionTaxForRuleChange().catch(error => {
+        console.error("[FlipTax] Recompute failed:", error);
+      }),
+      error => {
+        console.error("[TaxExemptions] Load failed:", error);
+      },
+    );
   });
 })();
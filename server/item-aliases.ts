@@ -0,0 +1,48 @@
+import { storage, storageReady } from "./storage";
+import { seedRegistryOnce } from "./registry-seeds";
+import { setSearchAliases } from "./item-search";
+import type { ItemAlias } from "@shared/schema";
+
+// Shorthand traders use in the GE and clan chats, seeded the first time the registry loads
+export const DEFAULT_ITEM_ALIASES: { alias: string; itemName: string }[] = [
+  { alias: "ecb", itemName: "Eldritch crossbow" },
+  { alias: "sgb", itemName: "Seren godbow" },
+  { alias: "bolg", itemName: "Bow of the Last Guardian" },
+  { alias: "fsoa", itemName: "Fractured Staff of Armadyl" },
+  { alias: "nox scythe", itemName: "Noxious scythe" },
+  { alias: "ags", itemName: "Armadyl godsword" },
+  { alias: "bgs", itemName: "Bandos godsword" },
+  { alias: "sgs", itemName: "Saradomin godsword" },
+  { alias: "zgs", itemName: "Zamorak godsword" },
+  { alias: "bcp", itemName: "Bandos chestplate" },
+  { alias: "tassy", itemName: "Bandos tassets" },
+  { alias: "ely", itemName: "Elysian spirit shield" },
+  { alias: "ppot", itemName: "Prayer potion (4)" },
+  { alias: "ovl", itemName: "Overload (4)" },
+  { alias: "brew", itemName: "Saradomin brew (4)" },
+  { alias: "sara brew", itemName: "Saradomin brew (4)" },
+  { alias: "rest", itemName: "Super restore (4)" },
+  { alias: "adren", itemName: "Adrenaline potion (4)" },
+  { alias: "dbones", itemName: "Dragon bones" },
+  { alias: "fdb", itemName: "Frost dragon bones" },
+];
+
+// Load the registry into the search index, seeding it with the defaults the first
+// time it loads, so deleting every alias doesn't bring them back. Called on start
+// and after every admin change.
+export async function loadItemAliases(): Promise<ItemAlias[]> {
+  await storageReady;
+  let aliases = await storage.getItemAliases();
+  const seeded = await seedRegistryOnce("item_aliases", aliases.length === 0, async () => {
+    for (const alias of DEFAULT_ITEM_ALIASES) {
+      await storage.createItemAlias(alias, null);
+    }
+  });
+  if (seeded) {
+    aliases = await storage.getItemAliases();
+    console.log(`[ItemAliases] Seeded the registry with ${aliases.length} default alias(es)`);
+  }
+
+  setSearchAliases(aliases);
+  return aliases;
+}
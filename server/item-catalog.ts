@@ -0,0 +1,30 @@
+import { storageReady } from "./storage";
+import { loadItemCatalog, refreshItemCatalog, getItemCatalogSize } from "./ge-api";
+
+const REFRESH_INTERVAL_MS = 30 * 60 * 1000; // 30 minutes
+
+// Serve the catalog saved in the database straight away, then bring it up to date
+// from the GE dump now and every 30 minutes. A failed refresh keeps the saved one.
+export function startItemCatalogRefresh(): void {
+  const refresh = async () => {
+    try {
+      const changed = await refreshItemCatalog();
+      if (changed > 0) {
+        console.log(`[ItemCatalog] Updated ${changed} item(s), ${getItemCatalogSize()} in the catalog`);
+      }
+    } catch (error) {
+      console.error("[ItemCatalog] Refresh failed, keeping the saved catalog:", error);
+    }
+  };
+
+  storageReady
+    .then(async () => {
+      const loaded = await loadItemCatalog();
+      console.log(`[ItemCatalog] Loaded ${loaded} item(s) from the database`);
+    })
+    .catch(error => {
+      console.error("[ItemCatalog] Load failed:", error);
+    })
+    .then(refresh);
+  setInterval(refresh, REFRESH_INTERVAL_MS).unref();
+}
@@ -0,0 +1,151 @@
+import { storage } from "./storage";
+import { getItemById, getItemPrice, getItemPriceHistory, getItemSuggestions, getItemTrend } from "./ge-api";
+import { withLatestMarginCheck } from "./margin-checks";
+import type { Flip, FlipSell, FlipWithSells } from "@shared/schema";
+import { isClosedStatus } from "@shared/flipStatus";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { flipLedger } from "@shared/profitLedger";
+import {
+  communityConfidence,
+  summarizeItemTrades,
+  type CommunityPrice,
+  type CommunityTradeData,
+  type ItemOverview,
+  type ItemVolume,
+} from "@shared/itemOverview";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type VolumeRange = "day" | "week" | "month";
+
+async function flipsWithSells(flips: Flip[]): Promise<FlipWithSells[]> {
+  const sells = await storage.getFlipSellsForFlips(flips.map(f => f.id));
+  const sellsByFlip = new Map<string, FlipSell[]>();
+  for (const sell of sells) {
+    const list = sellsByFlip.get(sell.flipId) ?? [];
+    list.push(sell);
+    sellsByFlip.set(sell.flipId, list);
+  }
+  return flips.map(flip => ({ ...flip, sells: sellsByFlip.get(flip.id) ?? [] }));
+}
+
+// Legacy flips logged without an item ID match by name
+function isFlipOf(flip: Flip, itemId: number, itemName?: string): boolean {
+  if (flip.itemId === itemId) return true;
+  return !!itemName && flip.itemName.toLowerCase() === itemName.toLowerCase();
+}
+
+// Averages over every user's sold flips of the item. Cancelled and written-off
+// flips don't reflect a market price, so they're left out.
+export async function getCommunityPrice(itemId: number, itemName?: string): Promise<CommunityPrice | null> {
+  const allFlips = await storage.getAllFlips();
+  const itemFlips = await flipsWithSells(allFlips.filter(f =>
+    f.sellPrice && !f.deletedAt && !isClosedStatus(f.status) && isFlipOf(f, itemId, itemName)
+  ));
+  if (itemFlips.length === 0) return null;
+
+  const buyPrices = itemFlips.map(f => Number(f.buyPrice));
+  const sellPrices = itemFlips.map(f => Number(f.sellPrice!));
+  const traders = new Set(itemFlips.map(f => f.userId));
+  const latestTrade = itemFlips.reduce((latest, f) => {
+    const date = f.sellDate || f.buyDate;
+    return date > latest ? date : latest;
+  }, itemFlips[0].sellDate || itemFlips[0].buyDate);
+
+  const tradeCount = itemFlips.length;
+  const daysSinceLastTrade = Math.floor((Date.now() - latestTrade.getTime()) / DAY_MS);
+  const ledgers = itemFlips.map(flipLedger);
+
+  let gePriceValue = 0;
+  try {
+    const geData = await getItemPrice(itemFlips[0].itemName);
+    if (geData) gePriceValue = geData.price;
+  } catch {}
+
+  return {
+    itemId,
+    itemName: itemFlips[0].itemName,
+    itemIcon: itemFlips[0].itemIcon,
+    gePriceValue,
+    communityBuyPrice: Math.round(buyPrices.reduce((a, b) => a + b, 0) / buyPrices.length),
+    communitySellPrice: Math.round(sellPrices.reduce((a, b) => a + b, 0) / sellPrices.length),
+    tradeCount,
+    uniqueTraders: traders.size,
+    lastTradeDate: latestTrade.toISOString(),
+    avgProfit: Math.round(ledgers.reduce((sum, ledger) => sum + ledger.profit, 0) / ledgers.length),
+    avgRoi: Math.round((ledgers.reduce((sum, ledger) => sum + ledger.roi, 0) / ledgers.length) * 100) / 100,
+    confidence: communityConfidence(tradeCount, traders.size, daysSinceLastTrade),
+    priceAccuracy: 0,
+  };
+}
+
+// The last 100 logged transactions of the item, from every user
+export async function getCommunityTradeData(itemId: number): Promise<CommunityTradeData | null> {
+  const transactions = await storage.getTransactionsByItem(itemId, 100);
+  if (transactions.length === 0) return null;
+
+  const buyTransactions = transactions.filter(t => t.transactionType === 'buy');
+  const sellTransactions = transactions.filter(t => t.transactionType === 'sell');
+  const average = (list: typeof transactions) => list.length > 0
+    ? Math.round(list.reduce((sum, t) => sum + t.price, 0) / list.length)
+    : null;
+
+  return {
+    totalTransactions: transactions.length,
+    buyTransactions: buyTransactions.length,
+    sellTransactions: sellTransactions.length,
+    avgUserBuyPrice: average(buyTransactions),
+    avgUserSellPrice: average(sellTransactions),
+    totalVolume: transactions.reduce((sum, t) => sum + (t.totalValue || 0), 0),
+    dataSource: "RS3 Flip Tracker community trades",
+  };
+}
+
+export async function getItemVolume(itemId: number, range: VolumeRange = "week"): Promise<ItemVolume> {
+  const now = new Date();
+  const days = range === "day" ? 1 : range === "month" ? 30 : 7;
+  const [daily, weekly, monthly] = await Promise.all([
+    storage.getItemVolumeDaily(itemId, new Date(now.getTime() - days * DAY_MS), now),
+    storage.getItemVolumeWeekly(itemId),
+    storage.getItemVolumeMonthly(itemId),
+  ]);
+  return { daily, weekly, monthly };
+}
+
+// Everything about one item for the item page. The GE lookups fail soft (null),
+// so an upstream outage still shows the user's own data.
+export async function getItemOverview(userId: string, itemId: number): Promise<ItemOverview> {
+  const [item, trend, history, suggestions, communityData, volume, userFlips, watchlist, alerts, marginChecks] = await Promise.all([
+    getItemById(itemId),
+    getItemTrend(itemId),
+    getItemPriceHistory(itemId),
+    getItemSuggestions(itemId),
+    getCommunityTradeData(itemId),
+    getItemVolume(itemId),
+    storage.getFlips(userId),
+    storage.getWatchlist(userId),
+    storage.getPriceAlerts(userId),
+    storage.getMarginChecks(userId, itemId),
+  ]);
+
+  const itemName = item?.name;
+  const flips = await flipsWithSells(userFlips.filter(flip => isFlipOf(flip, itemId, itemName)));
+
+  return {
+    itemId,
+    item,
+    trend,
+    history,
+    suggestions: suggestions
+      ? { ...await withLatestMarginCheck(suggestions, userId, itemId), communityData }
+      : null,
+    communityPrice: await getCommunityPrice(itemId, itemName),
+    volume,
+    trades: summarizeItemTrades(flips),
+    flips,
+    openFlips: flips.filter(flip => summarizeFlipSells(flip).remainingQuantity > 0),
+    watchlist: watchlist.find(entry => entry.itemId === itemId) ?? null,
+    alerts: alerts.filter(alert => alert.itemId === itemId),
+    marginChecks,
+  };
+}
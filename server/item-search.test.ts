@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { indexSearchItems, setSearchAliases, searchItemIndex } from "./item-search";
+
+const BREAD = 1;
+const SARADOMIN_BREW = 2;
+const CAKE_BREAD = 3;
+const GARLIC_BREAD = 4;
+
+indexSearchItems([
+  { id: BREAD, name: "Bread" },
+  { id: SARADOMIN_BREW, name: "Saradomin brew (4)" },
+  { id: CAKE_BREAD, name: "Cake bread" },
+  { id: GARLIC_BREAD, name: "Garlic bread" },
+]);
+setSearchAliases([{ alias: "brew", itemName: "Saradomin brew (4)" }]);
+
+// Enough flips for the full boost from both the user and the community
+const popular = (id: number) => ({ user: new Map([[id, 100]]), community: new Map([[id, 1_000]]) });
+
+test("searchItemIndex ranking", async (t) => {
+  const cases = [
+    { name: "match kinds without popularity", query: "bre", counts: { user: new Map(), community: new Map() }, order: [BREAD, SARADOMIN_BREW, CAKE_BREAD, GARLIC_BREAD] },
+    { name: "a popular alias prefix stays below a prefix match", query: "bre", counts: popular(SARADOMIN_BREW), order: [BREAD, SARADOMIN_BREW, CAKE_BREAD, GARLIC_BREAD] },
+    { name: "a popular word prefix stays below an alias prefix", query: "bre", counts: popular(CAKE_BREAD), order: [BREAD, SARADOMIN_BREW, CAKE_BREAD, GARLIC_BREAD] },
+    { name: "popularity orders matches of the same kind", query: "bre", counts: popular(GARLIC_BREAD), order: [BREAD, SARADOMIN_BREW, GARLIC_BREAD, CAKE_BREAD] },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const matches = searchItemIndex(c.query, 10, c.counts.user, c.counts.community);
+      assert.deepEqual(matches.map(match => match.id), c.order);
+    });
+  }
+});
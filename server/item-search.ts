@@ -0,0 +1,192 @@
+// Item search
+// Typo-tolerant search over the item catalog. Exact, prefix, word-prefix and
+// substring matches come first. Misspellings ("sarodmin brew") are caught with
+// trigram overlap and per-word edit distance, and community shorthand ("ovl", "sgb")
+// comes from the alias registry. Among matches of the same kind, items the user and
+// the community flip often rank higher. The boost is capped so it never lifts a
+// match above a better kind of match.
+
+export interface SearchableItem {
+  id: number;
+  name: string;
+}
+
+export interface SearchAlias {
+  alias: string;
+  itemName: string;
+}
+
+export interface SearchMatch {
+  id: number;
+  score: number;
+  alias?: string; // the alias that matched, if any
+}
+
+interface IndexedItem {
+  id: number;
+  name: string; // normalized
+  words: string[];
+  trigrams: string[];
+}
+
+const MIN_FUZZY_SIMILARITY = 0.6;
+const MIN_WORD_SIMILARITY = 0.5;
+const MAX_FUZZY_CANDIDATES = 300;
+
+// Up to 9% between them; boostedScore keeps the result under the next match kind up
+const USER_BOOST = 0.06;
+const COMMUNITY_BOOST = 0.03;
+
+// Exact, prefix, alias prefix, word prefix and substring; misspellings score up to 60
+const MATCH_KIND_SCORES = [100, 90, 85, 80, 70];
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function trigramsOf(text: string): string[] {
+  const padded = `  ${text} `;
+  const grams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) grams.add(padded.slice(i, i + 3));
+  return Array.from(grams);
+}
+
+// Optimal string alignment distance: edits plus swapped neighbouring letters
+function editDistance(a: string, b: string): number {
+  const rows: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) rows[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+function wordSimilarity(queryWord: string, word: string): number {
+  const similarity = (a: string, b: string) => 1 - editDistance(a, b) / Math.max(a.length, b.length);
+  // The word being typed can be a prefix of the real one
+  const prefix = word.slice(0, queryWord.length);
+  return Math.max(similarity(queryWord, word), prefix.length < word.length ? similarity(queryWord, prefix) : 0);
+}
+
+let items: Map<number, IndexedItem> = new Map();
+let itemsByName: Map<string, number[]> = new Map();
+let postings: Map<string, number[]> = new Map();
+let aliases: Map<string, string> = new Map(); // normalized alias -> normalized item name
+
+export function indexSearchItems(entries: SearchableItem[]): void {
+  const nextItems = new Map<number, IndexedItem>();
+  const nextByName = new Map<string, number[]>();
+  const nextPostings = new Map<string, number[]>();
+
+  for (const entry of entries) {
+    const name = normalize(entry.name);
+    const item: IndexedItem = { id: entry.id, name, words: name.split(" "), trigrams: trigramsOf(name) };
+    nextItems.set(entry.id, item);
+    nextByName.set(name, [...(nextByName.get(name) ?? []), entry.id]);
+    for (const gram of item.trigrams) {
+      const list = nextPostings.get(gram);
+      if (list) list.push(entry.id);
+      else nextPostings.set(gram, [entry.id]);
+    }
+  }
+
+  items = nextItems;
+  itemsByName = nextByName;
+  postings = nextPostings;
+}
+
+export function setSearchAliases(entries: SearchAlias[]): void {
+  aliases = new Map(entries.map(entry => [normalize(entry.alias), normalize(entry.itemName)]));
+}
+
+// 100 exact, 90 prefix, 80 word prefix, 70 substring, up to 60 for a close misspelling
+function matchScore(query: string, queryWords: string[], queryTrigrams: Set<string>, item: IndexedItem, fuzzy: boolean): number {
+  if (item.name === query) return 100;
+  if (item.name.startsWith(query)) return 90;
+  if (item.words.some(word => word.startsWith(query))) return 80;
+  if (item.name.includes(query)) return 70;
+  if (!fuzzy) return 0;
+
+  let total = 0;
+  for (const queryWord of queryWords) {
+    const best = Math.max(...item.words.map(word => wordSimilarity(queryWord, word)));
+    if (best < MIN_WORD_SIMILARITY) return 0;
+    total += best;
+  }
+  const shared = item.trigrams.filter(gram => queryTrigrams.has(gram)).length;
+  const dice = (2 * shared) / (item.trigrams.length + queryTrigrams.size);
+  const similarity = Math.max(total / queryWords.length, dice);
+  return similarity >= MIN_FUZZY_SIMILARITY ? Math.round(60 * similarity * 100) / 100 : 0;
+}
+
+function popularityBoost(itemId: number, userCounts: Map<number, number>, communityCounts: Map<number, number>): number {
+  const user = userCounts.get(itemId) ?? 0;
+  const community = communityCounts.get(itemId) ?? 0;
+  return 1
+    + USER_BOOST * Math.min(1, Math.log10(1 + user) / 2)
+    + COMMUNITY_BOOST * Math.min(1, Math.log10(1 + community) / 3);
+}
+
+// Popularity only reorders matches of the same kind: a boosted score stops just
+// short of the next kind's base score
+function boostedScore(score: number, boost: number): number {
+  const nextKind = Math.min(...MATCH_KIND_SCORES.filter(kindScore => kindScore > score));
+  return Math.min(score * boost, nextKind - 0.01);
+}
+
+export function searchItemIndex(
+  rawQuery: string,
+  limit: number,
+  userCounts: Map<number, number> = new Map(),
+  communityCounts: Map<number, number> = new Map()
+): SearchMatch[] {
+  const query = normalize(rawQuery);
+  if (query.length < 2) return [];
+  const queryWords = query.split(" ");
+  const queryTrigrams = new Set(trigramsOf(query));
+
+  const matches = new Map<number, SearchMatch>();
+  const consider = (id: number, score: number, alias?: string) => {
+    const existing = matches.get(id);
+    if (score > 0 && (!existing || score > existing.score)) matches.set(id, { id, score, alias });
+  };
+
+  // Aliases: an exact alias counts as an exact match, a partly typed one as a prefix match
+  for (const [alias, itemName] of Array.from(aliases.entries())) {
+    const score = alias === query ? 100 : alias.startsWith(query) ? 85 : 0;
+    if (score === 0) continue;
+    for (const id of itemsByName.get(itemName) ?? []) consider(id, score, alias);
+  }
+
+  for (const item of Array.from(items.values())) {
+    consider(item.id, matchScore(query, queryWords, queryTrigrams, item, false));
+  }
+
+  // Misspellings: only items sharing enough trigrams with the query are scored
+  const overlap = new Map<number, number>();
+  for (const gram of Array.from(queryTrigrams)) {
+    for (const id of postings.get(gram) ?? []) overlap.set(id, (overlap.get(id) ?? 0) + 1);
+  }
+  const minOverlap = Math.max(1, Math.ceil(queryTrigrams.size * 0.3));
+  const candidates = Array.from(overlap.entries())
+    .filter(([id, count]) => count >= minOverlap && !matches.has(id))
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FUZZY_CANDIDATES);
+  for (const [id] of candidates) {
+    consider(id, matchScore(query, queryWords, queryTrigrams, items.get(id)!, true));
+  }
+
+  return Array.from(matches.values())
+    .map(match => ({ ...match, score: boostedScore(match.score, popularityBoost(match.id, userCounts, communityCounts)) }))
+    .sort((a, b) =>
+      b.score - a.score
+      || items.get(a.id)!.name.length - items.get(b.id)!.name.length
+      || items.get(a.id)!.name.localeCompare(items.get(b.id)!.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,31 @@
+import { storage } from "./storage";
+
+// Flip counts per item for the search popularity boost (item-search.ts), cached so
+// a search per keystroke doesn't scan the flips table
+const COMMUNITY_COUNTS_TTL_MS = 10 * 60 * 1000;
+const USER_COUNTS_TTL_MS = 60 * 1000;
+
+let communityCounts: { counts: Map<number, number>; expiresAt: number } | null = null;
+const userCounts = new Map<string, { counts: Map<number, number>; expiresAt: number }>();
+
+function toCountMap(rows: { itemId: number; count: number }[]): Map<number, number> {
+  return new Map(rows.map(row => [row.itemId, row.count]));
+}
+
+export async function getTradeCounts(userId?: string): Promise<{ user: Map<number, number>; community: Map<number, number> }> {
+  const now = Date.now();
+  if (!communityCounts || communityCounts.expiresAt <= now) {
+    communityCounts = { counts: toCountMap(await storage.getFlipCountsByItem()), expiresAt: now + COMMUNITY_COUNTS_TTL_MS };
+  }
+
+  let user = userId ? userCounts.get(userId) : undefined;
+  if (userId && (!user || user.expiresAt <= now)) {
+    for (const [key, entry] of Array.from(userCounts.entries())) {
+      if (entry.expiresAt <= now) userCounts.delete(key);
+    }
+    user = { counts: toCountMap(await storage.getFlipCountsByItem(userId)), expiresAt: now + USER_COUNTS_TTL_MS };
+    userCounts.set(userId, user);
+  }
+
+  return { user: user?.counts ?? new Map(), community: communityCounts.counts };
+}
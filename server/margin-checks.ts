@@ -0,0 +1,17 @@
+import { storage } from "./storage";
+import type { PriceSuggestion } from "@shared/priceSignals";
+import { applyMarginCheck, isFresherThanPrice, type SuggestionWithMarginCheck } from "@shared/marginChecks";
+
+// Swap in the user's latest margin check for the item when it's newer than the
+// daily price the suggestion came from
+export async function withLatestMarginCheck<T extends PriceSuggestion & { priceDate: string }>(
+  suggestion: T,
+  userId: string | undefined,
+  itemId: number
+): Promise<T & SuggestionWithMarginCheck> {
+  const check = userId ? await storage.getLatestMarginCheck(userId, itemId) : undefined;
+  if (check && isFresherThanPrice(check, suggestion.priceDate)) {
+    return { ...suggestion, ...applyMarginCheck(suggestion, check) };
+  }
+  return { ...suggestion, source: "history", marginCheck: null };
+}
@@ -0,0 +1,63 @@
+import { WeirdGloopPriceProvider } from "./weirdgloop-provider";
+import { FixturePriceProvider } from "./fixture-price-provider";
+
+// Where item data and prices come from. ge-api.ts only talks to this interface, so
+// the live WeirdGloop APIs can be swapped for recorded fixture files (offline use,
+// integration tests). Pick one with PRICE_PROVIDER=weirdgloop|fixture.
+
+export interface CatalogEntry {
+  id: number;
+  name: string;
+  members?: boolean;
+  limit?: number; // GE buy limit per 4 hours
+  examine?: string;
+  price?: number;
+  volume?: number;
+}
+
+export interface LatestPrice {
+  id: number;
+  name?: string; // lookups by ID don't always include it
+  price: number;
+  volume?: number;
+  timestamp?: string;
+}
+
+export interface PriceHistoryEntry {
+  timestamp: string;
+  price: number;
+  volume?: number;
+}
+
+export interface PriceProvider {
+  readonly name: string;
+  // Every tradeable item; throws when the catalog can't be fetched
+  getCatalog(): Promise<CatalogEntry[]>;
+  // Latest price by exact item name, or null when unknown or unavailable
+  getLatestPrice(itemName: string): Promise<LatestPrice | null>;
+  getLatestPriceById(itemId: number): Promise<LatestPrice | null>;
+  // Daily prices for the last 90 days, oldest first; null when there are none
+  getPriceHistory90d(itemId: number): Promise<PriceHistoryEntry[] | null>;
+}
+
+function createPriceProvider(name: string | undefined): PriceProvider {
+  switch (name?.trim().toLowerCase() || "weirdgloop") {
+    case "weirdgloop":
+      return new WeirdGloopPriceProvider();
+    case "fixture":
+      return new FixturePriceProvider(process.env.PRICE_FIXTURE_DIR || "fixtures/prices");
+    default:
+      console.warn(`[PriceProvider] Unknown PRICE_PROVIDER "${name}", using weirdgloop`);
+      return new WeirdGloopPriceProvider();
+  }
+}
+
+let priceProvider: PriceProvider | null = null;
+
+export function getPriceProvider(): PriceProvider {
+  if (!priceProvider) {
+    priceProvider = createPriceProvider(process.env.PRICE_PROVIDER);
+    console.log(`[PriceProvider] Using ${priceProvider.name}`);
+  }
+  return priceProvider;
+}
@@ -0,0 +1,12 @@
+import { storage } from "./storage";
+
+// Seed an admin-managed registry with its defaults once. The seed is recorded in the
+// system state, so an admin emptying the registry later doesn't bring the defaults
+// back. A registry that already has entries is only marked as seeded.
+export async function seedRegistryOnce(registry: string, isEmpty: boolean, seed: () => Promise<void>): Promise<boolean> {
+  const key = `seeded:${registry}`;
+  if (await storage.getSystemState(key)) return false;
+  if (isEmpty) await seed();
+  await storage.setSystemState(key, new Date().toISOString());
+  return isEmpty;
+}
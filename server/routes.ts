@@ -1,34 +1,47 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import multer from "multer";
+import { ZodError } from "zod";
 import { storage } from "./storage";
-import { insertFlipSchema, insertWatchlistSchema, insertPriceAlertSchema, insertFavoriteSchema, insertProfitGoalSchema, insertPortfolioCategorySchema, insertPortfolioHoldingSchema, updatePortfolioHoldingSchema, insertHoldingTransactionSchema, insertRsAccountSchema, insertRecipeSchema, insertRecipeComponentSchema, insertRecipeRunSchema, insertRecipeRunComponentSchema } from "@shared/schema";
-import { getItemPrice, searchItems, getItemTrend, getItemPriceHistory, getItemSuggestions } from "./ge-api";
+import { insertFlipSchema, insertFlipSellSchema, upsertFlipSellSchema, insertWatchlistSchema, insertPriceAlertSchema, insertFavoriteSchema, insertProfitGoalSchema, insertPortfolioCategorySchema, insertPortfolioHoldingSchema, updatePortfolioHoldingSchema, insertHoldingTransactionSchema, insertRsAccountSchema, insertRecipeSchema, insertRecipeComponentSchema, insertRecipeRunSchema, insertRecipeRunComponentSchema, insertGeOfferSchema, updateGeOfferSchema, GE_SLOT_COUNT, type Flip, type FlipSell, type FlipWithSells, type InsertFlipSell, type GeOffer, type GeOfferStatus, type FlipRevisionWithUser, flipTrashActionSchema, type FlipTrash, insertStrategyTagSchema, flipTagIdsSchema, type StrategyTag, insertTaxExemptItemSchema, insertItemAliasSchema, insertMarginCheckSchema } from "@shared/schema";
+import { getItemPrice, getItemPrices, MAX_PRICE_BATCH_SIZE, searchItems, getItemTrend, getItemPriceHistory, getItemSuggestions, getItemIndicators } from "./ge-api";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import { processScreenshot, matchItemsToGE } from "./ocr";
 import { analyzeRS3Screenshot } from "./ai-vision";
 import { analyzeUserTradingProfile, getPersonalizedRecommendations } from "./ai-recommendations";
-import { calculateFlipTax } from "@shared/taxCalculator";
+import { summarizeFlipSells } from "@shared/flipSells";
+import { flipLedger, saleLedger, periodProfits, recipeRunLedger, holdingLedger, type PeriodProfits } from "@shared/profitLedger";
+import { buildTaxReport } from "@shared/taxReport";
+import { isClosedStatus, flipStatusUpdateSchema } from "@shared/flipStatus";
+import { flipImportRequestSchema, type FlipImportEntry, type FlipImportResult } from "@shared/flipImport";
+import { previewFlipImport, flipImportEntry } from "./flip-import";
+import { FLIP_TRASH_RETENTION_DAYS, getFlipPurgeDate } from "./flip-trash";
+import { flipQuerySchema } from "@shared/flipQuery";
+import { snapshotFlip, diffFlipSnapshots, type FlipRevisionAction, type FlipSnapshot } from "@shared/flipRevisions";
+import { formatTagNames } from "@shared/strategyTags";
+import { resolveTagNames, ownTagIds } from "./strategy-tags";
+import { getBuyLimitStatus, getActiveBuyLimits } from "./buy-limits";
+import { getFlipValuation } from "./flip-valuation";
+import { getGeHttpStats } from "./ge-http";
+import { loadTaxExemptions } from "./tax-exemptions";
+import { loadItemAliases } from "./item-aliases";
+import { withLatestMarginCheck } from "./margin-checks";
+import { getItemOverview, getCommunityPrice, getCommunityTradeData, getItemVolume } from "./item-overview";
+import { communityConfidence } from "@shared/itemOverview";
+import { recomputeTransactionTax } from "./flip-tax";
+import { resolveFlipItemId, moveFlipToPortfolio, canUndoPortfolioMove, undoFlipPortfolioMove } from "./flip-portfolio";
+import { buyLimitQuerySchema } from "@shared/buyLimits";
+import { marginCheckQuerySchema } from "@shared/marginChecks";
+import { indicatorQuerySchema } from "@shared/indicators";
+import { backtestQuerySchema, MAX_BACKTEST_ITEMS } from "@shared/backtest";
+import { getMostFlippedItemIds, runBacktest } from "./backtest";
 import { sendFlipToDiscord, sendFlipUpdateToDiscord, sendGoalAchievementToDiscord, type GoalAchievement } from "./discord";
-import { startOfDay, startOfWeek, startOfMonth, isAfter } from "date-fns";
 
 const upload = multer({ 
   storage: multer.memoryStorage(),
   limits: { fileSize: 10 * 1024 * 1024 } // 10MB max
 });
 
-// Helper to calculate profit for a flip
-function calculateFlipProfit(flip: any): number {
-  if (!flip.sellPrice) return 0;
-  const buyPrice = Number(flip.buyPrice);
-  const sellPrice = Number(flip.sellPrice);
-  const quantity = flip.quantity ?? 1;
-  const gross = (sellPrice - buyPrice) * quantity;
-  // calculateFlipTax returns a TaxCalculation object, we need totalTax
-  const taxCalc = calculateFlipTax(sellPrice, buyPrice, quantity, flip.itemId, flip.itemName);
-  return gross - taxCalc.totalTax;
-}
-
 // Check for newly achieved goals after a flip is completed
 async function checkGoalAchievements(
   userId: string,
@@ -38,32 +51,8 @@ async function checkGoalAchievements(
   console.log("[GoalCheck] Starting achievement check for user:", username);
   console.log("[GoalCheck] Previous profits:", previousProfits);
   
-  const now = new Date();
-  const dayStart = startOfDay(now);
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const monthStart = startOfMonth(now);
-
-  // Get user's flips and calculate current profits
-  const flips = await storage.getFlips(userId);
-  let dailyProfit = 0;
-  let weeklyProfit = 0;
-  let monthlyProfit = 0;
-
-  for (const flip of flips) {
-    if (!flip.sellDate || !flip.sellPrice || flip.deletedAt) continue;
-    const sellDate = new Date(flip.sellDate);
-    const profit = calculateFlipProfit(flip);
-
-    if (isAfter(sellDate, dayStart) || sellDate.getTime() === dayStart.getTime()) {
-      dailyProfit += profit;
-    }
-    if (isAfter(sellDate, weekStart) || sellDate.getTime() === weekStart.getTime()) {
-      weeklyProfit += profit;
-    }
-    if (isAfter(sellDate, monthStart) || sellDate.getTime() === monthStart.getTime()) {
-      monthlyProfit += profit;
-    }
-  }
+  // Get user's current profits
+  const { daily: dailyProfit, weekly: weeklyProfit, monthly: monthlyProfit } = await getCurrentProfits(userId);
 
   console.log("[GoalCheck] Current profits - Daily:", dailyProfit, "Weekly:", weeklyProfit, "Monthly:", monthlyProfit);
 
@@ -115,35 +104,265 @@ async function checkGoalAchievements(
   return achievements;
 }
 
-// Calculate current profit totals for a user
-async function getCurrentProfits(userId: string): Promise<{ daily: number; weekly: number; monthly: number }> {
-  const now = new Date();
-  const dayStart = startOfDay(now);
-  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-  const monthStart = startOfMonth(now);
+// Calculate current profit totals for a user. Profit is booked per sell fill on its
+// sell date and per write-off on the day it was written off (see bookedProfits).
+async function getCurrentProfits(userId: string): Promise<PeriodProfits> {
+  return periodProfits(await withSells(await storage.getFlips(userId)));
+}
+
+// Attach each flip's sell fills so the client can work out partial sells
+async function withSells<T extends Flip>(flipList: T[]): Promise<(T & { sells: FlipSell[] })[]> {
+  const sells = await storage.getFlipSellsForFlips(flipList.map(f => f.id));
+  const sellsByFlip = new Map<string, FlipSell[]>();
+  for (const sell of sells) {
+    const list = sellsByFlip.get(sell.flipId) ?? [];
+    list.push(sell);
+    sellsByFlip.set(sell.flipId, list);
+  }
+  return flipList.map(flip => ({ ...flip, sells: sellsByFlip.get(flip.id) ?? [] }));
+}
+
+// Attach each flip's strategy tags
+async function withTags<T extends Flip>(flipList: T[]): Promise<(T & { tags: StrategyTag[] })[]> {
+  const links = await storage.getFlipTagsForFlips(flipList.map(f => f.id));
+  const tagsByFlip = new Map<string, StrategyTag[]>();
+  for (const { flipId, tag } of links) {
+    const list = tagsByFlip.get(flipId) ?? [];
+    list.push(tag);
+    tagsByFlip.set(flipId, list);
+  }
+  return flipList.map(flip => ({ ...flip, tags: tagsByFlip.get(flip.id) ?? [] }));
+}
 
-  const flips = await storage.getFlips(userId);
-  let daily = 0;
-  let weekly = 0;
-  let monthly = 0;
+async function getFlipTags(flipId: string): Promise<StrategyTag[]> {
+  return (await storage.getFlipTagsForFlips([flipId])).map(link => link.tag);
+}
 
-  for (const flip of flips) {
-    if (!flip.sellDate || !flip.sellPrice || flip.deletedAt) continue;
-    const sellDate = new Date(flip.sellDate);
-    const profit = calculateFlipProfit(flip);
+// Snapshot a flip for its revision history; fills are loaded unless passed in
+async function snapshotFlipState(flip: Flip, sells?: FlipSell[]): Promise<FlipSnapshot> {
+  return snapshotFlip(flip, sells ?? await storage.getFlipSells(flip.id), await getFlipTags(flip.id));
+}
 
-    if (isAfter(sellDate, dayStart) || sellDate.getTime() === dayStart.getTime()) {
-      daily += profit;
-    }
-    if (isAfter(sellDate, weekStart) || sellDate.getTime() === weekStart.getTime()) {
-      weekly += profit;
-    }
-    if (isAfter(sellDate, monthStart) || sellDate.getTime() === monthStart.getTime()) {
-      monthly += profit;
+// Record a sell fill for analytics/LLM training, taxed on its own price and quantity
+async function recordSellFill(flip: Flip, sell: FlipSell): Promise<void> {
+  if (!flip.itemId) return;
+  const sale = saleLedger({
+    sellPrice: sell.sellPrice,
+    quantity: sell.quantity,
+    costBasis: flip.buyPrice * sell.quantity,
+    itemId: flip.itemId,
+    soldAt: sell.sellDate,
+  });
+  await storage.recordTransaction({
+    flipId: flip.id,
+    sellId: sell.id,
+    userId: flip.userId,
+    itemId: flip.itemId,
+    itemName: flip.itemName,
+    transactionType: 'sell',
+    price: sell.sellPrice,
+    quantity: sell.quantity,
+    taxPaid: sale.totalTax,
+    strategyTag: formatTagNames(await getFlipTags(flip.id)),
+    transactionDate: new Date(sell.sellDate),
+  });
+  await storage.updateItemVolume(
+    flip.itemId,
+    flip.itemName,
+    new Date(sell.sellDate),
+    'sell',
+    sell.sellPrice,
+    sell.quantity
+  );
+}
+
+// Bring an edited fill's sell transaction up to date (removing a fill removes its transaction)
+async function updateSellFill(flip: Flip, sellId: string, fill: Partial<InsertFlipSell>): Promise<void> {
+  const sell = await storage.updateFlipSell(sellId, flip.id, fill);
+  if (!sell || !flip.itemId) return;
+  const sale = saleLedger({
+    sellPrice: sell.sellPrice,
+    quantity: sell.quantity,
+    costBasis: flip.buyPrice * sell.quantity,
+    itemId: flip.itemId,
+    soldAt: sell.sellDate,
+  });
+  await storage.updateSellTransaction(sell.id, {
+    price: sell.sellPrice,
+    quantity: sell.quantity,
+    taxPaid: sale.totalTax,
+    transactionDate: new Date(sell.sellDate),
+  });
+}
+
+// Keep the flip's sellPrice/sellDate and status in step with its fills. The flip only counts
+// as sold once every unit has a fill; sellPrice is then the quantity-weighted average.
+async function syncFlipSellSummary(flip: Flip): Promise<FlipWithSells> {
+  const sells = await storage.getFlipSells(flip.id);
+  const summary = summarizeFlipSells({ ...flip, sells });
+  const isSold = summary.status === "sold";
+  const updatedFlip = await storage.setFlipSellSummary(
+    flip.id,
+    isSold ? summary.averageSellPrice : null,
+    isSold ? summary.lastSellDate : null,
+    summary.status
+  );
+  return { ...(updatedFlip ?? flip), sells };
+}
+
+// Record a flip's buy leg for analytics/LLM training
+async function recordBuyLeg(flip: Flip): Promise<void> {
+  if (!flip.itemId) return;
+  await storage.recordTransaction({
+    flipId: flip.id,
+    userId: flip.userId,
+    itemId: flip.itemId,
+    itemName: flip.itemName,
+    transactionType: 'buy',
+    price: flip.buyPrice,
+    quantity: flip.quantity ?? 1,
+    strategyTag: formatTagNames(await getFlipTags(flip.id)),
+    transactionDate: new Date(flip.buyDate),
+  });
+  await storage.updateItemVolume(
+    flip.itemId, 
+    flip.itemName, 
+    new Date(flip.buyDate), 
+    'buy', 
+    flip.buyPrice, 
+    flip.quantity ?? 1
+  );
+}
+
+function totalSellQuantity(sells: { quantity: number }[]): number {
+  return sells.reduce((sum, sell) => sum + sell.quantity, 0);
+}
+
+// Record a revision with the flip's current state, diffed against its state before the change.
+// changedBy is whoever made the change - an admin when editing someone else's flip.
+async function recordFlipRevision(
+  flipId: string,
+  changedBy: string,
+  action: FlipRevisionAction,
+  before: FlipSnapshot | null,
+  revertedFromId?: string
+): Promise<void> {
+  const flip = await storage.getFlip(flipId);
+  if (!flip) return;
+  const snapshot = await snapshotFlipState(flip);
+  const changes = diffFlipSnapshots(before, snapshot);
+  if (action === "update" && Object.keys(changes).length === 0) return;
+  await storage.createFlipRevision({
+    flipId,
+    userId: flip.userId,
+    changedBy,
+    action,
+    changes,
+    snapshot,
+    revertedFromId,
+  });
+}
+
+function geOfferStatusFor(filledQuantity: number, quantity: number): GeOfferStatus {
+  if (filledQuantity >= quantity) return "completed";
+  return filledQuantity > 0 ? "partial" : "placed";
+}
+
+function isGeOfferActive(offer: GeOffer): boolean {
+  return offer.status === "placed" || offer.status === "partial";
+}
+
+// Turn a finished (completed or aborted) offer's filled quantity into flips.
+// A buy opens a new flip at the limit price; a sell adds fills to the linked flip
+// first, then to the oldest open flips of the same item on the same account.
+async function settleGeOffer(offer: GeOffer): Promise<{
+  offer: GeOffer;
+  flips: FlipWithSells[];
+  unmatchedQuantity: number;
+  achievements: GoalAchievement[];
+}> {
+  if (offer.filledQuantity === 0) {
+    return { offer, flips: [], unmatchedQuantity: 0, achievements: [] };
+  }
+  
+  const settledAt = offer.completedAt ?? new Date();
+  
+  if (offer.offerType === "buy") {
+    const flip = await storage.createFlip(offer.userId, {
+      rsAccountId: offer.rsAccountId ?? undefined,
+      itemName: offer.itemName,
+      itemIcon: offer.itemIcon ?? undefined,
+      itemId: offer.itemId ?? undefined,
+      quantity: offer.filledQuantity,
+      buyPrice: offer.limitPrice,
+      buyDate: settledAt,
+      membershipStatus: "Unknown",
+    });
+    await recordBuyLeg(flip);
+    await recordFlipRevision(flip.id, offer.userId, "create", null);
+    sendFlipToDiscord(flip).catch(err => {
+      console.error("[Discord] Failed to send flip:", err);
+    });
+    const linkedOffer = await storage.updateGeOffer(offer.id, offer.userId, { flipId: flip.id });
+    return { offer: linkedOffer ?? offer, flips: [{ ...flip, sells: [] }], unmatchedQuantity: 0, achievements: [] };
+  }
+  
+  const user = await storage.getUser(offer.userId);
+  const previousProfits = await getCurrentProfits(offer.userId);
+  
+  const sameItem = (flip: Flip) => offer.itemId
+    ? flip.itemId === offer.itemId
+    : flip.itemName.toLowerCase() === offer.itemName.toLowerCase();
+  const candidates = (await withSells(await storage.getFlips(offer.userId)))
+    .filter(flip => flip.id === offer.flipId
+      || (sameItem(flip) && (!offer.rsAccountId || flip.rsAccountId === offer.rsAccountId)))
+    .sort((a, b) => {
+      if (a.id === offer.flipId) return -1;
+      if (b.id === offer.flipId) return 1;
+      return new Date(a.buyDate).getTime() - new Date(b.buyDate).getTime();
+    });
+  
+  let unmatchedQuantity = offer.filledQuantity;
+  const updatedFlips: FlipWithSells[] = [];
+  let closedAny = false;
+  for (const flip of candidates) {
+    if (unmatchedQuantity === 0) break;
+    // Cancelled and written-off flips have nothing left to sell
+    const remaining = summarizeFlipSells(flip).remainingQuantity;
+    if (remaining <= 0) continue;
+    
+    const quantity = Math.min(remaining, unmatchedQuantity);
+    const sell = await storage.createFlipSell(flip.id, offer.userId, {
+      quantity,
+      sellPrice: offer.limitPrice,
+      sellDate: settledAt,
+    });
+    await recordSellFill(flip, sell);
+    const updatedFlip = await syncFlipSellSummary(flip);
+    await recordFlipRevision(flip.id, offer.userId, "update", await snapshotFlipState(flip, flip.sells));
+    sendFlipUpdateToDiscord(flip, updatedFlip).catch(err => {
+      console.error("[Discord] Failed to send flip update:", err);
+    });
+    
+    if (updatedFlip.sellPrice && !flip.sellPrice) closedAny = true;
+    unmatchedQuantity -= quantity;
+    updatedFlips.push(updatedFlip);
+  }
+  
+  let achievements: GoalAchievement[] = [];
+  if (closedAny && user) {
+    achievements = await checkGoalAchievements(offer.userId, user.firstName || user.email || "Trader", previousProfits);
+    for (const achievement of achievements) {
+      sendGoalAchievementToDiscord(achievement).catch(err => {
+        console.error("[Discord] Failed to send goal achievement:", err);
+      });
     }
   }
-
-  return { daily, weekly, monthly };
+  
+  const linkedOffer = !offer.flipId && updatedFlips.length > 0
+    ? await storage.updateGeOffer(offer.id, offer.userId, { flipId: updatedFlips[0].id })
+    : undefined;
+  return { offer: linkedOffer ?? offer, flips: updatedFlips, unmatchedQuantity, achievements };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -178,6 +397,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Catalog prices for many items in one call, keyed by item ID; unknown items are left out
+  app.post("/api/ge/prices", async (req, res) => {
+    try {
+      const { ids } = req.body ?? {};
+      if (!Array.isArray(ids) || !ids.every(id => Number.isInteger(id) && id > 0)) {
+        return res.status(400).json({ error: "ids must be an array of item IDs" });
+      }
+      if (ids.length > MAX_PRICE_BATCH_SIZE) {
+        return res.status(400).json({ error: `At most ${MAX_PRICE_BATCH_SIZE} items per request` });
+      }
+
+      const prices = await getItemPrices(ids);
+      res.json(Object.fromEntries(prices));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch GE prices" });
+    }
+  });
+
   app.get("/api/ge/search", async (req, res) => {
     try {
       const { q } = req.query;
@@ -185,7 +422,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Search query required" });
       }
       
-      const items = await searchItems(q);
+      // Public, but signed-in users get their own flips ranked first
+      const items = await searchItems(q, (req as any).user?.claims?.sub);
       res.json(items);
     } catch (error) {
       res.status(500).json({ error: "Failed to search items" });
@@ -246,49 +484,85 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Unable to generate suggestions" });
       }
       
-      // Enhance suggestions with transaction data from user community
-      const transactions = await storage.getTransactionsByItem(itemId, 100);
-      
-      if (transactions.length > 0) {
-        const buyTransactions = transactions.filter(t => t.transactionType === 'buy');
-        const sellTransactions = transactions.filter(t => t.transactionType === 'sell');
-        
-        const avgUserBuyPrice = buyTransactions.length > 0
-          ? Math.round(buyTransactions.reduce((sum, t) => sum + t.price, 0) / buyTransactions.length)
-          : null;
-        const avgUserSellPrice = sellTransactions.length > 0
-          ? Math.round(sellTransactions.reduce((sum, t) => sum + t.price, 0) / sellTransactions.length)
-          : null;
-        
-        const totalUserVolume = transactions.reduce((sum, t) => sum + (t.totalValue || 0), 0);
-        
-        res.json({
-          ...suggestions,
-          communityData: {
-            totalTransactions: transactions.length,
-            buyTransactions: buyTransactions.length,
-            sellTransactions: sellTransactions.length,
-            avgUserBuyPrice,
-            avgUserSellPrice,
-            totalVolume: totalUserVolume,
-            dataSource: "RS3 Flip Tracker community trades",
-          },
-        });
-      } else {
-        res.json({
-          ...suggestions,
-          communityData: null,
-        });
-      }
+      // A signed-in user's fresh margin check replaces the suggested prices, and
+      // community transaction data is added
+      res.json({
+        ...await withLatestMarginCheck(suggestions, (req as any).user?.claims?.sub, itemId),
+        communityData: await getCommunityTradeData(itemId),
+      });
     } catch (error) {
       res.status(500).json({ error: "Failed to generate suggestions" });
     }
   });
 
+  // SMA, EMA, RSI, Bollinger bands, MACD and rate of change over the 90-day history;
+  // each window can be set in the query string
+  app.get("/api/ge/indicators/:id", async (req, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      if (isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid item ID" });
+      }
+
+      const parsedQuery = indicatorQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ error: "Invalid indicator windows" });
+      }
+
+      const indicators = await getItemIndicators(itemId, parsedQuery.data);
+      if (!indicators) {
+        return res.status(404).json({ error: "Price history not found" });
+      }
+
+      res.json(indicators);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to calculate indicators" });
+    }
+  });
+
+  // Price, trend, history, suggestions, community stats and volume for an item, with
+  // the user's own flips, watchlist entry and alerts for it, in one call
+  app.get("/api/items/:id/overview", isAuthenticated, async (req: any, res) => {
+    try {
+      const itemId = parseInt(req.params.id);
+      if (isNaN(itemId)) {
+        return res.status(400).json({ error: "Invalid item ID" });
+      }
+
+      const overview = await getItemOverview(req.user.claims.sub, itemId);
+      if (!overview.item && overview.flips.length === 0) {
+        return res.status(404).json({ error: "Item not found" });
+      }
+
+      res.json(overview);
+    } catch (error) {
+      console.error("Failed to build item overview:", error);
+      res.status(500).json({ error: "Failed to fetch item overview" });
+    }
+  });
+
+  // Score the trend and suggestion rules against history; defaults to the user's most flipped items
+  app.get("/api/backtest", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsedQuery = backtestQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ error: `itemIds must be a comma-separated list of up to ${MAX_BACKTEST_ITEMS} item IDs` });
+      }
+
+      const itemIds = parsedQuery.data.itemIds ?? await getMostFlippedItemIds(userId);
+      const report = await runBacktest(itemIds);
+      res.json(report);
+    } catch (error) {
+      console.error("Backtest failed:", error);
+      res.status(500).json({ error: "Failed to run backtest" });
+    }
+  });
+
   app.get("/api/ai/trading-profile", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const flips = await storage.getFlips(userId);
+      const flips = await withSells(await withTags(await storage.getFlips(userId)));
       const profile = analyzeUserTradingProfile(flips);
       res.json(profile);
     } catch (error) {
@@ -300,7 +574,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/ai/recommendations", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const flips = await storage.getFlips(userId);
+      const flips = await withSells(await withTags(await storage.getFlips(userId)));
       
       if (flips.length < 3) {
         return res.json({
@@ -343,12 +617,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const filterUserId = req.query.userId as string | undefined;
       
       // Non-admins can only see their own flips
-      if (!isAdminUser) {
-        if (scope === 'all' || filterUserId) {
-          return res.status(403).json({ error: "Admin access required to view other users' flips" });
+      if (!isAdminUser && (scope === 'all' || filterUserId)) {
+        return res.status(403).json({ error: "Admin access required to view other users' flips" });
+      }
+      
+      // Passing limit or cursor switches to a filtered, sorted page: { items, nextCursor, total }
+      if (req.query.limit !== undefined || req.query.cursor !== undefined) {
+        const parsedQuery = flipQuerySchema.safeParse(req.query);
+        if (!parsedQuery.success) {
+          return res.status(400).json({ error: "Invalid flip query" });
         }
+        const queryUserId = scope === 'all' ? (filterUserId ?? null) : userId;
+        return res.json(await storage.queryFlips(queryUserId, parsedQuery.data, scope === 'all'));
+      }
+      
+      if (!isAdminUser) {
         const userFlips = await storage.getFlips(userId);
-        return res.json(userFlips);
+        return res.json(await withTags(await withSells(userFlips)));
       }
       
       // Admin users - handle scope and filtering
@@ -359,15 +644,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         // Optionally filter by specific user
         if (filterUserId) {
           const filteredFlips = allFlips.filter(flip => flip.userId === filterUserId);
-          return res.json(filteredFlips);
+          return res.json(await withTags(await withSells(filteredFlips)));
         }
         
-        return res.json(allFlips);
+        return res.json(await withTags(await withSells(allFlips)));
       }
       
       // Default: admin sees only their own flips (scope='mine' or no scope)
       const adminFlips = await storage.getFlips(userId);
-      res.json(adminFlips);
+      res.json(await withTags(await withSells(adminFlips)));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch flips" });
     }
@@ -377,67 +662,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const validatedFlip = insertFlipSchema.parse(req.body);
+      const { sells: rawSells, tagIds: rawTagIds, ...flipData } = req.body;
+      const validatedFlip = insertFlipSchema.parse(flipData);
+      let sells: InsertFlipSell[] = insertFlipSellSchema.array().parse(rawSells ?? []);
+      const tagIds = await ownTagIds(userId, flipTagIdsSchema.parse(rawTagIds ?? []));
+      
+      // A single sellPrice is shorthand for one fill covering the whole quantity
+      if (sells.length === 0 && validatedFlip.sellPrice) {
+        if (!validatedFlip.sellDate) {
+          console.log("[FlipCreate] Auto-setting sellDate to today since sellPrice was provided");
+        }
+        sells = [{
+          quantity: validatedFlip.quantity,
+          sellPrice: validatedFlip.sellPrice,
+          sellDate: validatedFlip.sellDate ?? new Date(),
+        }];
+      }
       
-      // Auto-set sellDate to today if sellPrice is present but sellDate is missing
-      if (validatedFlip.sellPrice && !validatedFlip.sellDate) {
-        validatedFlip.sellDate = new Date();
-        console.log("[FlipCreate] Auto-setting sellDate to today since sellPrice was provided");
+      if (totalSellQuantity(sells) > validatedFlip.quantity) {
+        return res.status(400).json({ error: "Sell fills exceed the flip quantity" });
       }
       
+      // sellPrice/sellDate are derived from the fills once they are saved
+      validatedFlip.sellPrice = undefined;
+      validatedFlip.sellDate = undefined;
+      
       // Capture previous profits BEFORE creating the flip (for goal achievement detection)
       const previousProfits = await getCurrentProfits(userId);
       
-      const newFlip = await storage.createFlip(userId, validatedFlip);
+      const createdFlip = await storage.createFlip(userId, validatedFlip);
+      await storage.setFlipTags(createdFlip.id, tagIds);
       
       // Record buy transaction for analytics/LLM training
-      if (newFlip.itemId) {
-        await storage.recordTransaction({
-          flipId: newFlip.id,
-          userId,
-          itemId: newFlip.itemId,
-          itemName: newFlip.itemName,
-          transactionType: 'buy',
-          price: newFlip.buyPrice,
-          quantity: newFlip.quantity ?? 1,
-          strategyTag: newFlip.strategyTag ?? undefined,
-          transactionDate: new Date(newFlip.buyDate),
-        });
-        await storage.updateItemVolume(
-          newFlip.itemId, 
-          newFlip.itemName, 
-          new Date(newFlip.buyDate), 
-          'buy', 
-          newFlip.buyPrice, 
-          newFlip.quantity ?? 1
-        );
-        
-        // Record sell transaction if selling immediately
-        if (newFlip.sellPrice && newFlip.sellDate) {
-          const sellValue = newFlip.sellPrice * (newFlip.quantity ?? 1);
-          const taxPaid = Math.floor(newFlip.sellPrice * 0.02) * (newFlip.quantity ?? 1); // 2% per item, floored
-          await storage.recordTransaction({
-            flipId: newFlip.id,
-            userId,
-            itemId: newFlip.itemId,
-            itemName: newFlip.itemName,
-            transactionType: 'sell',
-            price: newFlip.sellPrice,
-            quantity: newFlip.quantity ?? 1,
-            taxPaid,
-            strategyTag: newFlip.strategyTag ?? undefined,
-            transactionDate: new Date(newFlip.sellDate),
-          });
-          await storage.updateItemVolume(
-            newFlip.itemId, 
-            newFlip.itemName, 
-            new Date(newFlip.sellDate), 
-            'sell', 
-            newFlip.sellPrice, 
-            newFlip.quantity ?? 1
-          );
-        }
+      await recordBuyLeg(createdFlip);
+      
+      // Record each sell fill if selling immediately
+      for (const sell of sells) {
+        const createdSell = await storage.createFlipSell(createdFlip.id, userId, sell);
+        await recordSellFill(createdFlip, createdSell);
       }
+      const newFlip = {
+        ...(sells.length > 0 ? await syncFlipSellSummary(createdFlip) : { ...createdFlip, sells: [] }),
+        tags: await getFlipTags(createdFlip.id),
+      };
+      await recordFlipRevision(createdFlip.id, userId, "create", null);
       
       // Send to Discord (fire and forget - don't block response)
       sendFlipToDiscord(newFlip).catch(err => {
@@ -468,6 +736,129 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bulk CSV import - a dry run only returns the preview; otherwise every ready row
+  // (and duplicates, unless skipped) is created in one batch
+  app.post("/api/flips/import", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { rows, dryRun, skipDuplicates } = flipImportRequestSchema.parse(req.body);
+      
+      const existingFlips = await storage.getFlips(userId);
+      const existingTags = await storage.getStrategyTags(userId);
+      const preview = await previewFlipImport(rows, existingFlips, existingTags);
+      
+      const result: FlipImportResult = {
+        rows: preview,
+        summary: {
+          total: preview.length,
+          ready: preview.filter(row => row.status === "ready").length,
+          duplicates: preview.filter(row => row.status === "duplicate").length,
+          errors: preview.filter(row => row.status === "error").length,
+        },
+        imported: 0,
+      };
+      
+      if (dryRun) {
+        return res.json(result);
+      }
+      
+      // Historical imports skip Discord and goal notifications; they aren't new trades
+      const entries: FlipImportEntry[] = [];
+      for (const row of preview) {
+        if (!row.flip) continue;
+        if (row.status === "error" || (row.status === "duplicate" && skipDuplicates)) continue;
+        entries.push(flipImportEntry(row.flip, await resolveTagNames(userId, row.flip.tags)));
+      }
+      const importedFlips = await storage.importFlips(userId, entries);
+      
+      // Volume stats and revisions follow once the whole batch is in
+      for (const flip of importedFlips) {
+        if (flip.itemId) {
+          await storage.updateItemVolume(flip.itemId, flip.itemName, new Date(flip.buyDate), 'buy', flip.buyPrice, flip.quantity);
+          for (const sell of flip.sells) {
+            await storage.updateItemVolume(flip.itemId, flip.itemName, new Date(sell.sellDate), 'sell', sell.sellPrice, sell.quantity);
+          }
+        }
+        await recordFlipRevision(flip.id, userId, "create", null);
+      }
+      result.imported = importedFlips.length;
+      
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid import data" });
+      }
+      console.error("Error importing flips:", error);
+      res.status(500).json({ error: "Failed to import flips" });
+    }
+  });
+
+  // Trash - soft-deleted flips, purged for good once the retention period passes
+  app.get("/api/flips/trash", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deletedFlips = await withSells(await storage.getDeletedFlips(userId));
+      const trash: FlipTrash = {
+        flips: deletedFlips.map(flip => ({ ...flip, purgeAt: getFlipPurgeDate(flip.deletedAt!) })),
+        retentionDays: FLIP_TRASH_RETENTION_DAYS,
+      };
+      res.json(trash);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/flips/trash/restore", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ids } = flipTrashActionSchema.parse(req.body ?? {});
+      const deletedFlips = await storage.getDeletedFlips(userId);
+      const targets = ids ? deletedFlips.filter(flip => ids.includes(flip.id)) : deletedFlips;
+      
+      let restored = 0;
+      for (const flip of targets) {
+        const sells = await storage.getFlipSells(flip.id);
+        if (await storage.restoreFlip(flip.id, userId)) {
+          await recordFlipRevision(flip.id, userId, "restore", await snapshotFlipState(flip, sells));
+          restored++;
+        }
+      }
+      res.json({ restored });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid restore request" });
+    }
+  });
+
+  // Permanently delete trashed flips (all of them when no ids are given)
+  app.post("/api/flips/trash/purge", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { ids } = flipTrashActionSchema.parse(req.body ?? {});
+      const deletedFlips = await storage.getDeletedFlips(userId);
+      const targets = ids ? deletedFlips.filter(flip => ids.includes(flip.id)) : deletedFlips;
+      
+      let deleted = 0;
+      for (const flip of targets) {
+        if (await storage.deleteFlip(flip.id, userId)) deleted++;
+      }
+      res.json({ deleted });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid delete request" });
+    }
+  });
+
+  // Mark-to-market - open quantity valued at the current GE price after tax, plus realized P&L
+  app.get("/api/flips/valuation", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const valuation = await getFlipValuation(userId);
+      res.json(valuation);
+    } catch (error) {
+      console.error("Error valuing open flips:", error);
+      res.status(500).json({ error: "Failed to value open flips" });
+    }
+  });
+
   app.patch("/api/flips/:id", isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
@@ -477,21 +868,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = await storage.getUser(userId);
       const isAdminUser = user && (ADMIN_EMAILS.includes(user.email ?? "") || user.isAdmin === true);
       
-      // Get the current flip before updating
+      // Get the current flip before updating. Admins can edit any flip, regular users
+      // can only edit their own - checked before any fill, tag or status is touched
       const existingFlip = await storage.getFlip(id);
+      if (!existingFlip || (existingFlip.userId !== userId && !isAdminUser)) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      const existingSells = await storage.getFlipSells(id);
+      const existingTags = await getFlipTags(id);
       
       // Capture previous profits BEFORE updating (for goal achievement detection)
       // Use the flip owner's userId, not the admin's
-      const flipOwnerId = existingFlip?.userId || userId;
-      const flipOwner = existingFlip?.userId ? await storage.getUser(existingFlip.userId) : user;
+      const flipOwnerId = existingFlip.userId;
+      const flipOwner = await storage.getUser(existingFlip.userId);
       const previousProfits = await getCurrentProfits(flipOwnerId);
       
-      const validatedFlip = insertFlipSchema.partial().parse(req.body);
+      const { sells: rawSells, tagIds: rawTagIds, status: rawStatus, closedAt: rawClosedAt, ...flipData } = req.body;
+      const validatedFlip = insertFlipSchema.partial().parse(flipData);
+      // Cancelling or writing off closes the unsold units; any other status reopens the flip
+      const statusUpdate = rawStatus !== undefined
+        ? flipStatusUpdateSchema.parse({ status: rawStatus, closedAt: rawClosedAt })
+        : undefined;
+      // When present, sells is the complete list of fills - fills without an id are new
+      const sellList = rawSells !== undefined ? upsertFlipSellSchema.array().parse(rawSells) : undefined;
+      // Likewise tagIds replaces the flip's tags; only the owner's tags can be attached
+      const tagIds = rawTagIds !== undefined
+        ? await ownTagIds(flipOwnerId, flipTagIdsSchema.parse(rawTagIds))
+        : undefined;
+      const quantity = validatedFlip.quantity ?? existingFlip.quantity ?? 1;
+      
+      // A changed sellPrice without a fill list sells whatever is still open (e.g. Quick Sell)
+      const newFills: InsertFlipSell[] = [];
+      if (!sellList && validatedFlip.sellPrice && validatedFlip.sellPrice !== existingFlip.sellPrice) {
+        const remaining = quantity - totalSellQuantity(existingSells);
+        if (remaining <= 0) {
+          return res.status(400).json({ error: "Flip is already fully sold" });
+        }
+        if (!validatedFlip.sellDate) {
+          console.log("[FlipUpdate] Auto-setting sellDate to today since sellPrice was provided");
+        }
+        newFills.push({
+          quantity: remaining,
+          sellPrice: validatedFlip.sellPrice,
+          sellDate: validatedFlip.sellDate ?? new Date(),
+        });
+      }
+      
+      const soldQuantity = sellList
+        ? totalSellQuantity(sellList)
+        : totalSellQuantity(existingSells) + totalSellQuantity(newFills);
+      if (soldQuantity > quantity) {
+        return res.status(400).json({ error: "Sell fills exceed the flip quantity" });
+      }
+      if (isClosedStatus(statusUpdate?.status) && soldQuantity >= quantity) {
+        return res.status(400).json({ error: "A fully sold flip can't be cancelled or written off" });
+      }
+      if (!statusUpdate && isClosedStatus(existingFlip.status) && soldQuantity >= quantity) {
+        return res.status(400).json({ error: "Reopen the flip before selling the rest" });
+      }
       
-      // Auto-set sellDate to today if sellPrice is being added but sellDate is missing
-      if (validatedFlip.sellPrice && !validatedFlip.sellDate && !existingFlip?.sellDate) {
-        validatedFlip.sellDate = new Date();
-        console.log("[FlipUpdate] Auto-setting sellDate to today since sellPrice was provided");
+      // Fills own sellPrice/sellDate once a flip has any
+      const usesFills = !!sellList || newFills.length > 0 || existingSells.length > 0;
+      if (usesFills) {
+        validatedFlip.sellPrice = undefined;
+        validatedFlip.sellDate = undefined;
       }
       
       // Admins can edit any flip, regular users can only edit their own
@@ -501,45 +941,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Flip not found" });
       }
       
-      // If this update is adding a sell price (completing the flip), record the sell transaction
-      // Use the flip owner's userId for transaction recording, not the admin's userId
-      if (updatedFlip.itemId && updatedFlip.sellPrice && updatedFlip.sellDate && 
-          (!existingFlip?.sellPrice || existingFlip.sellPrice !== updatedFlip.sellPrice)) {
-        const sellValue = updatedFlip.sellPrice * (updatedFlip.quantity ?? 1);
-        const taxPaid = Math.floor(updatedFlip.sellPrice * 0.02) * (updatedFlip.quantity ?? 1); // 2% per item, floored
-        await storage.recordTransaction({
-          flipId: updatedFlip.id,
-          userId: updatedFlip.userId,
-          itemId: updatedFlip.itemId,
-          itemName: updatedFlip.itemName,
-          transactionType: 'sell',
-          price: updatedFlip.sellPrice,
-          quantity: updatedFlip.quantity ?? 1,
-          taxPaid,
-          strategyTag: updatedFlip.strategyTag ?? undefined,
-          transactionDate: new Date(updatedFlip.sellDate),
-        });
-        await storage.updateItemVolume(
-          updatedFlip.itemId, 
-          updatedFlip.itemName, 
-          new Date(updatedFlip.sellDate), 
-          'sell', 
-          updatedFlip.sellPrice, 
-          updatedFlip.quantity ?? 1
-        );
+      if (tagIds) {
+        await storage.setFlipTags(id, tagIds);
       }
       
-      // Send update notification to Discord (fire and forget)
-      if (existingFlip) {
-        sendFlipUpdateToDiscord(existingFlip, updatedFlip).catch(err => {
-          console.error("[Discord] Failed to send flip update:", err);
-        });
+      // Apply fill changes and record new fills as sell transactions
+      // Use the flip owner's userId for fills and transactions, not the admin's userId
+      if (sellList) {
+        const keptIds = new Set(sellList.map(sell => sell.id).filter(Boolean));
+        for (const sell of existingSells) {
+          if (!keptIds.has(sell.id)) {
+            await storage.deleteFlipSell(sell.id, id);
+          }
+        }
+        for (const { id: sellId, ...sell } of sellList) {
+          if (sellId && existingSells.some(existing => existing.id === sellId)) {
+            await updateSellFill(updatedFlip, sellId, sell);
+          } else {
+            newFills.push(sell);
+          }
+        }
+      }
+      for (const sell of newFills) {
+        const createdSell = await storage.createFlipSell(id, updatedFlip.userId, sell);
+        await recordSellFill(updatedFlip, createdSell);
       }
+      let statusFlip = updatedFlip;
+      if (statusUpdate) {
+        const closedAt = isClosedStatus(statusUpdate.status)
+          ? statusUpdate.closedAt ?? (existingFlip.status === statusUpdate.status ? existingFlip.closedAt : null) ?? new Date()
+          : null;
+        statusFlip = await storage.setFlipStatus(id, closedAt ? statusUpdate.status : "open", closedAt) ?? updatedFlip;
+      }
+      const finalFlip = {
+        ...(usesFills || statusUpdate ? await syncFlipSellSummary(statusFlip) : { ...statusFlip, sells: existingSells }),
+        tags: await getFlipTags(id),
+      };
+      await recordFlipRevision(id, userId, "update", snapshotFlip(existingFlip, existingSells, existingTags));
+      
+      // Send update notification to Discord (fire and forget)
+      sendFlipUpdateToDiscord({ ...existingFlip, tags: existingTags }, finalFlip).catch(err => {
+        console.error("[Discord] Failed to send flip update:", err);
+      });
       
       // Check for goal achievements if this flip is being completed (sellPrice added)
       let achievements: GoalAchievement[] = [];
-      const isNewlyCompleted = updatedFlip.sellPrice && updatedFlip.sellDate && 
-        (!existingFlip?.sellPrice || existingFlip.sellPrice !== updatedFlip.sellPrice);
+      const isNewlyCompleted = finalFlip.sellPrice && finalFlip.sellDate && 
+        (!existingFlip.sellPrice || existingFlip.sellPrice !== finalFlip.sellPrice);
       
       if (isNewlyCompleted && flipOwner) {
         achievements = await checkGoalAchievements(
@@ -556,12 +1004,86 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json({ ...updatedFlip, achievements });
+      res.json({ ...finalFlip, achievements });
     } catch (error) {
       res.status(400).json({ error: "Invalid flip data" });
     }
   });
 
+  // Add a single sell fill to a flip (partial sell)
+  app.post("/api/flips/:id/sells", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      
+      const flip = await storage.getFlip(id);
+      if (!flip || flip.userId !== userId || flip.deletedAt) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      
+      if (isClosedStatus(flip.status)) {
+        return res.status(400).json({ error: "Reopen the flip before adding sells" });
+      }
+      
+      const validatedSell = insertFlipSellSchema.parse(req.body);
+      const existingSells = await storage.getFlipSells(id);
+      if (validatedSell.quantity > flip.quantity - totalSellQuantity(existingSells)) {
+        return res.status(400).json({ error: "Sell quantity exceeds the remaining quantity" });
+      }
+      
+      const previousProfits = await getCurrentProfits(userId);
+      
+      const sell = await storage.createFlipSell(id, userId, validatedSell);
+      await recordSellFill(flip, sell);
+      const updatedFlip = await syncFlipSellSummary(flip);
+      await recordFlipRevision(id, userId, "update", await snapshotFlipState(flip, existingSells));
+      
+      sendFlipUpdateToDiscord(flip, updatedFlip).catch(err => {
+        console.error("[Discord] Failed to send flip update:", err);
+      });
+      
+      // The last fill completes the flip
+      let achievements: GoalAchievement[] = [];
+      if (updatedFlip.sellPrice && !flip.sellPrice && user) {
+        achievements = await checkGoalAchievements(userId, user.firstName || user.email || "Trader", previousProfits);
+        for (const achievement of achievements) {
+          sendGoalAchievementToDiscord(achievement).catch(err => {
+            console.error("[Discord] Failed to send goal achievement:", err);
+          });
+        }
+      }
+      
+      res.status(201).json({ ...updatedFlip, achievements });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid sell data" });
+    }
+  });
+
+  app.delete("/api/flips/:id/sells/:sellId", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, sellId } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const flip = await storage.getFlip(id);
+      if (!flip || flip.userId !== userId) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      
+      const existingSells = await storage.getFlipSells(id);
+      const success = await storage.deleteFlipSell(sellId, id);
+      if (!success) {
+        return res.status(404).json({ error: "Sell not found" });
+      }
+      
+      const updatedFlip = await syncFlipSellSummary(flip);
+      await recordFlipRevision(id, userId, "update", await snapshotFlipState(flip, existingSells));
+      res.json(updatedFlip);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete sell" });
+    }
+  });
+
   app.delete("/api/flips/:id", isAuthenticated, async (req: any, res) => {
     try {
       const { id } = req.params;
@@ -569,10 +1091,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { soft } = req.query;
       
       if (soft === 'true') {
+        const existingFlip = await storage.getFlip(id);
+        const existingSells = existingFlip ? await storage.getFlipSells(id) : [];
         const deletedFlip = await storage.softDeleteFlip(id, userId);
-        if (!deletedFlip) {
+        if (!deletedFlip || !existingFlip) {
           return res.status(404).json({ error: "Flip not found" });
         }
+        await recordFlipRevision(id, userId, "delete", await snapshotFlipState(existingFlip, existingSells));
         res.json(deletedFlip);
       } else {
         const success = await storage.deleteFlip(id, userId);
@@ -590,15 +1115,199 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const userId = req.user.claims.sub;
+      const existingFlip = await storage.getFlip(id);
+      const existingSells = existingFlip ? await storage.getFlipSells(id) : [];
       const restoredFlip = await storage.restoreFlip(id, userId);
       
-      if (!restoredFlip) {
+      if (!restoredFlip || !existingFlip) {
         return res.status(404).json({ error: "Flip not found" });
       }
       
+      await recordFlipRevision(id, userId, "restore", await snapshotFlipState(existingFlip, existingSells));
       res.json(restoredFlip);
     } catch (error) {
-      res.status(500).json({ error: "Failed to restore flip" });
+      res.status(500).json({ error: "Failed to restore flip" });
+    }
+  });
+
+  // Move an unsold flip into the portfolio as a long-term holding
+  app.post("/api/flips/:id/portfolio", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const flip = await storage.getFlip(id);
+      if (!flip || flip.userId !== userId || flip.deletedAt) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      if (flip.movedToPortfolioAt) {
+        return res.status(409).json({ error: "Flip is already in the portfolio" });
+      }
+      if (isClosedStatus(flip.status)) {
+        return res.status(409).json({ error: "Cancelled and written-off flips can't be moved to the portfolio" });
+      }
+
+      const existingSells = await storage.getFlipSells(id);
+      if (existingSells.length > 0) {
+        return res.status(400).json({ error: "Only flips with nothing sold yet can be moved to the portfolio" });
+      }
+      const itemId = await resolveFlipItemId(flip);
+      if (!itemId) {
+        return res.status(400).json({ error: `Couldn't find a GE item ID for ${flip.itemName}` });
+      }
+
+      const move = await moveFlipToPortfolio(flip, itemId);
+      if (!move) {
+        return res.status(500).json({ error: "Failed to move flip to portfolio" });
+      }
+      await recordFlipRevision(id, userId, "move_to_portfolio", await snapshotFlipState(flip, existingSells));
+      res.json(move);
+    } catch (error) {
+      console.error("Error moving flip to portfolio:", error);
+      res.status(500).json({ error: "Failed to move flip to portfolio" });
+    }
+  });
+
+  // Undo a move: the flip's units leave the holding and the flip shows up again
+  app.delete("/api/flips/:id/portfolio", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const flip = await storage.getFlip(id);
+      if (!flip || flip.userId !== userId || !flip.movedToPortfolioAt) {
+        return res.status(404).json({ error: "Flip not found in portfolio" });
+      }
+      if (!(await canUndoPortfolioMove(flip))) {
+        return res.status(409).json({ error: "Part of this holding has been sold since, so the move can't be undone" });
+      }
+
+      const restoredFlip = await undoFlipPortfolioMove(flip);
+      if (!restoredFlip) {
+        return res.status(404).json({ error: "Flip not found in portfolio" });
+      }
+      await recordFlipRevision(id, userId, "undo_portfolio_move", await snapshotFlipState(flip));
+      res.json(restoredFlip);
+    } catch (error) {
+      console.error("Error undoing portfolio move:", error);
+      res.status(500).json({ error: "Failed to move flip back from portfolio" });
+    }
+  });
+
+  // Revision history for a flip, newest first. Admins can view any flip's history.
+  app.get("/api/flips/:id/revisions", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const isAdminUser = user && (ADMIN_EMAILS.includes(user.email ?? "") || user.isAdmin === true);
+      
+      const flip = await storage.getFlip(id);
+      if (!flip || (flip.userId !== userId && !isAdminUser)) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      
+      const revisions = await storage.getFlipRevisions(id);
+      const editors = new Map<string, FlipRevisionWithUser["changedByUser"]>();
+      for (const editorId of Array.from(new Set(revisions.map(r => r.changedBy)))) {
+        const editor = await storage.getUser(editorId);
+        if (editor) {
+          editors.set(editorId, {
+            id: editor.id,
+            firstName: editor.firstName,
+            lastName: editor.lastName,
+            email: editor.email,
+          });
+        }
+      }
+      
+      const result: FlipRevisionWithUser[] = revisions.map(revision => ({
+        ...revision,
+        changedByUser: editors.get(revision.changedBy),
+      }));
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch flip history" });
+    }
+  });
+
+  // Put a flip (and its sell fills) back the way it was at an earlier revision.
+  // The revert is itself recorded as a new revision, so it can be undone the same way.
+  app.post("/api/flips/:id/revisions/:revisionId/revert", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id, revisionId } = req.params;
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const isAdminUser = user && (ADMIN_EMAILS.includes(user.email ?? "") || user.isAdmin === true);
+      
+      const flip = await storage.getFlip(id);
+      if (!flip || (flip.userId !== userId && !isAdminUser)) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      if (flip.deletedAt) {
+        return res.status(400).json({ error: "Restore the flip before reverting it" });
+      }
+      
+      const revision = await storage.getFlipRevision(revisionId, id);
+      if (!revision) {
+        return res.status(404).json({ error: "Revision not found" });
+      }
+      
+      const existingSells = await storage.getFlipSells(id);
+      const before = await snapshotFlipState(flip, existingSells);
+      const revertedFlip = await storage.applyFlipSnapshot(id, revision.snapshot);
+      if (!revertedFlip) {
+        return res.status(404).json({ error: "Flip not found" });
+      }
+      
+      // Tags deleted since the revision can't come back; snapshots from before tags existed leave them alone
+      if (revision.snapshot.tags) {
+        const snapshotTagIds = revision.snapshot.tags.map(tag => tag.id);
+        await storage.setFlipTags(id, await ownTagIds(revertedFlip.userId, snapshotTagIds));
+      }
+      
+      // Fills that still exist are updated in place; removed ones are re-created
+      const snapshotSells = revision.snapshot.sells;
+      const keptIds = new Set(snapshotSells.map(sell => sell.id).filter(Boolean));
+      for (const sell of existingSells) {
+        if (!keptIds.has(sell.id)) {
+          await storage.deleteFlipSell(sell.id, id);
+        }
+      }
+      for (const { id: sellId, ...sell } of snapshotSells) {
+        const fill = { ...sell, sellDate: new Date(sell.sellDate) };
+        if (sellId && existingSells.some(existing => existing.id === sellId)) {
+          await updateSellFill(revertedFlip, sellId, fill);
+        } else {
+          const createdSell = await storage.createFlipSell(id, revertedFlip.userId, fill);
+          await recordSellFill(revertedFlip, createdSell);
+        }
+      }
+      
+      // Legacy flips without fills keep the snapshot's own sellPrice/sellDate
+      const finalFlip = {
+        ...(snapshotSells.length > 0 ? await syncFlipSellSummary(revertedFlip) : { ...revertedFlip, sells: [] }),
+        tags: await getFlipTags(id),
+      };
+      await recordFlipRevision(id, userId, "revert", before, revision.id);
+      
+      res.json(finalFlip);
+    } catch (error) {
+      console.error("Error reverting flip:", error);
+      res.status(500).json({ error: "Failed to revert flip" });
+    }
+  });
+
+  // Tax report - GE tax paid by period, item, strategy tag and RS account
+  app.get("/api/stats/tax-report", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const flips = await withSells(await withTags(await storage.getFlips(userId)));
+      const accounts = await storage.getRsAccounts(userId);
+      const accountNames = Object.fromEntries(accounts.map(account => [account.id, account.displayName]));
+      const recordedSells = (await storage.getTransactionsByUser(userId)).filter(tx => tx.transactionType === 'sell');
+      res.json(buildTaxReport(flips, recordedSells, accountNames));
+    } catch (error) {
+      console.error("Error building tax report:", error);
+      res.status(500).json({ error: "Failed to build tax report" });
     }
   });
 
@@ -606,10 +1315,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/stats/item-summary", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const flips = await storage.getFlips(userId);
+      const flips = await withSells(await storage.getFlips(userId));
       
-      // Only include completed flips (have sellDate)
-      const completedFlips = flips.filter(f => f.sellDate !== null);
+      // Only include flips that have booked something (sells or a write-off)
+      const completedFlips = flips
+        .map(flip => ({ flip, ledger: flipLedger(flip) }))
+        .filter(({ ledger }) => ledger.costBasis > 0);
       
       // Aggregate by item
       const itemStats = new Map<string, {
@@ -625,7 +1336,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         avgHoldTime: number[];
       }>();
 
-      for (const flip of completedFlips) {
+      for (const { flip, ledger } of completedFlips) {
         const key = flip.itemName;
         const existing = itemStats.get(key) || {
           itemName: flip.itemName,
@@ -640,42 +1351,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
           avgHoldTime: [],
         };
 
-        if (flip.sellPrice !== null && flip.sellPrice !== undefined) {
-          // Calculate profit with tax using shared calculator (handles bonds, low-price exemptions)
-          const taxDetails = calculateFlipTax(
-            flip.sellPrice, 
-            flip.buyPrice, 
-            flip.quantity, 
-            flip.itemId ?? undefined, 
-            flip.itemName
-          );
-          const profit = taxDetails.profit;
-          const roi = taxDetails.roi;
-          const totalBuyCost = flip.buyPrice * flip.quantity;
-
-          existing.totalProfit += profit;
-          existing.totalQuantity += flip.quantity;
-          existing.totalBuyCost += totalBuyCost;
-          existing.tradeCount += 1;
-          existing.roiSum += roi;
-          if (profit > 0) existing.wins += 1;
-
-          // Calculate hold time
-          if (flip.buyDate && flip.sellDate) {
-            const holdDays = Math.floor(
-              (new Date(flip.sellDate).getTime() - new Date(flip.buyDate).getTime()) / (1000 * 60 * 60 * 24)
-            );
-            existing.avgHoldTime.push(holdDays);
-          }
+        const { profit, roi } = ledger;
 
-          // Update icon if we have one
-          if (flip.itemIcon && !existing.itemIcon) {
-            existing.itemIcon = flip.itemIcon;
-          }
-          // Update itemId if we have one
-          if (flip.itemId && !existing.itemId) {
-            existing.itemId = flip.itemId;
-          }
+        existing.totalProfit += profit;
+        existing.totalQuantity += flip.quantity;
+        existing.totalBuyCost += ledger.costBasis;
+        existing.tradeCount += 1;
+        existing.roiSum += roi;
+        if (profit > 0) existing.wins += 1;
+
+        if (ledger.holdTimeMs !== null) {
+          existing.avgHoldTime.push(Math.floor(ledger.holdTimeMs / (1000 * 60 * 60 * 24)));
+        }
+
+        // Update icon if we have one
+        if (flip.itemIcon && !existing.itemIcon) {
+          existing.itemIcon = flip.itemIcon;
+        }
+        // Update itemId if we have one
+        if (flip.itemId && !existing.itemId) {
+          existing.itemId = flip.itemId;
         }
 
         itemStats.set(key, existing);
@@ -765,7 +1460,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       // Get all completed flips from all users to build community price data
       const allFlips = await storage.getAllFlips();
-      const completedFlips = allFlips.filter(f => f.sellPrice && !f.deletedAt);
+      // Cancelled and written-off flips don't reflect a market price
+      const completedFlips = await withSells(allFlips.filter(f => f.sellPrice && !f.deletedAt && !isClosedStatus(f.status)));
       
       // Group by item and calculate community prices
       const itemMap = new Map<number, {
@@ -786,10 +1482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const existing = itemMap.get(flip.itemId);
         const buyPrice = Number(flip.buyPrice);
         const sellPrice = Number(flip.sellPrice!);
-        const profit = (sellPrice - buyPrice) * flip.quantity;
-        const tax = calculateFlipTax(flip.itemName, sellPrice, flip.quantity);
-        const netProfit = profit - tax;
-        const roi = buyPrice > 0 ? (netProfit / (buyPrice * flip.quantity)) * 100 : 0;
+        const { profit: netProfit, roi } = flipLedger(flip);
         const tradeDate = flip.sellDate || flip.buyDate;
 
         if (existing) {
@@ -816,8 +1509,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      const gePrices = await getItemPrices(Array.from(itemMap.keys()));
+
       // Calculate final stats and confidence
-      const result = await Promise.all(Array.from(itemMap.values()).map(async (item) => {
+      const result = Array.from(itemMap.values()).map(item => {
         const avgBuy = Math.round(item.buyPrices.reduce((a, b) => a + b, 0) / item.buyPrices.length);
         const avgSell = Math.round(item.sellPrices.reduce((a, b) => a + b, 0) / item.sellPrices.length);
         const avgProfit = Math.round(item.profits.reduce((a, b) => a + b, 0) / item.profits.length);
@@ -826,20 +1521,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const uniqueTraders = item.traders.size;
         const daysSinceLastTrade = Math.floor((Date.now() - item.lastTradeDate.getTime()) / (1000 * 60 * 60 * 24));
         
-        // Get current GE price for comparison
-        let gePriceValue = 0;
-        try {
-          const geData = await getItemPrice(item.itemName);
-          if (geData) gePriceValue = geData.price;
-        } catch {}
+        // Current GE price for comparison
+        const gePriceValue = gePrices.get(item.itemId)?.price ?? 0;
 
         // Calculate confidence based on trade count, trader count, and recency
-        let confidence: 'high' | 'medium' | 'low' = 'low';
-        if (tradeCount >= 10 && uniqueTraders >= 3 && daysSinceLastTrade <= 7) {
-          confidence = 'high';
-        } else if (tradeCount >= 5 && uniqueTraders >= 2 && daysSinceLastTrade <= 14) {
-          confidence = 'medium';
-        }
+        const confidence = communityConfidence(tradeCount, uniqueTraders, daysSinceLastTrade);
 
         // Calculate price accuracy (how close community price is to GE)
         const communityAvg = Math.round((avgBuy + avgSell) / 2);
@@ -860,7 +1546,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           confidence,
           priceAccuracy,
         };
-      }));
+      });
 
       // Filter out items with no GE price data and sort by trade count
       const filtered = result.filter(r => r.tradeCount >= 1);
@@ -879,7 +1565,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const allFlips = await storage.getAllFlips();
       const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
       const recentFlips = allFlips.filter(f => 
-        f.sellPrice && !f.deletedAt && 
+        f.sellPrice && !f.deletedAt && !isClosedStatus(f.status) &&
         (f.sellDate || f.buyDate) >= sevenDaysAgo
       );
 
@@ -938,78 +1624,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid item ID or name" });
       }
 
-      const allFlips = await storage.getAllFlips();
       // Match by itemId OR by itemName (case-insensitive) to handle variations
-      const itemFlips = allFlips.filter(f => {
-        if (!f.sellPrice || f.deletedAt) return false;
-        if (f.itemId === itemId) return true;
-        if (itemName && f.itemName.toLowerCase() === itemName.toLowerCase()) return true;
-        return false;
-      });
-
-      if (itemFlips.length === 0) {
-        return res.json(null);
-      }
-
-      const buyPrices = itemFlips.map(f => Number(f.buyPrice));
-      const sellPrices = itemFlips.map(f => Number(f.sellPrice!));
-      const traders = new Set(itemFlips.map(f => f.userId));
-      const latestTrade = itemFlips.reduce((latest, f) => {
-        const date = f.sellDate || f.buyDate;
-        return date > latest ? date : latest;
-      }, itemFlips[0].sellDate || itemFlips[0].buyDate);
-
-      const avgBuy = Math.round(buyPrices.reduce((a, b) => a + b, 0) / buyPrices.length);
-      const avgSell = Math.round(sellPrices.reduce((a, b) => a + b, 0) / sellPrices.length);
-      const tradeCount = itemFlips.length;
-      const uniqueTraders = traders.size;
-      const daysSinceLastTrade = Math.floor((Date.now() - latestTrade.getTime()) / (1000 * 60 * 60 * 24));
-
-      // Calculate confidence
-      let confidence: 'high' | 'medium' | 'low' = 'low';
-      if (tradeCount >= 10 && uniqueTraders >= 3 && daysSinceLastTrade <= 7) {
-        confidence = 'high';
-      } else if (tradeCount >= 5 && uniqueTraders >= 2 && daysSinceLastTrade <= 14) {
-        confidence = 'medium';
-      }
-
-      // Calculate profits and ROI
-      const profits = itemFlips.map(f => {
-        const buyPrice = Number(f.buyPrice);
-        const sellPrice = Number(f.sellPrice!);
-        const gross = (sellPrice - buyPrice) * f.quantity;
-        const tax = calculateFlipTax(f.itemName, sellPrice, f.quantity);
-        return gross - tax;
-      });
-      const rois = itemFlips.map(f => {
-        const buyPrice = Number(f.buyPrice);
-        const sellPrice = Number(f.sellPrice!);
-        const netProfit = (sellPrice - buyPrice) * f.quantity - calculateFlipTax(f.itemName, sellPrice, f.quantity);
-        return buyPrice > 0 ? (netProfit / (buyPrice * f.quantity)) * 100 : 0;
-      });
-
-      // Get GE price
-      let gePriceValue = 0;
-      try {
-        const geData = await getItemPrice(itemFlips[0].itemName);
-        if (geData) gePriceValue = geData.price;
-      } catch {}
-
-      res.json({
-        itemId,
-        itemName: itemFlips[0].itemName,
-        itemIcon: itemFlips[0].itemIcon,
-        gePriceValue,
-        communityBuyPrice: avgBuy,
-        communitySellPrice: avgSell,
-        tradeCount,
-        uniqueTraders,
-        lastTradeDate: latestTrade.toISOString(),
-        avgProfit: Math.round(profits.reduce((a, b) => a + b, 0) / profits.length),
-        avgRoi: Math.round((rois.reduce((a, b) => a + b, 0) / rois.length) * 100) / 100,
-        confidence,
-        priceAccuracy: 0,
-      });
+      res.json(await getCommunityPrice(itemId, itemName));
     } catch (error) {
       console.error("Failed to lookup community price:", error);
       res.status(500).json({ error: "Failed to lookup community price" });
@@ -1401,49 +2017,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Recalculate holding aggregates based on all transactions
       const allTxs = await storage.getHoldingTransactions(holdingId, userId);
       
-      let totalQuantity = 0;
-      let totalCost = 0;
-      let realizedProfit = 0;
-      let realizedLoss = 0;
-      
-      // Sort transactions by date to process in order
-      const sortedTxs = [...allTxs].sort((a, b) => 
-        new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime()
-      );
-      
-      for (const tx of sortedTxs) {
-        if (tx.transactionType === 'buy') {
-          totalCost += tx.totalValue;
-          totalQuantity += tx.quantity;
-        } else if (tx.transactionType === 'sell') {
-          // Calculate P&L on sell based on avg cost at time of sale
-          const avgCostPerUnit = totalQuantity > 0 ? totalCost / totalQuantity : 0;
-          const costBasis = avgCostPerUnit * tx.quantity;
-          const proceeds = tx.totalValue - (tx.fees || 0);
-          const pnl = proceeds - costBasis;
-          
-          if (pnl >= 0) {
-            realizedProfit += pnl;
-          } else {
-            realizedLoss += Math.abs(pnl);
-          }
-          
-          // Reduce cost and quantity (clamp to prevent negative values)
-          totalCost = Math.max(0, totalCost - costBasis);
-          totalQuantity = Math.max(0, totalQuantity - tx.quantity);
-        }
-      }
-      
-      // Calculate new avgBuyPrice (guard against division by zero)
-      const avgBuyPrice = totalQuantity > 0 ? totalCost / totalQuantity : 0;
+      const ledger = holdingLedger(allTxs);
       
       // Update holding with new aggregates
       await storage.updatePortfolioHolding(holdingId, userId, {
-        quantity: totalQuantity,
-        avgBuyPrice: Math.round(avgBuyPrice),
-        totalCost: Math.round(totalCost),
-        realizedProfit: Math.round(realizedProfit),
-        realizedLoss: Math.round(realizedLoss),
+        quantity: ledger.quantity,
+        avgBuyPrice: Math.round(ledger.avgBuyPrice),
+        totalCost: Math.round(ledger.totalCost),
+        realizedProfit: Math.round(ledger.realizedProfit),
+        realizedLoss: Math.round(ledger.realizedLoss),
       });
       
       // Return transaction with updated P&L if it was a sell
@@ -1467,44 +2049,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Recalculate holding aggregates after deletion
       const allTxs = await storage.getHoldingTransactions(holdingId, userId);
       
-      let totalQuantity = 0;
-      let totalCost = 0;
-      let realizedProfit = 0;
-      let realizedLoss = 0;
-      
-      const sortedTxs = [...allTxs].sort((a, b) => 
-        new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime()
-      );
-      
-      for (const tx of sortedTxs) {
-        if (tx.transactionType === 'buy') {
-          totalCost += tx.totalValue;
-          totalQuantity += tx.quantity;
-        } else if (tx.transactionType === 'sell') {
-          const avgCostPerUnit = totalQuantity > 0 ? totalCost / totalQuantity : 0;
-          const costBasis = avgCostPerUnit * tx.quantity;
-          const proceeds = tx.totalValue - (tx.fees || 0);
-          const pnl = proceeds - costBasis;
-          
-          if (pnl >= 0) {
-            realizedProfit += pnl;
-          } else {
-            realizedLoss += Math.abs(pnl);
-          }
-          
-          totalCost -= costBasis;
-          totalQuantity -= tx.quantity;
-        }
-      }
-      
-      const avgBuyPrice = totalQuantity > 0 ? totalCost / totalQuantity : 0;
+      const ledger = holdingLedger(allTxs);
       
       await storage.updatePortfolioHolding(holdingId, userId, {
-        quantity: Math.max(0, totalQuantity),
-        avgBuyPrice: Math.round(avgBuyPrice),
-        totalCost: Math.round(Math.max(0, totalCost)),
-        realizedProfit: Math.round(realizedProfit),
-        realizedLoss: Math.round(realizedLoss),
+        quantity: ledger.quantity,
+        avgBuyPrice: Math.round(ledger.avgBuyPrice),
+        totalCost: Math.round(ledger.totalCost),
+        realizedProfit: Math.round(ledger.realizedProfit),
+        realizedLoss: Math.round(ledger.realizedLoss),
       });
       
       res.status(204).send();
@@ -1529,7 +2081,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn("[Import] AI vision failed, falling back to OCR:", aiResult.error);
         const ocrResult = await processScreenshot(req.file.buffer);
         const matchedItems = await matchItemsToGE(ocrResult.items, async (query) => {
-          const items = await searchItems(query);
+          const items = await searchItems(query, req.user.claims.sub);
           return items.slice(0, 5);
         });
 
@@ -1545,7 +2097,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const matchedItems = await Promise.all(
         aiResult.items.map(async (item) => {
           try {
-            const searchResults = await searchItems(item.name);
+            const searchResults = await searchItems(item.name, req.user.claims.sub);
             const bestMatch = searchResults.length > 0 ? searchResults[0] : null;
             
             return {
@@ -1642,21 +2194,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let totalValue = 0;
       let totalCost = 0;
       const snapshotItems: any[] = [];
+      const prices = await getItemPrices(holdings.map(holding => holding.itemId));
 
       for (const holding of holdings) {
         let currentPrice = holding.lastValuedPrice || holding.avgBuyPrice;
         
-        try {
-          const priceData = await getItemPrice(holding.itemName);
-          if (priceData) {
-            currentPrice = priceData.price;
-            await storage.updatePortfolioHolding(holding.id, userId, {
-              lastValuedPrice: currentPrice,
-              lastValuedAt: new Date(),
-            });
-          }
-        } catch (e) {
-          console.warn(`Failed to get price for ${holding.itemName}`);
+        const priceData = prices.get(holding.itemId);
+        if (priceData) {
+          currentPrice = priceData.price;
+          await storage.updatePortfolioHolding(holding.id, userId, {
+            lastValuedPrice: currentPrice,
+            lastValuedAt: new Date(),
+          });
         }
 
         const value = currentPrice * holding.quantity;
@@ -1716,6 +2265,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const holdings = await storage.getPortfolioHoldings(userId);
       const categories = await storage.getPortfolioCategories(userId);
+      // Current catalog prices; holdings the catalog has no price for keep their last valuation
+      const prices = await getItemPrices(holdings.map(holding => holding.itemId));
+      const currentPriceOf = (holding: typeof holdings[0]) =>
+        prices.get(holding.itemId)?.price || holding.lastValuedPrice || holding.avgBuyPrice;
 
       let totalValue = 0;
       let totalCost = 0;
@@ -1725,7 +2278,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // First pass: calculate totals
       for (const holding of holdings) {
-        const currentPrice = holding.lastValuedPrice || holding.avgBuyPrice;
+        const currentPrice = currentPriceOf(holding);
         const value = currentPrice * holding.quantity;
         const cost = holding.avgBuyPrice * holding.quantity;
         totalValue += value;
@@ -1736,7 +2289,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Second pass: add allocation percentages
       for (const holding of holdings) {
-        const currentPrice = holding.lastValuedPrice || holding.avgBuyPrice;
+        const currentPrice = currentPriceOf(holding);
         const value = currentPrice * holding.quantity;
         const cost = holding.avgBuyPrice * holding.quantity;
         const allocation = totalValue > 0 ? (value / totalValue) * 100 : 0;
@@ -1808,27 +2361,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid item ID" });
       }
       
-      const range = req.query.range || 'week'; // day, week, month
-      const now = new Date();
-      let startDate: Date;
-      
-      switch (range) {
-        case 'day':
-          startDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-          break;
-        case 'month':
-          startDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-          break;
-        case 'week':
-        default:
-          startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-      }
-      
-      const daily = await storage.getItemVolumeDaily(itemId, startDate, now);
-      const weekly = await storage.getItemVolumeWeekly(itemId);
-      const monthly = await storage.getItemVolumeMonthly(itemId);
-      
-      res.json({ daily, weekly, monthly });
+      const range = req.query.range === "day" || req.query.range === "month" ? req.query.range : "week";
+      res.json(await getItemVolume(itemId, range));
     } catch (error) {
       res.status(500).json({ error: "Failed to fetch volume analytics" });
     }
@@ -1993,6 +2527,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Outbound GE request counters (requests, retries, deduplication, history cache hits)
+  app.get("/api/admin/ge-http", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      res.json(getGeHttpStats());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch GE request stats" });
+    }
+  });
+
   // Get all transactions (for admin review/LLM training data export)
   app.get("/api/admin/transactions", isAuthenticated, isAdmin, async (req: any, res) => {
     try {
@@ -2004,6 +2547,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Tax-exempt item registry. Anyone can read it (the client applies it to its own
+  // tax previews); only admins can change it.
+  app.get("/api/tax-exemptions", async (req, res) => {
+    try {
+      res.json(await storage.getTaxExemptItems());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tax-exempt items" });
+    }
+  });
+
+  // Reload the calculator's cache and re-tax recorded sells after a change
+  const applyTaxExemptionChange = async () => {
+    await loadTaxExemptions();
+    recomputeTransactionTax().catch(error => {
+      console.error("[FlipTax] Recompute failed:", error);
+    });
+  };
+
+  app.post("/api/admin/tax-exemptions", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const validatedItem = insertTaxExemptItemSchema.parse(req.body);
+      const existingItems = await storage.getTaxExemptItems();
+      if (existingItems.some(item => item.itemId === validatedItem.itemId && item.effectiveFrom.getTime() === validatedItem.effectiveFrom.getTime())) {
+        return res.status(409).json({ error: "This item is already exempt from that date" });
+      }
+      const newItem = await storage.createTaxExemptItem(validatedItem, req.user.claims.sub);
+      await applyTaxExemptionChange();
+      res.status(201).json(newItem);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid tax-exempt item" });
+      }
+      console.error("Error adding tax-exempt item:", error);
+      res.status(500).json({ error: "Failed to add tax-exempt item" });
+    }
+  });
+
+  app.delete("/api/admin/tax-exemptions/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteTaxExemptItem(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Tax-exempt item not found" });
+      }
+      await applyTaxExemptionChange();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete tax-exempt item" });
+    }
+  });
+
+  // Item search aliases. Anyone can read them; only admins can change them.
+  app.get("/api/item-aliases", async (req, res) => {
+    try {
+      res.json(await storage.getItemAliases());
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch item aliases" });
+    }
+  });
+
+  app.post("/api/admin/item-aliases", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const validatedAlias = insertItemAliasSchema.parse(req.body);
+      const existingAliases = await storage.getItemAliases();
+      if (existingAliases.some(alias => alias.alias === validatedAlias.alias)) {
+        return res.status(409).json({ error: "This alias already exists" });
+      }
+      const newAlias = await storage.createItemAlias(validatedAlias, req.user.claims.sub);
+      await loadItemAliases();
+      res.status(201).json(newAlias);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid item alias" });
+      }
+      console.error("Error adding item alias:", error);
+      res.status(500).json({ error: "Failed to add item alias" });
+    }
+  });
+
+  app.delete("/api/admin/item-aliases/:id", isAuthenticated, isAdmin, async (req: any, res) => {
+    try {
+      const deleted = await storage.deleteItemAlias(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Item alias not found" });
+      }
+      await loadItemAliases();
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete item alias" });
+    }
+  });
+
   // Backfill missing item IDs for flips
   app.post("/api/flips/backfill-item-ids", isAuthenticated, async (req: any, res) => {
     try {
@@ -2017,49 +2651,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let failed = 0;
       const errors: string[] = [];
       
-      // Process in batches with delay to avoid rate limiting
-      const BATCH_SIZE = 5;
-      const DELAY_MS = 500;
-      
-      for (let i = 0; i < flipsWithoutId.length; i += BATCH_SIZE) {
-        const batch = flipsWithoutId.slice(i, i + BATCH_SIZE);
-        
-        await Promise.all(batch.map(async (flip) => {
-          try {
-            const item = await getItemPrice(flip.itemName);
-            if (item && item.id) {
-              // Only update item metadata fields with defined values
-              // Build update object with only the fields that have values
-              const updateData: Record<string, unknown> = { itemId: item.id };
-              
-              if (item.icon !== undefined && item.icon !== null) {
-                updateData.itemIcon = item.icon;
-              }
-              if (item.isMembers !== undefined && item.isMembers !== null) {
-                updateData.isMembers = item.isMembers;
-              }
-              if (item.geLimit !== undefined && item.geLimit !== null) {
-                updateData.geLimit = item.geLimit;
-              }
-              
-              await storage.updateFlip(flip.id, userId, updateData as any);
-              updated++;
-            } else {
-              failed++;
-              errors.push(`Item not found: ${flip.itemName}`);
+      // The GE HTTP layer paces the lookups and shares repeated names
+      await Promise.all(flipsWithoutId.map(async (flip) => {
+        try {
+          const item = await getItemPrice(flip.itemName);
+          if (item && item.id) {
+            // Only update item metadata fields with defined values
+            // Build update object with only the fields that have values
+            const updateData: Record<string, unknown> = { itemId: item.id };
+            
+            if (item.icon !== undefined && item.icon !== null) {
+              updateData.itemIcon = item.icon;
             }
-          } catch (error) {
-            console.error(`[backfill] Failed to lookup item: ${flip.itemName}`, error);
+            if (item.isMembers !== undefined && item.isMembers !== null) {
+              updateData.isMembers = item.isMembers;
+            }
+            if (item.geLimit !== undefined && item.geLimit !== null) {
+              updateData.geLimit = item.geLimit;
+            }
+            
+            const sells = await storage.getFlipSells(flip.id);
+            await storage.updateFlip(flip.id, userId, updateData as any);
+            await recordFlipRevision(flip.id, userId, "update", await snapshotFlipState(flip, sells));
+            updated++;
+          } else {
             failed++;
-            errors.push(`Error for ${flip.itemName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            errors.push(`Item not found: ${flip.itemName}`);
           }
-        }));
-        
-        // Add delay between batches to avoid rate limiting
-        if (i + BATCH_SIZE < flipsWithoutId.length) {
-          await new Promise(resolve => setTimeout(resolve, DELAY_MS));
+        } catch (error) {
+          console.error(`[backfill] Failed to lookup item: ${flip.itemName}`, error);
+          failed++;
+          errors.push(`Error for ${flip.itemName}: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-      }
+      }));
       
       res.json({ 
         message: `Backfill complete`,
@@ -2165,6 +2789,273 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Strategy Tags API - per-user tags replacing the fixed strategy list
+  app.get("/api/tags", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const tags = await storage.getStrategyTags(userId);
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch tags" });
+    }
+  });
+
+  app.post("/api/tags", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedTag = insertStrategyTagSchema.parse(req.body);
+      const existingTags = await storage.getStrategyTags(userId);
+      if (existingTags.some(tag => tag.name.toLowerCase() === validatedTag.name.toLowerCase())) {
+        return res.status(409).json({ error: "A tag with this name already exists" });
+      }
+      const newTag = await storage.createStrategyTag(userId, validatedTag);
+      res.status(201).json(newTag);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid tag data" });
+    }
+  });
+
+  app.patch("/api/tags/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const updates = insertStrategyTagSchema.partial().parse(req.body);
+      if (updates.name) {
+        const existingTags = await storage.getStrategyTags(userId);
+        if (existingTags.some(tag => tag.id !== id && tag.name.toLowerCase() === updates.name!.toLowerCase())) {
+          return res.status(409).json({ error: "A tag with this name already exists" });
+        }
+      }
+      const updated = await storage.updateStrategyTag(id, userId, updates);
+      if (!updated) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid tag data" });
+    }
+  });
+
+  // Deleting a tag only unlinks it; the flips themselves are untouched
+  app.delete("/api/tags/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const success = await storage.deleteStrategyTag(id, userId);
+      if (!success) {
+        return res.status(404).json({ error: "Tag not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete tag" });
+    }
+  });
+
+  // GE Offers (slot tracker) API
+  app.get("/api/ge-offers", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const offers = await storage.getGeOffers(userId);
+      res.json(offers);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch GE offers" });
+    }
+  });
+
+  app.post("/api/ge-offers", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedOffer = insertGeOfferSchema.parse(req.body);
+      
+      if (validatedOffer.rsAccountId) {
+        const account = await storage.getRsAccount(validatedOffer.rsAccountId);
+        if (!account || account.userId !== userId) {
+          return res.status(404).json({ error: "RS account not found" });
+        }
+      }
+      
+      if (validatedOffer.flipId) {
+        const flip = await storage.getFlip(validatedOffer.flipId);
+        if (!flip || flip.userId !== userId || flip.deletedAt) {
+          return res.status(404).json({ error: "Flip not found" });
+        }
+      }
+      
+      // Each account only has GE_SLOT_COUNT slots, and a slot holds one active offer
+      const offers = await storage.getGeOffers(userId);
+      const slotTaken = offers.some(offer =>
+        isGeOfferActive(offer)
+        && offer.slot === validatedOffer.slot
+        && (offer.rsAccountId ?? null) === (validatedOffer.rsAccountId ?? null)
+      );
+      if (slotTaken) {
+        return res.status(409).json({ error: `Slot ${validatedOffer.slot} of ${GE_SLOT_COUNT} is already in use` });
+      }
+      
+      const newOffer = await storage.createGeOffer(userId, validatedOffer);
+      res.status(201).json(newOffer);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid GE offer data" });
+    }
+  });
+
+  // Update an offer's fill progress; filling it completely completes the offer
+  app.patch("/api/ge-offers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const offer = await storage.getGeOffer(id);
+      if (!offer || offer.userId !== userId) {
+        return res.status(404).json({ error: "GE offer not found" });
+      }
+      if (!isGeOfferActive(offer)) {
+        return res.status(400).json({ error: "GE offer is already finished" });
+      }
+      
+      const updates = updateGeOfferSchema.parse(req.body);
+      const filledQuantity = updates.filledQuantity ?? offer.filledQuantity;
+      if (filledQuantity > offer.quantity) {
+        return res.status(400).json({ error: "Filled quantity exceeds the offer quantity" });
+      }
+      
+      const status = geOfferStatusFor(filledQuantity, offer.quantity);
+      const updated = await storage.updateGeOffer(id, userId, {
+        ...updates,
+        status,
+        completedAt: status === "completed" ? new Date() : undefined,
+      });
+      if (!updated) {
+        return res.status(404).json({ error: "GE offer not found" });
+      }
+      
+      if (status !== "completed") {
+        return res.json({ ...updated, flips: [], unmatchedQuantity: 0, achievements: [] });
+      }
+      const { offer: settledOffer, ...result } = await settleGeOffer(updated);
+      res.json({ ...settledOffer, ...result });
+    } catch (error) {
+      res.status(400).json({ error: "Invalid GE offer data" });
+    }
+  });
+
+  // Abort an offer; whatever already filled still opens/closes flips
+  app.post("/api/ge-offers/:id/abort", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      
+      const offer = await storage.getGeOffer(id);
+      if (!offer || offer.userId !== userId) {
+        return res.status(404).json({ error: "GE offer not found" });
+      }
+      if (!isGeOfferActive(offer)) {
+        return res.status(400).json({ error: "GE offer is already finished" });
+      }
+      
+      const aborted = await storage.updateGeOffer(id, userId, {
+        status: "aborted",
+        completedAt: new Date(),
+      });
+      if (!aborted) {
+        return res.status(404).json({ error: "GE offer not found" });
+      }
+      
+      const { offer: settledOffer, ...result } = await settleGeOffer(aborted);
+      res.json({ ...settledOffer, ...result });
+    } catch (error) {
+      res.status(500).json({ error: "Failed to abort GE offer" });
+    }
+  });
+
+  app.delete("/api/ge-offers/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const { id } = req.params;
+      const userId = req.user.claims.sub;
+      const success = await storage.deleteGeOffer(id, userId);
+      if (!success) {
+        return res.status(404).json({ error: "GE offer not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete GE offer" });
+    }
+  });
+
+  // Margin checks - one unit insta-bought and insta-sold to learn the live spread
+  app.get("/api/margin-checks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsedQuery = marginCheckQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ error: "Invalid margin check query" });
+      }
+      const { itemId, limit } = parsedQuery.data;
+      res.json(await storage.getMarginChecks(userId, itemId, limit));
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch margin checks" });
+    }
+  });
+
+  app.post("/api/margin-checks", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedCheck = insertMarginCheckSchema.parse(req.body);
+
+      if (validatedCheck.rsAccountId) {
+        const account = await storage.getRsAccount(validatedCheck.rsAccountId);
+        if (!account || account.userId !== userId) {
+          return res.status(404).json({ error: "RS account not found" });
+        }
+      }
+
+      const newCheck = await storage.createMarginCheck(userId, validatedCheck);
+      res.status(201).json(newCheck);
+    } catch (error) {
+      res.status(400).json({ error: "Invalid margin check data" });
+    }
+  });
+
+  app.delete("/api/margin-checks/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const success = await storage.deleteMarginCheck(req.params.id, userId);
+      if (!success) {
+        return res.status(404).json({ error: "Margin check not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ error: "Failed to delete margin check" });
+    }
+  });
+
+  // GE buy limits - units bought per item per account in the rolling 4-hour window
+  app.get("/api/buy-limits", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limits = await getActiveBuyLimits(userId);
+      res.json(limits);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch buy limits" });
+    }
+  });
+
+  // A single item on one account; omit rsAccountId for flips logged without an account
+  app.get("/api/buy-limits/item", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsedQuery = buyLimitQuerySchema.safeParse(req.query);
+      if (!parsedQuery.success) {
+        return res.status(400).json({ error: "itemId or itemName is required" });
+      }
+      const { itemId, itemName, rsAccountId } = parsedQuery.data;
+      const status = await getBuyLimitStatus(userId, { itemId, itemName }, rsAccountId || null);
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to fetch buy limit" });
+    }
+  });
+
   // User Profile Update API
   app.patch("/api/user/profile", isAuthenticated, async (req: any, res) => {
     try {
@@ -2499,26 +3390,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const totalCost = runDetails.totalComponentCost || 0;
       const actualSellPrice = sellPrice || runDetails.targetSellPrice || 0;
+      const soldAt = sellDate ? new Date(sellDate) : new Date();
       
-      // Calculate profit (with tax)
-      const taxDetails = calculateFlipTax(actualSellPrice, totalCost, runDetails.recipe.outputQuantity);
-      const profit = taxDetails.profit;
+      // The components' cost is spread over the whole output
+      const { profit } = recipeRunLedger({
+        sellPrice: actualSellPrice,
+        outputQuantity: runDetails.recipe.outputQuantity,
+        totalComponentCost: totalCost,
+        itemId: runDetails.recipe.outputItemId,
+        startedAt: runDetails.startedAt,
+        soldAt,
+      });
       
-      // Create a flip record for stats
-      const flip = await storage.createFlip(userId, {
+      // Create a flip record for stats, sold in one fill like a flip logged with a sell price
+      const createdFlip = await storage.createFlip(userId, {
         itemName: runDetails.recipe.outputItemName,
         itemId: runDetails.recipe.outputItemId ?? undefined,
         itemIcon: runDetails.recipe.outputItemIcon ?? undefined,
         quantity: runDetails.recipe.outputQuantity,
         buyPrice: Math.floor(totalCost / runDetails.recipe.outputQuantity), // Average cost per item
-        sellPrice: actualSellPrice,
         buyDate: runDetails.startedAt || new Date(),
-        sellDate: sellDate ? new Date(sellDate) : new Date(),
-        strategyTag: "Other",
         membershipStatus: "Unknown",
         notes: `Crafted from recipe: ${runDetails.recipe.name}`,
         category: "Crafting",
       });
+      await recordBuyLeg(createdFlip);
+      const sell = await storage.createFlipSell(createdFlip.id, userId, {
+        quantity: createdFlip.quantity,
+        sellPrice: actualSellPrice,
+        sellDate: soldAt,
+      });
+      await recordSellFill(createdFlip, sell);
+      const flip = await syncFlipSellSummary(createdFlip);
+      await recordFlipRevision(flip.id, userId, "create", null);
       
       // Update run status
       await storage.updateRecipeRun(id, userId, {
@@ -1,6 +1,11 @@
-import { users, flips, watchlist, priceAlerts, favorites, profitGoals, portfolioCategories, portfolioHoldings, portfolioHoldingTransactions, portfolioSnapshots, portfolioSnapshotItems, flipTransactions, itemVolumeDaily, userSessions, rsAccounts, recipes, recipeComponents, recipeRuns, recipeRunComponents, type User, type UpsertUser, type Flip, type InsertFlip, type FlipWithUser, type WatchlistItem, type InsertWatchlistItem, type PriceAlert, type InsertPriceAlert, type Favorite, type InsertFavorite, type ProfitGoal, type InsertProfitGoal, type PortfolioCategory, type InsertPortfolioCategory, type PortfolioHolding, type InsertPortfolioHolding, type UpdatePortfolioHolding, type PortfolioSnapshot, type PortfolioSnapshotItem, type FlipTransaction, type ItemVolumeDaily, type UserSession, type RsAccount, type InsertRsAccount, type HoldingTransaction, type InsertHoldingTransaction, type Recipe, type InsertRecipe, type RecipeComponent, type InsertRecipeComponent, type RecipeRun, type InsertRecipeRun, type RecipeRunComponent, type InsertRecipeRunComponent, type RecipeWithComponents, type RecipeRunWithDetails } from "@shared/schema";
+import { users, flips, flipSells, watchlist, priceAlerts, favorites, profitGoals, portfolioCategories, portfolioHoldings, portfolioHoldingTransactions, portfolioSnapshots, portfolioSnapshotItems, flipTransactions, itemVolumeDaily, userSessions, rsAccounts, recipes, recipeComponents, recipeRuns, recipeRunComponents, geOffers, type User, type UpsertUser, type Flip, type InsertFlip, type FlipWithUser, type FlipWithSells, type FlipSell, type InsertFlipSell, type WatchlistItem, type InsertWatchlistItem, type PriceAlert, type InsertPriceAlert, type Favorite, type InsertFavorite, type ProfitGoal, type InsertProfitGoal, type PortfolioCategory, type InsertPortfolioCategory, type PortfolioHolding, type InsertPortfolioHolding, type UpdatePortfolioHolding, type PortfolioSnapshot, type PortfolioSnapshotItem, type FlipTransaction, type ItemVolumeDaily, type UserSession, type RsAccount, type InsertRsAccount, type HoldingTransaction, type InsertHoldingTransaction, type Recipe, type InsertRecipe, type RecipeComponent, type InsertRecipeComponent, type RecipeRun, type InsertRecipeRun, type RecipeRunComponent, type InsertRecipeRunComponent, type RecipeWithComponents, type RecipeRunWithDetails, type GeOffer, type InsertGeOffer, type FlipRevision, type InsertFlipRevision, flipRevisions, strategyTags, flipTags, type StrategyTag, type InsertStrategyTag, type FlipWithTags, taxExemptItems, type TaxExemptItem, type InsertTaxExemptItem, itemAliases, type ItemAlias, type InsertItemAlias, marginChecks, type MarginCheck, type InsertMarginCheck, geItems, type GeItem, type InsertGeItem, systemState } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, isNull, sql, gte, lte, inArray } from "drizzle-orm";
+import { eq, asc, desc, and, or, isNull, isNotNull, lt, sql, gte, lte, inArray, ilike, type SQL } from "drizzle-orm";
+import { paginateFlips, decodeFlipCursor, encodeFlipCursor, type FlipQuery, type FlipPage } from "@shared/flipQuery";
+import { fillTotalsSql, flipSummarySql } from "./flip-summary-sql";
+import { flipFieldsFromSnapshot, type FlipSnapshot } from "@shared/flipRevisions";
+import type { FlipImportEntry } from "@shared/flipImport";
+import type { FlipStatus } from "@shared/flipStatus";
 import { randomUUID } from "crypto";
 
 export interface IStorage {
@@ -10,12 +15,69 @@ export interface IStorage {
   
   createFlip(userId: string, flip: InsertFlip): Promise<Flip>;
   getFlips(userId: string): Promise<Flip[]>;
+  // Flips bought at or after since, for the GE buy-limit window
+  getFlipsBoughtSince(userId: string, since: Date): Promise<Flip[]>;
   getAllFlips(): Promise<FlipWithUser[]>;
   getFlip(id: string): Promise<Flip | undefined>;
   updateFlip(id: string, userId: string, flip: Partial<InsertFlip>, skipOwnerCheck?: boolean): Promise<Flip | undefined>;
+  // Permanent delete - also removes the flip's fills, revisions and flipTransactions rows
   deleteFlip(id: string, userId: string): Promise<boolean>;
   softDeleteFlip(id: string, userId: string): Promise<Flip | undefined>;
   restoreFlip(id: string, userId: string): Promise<Flip | undefined>;
+  // Trash: soft-deleted flips, most recently deleted first
+  getDeletedFlips(userId: string): Promise<Flip[]>;
+  // Soft-deleted flips of every user deleted before the cutoff (retention purge)
+  getExpiredDeletedFlips(deletedBefore: Date): Promise<Flip[]>;
+  // Link a flip to the portfolio holding it was moved into (null moves it back to the flips)
+  setFlipPortfolioHolding(id: string, userId: string, holdingId: string | null): Promise<Flip | undefined>;
+  // Filtered, sorted, cursor-paginated flips with their sell fills; userId null = all users (admin)
+  queryFlips(userId: string | null, query: FlipQuery, includeUser?: boolean): Promise<FlipPage<FlipWithUser & FlipWithSells & FlipWithTags>>;
+  
+  // Strategy tags (per user) and the tags each flip carries
+  getStrategyTags(userId: string): Promise<StrategyTag[]>;
+  createStrategyTag(userId: string, tag: InsertStrategyTag): Promise<StrategyTag>;
+  updateStrategyTag(id: string, userId: string, tag: Partial<InsertStrategyTag>): Promise<StrategyTag | undefined>;
+  deleteStrategyTag(id: string, userId: string): Promise<boolean>;
+  getFlipTagsForFlips(flipIds: string[]): Promise<{ flipId: string; tag: StrategyTag }[]>;
+  setFlipTags(flipId: string, tagIds: string[]): Promise<void>;
+  // Flips still carrying the old single strategyTag value, for the tag migration
+  getFlipsWithLegacyStrategyTag(): Promise<Flip[]>;
+  clearLegacyStrategyTag(flipId: string): Promise<void>;
+  
+  // Flip sell fills (partial sells)
+  getFlipSells(flipId: string): Promise<FlipSell[]>;
+  getFlipSellsForFlips(flipIds: string[]): Promise<FlipSell[]>;
+  createFlipSell(flipId: string, userId: string, sell: InsertFlipSell): Promise<FlipSell>;
+  updateFlipSell(id: string, flipId: string, sell: Partial<InsertFlipSell>): Promise<FlipSell | undefined>;
+  // Also removes the fill's sell transaction
+  deleteFlipSell(id: string, flipId: string): Promise<boolean>;
+  setFlipSellSummary(flipId: string, sellPrice: number | null, sellDate: Date | null, status: FlipStatus): Promise<Flip | undefined>;
+  // Bulk import: every entry is written or none is
+  importFlips(userId: string, entries: FlipImportEntry[]): Promise<FlipWithSells[]>;
+  // Cancel/write off a flip (closedAt set) or reopen it (closedAt null)
+  setFlipStatus(flipId: string, status: FlipStatus, closedAt: Date | null): Promise<Flip | undefined>;
+  // Flips still marked open although they have sells, e.g. logged before statuses existed
+  getFlipsWithStaleOpenStatus(): Promise<Flip[]>;
+  
+  // Flip revisions (audit trail), newest first
+  getFlipRevisions(flipId: string): Promise<FlipRevision[]>;
+  getFlipRevision(id: string, flipId: string): Promise<FlipRevision | undefined>;
+  createFlipRevision(revision: InsertFlipRevision): Promise<FlipRevision>;
+  // Overwrite a flip's fields (not its fills or deletedAt) with a revision snapshot
+  applyFlipSnapshot(flipId: string, snapshot: FlipSnapshot): Promise<Flip | undefined>;
+  
+  // GE offers (slot tracker)
+  getGeOffers(userId: string): Promise<GeOffer[]>;
+  getGeOffer(id: string): Promise<GeOffer | undefined>;
+  createGeOffer(userId: string, offer: InsertGeOffer): Promise<GeOffer>;
+  updateGeOffer(id: string, userId: string, offer: Partial<{ status: GeOffer["status"]; filledQuantity: number; limitPrice: number; flipId: string; completedAt: Date }>): Promise<GeOffer | undefined>;
+  deleteGeOffer(id: string, userId: string): Promise<boolean>;
+  
+  // Margin checks, newest first; optionally for one item
+  getMarginChecks(userId: string, itemId?: number, limit?: number): Promise<MarginCheck[]>;
+  getLatestMarginCheck(userId: string, itemId: number): Promise<MarginCheck | undefined>;
+  createMarginCheck(userId: string, check: InsertMarginCheck): Promise<MarginCheck>;
+  deleteMarginCheck(id: string, userId: string): Promise<boolean>;
   
   createWatchlistItem(userId: string, item: InsertWatchlistItem): Promise<WatchlistItem>;
   getWatchlist(userId: string): Promise<WatchlistItem[]>;
@@ -52,9 +114,11 @@ export interface IStorage {
   deletePortfolioHolding(id: string, userId: string): Promise<boolean>;
   
   // Portfolio Holding Transactions
-  createHoldingTransaction(userId: string, tx: InsertHoldingTransaction): Promise<HoldingTransaction>;
+  createHoldingTransaction(userId: string, tx: InsertHoldingTransaction, flipId?: string): Promise<HoldingTransaction>;
   getHoldingTransactions(holdingId: string, userId: string): Promise<HoldingTransaction[]>;
   getHoldingTransaction(id: string): Promise<HoldingTransaction | undefined>;
+  // The buy a flip was moved into its holding with
+  getHoldingTransactionForFlip(flipId: string): Promise<HoldingTransaction | undefined>;
   deleteHoldingTransaction(id: string, userId: string): Promise<boolean>;
   
   // Portfolio Snapshots
@@ -66,6 +130,7 @@ export interface IStorage {
   // Transaction Recording (for LLM training)
   recordTransaction(tx: {
     flipId?: string;
+    sellId?: string;
     userId: string;
     itemId: number;
     itemName: string;
@@ -77,13 +142,37 @@ export interface IStorage {
     transactionDate: Date;
   }): Promise<FlipTransaction>;
   getTransactionsByItem(itemId: number, limit?: number): Promise<FlipTransaction[]>;
+  getTransactionsByUser(userId: string): Promise<FlipTransaction[]>;
   getAllTransactions(limit?: number): Promise<FlipTransaction[]>;
+  setTransactionTaxPaid(id: string, taxPaid: number): Promise<void>;
+  // The sell transaction recording a fill follows the fill's edits
+  updateSellTransaction(sellId: string, tx: { price: number; quantity: number; taxPaid: number; transactionDate: Date }): Promise<void>;
+  linkTransactionToSell(id: string, sellId: string): Promise<void>;
+
+  // System state markers
+  getSystemState(key: string): Promise<string | undefined>;
+  setSystemState(key: string, value: string): Promise<void>;
+
+  // Tax-exempt item registry (admin managed)
+  getTaxExemptItems(): Promise<TaxExemptItem[]>;
+  createTaxExemptItem(item: InsertTaxExemptItem, createdBy: string | null): Promise<TaxExemptItem>;
+  deleteTaxExemptItem(id: string): Promise<boolean>;
+
+  // Item search aliases (admin managed) and flip counts for search ranking
+  getItemAliases(): Promise<ItemAlias[]>;
+  createItemAlias(alias: InsertItemAlias, createdBy: string | null): Promise<ItemAlias>;
+  deleteItemAlias(id: string): Promise<boolean>;
+  getFlipCountsByItem(userId?: string): Promise<{ itemId: number; count: number }[]>;
   
   // Volume Metrics
   updateItemVolume(itemId: number, itemName: string, date: Date, txType: 'buy' | 'sell', price: number, quantity: number): Promise<void>;
   getItemVolumeDaily(itemId: number, startDate: Date, endDate: Date): Promise<ItemVolumeDaily[]>;
   getItemVolumeWeekly(itemId: number): Promise<{ week: string; transactionCount: number; totalQuantity: number; totalValue: number }[]>;
   getItemVolumeMonthly(itemId: number): Promise<{ month: string; transactionCount: number; totalQuantity: number; totalValue: number }[]>;
+
+  // GE item catalog
+  getGeItems(): Promise<GeItem[]>;
+  upsertGeItems(items: InsertGeItem[]): Promise<void>;
   
   // User Presence & Admin
   updateUserHeartbeat(userId: string): Promise<void>;
@@ -136,6 +225,12 @@ export interface IStorage {
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private flips: Map<string, Flip> = new Map();
+  private flipSellFills: Map<string, FlipSell> = new Map();
+  private flipRevisionLog: Map<string, FlipRevision> = new Map();
+  private strategyTagStore: Map<string, StrategyTag> = new Map();
+  private flipTagLinks: Map<string, { flipId: string; tagId: string }> = new Map(); // keyed flipId:tagId
+  private geOfferSlots: Map<string, GeOffer> = new Map();
+  private marginCheckLog: Map<string, MarginCheck> = new Map();
   private watchlistItems: Map<string, WatchlistItem> = new Map();
   private alerts: Map<string, PriceAlert> = new Map();
   private favoriteItems: Map<string, Favorite> = new Map();
@@ -204,11 +299,15 @@ export class MemStorage implements IStorage {
       sellDate: flip.sellDate ?? null,
       notes: flip.notes ?? null,
       category: flip.category ?? null,
-      strategyTag: flip.strategyTag ?? "Other",
+      strategyTag: null,
       membershipStatus: flip.membershipStatus ?? "Unknown",
       isMembers: flip.isMembers ?? null,
       geLimit: flip.geLimit ?? null,
+      status: "open",
+      closedAt: null,
       deletedAt: null,
+      portfolioHoldingId: null,
+      movedToPortfolioAt: null,
     };
     this.flips.set(id, newFlip);
     return newFlip;
@@ -216,13 +315,20 @@ export class MemStorage implements IStorage {
 
   async getFlips(userId: string): Promise<Flip[]> {
     return Array.from(this.flips.values())
-      .filter(f => f.userId === userId && f.deletedAt === null)
+      .filter(f => f.userId === userId && f.deletedAt === null && f.movedToPortfolioAt === null)
+      .sort((a, b) => new Date(b.buyDate).getTime() - new Date(a.buyDate).getTime());
+  }
+
+  // Flips moved to the portfolio were still bought, so they keep counting here
+  async getFlipsBoughtSince(userId: string, since: Date): Promise<Flip[]> {
+    return Array.from(this.flips.values())
+      .filter(f => f.userId === userId && f.deletedAt === null && new Date(f.buyDate).getTime() >= since.getTime())
       .sort((a, b) => new Date(b.buyDate).getTime() - new Date(a.buyDate).getTime());
   }
 
   async getAllFlips(): Promise<FlipWithUser[]> {
     const allFlips = Array.from(this.flips.values())
-      .filter(f => f.deletedAt === null)
+      .filter(f => f.deletedAt === null && f.movedToPortfolioAt === null)
       .sort((a, b) => new Date(b.buyDate).getTime() - new Date(a.buyDate).getTime());
     
     return allFlips.map(flip => {
@@ -243,6 +349,97 @@ export class MemStorage implements IStorage {
     return this.flips.get(id);
   }
 
+  async queryFlips(userId: string | null, query: FlipQuery, includeUser: boolean = userId === null): Promise<FlipPage<FlipWithUser & FlipWithSells & FlipWithTags>> {
+    const source = userId ? await this.getFlips(userId) : await this.getAllFlips();
+    const sells = await this.getFlipSellsForFlips(source.map(f => f.id));
+    const tagLinks = await this.getFlipTagsForFlips(source.map(f => f.id));
+    const withSells = source.map(flip => {
+      const user = this.users.get(flip.userId);
+      return {
+        ...flip,
+        user: includeUser && user ? {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+        } : undefined,
+        sells: sells.filter(s => s.flipId === flip.id),
+        tags: tagLinks.filter(link => link.flipId === flip.id).map(link => link.tag),
+      };
+    });
+    return paginateFlips(withSells, query);
+  }
+
+  async getStrategyTags(userId: string): Promise<StrategyTag[]> {
+    return Array.from(this.strategyTagStore.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createStrategyTag(userId: string, tag: InsertStrategyTag): Promise<StrategyTag> {
+    const id = randomUUID();
+    const newTag: StrategyTag = {
+      id,
+      userId,
+      name: tag.name,
+      color: tag.color,
+      description: tag.description ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.strategyTagStore.set(id, newTag);
+    return newTag;
+  }
+
+  async updateStrategyTag(id: string, userId: string, tag: Partial<InsertStrategyTag>): Promise<StrategyTag | undefined> {
+    const existing = this.strategyTagStore.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: StrategyTag = {
+      ...existing,
+      name: tag.name ?? existing.name,
+      color: tag.color ?? existing.color,
+      description: tag.description ?? existing.description,
+      updatedAt: new Date(),
+    };
+    this.strategyTagStore.set(id, updated);
+    return updated;
+  }
+
+  async deleteStrategyTag(id: string, userId: string): Promise<boolean> {
+    const existing = this.strategyTagStore.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    Array.from(this.flipTagLinks.entries())
+      .filter(([, link]) => link.tagId === id)
+      .forEach(([key]) => this.flipTagLinks.delete(key));
+    return this.strategyTagStore.delete(id);
+  }
+
+  async getFlipTagsForFlips(flipIds: string[]): Promise<{ flipId: string; tag: StrategyTag }[]> {
+    const ids = new Set(flipIds);
+    return Array.from(this.flipTagLinks.values())
+      .filter(link => ids.has(link.flipId) && this.strategyTagStore.has(link.tagId))
+      .map(link => ({ flipId: link.flipId, tag: this.strategyTagStore.get(link.tagId)! }))
+      .sort((a, b) => a.tag.name.localeCompare(b.tag.name));
+  }
+
+  async setFlipTags(flipId: string, tagIds: string[]): Promise<void> {
+    Array.from(this.flipTagLinks.entries())
+      .filter(([, link]) => link.flipId === flipId)
+      .forEach(([key]) => this.flipTagLinks.delete(key));
+    for (const tagId of tagIds) {
+      this.flipTagLinks.set(`${flipId}:${tagId}`, { flipId, tagId });
+    }
+  }
+
+  async getFlipsWithLegacyStrategyTag(): Promise<Flip[]> {
+    return Array.from(this.flips.values()).filter(f => f.strategyTag);
+  }
+
+  async clearLegacyStrategyTag(flipId: string): Promise<void> {
+    const existing = this.flips.get(flipId);
+    if (existing) this.flips.set(flipId, { ...existing, strategyTag: null });
+  }
+
   async updateFlip(id: string, userId: string, flipUpdate: Partial<InsertFlip>, skipOwnerCheck?: boolean): Promise<Flip | undefined> {
     const existing = this.flips.get(id);
     if (!existing) return undefined;
@@ -261,6 +458,18 @@ export class MemStorage implements IStorage {
   async deleteFlip(id: string, userId: string): Promise<boolean> {
     const existing = this.flips.get(id);
     if (!existing || existing.userId !== userId) return false;
+    Array.from(this.flipSellFills.values())
+      .filter(s => s.flipId === id)
+      .forEach(s => this.flipSellFills.delete(s.id));
+    Array.from(this.flipRevisionLog.values())
+      .filter(r => r.flipId === id)
+      .forEach(r => this.flipRevisionLog.delete(r.id));
+    Array.from(this.transactions.values())
+      .filter(t => t.flipId === id)
+      .forEach(t => this.transactions.delete(t.id));
+    Array.from(this.flipTagLinks.entries())
+      .filter(([, link]) => link.flipId === id)
+      .forEach(([key]) => this.flipTagLinks.delete(key));
     return this.flips.delete(id);
   }
 
@@ -280,6 +489,236 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getDeletedFlips(userId: string): Promise<Flip[]> {
+    return Array.from(this.flips.values())
+      .filter(f => f.userId === userId && f.deletedAt !== null)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+  }
+
+  async getExpiredDeletedFlips(deletedBefore: Date): Promise<Flip[]> {
+    return Array.from(this.flips.values())
+      .filter(f => f.deletedAt !== null && new Date(f.deletedAt) < deletedBefore);
+  }
+
+  async setFlipPortfolioHolding(id: string, userId: string, holdingId: string | null): Promise<Flip | undefined> {
+    const existing = this.flips.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: Flip = { ...existing, portfolioHoldingId: holdingId, movedToPortfolioAt: holdingId ? new Date() : null };
+    this.flips.set(id, updated);
+    return updated;
+  }
+
+  async getFlipSells(flipId: string): Promise<FlipSell[]> {
+    return Array.from(this.flipSellFills.values())
+      .filter(s => s.flipId === flipId)
+      .sort((a, b) => new Date(a.sellDate).getTime() - new Date(b.sellDate).getTime());
+  }
+
+  async getFlipSellsForFlips(flipIds: string[]): Promise<FlipSell[]> {
+    const ids = new Set(flipIds);
+    return Array.from(this.flipSellFills.values())
+      .filter(s => ids.has(s.flipId))
+      .sort((a, b) => new Date(a.sellDate).getTime() - new Date(b.sellDate).getTime());
+  }
+
+  async createFlipSell(flipId: string, userId: string, sell: InsertFlipSell): Promise<FlipSell> {
+    const id = randomUUID();
+    const newSell: FlipSell = {
+      id,
+      flipId,
+      userId,
+      quantity: sell.quantity,
+      sellPrice: sell.sellPrice,
+      sellDate: sell.sellDate,
+      createdAt: new Date(),
+    };
+    this.flipSellFills.set(id, newSell);
+    return newSell;
+  }
+
+  async updateFlipSell(id: string, flipId: string, sell: Partial<InsertFlipSell>): Promise<FlipSell | undefined> {
+    const existing = this.flipSellFills.get(id);
+    if (!existing || existing.flipId !== flipId) return undefined;
+    const updated: FlipSell = {
+      ...existing,
+      quantity: sell.quantity ?? existing.quantity,
+      sellPrice: sell.sellPrice ?? existing.sellPrice,
+      sellDate: sell.sellDate ?? existing.sellDate,
+    };
+    this.flipSellFills.set(id, updated);
+    return updated;
+  }
+
+  async deleteFlipSell(id: string, flipId: string): Promise<boolean> {
+    const existing = this.flipSellFills.get(id);
+    if (!existing || existing.flipId !== flipId) return false;
+    Array.from(this.transactions.values())
+      .filter(t => t.sellId === id)
+      .forEach(t => this.transactions.delete(t.id));
+    return this.flipSellFills.delete(id);
+  }
+
+  async setFlipSellSummary(flipId: string, sellPrice: number | null, sellDate: Date | null, status: FlipStatus): Promise<Flip | undefined> {
+    const existing = this.flips.get(flipId);
+    if (!existing) return undefined;
+    const updated: Flip = { ...existing, sellPrice, sellDate, status };
+    this.flips.set(flipId, updated);
+    return updated;
+  }
+
+  async importFlips(userId: string, entries: FlipImportEntry[]): Promise<FlipWithSells[]> {
+    const imported: FlipWithSells[] = [];
+    for (const entry of entries) {
+      const created = await this.createFlip(userId, entry.flip);
+      const flip: Flip = { ...created, status: entry.status };
+      this.flips.set(flip.id, flip);
+      await this.setFlipTags(flip.id, entry.tagIds);
+      const sells = entry.sell ? [await this.createFlipSell(flip.id, userId, entry.sell)] : [];
+      for (const transaction of entry.transactions) {
+        const sellId = transaction.transactionType === "sell" ? sells[0]?.id : undefined;
+        await this.recordTransaction({ ...transaction, flipId: flip.id, sellId, userId });
+      }
+      imported.push({ ...flip, sells });
+    }
+    return imported;
+  }
+
+  async setFlipStatus(flipId: string, status: FlipStatus, closedAt: Date | null): Promise<Flip | undefined> {
+    const existing = this.flips.get(flipId);
+    if (!existing) return undefined;
+    const updated: Flip = { ...existing, status, closedAt };
+    this.flips.set(flipId, updated);
+    return updated;
+  }
+
+  async getFlipsWithStaleOpenStatus(): Promise<Flip[]> {
+    const flipIdsWithSells = new Set(Array.from(this.flipSellFills.values()).map(sell => sell.flipId));
+    return Array.from(this.flips.values())
+      .filter(f => f.status === "open" && (f.sellPrice !== null || flipIdsWithSells.has(f.id)));
+  }
+
+  async getFlipRevisions(flipId: string): Promise<FlipRevision[]> {
+    return Array.from(this.flipRevisionLog.values())
+      .filter(r => r.flipId === flipId)
+      .sort((a, b) => new Date(b.createdAt!).getTime() - new Date(a.createdAt!).getTime());
+  }
+
+  async getFlipRevision(id: string, flipId: string): Promise<FlipRevision | undefined> {
+    const revision = this.flipRevisionLog.get(id);
+    return revision && revision.flipId === flipId ? revision : undefined;
+  }
+
+  async createFlipRevision(revision: InsertFlipRevision): Promise<FlipRevision> {
+    const id = randomUUID();
+    const newRevision: FlipRevision = {
+      ...revision,
+      id,
+      revertedFromId: revision.revertedFromId ?? null,
+      createdAt: new Date(),
+    };
+    this.flipRevisionLog.set(id, newRevision);
+    return newRevision;
+  }
+
+  async applyFlipSnapshot(flipId: string, snapshot: FlipSnapshot): Promise<Flip | undefined> {
+    const existing = this.flips.get(flipId);
+    if (!existing) return undefined;
+    const updated: Flip = { ...existing, ...flipFieldsFromSnapshot(snapshot) };
+    this.flips.set(flipId, updated);
+    return updated;
+  }
+
+  async getGeOffers(userId: string): Promise<GeOffer[]> {
+    return Array.from(this.geOfferSlots.values())
+      .filter(o => o.userId === userId)
+      .sort((a, b) => new Date(b.placedAt!).getTime() - new Date(a.placedAt!).getTime());
+  }
+
+  async getGeOffer(id: string): Promise<GeOffer | undefined> {
+    return this.geOfferSlots.get(id);
+  }
+
+  async createGeOffer(userId: string, offer: InsertGeOffer): Promise<GeOffer> {
+    const id = randomUUID();
+    const newOffer: GeOffer = {
+      id,
+      userId,
+      rsAccountId: offer.rsAccountId ?? null,
+      slot: offer.slot,
+      offerType: offer.offerType,
+      status: "placed",
+      itemName: offer.itemName,
+      itemIcon: offer.itemIcon ?? null,
+      itemId: offer.itemId ?? null,
+      limitPrice: offer.limitPrice,
+      quantity: offer.quantity,
+      filledQuantity: 0,
+      flipId: offer.flipId ?? null,
+      placedAt: new Date(),
+      updatedAt: new Date(),
+      completedAt: null,
+    };
+    this.geOfferSlots.set(id, newOffer);
+    return newOffer;
+  }
+
+  async updateGeOffer(id: string, userId: string, offer: Partial<{ status: GeOffer["status"]; filledQuantity: number; limitPrice: number; flipId: string; completedAt: Date }>): Promise<GeOffer | undefined> {
+    const existing = this.geOfferSlots.get(id);
+    if (!existing || existing.userId !== userId) return undefined;
+    const updated: GeOffer = {
+      ...existing,
+      status: offer.status ?? existing.status,
+      filledQuantity: offer.filledQuantity ?? existing.filledQuantity,
+      limitPrice: offer.limitPrice ?? existing.limitPrice,
+      flipId: offer.flipId ?? existing.flipId,
+      completedAt: offer.completedAt ?? existing.completedAt,
+      updatedAt: new Date(),
+    };
+    this.geOfferSlots.set(id, updated);
+    return updated;
+  }
+
+  async deleteGeOffer(id: string, userId: string): Promise<boolean> {
+    const existing = this.geOfferSlots.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    return this.geOfferSlots.delete(id);
+  }
+
+  async getMarginChecks(userId: string, itemId?: number, limit?: number): Promise<MarginCheck[]> {
+    const checks = Array.from(this.marginCheckLog.values())
+      .filter(c => c.userId === userId && (itemId === undefined || c.itemId === itemId))
+      .sort((a, b) => b.checkedAt.getTime() - a.checkedAt.getTime());
+    return limit ? checks.slice(0, limit) : checks;
+  }
+
+  async getLatestMarginCheck(userId: string, itemId: number): Promise<MarginCheck | undefined> {
+    const [latest] = await this.getMarginChecks(userId, itemId, 1);
+    return latest;
+  }
+
+  async createMarginCheck(userId: string, check: InsertMarginCheck): Promise<MarginCheck> {
+    const id = randomUUID();
+    const newCheck: MarginCheck = {
+      id,
+      userId,
+      rsAccountId: check.rsAccountId ?? null,
+      itemId: check.itemId,
+      itemName: check.itemName,
+      instaBuyPrice: check.instaBuyPrice,
+      instaSellPrice: check.instaSellPrice,
+      checkedAt: check.checkedAt ?? new Date(),
+      createdAt: new Date(),
+    };
+    this.marginCheckLog.set(id, newCheck);
+    return newCheck;
+  }
+
+  async deleteMarginCheck(id: string, userId: string): Promise<boolean> {
+    const existing = this.marginCheckLog.get(id);
+    if (!existing || existing.userId !== userId) return false;
+    return this.marginCheckLog.delete(id);
+  }
+
   async createWatchlistItem(userId: string, item: InsertWatchlistItem): Promise<WatchlistItem> {
     const id = randomUUID();
     const newItem: WatchlistItem = {
@@ -513,7 +952,7 @@ export class MemStorage implements IStorage {
   // Portfolio Holding Transactions
   private holdingTxs: Map<string, HoldingTransaction> = new Map();
 
-  async createHoldingTransaction(userId: string, tx: InsertHoldingTransaction): Promise<HoldingTransaction> {
+  async createHoldingTransaction(userId: string, tx: InsertHoldingTransaction, flipId?: string): Promise<HoldingTransaction> {
     const id = randomUUID();
     const totalValue = tx.pricePerUnit * tx.quantity;
     const newTx: HoldingTransaction = {
@@ -527,6 +966,7 @@ export class MemStorage implements IStorage {
       fees: tx.fees ?? 0,
       profitLoss: null,
       notes: tx.notes ?? null,
+      flipId: flipId ?? null,
       transactionDate: tx.transactionDate,
       createdAt: new Date(),
     };
@@ -544,6 +984,10 @@ export class MemStorage implements IStorage {
     return this.holdingTxs.get(id);
   }
 
+  async getHoldingTransactionForFlip(flipId: string): Promise<HoldingTransaction | undefined> {
+    return Array.from(this.holdingTxs.values()).find(tx => tx.flipId === flipId);
+  }
+
   async deleteHoldingTransaction(id: string, userId: string): Promise<boolean> {
     const existing = this.holdingTxs.get(id);
     if (!existing || existing.userId !== userId) return false;
@@ -593,6 +1037,7 @@ export class MemStorage implements IStorage {
 
   async recordTransaction(tx: {
     flipId?: string;
+    sellId?: string;
     userId: string;
     itemId: number;
     itemName: string;
@@ -608,6 +1053,7 @@ export class MemStorage implements IStorage {
     const record: FlipTransaction = {
       id,
       flipId: tx.flipId ?? null,
+      sellId: tx.sellId ?? null,
       userId: tx.userId,
       itemId: tx.itemId,
       itemName: tx.itemName,
@@ -631,12 +1077,88 @@ export class MemStorage implements IStorage {
     return limit ? txs.slice(0, limit) : txs;
   }
 
+  async getTransactionsByUser(userId: string): Promise<FlipTransaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(t => t.userId === userId)
+      .sort((a, b) => new Date(b.transactionDate).getTime() - new Date(a.transactionDate).getTime());
+  }
+
   async getAllTransactions(limit?: number): Promise<FlipTransaction[]> {
     const txs = Array.from(this.transactions.values())
       .sort((a, b) => new Date(b.transactionDate).getTime() - new Date(a.transactionDate).getTime());
     return limit ? txs.slice(0, limit) : txs;
   }
 
+  async setTransactionTaxPaid(id: string, taxPaid: number): Promise<void> {
+    const existing = this.transactions.get(id);
+    if (existing) existing.taxPaid = taxPaid;
+  }
+
+  async updateSellTransaction(sellId: string, tx: { price: number; quantity: number; taxPaid: number; transactionDate: Date }): Promise<void> {
+    Array.from(this.transactions.values())
+      .filter(t => t.sellId === sellId)
+      .forEach(t => this.transactions.set(t.id, { ...t, ...tx, totalValue: tx.price * tx.quantity }));
+  }
+
+  async linkTransactionToSell(id: string, sellId: string): Promise<void> {
+    const existing = this.transactions.get(id);
+    if (existing) existing.sellId = sellId;
+  }
+
+  private systemStateStore: Map<string, string> = new Map();
+
+  async getSystemState(key: string): Promise<string | undefined> {
+    return this.systemStateStore.get(key);
+  }
+
+  async setSystemState(key: string, value: string): Promise<void> {
+    this.systemStateStore.set(key, value);
+  }
+
+  private taxExemptItemStore: Map<string, TaxExemptItem> = new Map();
+
+  async getTaxExemptItems(): Promise<TaxExemptItem[]> {
+    return Array.from(this.taxExemptItemStore.values())
+      .sort((a, b) => a.itemName.localeCompare(b.itemName) || a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  }
+
+  async createTaxExemptItem(item: InsertTaxExemptItem, createdBy: string | null): Promise<TaxExemptItem> {
+    const id = randomUUID();
+    const newItem: TaxExemptItem = { ...item, id, createdBy, createdAt: new Date() };
+    this.taxExemptItemStore.set(id, newItem);
+    return newItem;
+  }
+
+  async deleteTaxExemptItem(id: string): Promise<boolean> {
+    return this.taxExemptItemStore.delete(id);
+  }
+
+  private itemAliasStore: Map<string, ItemAlias> = new Map();
+
+  async getItemAliases(): Promise<ItemAlias[]> {
+    return Array.from(this.itemAliasStore.values()).sort((a, b) => a.alias.localeCompare(b.alias));
+  }
+
+  async createItemAlias(alias: InsertItemAlias, createdBy: string | null): Promise<ItemAlias> {
+    const id = randomUUID();
+    const newAlias: ItemAlias = { ...alias, id, createdBy, createdAt: new Date() };
+    this.itemAliasStore.set(id, newAlias);
+    return newAlias;
+  }
+
+  async deleteItemAlias(id: string): Promise<boolean> {
+    return this.itemAliasStore.delete(id);
+  }
+
+  async getFlipCountsByItem(userId?: string): Promise<{ itemId: number; count: number }[]> {
+    const counts = new Map<number, number>();
+    for (const flip of Array.from(this.flips.values())) {
+      if (flip.itemId === null || flip.deletedAt !== null || (userId && flip.userId !== userId)) continue;
+      counts.set(flip.itemId, (counts.get(flip.itemId) ?? 0) + 1);
+    }
+    return Array.from(counts.entries()).map(([itemId, count]) => ({ itemId, count }));
+  }
+
   async updateItemVolume(itemId: number, itemName: string, date: Date, txType: 'buy' | 'sell', price: number, quantity: number): Promise<void> {
     const dateKey = date.toISOString().split('T')[0];
     const key = `${itemId}-${dateKey}`;
@@ -687,6 +1209,27 @@ export class MemStorage implements IStorage {
     return [];
   }
 
+  private geItemStore: Map<number, GeItem> = new Map();
+
+  async getGeItems(): Promise<GeItem[]> {
+    return Array.from(this.geItemStore.values());
+  }
+
+  async upsertGeItems(items: InsertGeItem[]): Promise<void> {
+    for (const item of items) {
+      this.geItemStore.set(item.id, {
+        id: item.id,
+        name: item.name,
+        members: item.members ?? null,
+        buyLimit: item.buyLimit ?? null,
+        examine: item.examine ?? null,
+        price: item.price ?? null,
+        volume: item.volume ?? null,
+        updatedAt: new Date(),
+      });
+    }
+  }
+
   async updateUserHeartbeat(userId: string): Promise<void> {
     const existing = this.sessions.get(userId);
     const now = new Date();
@@ -892,7 +1435,14 @@ export class DatabaseStorage implements IStorage {
 
   async getFlips(userId: string): Promise<Flip[]> {
     return await db.select().from(flips)
-      .where(and(eq(flips.userId, userId), isNull(flips.deletedAt)))
+      .where(and(eq(flips.userId, userId), isNull(flips.deletedAt), isNull(flips.movedToPortfolioAt)))
+      .orderBy(desc(flips.buyDate));
+  }
+
+  // Flips moved to the portfolio were still bought, so they keep counting here
+  async getFlipsBoughtSince(userId: string, since: Date): Promise<Flip[]> {
+    return await db.select().from(flips)
+      .where(and(eq(flips.userId, userId), isNull(flips.deletedAt), gte(flips.buyDate, since)))
       .orderBy(desc(flips.buyDate));
   }
 
@@ -909,7 +1459,7 @@ export class DatabaseStorage implements IStorage {
       })
       .from(flips)
       .leftJoin(users, eq(flips.userId, users.id))
-      .where(isNull(flips.deletedAt))
+      .where(and(isNull(flips.deletedAt), isNull(flips.movedToPortfolioAt)))
       .orderBy(desc(flips.buyDate));
     
     return result.map(row => ({
@@ -923,6 +1473,116 @@ export class DatabaseStorage implements IStorage {
     return flip || undefined;
   }
 
+  async queryFlips(userId: string | null, query: FlipQuery, includeUser: boolean = userId === null): Promise<FlipPage<FlipWithUser & FlipWithSells & FlipWithTags>> {
+    const conditions: SQL[] = [isNull(flips.deletedAt), isNull(flips.movedToPortfolioAt)];
+    if (userId) conditions.push(eq(flips.userId, userId));
+    if (query.category) conditions.push(eq(flips.category, query.category));
+    if (query.tagId) {
+      conditions.push(inArray(flips.id, db.select({ flipId: flipTags.flipId }).from(flipTags).where(eq(flipTags.tagId, query.tagId))));
+    }
+    if (query.rsAccountId) conditions.push(eq(flips.rsAccountId, query.rsAccountId));
+    if (query.dateFrom) conditions.push(gte(flips.buyDate, query.dateFrom));
+    if (query.dateTo) conditions.push(lte(flips.buyDate, query.dateTo));
+    if (query.item) {
+      const itemId = Number(query.item);
+      conditions.push(Number.isInteger(itemId)
+        ? eq(flips.itemId, itemId)
+        : ilike(flips.itemName, `%${query.item.replace(/[\\%_]/g, "\\$&")}%`));
+    }
+
+    // Status, profit and ROI depend on the sell fills and tax rules; work them out
+    // per flip in SQL so those filters and sorts don't need every flip in memory
+    const totals = db
+      .select({ id: flips.id, ...fillTotalsSql() })
+      .from(flips)
+      .where(and(...conditions))
+      .as("flip_totals");
+    const summary = flipSummarySql(totals);
+
+    const filters: SQL[] = [];
+    if (query.status) filters.push(sql`${summary.status} = ${query.status}`);
+    if (query.minProfit !== undefined) filters.push(sql`${summary.profit} >= ${query.minProfit}`);
+    if (query.maxProfit !== undefined) filters.push(sql`${summary.profit} <= ${query.maxProfit}`);
+    if (query.minRoi !== undefined) filters.push(sql`${summary.roi} >= ${query.minRoi}`);
+    if (query.maxRoi !== undefined) filters.push(sql`${summary.roi} <= ${query.maxRoi}`);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(flips)
+      .innerJoin(totals, eq(flips.id, totals.id))
+      .where(and(...filters));
+
+    const sortColumn = query.sort === "item" ? sql`lower(${flips.itemName})`
+      : query.sort === "quantity" ? sql`${flips.quantity}`
+      : query.sort === "profit" ? sql`${summary.profit}`
+      : query.sort === "roi" ? sql`${summary.roi}`
+      : sql`${flips.buyDate}`;
+
+    // Unsold flips have no profit/ROI and sort below every sold one
+    const cursor = query.cursor ? decodeFlipCursor(query.cursor, query.sort) : null;
+    if (cursor) {
+      if (cursor.value === null) {
+        filters.push(query.direction === "desc"
+          ? sql`(${sortColumn} is null and ${flips.id} < ${cursor.id})`
+          : sql`(${sortColumn} is not null or ${flips.id} > ${cursor.id})`);
+      } else {
+        const value = query.sort === "date"
+          ? sql`${new Date(cursor.value as number).toISOString()}::timestamp`
+          : sql`${cursor.value}`;
+        filters.push(query.direction === "desc"
+          ? sql`((${sortColumn}, ${flips.id}) < (${value}, ${cursor.id}) or ${sortColumn} is null)`
+          : sql`(${sortColumn}, ${flips.id}) > (${value}, ${cursor.id})`);
+      }
+    }
+
+    const rows = await db
+      .select({
+        flip: flips,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+        profit: summary.profit,
+        roi: summary.roi,
+      })
+      .from(flips)
+      .innerJoin(totals, eq(flips.id, totals.id))
+      .leftJoin(users, eq(flips.userId, users.id))
+      .where(and(...filters))
+      .orderBy(
+        query.direction === "desc" ? sql`${sortColumn} desc nulls last` : sql`${sortColumn} asc nulls first`,
+        query.direction === "desc" ? desc(flips.id) : asc(flips.id),
+      )
+      .limit(query.limit + 1);
+    const pageRows = rows.slice(0, query.limit);
+    const last = pageRows[pageRows.length - 1];
+    const nextValue = !last ? null
+      : query.sort === "item" ? last.flip.itemName.toLowerCase()
+      : query.sort === "quantity" ? last.flip.quantity
+      : query.sort === "profit" ? last.profit
+      : query.sort === "roi" ? last.roi
+      : new Date(last.flip.buyDate).getTime();
+
+    const flipIds = pageRows.map(row => row.flip.id);
+    const sells = await this.getFlipSellsForFlips(flipIds);
+    const tagLinks = await this.getFlipTagsForFlips(flipIds);
+
+    return {
+      items: pageRows.map(row => ({
+        ...row.flip,
+        user: includeUser ? row.user ?? undefined : undefined,
+        sells: sells.filter(s => s.flipId === row.flip.id),
+        tags: tagLinks.filter(link => link.flipId === row.flip.id).map(link => link.tag),
+      })),
+      nextCursor: rows.length > query.limit && last
+        ? encodeFlipCursor({ sort: query.sort, value: nextValue, id: last.flip.id })
+        : null,
+      total: count,
+    };
+  }
+
   async updateFlip(id: string, userId: string, flipUpdate: Partial<InsertFlip>, skipOwnerCheck?: boolean): Promise<Flip | undefined> {
     // Strip undefined values to prevent overwriting existing data
     const cleanedUpdate = Object.fromEntries(
@@ -948,6 +1608,13 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteFlip(id: string, userId: string): Promise<boolean> {
+    const [existing] = await db.select({ id: flips.id }).from(flips)
+      .where(and(eq(flips.id, id), eq(flips.userId, userId)));
+    if (!existing) return false;
+    
+    // Fills and revisions cascade; transactions and recipe runs reference the flip without it
+    await db.delete(flipTransactions).where(eq(flipTransactions.flipId, id));
+    await db.update(recipeRuns).set({ linkedFlipId: null }).where(eq(recipeRuns.linkedFlipId, id));
     const result = await db.delete(flips).where(and(eq(flips.id, id), eq(flips.userId, userId))).returning();
     return result.length > 0;
   }
@@ -970,6 +1637,285 @@ export class DatabaseStorage implements IStorage {
     return updatedFlip || undefined;
   }
 
+  async getDeletedFlips(userId: string): Promise<Flip[]> {
+    return await db.select().from(flips)
+      .where(and(eq(flips.userId, userId), isNotNull(flips.deletedAt)))
+      .orderBy(desc(flips.deletedAt));
+  }
+
+  async getExpiredDeletedFlips(deletedBefore: Date): Promise<Flip[]> {
+    return await db.select().from(flips)
+      .where(and(isNotNull(flips.deletedAt), lt(flips.deletedAt, deletedBefore)));
+  }
+
+  async setFlipPortfolioHolding(id: string, userId: string, holdingId: string | null): Promise<Flip | undefined> {
+    const [updatedFlip] = await db
+      .update(flips)
+      .set({ portfolioHoldingId: holdingId, movedToPortfolioAt: holdingId ? new Date() : null })
+      .where(and(eq(flips.id, id), eq(flips.userId, userId)))
+      .returning();
+    return updatedFlip || undefined;
+  }
+
+  async getStrategyTags(userId: string): Promise<StrategyTag[]> {
+    return await db.select().from(strategyTags)
+      .where(eq(strategyTags.userId, userId))
+      .orderBy(strategyTags.name);
+  }
+
+  async createStrategyTag(userId: string, tag: InsertStrategyTag): Promise<StrategyTag> {
+    const [newTag] = await db
+      .insert(strategyTags)
+      .values({ ...tag, userId })
+      .returning();
+    return newTag;
+  }
+
+  async updateStrategyTag(id: string, userId: string, tag: Partial<InsertStrategyTag>): Promise<StrategyTag | undefined> {
+    const cleanedUpdate = Object.fromEntries(
+      Object.entries(tag).filter(([_, value]) => value !== undefined)
+    );
+    const [updated] = await db
+      .update(strategyTags)
+      .set({ ...cleanedUpdate, updatedAt: new Date() })
+      .where(and(eq(strategyTags.id, id), eq(strategyTags.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteStrategyTag(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(strategyTags)
+      .where(and(eq(strategyTags.id, id), eq(strategyTags.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getFlipTagsForFlips(flipIds: string[]): Promise<{ flipId: string; tag: StrategyTag }[]> {
+    if (flipIds.length === 0) return [];
+    return await db
+      .select({ flipId: flipTags.flipId, tag: strategyTags })
+      .from(flipTags)
+      .innerJoin(strategyTags, eq(flipTags.tagId, strategyTags.id))
+      .where(inArray(flipTags.flipId, flipIds))
+      .orderBy(strategyTags.name);
+  }
+
+  async setFlipTags(flipId: string, tagIds: string[]): Promise<void> {
+    await db.delete(flipTags).where(eq(flipTags.flipId, flipId));
+    if (tagIds.length > 0) {
+      await db.insert(flipTags).values(tagIds.map(tagId => ({ flipId, tagId })));
+    }
+  }
+
+  async getFlipsWithLegacyStrategyTag(): Promise<Flip[]> {
+    return await db.select().from(flips).where(isNotNull(flips.strategyTag));
+  }
+
+  async clearLegacyStrategyTag(flipId: string): Promise<void> {
+    await db.update(flips).set({ strategyTag: null }).where(eq(flips.id, flipId));
+  }
+
+  async getFlipSells(flipId: string): Promise<FlipSell[]> {
+    return await db.select().from(flipSells)
+      .where(eq(flipSells.flipId, flipId))
+      .orderBy(flipSells.sellDate);
+  }
+
+  async getFlipSellsForFlips(flipIds: string[]): Promise<FlipSell[]> {
+    if (flipIds.length === 0) return [];
+    return await db.select().from(flipSells)
+      .where(inArray(flipSells.flipId, flipIds))
+      .orderBy(flipSells.sellDate);
+  }
+
+  async createFlipSell(flipId: string, userId: string, sell: InsertFlipSell): Promise<FlipSell> {
+    const [newSell] = await db
+      .insert(flipSells)
+      .values({ ...sell, flipId, userId })
+      .returning();
+    return newSell;
+  }
+
+  async updateFlipSell(id: string, flipId: string, sell: Partial<InsertFlipSell>): Promise<FlipSell | undefined> {
+    const cleanedUpdate = Object.fromEntries(
+      Object.entries(sell).filter(([_, value]) => value !== undefined)
+    );
+    if (Object.keys(cleanedUpdate).length === 0) {
+      const [existing] = await db.select().from(flipSells)
+        .where(and(eq(flipSells.id, id), eq(flipSells.flipId, flipId)));
+      return existing || undefined;
+    }
+    const [updated] = await db
+      .update(flipSells)
+      .set(cleanedUpdate)
+      .where(and(eq(flipSells.id, id), eq(flipSells.flipId, flipId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteFlipSell(id: string, flipId: string): Promise<boolean> {
+    const [existing] = await db.select({ id: flipSells.id }).from(flipSells)
+      .where(and(eq(flipSells.id, id), eq(flipSells.flipId, flipId)));
+    if (!existing) return false;
+    await db.delete(flipTransactions).where(eq(flipTransactions.sellId, id));
+    const result = await db.delete(flipSells)
+      .where(and(eq(flipSells.id, id), eq(flipSells.flipId, flipId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async setFlipSellSummary(flipId: string, sellPrice: number | null, sellDate: Date | null, status: FlipStatus): Promise<Flip | undefined> {
+    const [updatedFlip] = await db
+      .update(flips)
+      .set({ sellPrice, sellDate, status })
+      .where(eq(flips.id, flipId))
+      .returning();
+    return updatedFlip || undefined;
+  }
+
+  async importFlips(userId: string, entries: FlipImportEntry[]): Promise<FlipWithSells[]> {
+    return await db.transaction(async (tx) => {
+      const imported: FlipWithSells[] = [];
+      for (const entry of entries) {
+        const [flip] = await tx
+          .insert(flips)
+          .values({ ...entry.flip, userId, status: entry.status })
+          .returning();
+        if (entry.tagIds.length > 0) {
+          await tx.insert(flipTags).values(entry.tagIds.map(tagId => ({ flipId: flip.id, tagId })));
+        }
+        const sells = entry.sell
+          ? await tx.insert(flipSells).values({ ...entry.sell, flipId: flip.id, userId }).returning()
+          : [];
+        if (entry.transactions.length > 0) {
+          await tx.insert(flipTransactions).values(entry.transactions.map(transaction => ({
+            ...transaction,
+            flipId: flip.id,
+            sellId: transaction.transactionType === "sell" ? sells[0]?.id : undefined,
+            userId,
+            totalValue: transaction.price * transaction.quantity,
+            taxPaid: transaction.taxPaid ?? 0,
+          })));
+        }
+        imported.push({ ...flip, sells });
+      }
+      return imported;
+    });
+  }
+
+  async setFlipStatus(flipId: string, status: FlipStatus, closedAt: Date | null): Promise<Flip | undefined> {
+    const [updatedFlip] = await db
+      .update(flips)
+      .set({ status, closedAt })
+      .where(eq(flips.id, flipId))
+      .returning();
+    return updatedFlip || undefined;
+  }
+
+  async getFlipsWithStaleOpenStatus(): Promise<Flip[]> {
+    return await db.select().from(flips)
+      .where(and(
+        eq(flips.status, "open"),
+        or(isNotNull(flips.sellPrice), inArray(flips.id, db.select({ flipId: flipSells.flipId }).from(flipSells)))
+      ));
+  }
+
+  async getFlipRevisions(flipId: string): Promise<FlipRevision[]> {
+    return await db.select().from(flipRevisions)
+      .where(eq(flipRevisions.flipId, flipId))
+      .orderBy(desc(flipRevisions.createdAt));
+  }
+
+  async getFlipRevision(id: string, flipId: string): Promise<FlipRevision | undefined> {
+    const [revision] = await db.select().from(flipRevisions)
+      .where(and(eq(flipRevisions.id, id), eq(flipRevisions.flipId, flipId)));
+    return revision || undefined;
+  }
+
+  async createFlipRevision(revision: InsertFlipRevision): Promise<FlipRevision> {
+    const [newRevision] = await db
+      .insert(flipRevisions)
+      .values(revision)
+      .returning();
+    return newRevision;
+  }
+
+  async applyFlipSnapshot(flipId: string, snapshot: FlipSnapshot): Promise<Flip | undefined> {
+    const [updatedFlip] = await db
+      .update(flips)
+      .set(flipFieldsFromSnapshot(snapshot))
+      .where(eq(flips.id, flipId))
+      .returning();
+    return updatedFlip || undefined;
+  }
+
+  async getGeOffers(userId: string): Promise<GeOffer[]> {
+    return await db.select().from(geOffers)
+      .where(eq(geOffers.userId, userId))
+      .orderBy(desc(geOffers.placedAt));
+  }
+
+  async getGeOffer(id: string): Promise<GeOffer | undefined> {
+    const [offer] = await db.select().from(geOffers).where(eq(geOffers.id, id));
+    return offer || undefined;
+  }
+
+  async createGeOffer(userId: string, offer: InsertGeOffer): Promise<GeOffer> {
+    const [newOffer] = await db
+      .insert(geOffers)
+      .values({ ...offer, userId })
+      .returning();
+    return newOffer;
+  }
+
+  async updateGeOffer(id: string, userId: string, offer: Partial<{ status: GeOffer["status"]; filledQuantity: number; limitPrice: number; flipId: string; completedAt: Date }>): Promise<GeOffer | undefined> {
+    const cleanedUpdate = Object.fromEntries(
+      Object.entries(offer).filter(([_, value]) => value !== undefined)
+    );
+    const [updated] = await db
+      .update(geOffers)
+      .set({ ...cleanedUpdate, updatedAt: new Date() })
+      .where(and(eq(geOffers.id, id), eq(geOffers.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteGeOffer(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(geOffers)
+      .where(and(eq(geOffers.id, id), eq(geOffers.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getMarginChecks(userId: string, itemId?: number, limit?: number): Promise<MarginCheck[]> {
+    const conditions = [eq(marginChecks.userId, userId)];
+    if (itemId !== undefined) conditions.push(eq(marginChecks.itemId, itemId));
+    const query = db.select().from(marginChecks)
+      .where(and(...conditions))
+      .orderBy(desc(marginChecks.checkedAt));
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  async getLatestMarginCheck(userId: string, itemId: number): Promise<MarginCheck | undefined> {
+    const [latest] = await this.getMarginChecks(userId, itemId, 1);
+    return latest;
+  }
+
+  async createMarginCheck(userId: string, check: InsertMarginCheck): Promise<MarginCheck> {
+    const [newCheck] = await db
+      .insert(marginChecks)
+      .values({ ...check, userId })
+      .returning();
+    return newCheck;
+  }
+
+  async deleteMarginCheck(id: string, userId: string): Promise<boolean> {
+    const result = await db.delete(marginChecks)
+      .where(and(eq(marginChecks.id, id), eq(marginChecks.userId, userId)))
+      .returning();
+    return result.length > 0;
+  }
+
   async createWatchlistItem(userId: string, item: InsertWatchlistItem): Promise<WatchlistItem> {
     const [newItem] = await db
       .insert(watchlist)
@@ -1135,7 +2081,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Portfolio Holding Transactions
-  async createHoldingTransaction(userId: string, tx: InsertHoldingTransaction): Promise<HoldingTransaction> {
+  async createHoldingTransaction(userId: string, tx: InsertHoldingTransaction, flipId?: string): Promise<HoldingTransaction> {
     const totalValue = tx.pricePerUnit * tx.quantity;
     const [newTx] = await db
       .insert(portfolioHoldingTransactions)
@@ -1148,6 +2094,7 @@ export class DatabaseStorage implements IStorage {
         totalValue,
         fees: tx.fees ?? 0,
         notes: tx.notes,
+        flipId,
         transactionDate: tx.transactionDate,
       })
       .returning();
@@ -1169,6 +2116,12 @@ export class DatabaseStorage implements IStorage {
     return tx || undefined;
   }
 
+  async getHoldingTransactionForFlip(flipId: string): Promise<HoldingTransaction | undefined> {
+    const [tx] = await db.select().from(portfolioHoldingTransactions)
+      .where(eq(portfolioHoldingTransactions.flipId, flipId));
+    return tx || undefined;
+  }
+
   async deleteHoldingTransaction(id: string, userId: string): Promise<boolean> {
     const result = await db.delete(portfolioHoldingTransactions)
       .where(and(
@@ -1210,6 +2163,7 @@ export class DatabaseStorage implements IStorage {
   // Transaction Recording (for LLM training)
   async recordTransaction(tx: {
     flipId?: string;
+    sellId?: string;
     userId: string;
     itemId: number;
     itemName: string;
@@ -1225,6 +2179,7 @@ export class DatabaseStorage implements IStorage {
       .insert(flipTransactions)
       .values({
         flipId: tx.flipId,
+        sellId: tx.sellId,
         userId: tx.userId,
         itemId: tx.itemId,
         itemName: tx.itemName,
@@ -1250,6 +2205,12 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
+  async getTransactionsByUser(userId: string): Promise<FlipTransaction[]> {
+    return await db.select().from(flipTransactions)
+      .where(eq(flipTransactions.userId, userId))
+      .orderBy(desc(flipTransactions.transactionDate));
+  }
+
   async getAllTransactions(limit?: number): Promise<FlipTransaction[]> {
     const query = db.select().from(flipTransactions)
       .orderBy(desc(flipTransactions.transactionDate));
@@ -1259,6 +2220,85 @@ export class DatabaseStorage implements IStorage {
     return await query;
   }
 
+  async setTransactionTaxPaid(id: string, taxPaid: number): Promise<void> {
+    await db.update(flipTransactions).set({ taxPaid }).where(eq(flipTransactions.id, id));
+  }
+
+  async updateSellTransaction(sellId: string, tx: { price: number; quantity: number; taxPaid: number; transactionDate: Date }): Promise<void> {
+    await db.update(flipTransactions)
+      .set({ ...tx, totalValue: tx.price * tx.quantity })
+      .where(eq(flipTransactions.sellId, sellId));
+  }
+
+  async linkTransactionToSell(id: string, sellId: string): Promise<void> {
+    await db.update(flipTransactions).set({ sellId }).where(eq(flipTransactions.id, id));
+  }
+
+  async getSystemState(key: string): Promise<string | undefined> {
+    const [state] = await db.select().from(systemState).where(eq(systemState.key, key));
+    return state?.value;
+  }
+
+  async setSystemState(key: string, value: string): Promise<void> {
+    await db
+      .insert(systemState)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: systemState.key,
+        set: { value, updatedAt: new Date() },
+      });
+  }
+
+  async getTaxExemptItems(): Promise<TaxExemptItem[]> {
+    return await db.select().from(taxExemptItems)
+      .orderBy(taxExemptItems.itemName, taxExemptItems.effectiveFrom);
+  }
+
+  async createTaxExemptItem(item: InsertTaxExemptItem, createdBy: string | null): Promise<TaxExemptItem> {
+    const [newItem] = await db
+      .insert(taxExemptItems)
+      .values({ ...item, createdBy })
+      .returning();
+    return newItem;
+  }
+
+  async deleteTaxExemptItem(id: string): Promise<boolean> {
+    const result = await db.delete(taxExemptItems)
+      .where(eq(taxExemptItems.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getItemAliases(): Promise<ItemAlias[]> {
+    return await db.select().from(itemAliases).orderBy(itemAliases.alias);
+  }
+
+  async createItemAlias(alias: InsertItemAlias, createdBy: string | null): Promise<ItemAlias> {
+    const [newAlias] = await db
+      .insert(itemAliases)
+      .values({ ...alias, createdBy })
+      .returning();
+    return newAlias;
+  }
+
+  async deleteItemAlias(id: string): Promise<boolean> {
+    const result = await db.delete(itemAliases)
+      .where(eq(itemAliases.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  async getFlipCountsByItem(userId?: string): Promise<{ itemId: number; count: number }[]> {
+    const conditions = [isNotNull(flips.itemId), isNull(flips.deletedAt)];
+    if (userId) conditions.push(eq(flips.userId, userId));
+    const rows = await db
+      .select({ itemId: flips.itemId, count: sql<number>`count(*)::int` })
+      .from(flips)
+      .where(and(...conditions))
+      .groupBy(flips.itemId);
+    return rows.map(row => ({ itemId: row.itemId!, count: row.count }));
+  }
+
   async updateItemVolume(itemId: number, itemName: string, date: Date, txType: 'buy' | 'sell', price: number, quantity: number): Promise<void> {
     const dateStart = new Date(date);
     dateStart.setHours(0, 0, 0, 0);
@@ -1347,6 +2387,32 @@ export class DatabaseStorage implements IStorage {
     return result.rows as { month: string; transactionCount: number; totalQuantity: number; totalValue: number }[];
   }
 
+  async getGeItems(): Promise<GeItem[]> {
+    return await db.select().from(geItems);
+  }
+
+  // Chunked so a full catalog (tens of thousands of items) stays under the parameter limit
+  async upsertGeItems(items: InsertGeItem[]): Promise<void> {
+    const CHUNK_SIZE = 1000;
+    for (let i = 0; i < items.length; i += CHUNK_SIZE) {
+      await db
+        .insert(geItems)
+        .values(items.slice(i, i + CHUNK_SIZE))
+        .onConflictDoUpdate({
+          target: geItems.id,
+          set: {
+            name: sql`excluded.name`,
+            members: sql`excluded.members`,
+            buyLimit: sql`excluded.buy_limit`,
+            examine: sql`excluded.examine`,
+            price: sql`excluded.price`,
+            volume: sql`excluded.volume`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+  }
+
   // User Presence & Admin
   async updateUserHeartbeat(userId: string): Promise<void> {
     const now = new Date();
@@ -1669,6 +2735,7 @@ async function createStorage(): Promise<IStorage> {
 
 export let storage: IStorage = new MemStorage();
 
-createStorage().then((s) => {
+// Resolves once the backend has been picked; background jobs wait on it before touching storage
+export const storageReady = createStorage().then((s) => {
   storage = s;
 });
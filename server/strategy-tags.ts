@@ -0,0 +1,69 @@
+import { storage, storageReady } from "./storage";
+import type { StrategyTag } from "@shared/schema";
+import { defaultTagColor } from "@shared/strategyTags";
+
+// Find a user's tags by name (case-insensitive), creating any that don't exist yet
+export async function resolveTagNames(userId: string, names: string[]): Promise<StrategyTag[]> {
+  const userTags = await storage.getStrategyTags(userId);
+  const resolved: StrategyTag[] = [];
+
+  for (const rawName of names) {
+    const name = rawName.trim().slice(0, 50);
+    if (!name) continue;
+    let tag = userTags.find(t => t.name.toLowerCase() === name.toLowerCase());
+    if (!tag) {
+      tag = await storage.createStrategyTag(userId, { name, color: defaultTagColor(name) });
+      userTags.push(tag);
+    }
+    if (!resolved.some(t => t.id === tag!.id)) resolved.push(tag);
+  }
+
+  return resolved;
+}
+
+// Keep only the tag ids that belong to the user
+export async function ownTagIds(userId: string, tagIds: string[]): Promise<string[]> {
+  const userTags = await storage.getStrategyTags(userId);
+  return Array.from(new Set(tagIds)).filter(id => userTags.some(tag => tag.id === id));
+}
+
+// The old column's default: flips that only carry it never had a strategy picked
+const LEGACY_DEFAULT_STRATEGY = "Other";
+
+// One-time move from the old single strategyTag column: each value becomes a tag
+// owned by the flip's user, the flip is linked to it and the column is cleared.
+// Flips left on the default stay untagged. Safe to run on every start; flips
+// already migrated have no strategyTag left.
+export async function migrateLegacyStrategyTags(): Promise<number> {
+  await storageReady;
+  const legacyFlips = await storage.getFlipsWithLegacyStrategyTag();
+  const resolvedTags = new Map<string, StrategyTag | undefined>(); // userId|strategy
+  let migrated = 0;
+
+  for (const flip of legacyFlips) {
+    try {
+      const key = `${flip.userId}|${flip.strategyTag}`;
+      if (flip.strategyTag === LEGACY_DEFAULT_STRATEGY) {
+        resolvedTags.set(key, undefined);
+      } else if (!resolvedTags.has(key)) {
+        resolvedTags.set(key, (await resolveTagNames(flip.userId, [flip.strategyTag!]))[0]);
+      }
+      const tag = resolvedTags.get(key);
+      if (tag) {
+        const existing = await storage.getFlipTagsForFlips([flip.id]);
+        const tagIds = existing.map(link => link.tag.id);
+        if (!tagIds.includes(tag.id)) tagIds.push(tag.id);
+        await storage.setFlipTags(flip.id, tagIds);
+      }
+      await storage.clearLegacyStrategyTag(flip.id);
+      migrated++;
+    } catch (error) {
+      console.error(`[StrategyTags] Failed to migrate flip ${flip.id}:`, error);
+    }
+  }
+
+  if (migrated > 0) {
+    console.log(`[StrategyTags] Migrated ${migrated} flip(s) from the old strategy enum to tags`);
+  }
+  return migrated;
+}
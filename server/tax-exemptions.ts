@@ -0,0 +1,23 @@
+import { storage, storageReady } from "./storage";
+import { seedRegistryOnce } from "./registry-seeds";
+import { DEFAULT_TAX_EXEMPTIONS, setTaxExemptions } from "@shared/taxCalculator";
+import type { TaxExemptItem } from "@shared/schema";
+
+// Load the registry into the tax calculator's cache, seeding it with the bonds the
+// first time it loads. Called on start and after every admin change.
+export async function loadTaxExemptions(): Promise<TaxExemptItem[]> {
+  await storageReady;
+  let items = await storage.getTaxExemptItems();
+  const seeded = await seedRegistryOnce("tax_exemptions", items.length === 0, async () => {
+    for (const exemption of DEFAULT_TAX_EXEMPTIONS) {
+      await storage.createTaxExemptItem({ ...exemption, effectiveFrom: new Date(exemption.effectiveFrom) }, null);
+    }
+  });
+  if (seeded) {
+    items = await storage.getTaxExemptItems();
+    console.log(`[TaxExemptions] Seeded the registry with ${items.length} default item(s)`);
+  }
+
+  setTaxExemptions(items);
+  return items;
+}
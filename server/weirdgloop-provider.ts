@@ -0,0 +1,89 @@
+import type { PriceProvider, CatalogEntry, LatestPrice, PriceHistoryEntry } from "./price-provider";
+import { geFetchJson } from "./ge-http";
+
+const GE_API_BASE = "https://api.weirdgloop.org/exchange/history/rs";
+const GE_DUMP_URL = "https://chisel.weirdgloop.org/gazproj/gazbot/rs_dump.json";
+
+// 90-day history only gets a new point once a day
+const HISTORY_CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Parsers for the WeirdGloop response shapes, shared with the fixture provider,
+// which replays recorded responses
+
+// rs_dump.json: item ID -> item, plus "%"-prefixed metadata keys
+export function parseItemDump(data: Record<string, any>): CatalogEntry[] {
+  const entries: CatalogEntry[] = [];
+  for (const [key, itemData] of Object.entries(data)) {
+    if (key.startsWith("%")) continue;
+
+    const id = parseInt(key);
+    if (isNaN(id) || !itemData?.name) continue;
+
+    entries.push({
+      id,
+      name: itemData.name,
+      members: itemData.members ?? undefined,
+      limit: itemData.limit ?? undefined,
+      examine: itemData.examine ?? undefined,
+      price: itemData.price || undefined,
+      volume: itemData.volume ?? undefined,
+    });
+  }
+  return entries;
+}
+
+// /latest: keyed by the name or ID that was asked for
+export function parseLatestPrice(data: Record<string, any>, key?: string): LatestPrice | null {
+  const foundKey = key ?? Object.keys(data).find(k => !k.startsWith("%"));
+  const itemData = foundKey ? data[foundKey] : undefined;
+  if (!foundKey || !itemData) return null;
+
+  const id = parseInt(itemData.id ?? foundKey);
+  if (isNaN(id)) return null;
+  return {
+    id,
+    // Lookups by name are keyed by the item's name
+    name: itemData.name ?? (key === undefined ? foundKey : undefined),
+    price: itemData.price,
+    volume: itemData.volume,
+    timestamp: itemData.timestamp,
+  };
+}
+
+// /last90d: item ID -> daily points, in no particular order
+export function parsePriceHistory(data: Record<string, any>, itemId: number): PriceHistoryEntry[] | null {
+  const history = data[itemId.toString()];
+  if (!Array.isArray(history) || history.length === 0) return null;
+
+  return history
+    .map((point: any) => ({ timestamp: point.timestamp, price: point.price, volume: point.volume }))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+}
+
+// Live data from the WeirdGloop GE APIs
+export class WeirdGloopPriceProvider implements PriceProvider {
+  readonly name = "weirdgloop";
+
+  async getCatalog(): Promise<CatalogEntry[]> {
+    const data = await geFetchJson(GE_DUMP_URL);
+    if (!data) {
+      throw new Error("GE dump request failed");
+    }
+    return parseItemDump(data);
+  }
+
+  async getLatestPrice(itemName: string): Promise<LatestPrice | null> {
+    const data = await geFetchJson(`${GE_API_BASE}/latest?name=${encodeURIComponent(itemName)}`);
+    return data ? parseLatestPrice(data) : null;
+  }
+
+  async getLatestPriceById(itemId: number): Promise<LatestPrice | null> {
+    const data = await geFetchJson(`${GE_API_BASE}/latest?id=${itemId}`);
+    return data ? parseLatestPrice(data, itemId.toString()) : null;
+  }
+
+  async getPriceHistory90d(itemId: number): Promise<PriceHistoryEntry[] | null> {
+    const data = await geFetchJson(`${GE_API_BASE}/last90d?id=${itemId}`, { cacheTtlMs: HISTORY_CACHE_TTL_MS });
+    return data ? parsePriceHistory(data, itemId) : null;
+  }
+}
@@ -0,0 +1,35 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildBacktestReport } from "./backtest";
+
+// 30 days up to a high, then 15 days falling
+const points = Array.from({ length: 45 }, (_, day) => ({
+  date: `2025-01-${String(day + 1).padStart(2, "0")}`,
+  price: day < 30 ? 1_000 + day * 10 : 1_290 - (day - 29) * 15,
+}));
+const report = buildBacktestReport([{ itemId: 4151, itemName: "Abyssal whip", points }]);
+
+test("a suggestion that advises waiting scores as a hold", () => {
+  // A flat price leaves no margin worth flipping, and a flat price is what a hold predicts
+  const flat = Array.from({ length: 70 }, (_, day) => ({ date: new Date(Date.UTC(2025, 1, day + 1)).toISOString().slice(0, 10), price: 1_000 }));
+  const flatReport = buildBacktestReport([{ itemId: 4151, itemName: "Abyssal whip", points: flat }]);
+  const score = flatReport.rules.find(rule => rule.engine === "suggestion" && rule.rule === "narrow_margin");
+  assert.ok(score && score.signals > 0);
+  assert.equal(score.action, "hold");
+  assert.deepEqual(score.horizons.map(horizon => horizon.hitRate), [100, 100, 100]);
+});
+
+test("backtest hit rates on a falling price", async (t) => {
+  const cases = [
+    { name: "a sell near the high is right", engine: "trend", rule: "near_high", hitRate: 100 },
+    { name: "a buy near the low is wrong", engine: "trend", rule: "near_low", hitRate: 0 },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const score = report.rules.find(rule => rule.engine === c.engine && rule.rule === c.rule);
+      assert.ok(score && score.signals > 0);
+      assert.equal(score.horizons[0].hitRate, c.hitRate);
+    });
+  }
+});
@@ -0,0 +1,164 @@
+// Backtesting the price signal rules
+// Replays analyzeTrend and analyzeSuggestions day by day over an item's price history,
+// as if each day were today, and records which rule fired and what it recommended.
+// Each call is then scored against the price 1, 7 and 30 days later:
+// - buy is right when the price went up, sell when it went down
+// - hold is right when the price stayed within the trend rules' stable band
+// Suggestion rules score by the call behind their confidence (SUGGESTION_RULE_ACTIONS):
+// a wait is a hold, everything else a buy.
+
+import { z } from "zod";
+import {
+  analyzeTrend,
+  analyzeSuggestions,
+  TREND_RULES,
+  TREND_RULE_ACTIONS,
+  SUGGESTION_RULES,
+  SUGGESTION_RULE_ACTIONS,
+  TREND_THRESHOLDS,
+} from "./priceSignals";
+
+export const BACKTEST_HORIZONS = [1, 7, 30];
+export const BACKTEST_LOOKBACK_DAYS = 30; // history a day needs before it's replayed
+export const MAX_BACKTEST_ITEMS = 20;
+
+export const backtestQuerySchema = z.object({
+  itemIds: z.string()
+    .regex(/^\d+(,\d+)*$/)
+    .transform(value => Array.from(new Set(value.split(",").map(Number))))
+    .refine(ids => ids.length <= MAX_BACKTEST_ITEMS)
+    .optional(),
+});
+
+export type BacktestEngine = "trend" | "suggestion";
+export type SignalAction = "buy" | "sell" | "hold";
+
+export interface BacktestSignal {
+  itemId: number;
+  date: string;
+  engine: BacktestEngine;
+  rule: string;
+  action: SignalAction;
+  price: number;
+  forwardReturns: (number | null)[]; // percent, per horizon; null past the end of the history
+}
+
+export interface HorizonScore {
+  days: number;
+  samples: number; // signals with a price that many days later
+  hits: number;
+  hitRate: number | null; // percent
+  avgReturn: number | null; // percent
+}
+
+export interface BacktestRuleScore {
+  engine: BacktestEngine;
+  rule: string;
+  action: SignalAction;
+  signals: number;
+  horizons: HorizonScore[];
+}
+
+export interface BacktestItem {
+  itemId: number;
+  itemName: string;
+  days: number; // days of history
+  signals: number;
+}
+
+export interface BacktestReport {
+  horizons: number[];
+  holdBandPercent: number;
+  items: BacktestItem[];
+  skippedItemIds: number[]; // no history
+  rules: BacktestRuleScore[];
+}
+
+export interface BacktestSeries {
+  itemId: number;
+  itemName: string;
+  points: { date: string; price: number }[]; // oldest first
+}
+
+function isHit(action: SignalAction, forwardReturn: number): boolean {
+  if (action === "buy") return forwardReturn > 0;
+  if (action === "sell") return forwardReturn < 0;
+  return Math.abs(forwardReturn) < TREND_THRESHOLDS.stableMovePercent;
+}
+
+export function replaySignals(series: BacktestSeries): BacktestSignal[] {
+  const prices = series.points.map(point => point.price);
+  const signals: BacktestSignal[] = [];
+
+  for (let day = BACKTEST_LOOKBACK_DAYS - 1; day < prices.length; day++) {
+    // Only what was known on the day
+    const known = prices.slice(0, day + 1);
+    const price = prices[day];
+    const forwardReturns = BACKTEST_HORIZONS.map(horizon =>
+      day + horizon < prices.length && price > 0 ? ((prices[day + horizon] - price) / price) * 100 : null
+    );
+    const base = { itemId: series.itemId, date: series.points[day].date, price, forwardReturns };
+
+    const trend = analyzeTrend(known);
+    signals.push({ ...base, engine: "trend", rule: trend.rule, action: trend.recommendation });
+
+    const suggestion = analyzeSuggestions(known);
+    signals.push({ ...base, engine: "suggestion", rule: suggestion.confidenceRule, action: SUGGESTION_RULE_ACTIONS[suggestion.confidenceRule] });
+  }
+  return signals;
+}
+
+function scoreRule(engine: BacktestEngine, rule: string, action: SignalAction, signals: BacktestSignal[]): BacktestRuleScore {
+  return {
+    engine,
+    rule,
+    action,
+    signals: signals.length,
+    horizons: BACKTEST_HORIZONS.map((days, index) => {
+      const returns = signals
+        .map(signal => signal.forwardReturns[index])
+        .filter((value): value is number => value !== null);
+      const hits = returns.filter(value => isHit(action, value)).length;
+      return {
+        days,
+        samples: returns.length,
+        hits,
+        hitRate: returns.length > 0 ? Math.round((hits / returns.length) * 1000) / 10 : null,
+        avgReturn: returns.length > 0
+          ? Math.round((returns.reduce((sum, value) => sum + value, 0) / returns.length) * 100) / 100
+          : null,
+      };
+    }),
+  };
+}
+
+// Every rule is listed, in rule order, even ones that never fired
+export function buildBacktestReport(series: BacktestSeries[]): BacktestReport {
+  const items: BacktestItem[] = [];
+  const skippedItemIds: number[] = [];
+  const signals: BacktestSignal[] = [];
+
+  for (const entry of series) {
+    if (entry.points.length === 0) {
+      skippedItemIds.push(entry.itemId);
+      continue;
+    }
+    const itemSignals = replaySignals(entry);
+    signals.push(...itemSignals);
+    items.push({ itemId: entry.itemId, itemName: entry.itemName, days: entry.points.length, signals: itemSignals.length });
+  }
+
+  const byRule = (engine: BacktestEngine, rule: string) =>
+    signals.filter(signal => signal.engine === engine && signal.rule === rule);
+
+  const trendRules = TREND_RULES.map(rule => scoreRule("trend", rule, TREND_RULE_ACTIONS[rule], byRule("trend", rule)));
+  const suggestionRules = SUGGESTION_RULES.map(rule => scoreRule("suggestion", rule, SUGGESTION_RULE_ACTIONS[rule], byRule("suggestion", rule)));
+
+  return {
+    horizons: BACKTEST_HORIZONS,
+    holdBandPercent: TREND_THRESHOLDS.stableMovePercent,
+    items,
+    skippedItemIds,
+    rules: [...trendRules, ...suggestionRules],
+  };
+}
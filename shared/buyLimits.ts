@@ -0,0 +1,58 @@
+// GE buy limits
+// Every item can only be bought up to its limit per account in a rolling 4-hour
+// window. Units bought in the window count against the limit until 4 hours after
+// they were bought; the server collects the buys, this file does the window math.
+
+import { z } from "zod";
+
+export const BUY_LIMIT_WINDOW_MS = 4 * 60 * 60 * 1000;
+
+export interface BuyLimitEntry {
+  quantity: number;
+  boughtAt: Date | string;
+}
+
+export interface BuyLimitWindow {
+  limit: number | null; // null when the item's limit is unknown
+  used: number;
+  remaining: number | null;
+  windowStart: string;
+  resetsAt: string | null; // when the oldest buy in the window stops counting
+}
+
+export interface BuyLimitStatus extends BuyLimitWindow {
+  itemId: number | null;
+  itemName: string;
+  rsAccountId: string | null;
+}
+
+export const buyLimitQuerySchema = z.object({
+  itemId: z.coerce.number().int().positive().optional(),
+  itemName: z.string().trim().min(1).optional(),
+  rsAccountId: z.string().optional(),
+}).refine(query => query.itemId !== undefined || query.itemName !== undefined, {
+  message: "itemId or itemName is required",
+});
+
+export function summarizeBuyWindow(entries: BuyLimitEntry[], limit: number | null, now: Date = new Date()): BuyLimitWindow {
+  const windowStart = now.getTime() - BUY_LIMIT_WINDOW_MS;
+  const inWindow = entries
+    .map(entry => ({ quantity: entry.quantity, time: new Date(entry.boughtAt).getTime() }))
+    .filter(entry => entry.time > windowStart && entry.time <= now.getTime());
+
+  const used = inWindow.reduce((sum, entry) => sum + entry.quantity, 0);
+  const oldest = inWindow.length > 0 ? Math.min(...inWindow.map(entry => entry.time)) : null;
+
+  return {
+    limit,
+    used,
+    remaining: limit !== null ? Math.max(limit - used, 0) : null,
+    windowStart: new Date(windowStart).toISOString(),
+    resetsAt: oldest !== null ? new Date(oldest + BUY_LIMIT_WINDOW_MS).toISOString() : null,
+  };
+}
+
+// True when buying quantity more would go over a known limit
+export function exceedsBuyLimit(window: Pick<BuyLimitWindow, "remaining">, quantity: number): boolean {
+  return window.remaining !== null && quantity > window.remaining;
+}
@@ -0,0 +1,180 @@
+// Bulk CSV import helpers
+// The client parses the CSV and maps its columns onto flip fields; every mapped
+// cell is sent to the server as raw text. The server parses GP shorthand,
+// resolves item IDs against the GE catalog and flags duplicates, returning a
+// preview before anything is written.
+
+import { z } from "zod";
+import type { InsertFlip, InsertFlipSell } from "./schema";
+import type { FlipStatus } from "./flipStatus";
+
+export const IMPORT_FIELDS = [
+  { key: "itemName", label: "Item Name", required: true, aliases: ["item", "item name", "name"] },
+  { key: "quantity", label: "Quantity", required: true, aliases: ["quantity", "qty", "amount"] },
+  { key: "buyPrice", label: "Buy Price", required: true, aliases: ["buy price", "buy", "bought at", "cost"] },
+  { key: "buyDate", label: "Buy Date", required: true, aliases: ["buy date", "bought", "date"] },
+  { key: "sellPrice", label: "Sell Price", required: false, aliases: ["avg sell price", "sell price", "sell", "sold at"] },
+  { key: "soldQuantity", label: "Sold Quantity", required: false, aliases: ["sold", "sold quantity", "qty sold"] },
+  { key: "sellDate", label: "Sell Date", required: false, aliases: ["last sell date", "sell date", "sold date"] },
+  { key: "category", label: "Category", required: false, aliases: ["category"] },
+  { key: "tags", label: "Tags", required: false, aliases: ["tags", "tag", "strategy", "strategy tag"] },
+  { key: "notes", label: "Notes", required: false, aliases: ["notes", "note", "comment"] },
+] as const;
+
+export type ImportField = typeof IMPORT_FIELDS[number]["key"];
+
+export type ImportColumnMapping = Partial<Record<ImportField, number>>;
+
+export const flipImportRowSchema = z.object({
+  itemName: z.string().optional(),
+  quantity: z.string().optional(),
+  buyPrice: z.string().optional(),
+  buyDate: z.string().optional(),
+  sellPrice: z.string().optional(),
+  soldQuantity: z.string().optional(),
+  sellDate: z.string().optional(),
+  category: z.string().optional(),
+  tags: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export const flipImportRequestSchema = z.object({
+  rows: z.array(flipImportRowSchema).min(1).max(5000),
+  dryRun: z.boolean().default(true),
+  skipDuplicates: z.boolean().default(true),
+});
+
+export type FlipImportRow = z.infer<typeof flipImportRowSchema>;
+export type FlipImportRequest = z.infer<typeof flipImportRequestSchema>;
+
+export type FlipImportRowStatus = "ready" | "duplicate" | "error";
+
+export interface ParsedImportFlip {
+  itemName: string;
+  itemId?: number;
+  itemIcon?: string;
+  quantity: number;
+  buyPrice: number;
+  buyDate: string;
+  sellPrice?: number;
+  soldQuantity?: number;
+  sellDate?: string;
+  category?: string;
+  tags: string[]; // tag names; unknown names become new tags on import
+  notes?: string;
+}
+
+export interface FlipImportPreviewRow {
+  index: number;
+  status: FlipImportRowStatus;
+  errors: string[];
+  warnings: string[];
+  itemMatch: "exact" | "fuzzy" | "none";
+  flip?: ParsedImportFlip;
+  duplicateOf?: "existing" | "file";
+}
+
+export interface FlipImportResult {
+  rows: FlipImportPreviewRow[];
+  summary: {
+    total: number;
+    ready: number;
+    duplicates: number;
+    errors: number;
+  };
+  imported: number;
+}
+
+// One imported flip as storage writes it: the flip with the status its sell
+// gives it, its tags, the sell and the flip's buy/sell transactions
+export interface FlipImportEntry {
+  flip: InsertFlip;
+  status: FlipStatus;
+  tagIds: string[];
+  sell: InsertFlipSell | null;
+  transactions: {
+    itemId: number;
+    itemName: string;
+    transactionType: 'buy' | 'sell';
+    price: number;
+    quantity: number;
+    taxPaid?: number;
+    strategyTag?: string;
+    transactionDate: Date;
+  }[];
+}
+
+// Minimal RFC 4180 parser: quoted cells, escaped quotes ("") and CRLF line endings
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+// Pre-select columns whose header matches a known alias (our own export headers included)
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping: ImportColumnMapping = {};
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of field.aliases) {
+      const index = normalized.findIndex((header, i) => header === alias && !used.has(i));
+      if (index !== -1) {
+        mapping[field.key] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+
+  return mapping;
+}
+
+export function applyColumnMapping(rows: string[][], mapping: ImportColumnMapping): FlipImportRow[] {
+  return rows.map(row => {
+    const mapped: FlipImportRow = {};
+    for (const field of IMPORT_FIELDS) {
+      const index = mapping[field.key];
+      if (index !== undefined && row[index] !== undefined && row[index].trim() !== "") {
+        mapped[field.key] = row[index].trim();
+      }
+    }
+    return mapped;
+  });
+}
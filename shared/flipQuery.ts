@@ -0,0 +1,176 @@
+// Flip list queries: filters, sorting and cursor pagination for GET /api/flips
+// Status, profit and ROI come from the sell fills (see flipSells.ts). MemStorage
+// filters and orders with these helpers; DatabaseStorage works the same values
+// out in SQL (server/flip-summary-sql.ts). The cursor is the sort, sort value and
+// id of the last row returned, so pages stay stable while new flips are being logged.
+
+import { z } from "zod";
+import { summarizeFlipSells, type FlipWithFills } from "./flipSells";
+import { FLIP_STATUSES } from "./flipStatus";
+
+export const FLIP_SORT_FIELDS = ["date", "profit", "roi", "item", "quantity"] as const;
+export type FlipSortField = typeof FLIP_SORT_FIELDS[number];
+
+export const flipQuerySchema = z.object({
+  status: z.enum(FLIP_STATUSES).optional(),
+  category: z.string().optional(),
+  tagId: z.string().optional(), // strategy tag
+  rsAccountId: z.string().optional(),
+  dateFrom: z.coerce.date().optional(), // buy date, inclusive
+  dateTo: z.coerce.date().optional(),
+  item: z.string().trim().min(1).optional(), // name substring, or an exact item ID
+  minProfit: z.coerce.number().optional(),
+  maxProfit: z.coerce.number().optional(),
+  minRoi: z.coerce.number().optional(),
+  maxRoi: z.coerce.number().optional(),
+  sort: z.enum(FLIP_SORT_FIELDS).default("date"),
+  direction: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+}).refine(query => query.cursor === undefined || decodeFlipCursor(query.cursor, query.sort) !== null, {
+  message: "Cursor doesn't match the sort",
+  path: ["cursor"],
+});
+
+export type FlipQuery = z.infer<typeof flipQuerySchema>;
+
+export interface FlipPage<T> {
+  items: T[];
+  nextCursor: string | null;
+  total: number;
+}
+
+export interface QueryableFlip extends FlipWithFills {
+  id: string;
+  buyDate: Date | string;
+  category?: string | null;
+  tags?: { id: string }[];
+  rsAccountId?: string | null;
+}
+
+type SortValue = number | string | null;
+
+interface FlipCursor {
+  sort: FlipSortField;
+  value: SortValue;
+  id: string;
+}
+
+// Dates are timestamps; only profit and ROI can be null (unsold flips)
+function isSortValue(value: unknown, sort: FlipSortField): value is SortValue {
+  if (sort === "item") return typeof value === "string";
+  if (value === null) return sort === "profit" || sort === "roi";
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+export function encodeFlipCursor(cursor: FlipCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+// Null for a malformed cursor or one made under a different sort
+export function decodeFlipCursor(cursor: string, sort: FlipSortField): FlipCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (typeof parsed?.id !== "string" || parsed.sort !== sort) return null;
+    return isSortValue(parsed.value, sort) ? { sort, value: parsed.value, id: parsed.id } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Filters and sorts that need the sell fills can't be expressed as plain column queries
+export function needsComputedQuery(query: FlipQuery): boolean {
+  return query.status !== undefined
+    || query.minProfit !== undefined
+    || query.maxProfit !== undefined
+    || query.minRoi !== undefined
+    || query.maxRoi !== undefined
+    || query.sort === "profit"
+    || query.sort === "roi";
+}
+
+export function flipSortValue(flip: QueryableFlip, sort: FlipSortField): SortValue {
+  switch (sort) {
+    case "date":
+      return new Date(flip.buyDate).getTime();
+    case "item":
+      return flip.itemName.toLowerCase();
+    case "quantity":
+      return flip.quantity;
+    case "profit":
+    case "roi": {
+      const summary = summarizeFlipSells(flip);
+      if (summary.soldQuantity === 0) return null;
+      return sort === "profit" ? summary.profit : summary.roi;
+    }
+  }
+}
+
+// Unsold flips have no profit/ROI and sort below every sold one
+function compareSortValues(a: SortValue, b: SortValue): number {
+  if (a === b) return 0;
+  if (a === null) return -1;
+  if (b === null) return 1;
+  if (typeof a === "string" && typeof b === "string") return a.localeCompare(b);
+  return (a as number) - (b as number);
+}
+
+export function compareFlipRows(a: { value: SortValue; id: string }, b: { value: SortValue; id: string }, direction: "asc" | "desc"): number {
+  const comparison = compareSortValues(a.value, b.value) || a.id.localeCompare(b.id);
+  return direction === "desc" ? -comparison : comparison;
+}
+
+export function matchesFlipQuery(flip: QueryableFlip, query: FlipQuery): boolean {
+  if (query.category && flip.category !== query.category) return false;
+  if (query.tagId && !flip.tags?.some(tag => tag.id === query.tagId)) return false;
+  if (query.rsAccountId && flip.rsAccountId !== query.rsAccountId) return false;
+
+  const buyTime = new Date(flip.buyDate).getTime();
+  if (query.dateFrom && buyTime < query.dateFrom.getTime()) return false;
+  if (query.dateTo && buyTime > query.dateTo.getTime()) return false;
+
+  if (query.item) {
+    const itemId = Number(query.item);
+    const matchesItem = Number.isInteger(itemId)
+      ? flip.itemId === itemId
+      : flip.itemName.toLowerCase().includes(query.item.toLowerCase());
+    if (!matchesItem) return false;
+  }
+
+  if (!needsComputedQuery(query)) return true;
+
+  const summary = summarizeFlipSells(flip);
+  if (query.status && summary.status !== query.status) return false;
+
+  const hasRangeFilter = query.minProfit !== undefined || query.maxProfit !== undefined
+    || query.minRoi !== undefined || query.maxRoi !== undefined;
+  if (hasRangeFilter && summary.soldQuantity === 0) return false;
+  if (query.minProfit !== undefined && summary.profit < query.minProfit) return false;
+  if (query.maxProfit !== undefined && summary.profit > query.maxProfit) return false;
+  if (query.minRoi !== undefined && summary.roi < query.minRoi) return false;
+  if (query.maxRoi !== undefined && summary.roi > query.maxRoi) return false;
+
+  return true;
+}
+
+// Filter, sort and page an in-memory list of flips
+export function paginateFlips<T extends QueryableFlip>(flips: T[], query: FlipQuery): FlipPage<T> {
+  const rows = flips
+    .filter(flip => matchesFlipQuery(flip, query))
+    .map(flip => ({ flip, value: flipSortValue(flip, query.sort), id: flip.id }))
+    .sort((a, b) => compareFlipRows(a, b, query.direction));
+
+  const cursor = query.cursor ? decodeFlipCursor(query.cursor, query.sort) : null;
+  const start = cursor
+    ? rows.findIndex(row => compareFlipRows(row, cursor, query.direction) > 0)
+    : 0;
+  const pageRows = start === -1 ? [] : rows.slice(start, start + query.limit);
+  const last = pageRows[pageRows.length - 1];
+  const hasMore = start !== -1 && start + query.limit < rows.length;
+
+  return {
+    items: pageRows.map(row => row.flip),
+    nextCursor: hasMore && last ? encodeFlipCursor({ sort: query.sort, value: last.value, id: last.id }) : null,
+    total: rows.length,
+  };
+}
@@ -0,0 +1,144 @@
+// Flip revision helpers
+// Every change to a flip stores a snapshot of the flip (with its sell fills) as it
+// was after the change, plus a field-level diff against the previous state.
+// Reverting re-applies an earlier snapshot and records that as a new revision.
+
+import type { Flip, FlipSell, StrategyTag } from "./schema";
+import type { FlipStatus } from "./flipStatus";
+
+export const FLIP_REVISION_ACTIONS = ["create", "update", "delete", "restore", "revert", "move_to_portfolio", "undo_portfolio_move"] as const;
+export type FlipRevisionAction = typeof FLIP_REVISION_ACTIONS[number];
+
+export interface FlipSnapshotTag {
+  id: string;
+  name: string;
+}
+
+export interface FlipSnapshotSell {
+  id?: string;
+  quantity: number;
+  sellPrice: number;
+  sellDate: string;
+}
+
+// Dates are ISO strings so snapshots round-trip through jsonb unchanged
+export interface FlipSnapshot {
+  rsAccountId: string | null;
+  itemName: string;
+  itemIcon: string | null;
+  itemId: number | null;
+  quantity: number;
+  buyPrice: number;
+  sellPrice: number | null;
+  buyDate: string;
+  sellDate: string | null;
+  notes: string | null;
+  category: string | null;
+  tags: FlipSnapshotTag[];
+  membershipStatus: "F2P" | "Members" | "Unknown" | null;
+  isMembers: boolean | null;
+  geLimit: number | null;
+  status: FlipStatus;
+  closedAt: string | null;
+  deletedAt: string | null;
+  sells: FlipSnapshotSell[];
+}
+
+export type FlipSnapshotField = keyof FlipSnapshot;
+
+export interface FlipFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export type FlipRevisionChanges = Partial<Record<FlipSnapshotField, FlipFieldChange>>;
+
+function toIso(date: Date | string | null | undefined): string | null {
+  return date ? new Date(date).toISOString() : null;
+}
+
+export function snapshotFlip(
+  flip: Flip,
+  sells: Pick<FlipSell, "id" | "quantity" | "sellPrice" | "sellDate">[],
+  tags: Pick<StrategyTag, "id" | "name">[]
+): FlipSnapshot {
+  return {
+    rsAccountId: flip.rsAccountId ?? null,
+    itemName: flip.itemName,
+    itemIcon: flip.itemIcon ?? null,
+    itemId: flip.itemId ?? null,
+    quantity: flip.quantity,
+    buyPrice: flip.buyPrice,
+    sellPrice: flip.sellPrice ?? null,
+    buyDate: new Date(flip.buyDate).toISOString(),
+    sellDate: toIso(flip.sellDate),
+    notes: flip.notes ?? null,
+    category: flip.category ?? null,
+    tags: tags.map(tag => ({ id: tag.id, name: tag.name })),
+    membershipStatus: flip.membershipStatus ?? null,
+    isMembers: flip.isMembers ?? null,
+    geLimit: flip.geLimit ?? null,
+    status: flip.status,
+    closedAt: toIso(flip.closedAt),
+    deletedAt: toIso(flip.deletedAt),
+    sells: sells.map(sell => ({
+      id: sell.id,
+      quantity: sell.quantity,
+      sellPrice: sell.sellPrice,
+      sellDate: new Date(sell.sellDate).toISOString(),
+    })),
+  };
+}
+
+// Fill ids change when fills are re-created, so only their contents are compared;
+// tags are compared by id so renaming a tag doesn't show up on every flip
+function comparableValue(field: FlipSnapshotField, value: unknown): string {
+  if (field === "sells" && Array.isArray(value)) {
+    return JSON.stringify(value.map(({ quantity, sellPrice, sellDate }: FlipSnapshotSell) => ({ quantity, sellPrice, sellDate })));
+  }
+  if (field === "tags" && Array.isArray(value)) {
+    return JSON.stringify(value.map((tag: FlipSnapshotTag) => tag.id).sort());
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Field-level diff between two snapshots; a missing "before" (a new flip) lists every set field.
+// Fields added to snapshots later aren't diffed against older snapshots that lack them.
+export function diffFlipSnapshots(before: FlipSnapshot | null, after: FlipSnapshot): FlipRevisionChanges {
+  const changes: FlipRevisionChanges = {};
+  for (const field of Object.keys(after) as FlipSnapshotField[]) {
+    if (before && !(field in before)) continue;
+    const from = before ? before[field] : null;
+    const to = after[field];
+    if (!before && (to === null || (Array.isArray(to) && to.length === 0))) continue;
+    if (comparableValue(field, from) !== comparableValue(field, to)) {
+      changes[field] = { from, to };
+    }
+  }
+  return changes;
+}
+
+// Flip columns a revert writes back; deletedAt is left alone so a revert never trashes a flip.
+// Fields are listed explicitly because older snapshots can carry keys that are no longer columns.
+export function flipFieldsFromSnapshot(snapshot: FlipSnapshot) {
+  return {
+    rsAccountId: snapshot.rsAccountId,
+    itemName: snapshot.itemName,
+    itemIcon: snapshot.itemIcon,
+    itemId: snapshot.itemId,
+    quantity: snapshot.quantity,
+    buyPrice: snapshot.buyPrice,
+    sellPrice: snapshot.sellPrice,
+    buyDate: new Date(snapshot.buyDate),
+    sellDate: snapshot.sellDate ? new Date(snapshot.sellDate) : null,
+    notes: snapshot.notes,
+    category: snapshot.category,
+    membershipStatus: snapshot.membershipStatus,
+    isMembers: snapshot.isMembers,
+    geLimit: snapshot.geLimit,
+    ...(snapshot.status ? {
+      status: snapshot.status,
+      closedAt: snapshot.closedAt ? new Date(snapshot.closedAt) : null,
+    } : {}),
+  };
+}
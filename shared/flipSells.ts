@@ -0,0 +1,132 @@
+// Partial sell helpers
+// A flip has one buy leg and any number of sell fills, each with its own
+// quantity, price and date. Tax is calculated per fill, so two fills at
+// different prices are taxed exactly as the GE would tax them.
+// Flips logged before fills existed only carry sellPrice/sellDate; those are
+// treated as a single fill covering the full quantity.
+// Cancelled and written-off flips close whatever is still unsold (see flipStatus.ts).
+
+import { calculateFlipTax, type TaxCalculation } from "./taxCalculator";
+import { fillStatus, isClosedStatus, type FlipStatus } from "./flipStatus";
+
+export interface SellFill {
+  id?: string;
+  quantity: number;
+  sellPrice: number;
+  sellDate: Date | string;
+}
+
+export interface FlipWithFills {
+  quantity: number;
+  buyPrice: number;
+  sellPrice?: number | null;
+  sellDate?: Date | string | null;
+  itemId?: number | null;
+  itemName: string;
+  sells?: SellFill[] | null;
+  status?: string | null;
+  closedAt?: Date | string | null;
+}
+
+export interface FillResult extends SellFill {
+  tax: TaxCalculation;
+}
+
+export interface FlipSellSummary {
+  fills: FillResult[];
+  status: FlipStatus;
+  soldQuantity: number;
+  remainingQuantity: number; // still open; 0 once the flip is closed
+  closedQuantity: number; // unsold units a cancellation or write-off closed
+  grossSellTotal: number;
+  totalTax: number;
+  netSellTotal: number;
+  costBasis: number; // buy cost of the sold (and written-off) quantity
+  writeOffLoss: number;
+  profit: number;
+  roi: number;
+  averageSellPrice: number | null;
+  lastSellDate: Date | null;
+  closedAt: Date | null;
+}
+
+export function getSellFills(flip: FlipWithFills): SellFill[] {
+  if (flip.sells && flip.sells.length > 0) {
+    return flip.sells;
+  }
+  // Legacy single-sell flip
+  if (flip.sellPrice !== null && flip.sellPrice !== undefined) {
+    return [{
+      quantity: flip.quantity,
+      sellPrice: flip.sellPrice,
+      sellDate: flip.sellDate ?? new Date(),
+    }];
+  }
+  return [];
+}
+
+export function summarizeFlipSells(flip: FlipWithFills): FlipSellSummary {
+  const fills: FillResult[] = getSellFills(flip).map(fill => ({
+    ...fill,
+    tax: calculateFlipTax(fill.sellPrice, flip.buyPrice, fill.quantity, flip.itemId, fill.sellDate),
+  }));
+
+  const soldQuantity = fills.reduce((sum, f) => sum + f.quantity, 0);
+  const unsoldQuantity = Math.max(0, flip.quantity - soldQuantity);
+  // A closed status only matters while something is left unsold
+  const closed = isClosedStatus(flip.status) && unsoldQuantity > 0;
+  const remainingQuantity = closed ? 0 : unsoldQuantity;
+  const closedQuantity = closed ? unsoldQuantity : 0;
+  const grossSellTotal = fills.reduce((sum, f) => sum + f.tax.grossSellTotal, 0);
+  const totalTax = fills.reduce((sum, f) => sum + f.tax.totalTax, 0);
+  const netSellTotal = grossSellTotal - totalTax;
+  const writeOffLoss = closed && flip.status === "written_off" ? flip.buyPrice * closedQuantity : 0;
+  const costBasis = flip.buyPrice * soldQuantity + writeOffLoss;
+  const profit = netSellTotal - costBasis;
+  const roi = costBasis > 0 ? Math.round((profit / costBasis) * 10000) / 100 : 0;
+
+  let lastSellDate: Date | null = null;
+  for (const fill of fills) {
+    const date = new Date(fill.sellDate);
+    if (!lastSellDate || date > lastSellDate) lastSellDate = date;
+  }
+
+  const status: FlipStatus = closed ? flip.status as FlipStatus : fillStatus(soldQuantity, unsoldQuantity);
+
+  return {
+    fills,
+    status,
+    soldQuantity,
+    remainingQuantity,
+    closedQuantity,
+    grossSellTotal,
+    totalTax,
+    netSellTotal,
+    costBasis,
+    writeOffLoss,
+    profit,
+    roi,
+    averageSellPrice: soldQuantity > 0 ? Math.round(grossSellTotal / soldQuantity) : null,
+    lastSellDate,
+    closedAt: closed && flip.closedAt ? new Date(flip.closedAt) : null,
+  };
+}
+
+export interface BookedProfit {
+  date: Date;
+  profit: number;
+}
+
+// Profit as it was booked over time: each fill on its sell date, and a write-off's
+// loss on the day the flip was written off. Cancellations book nothing.
+export function bookedProfits(flip: FlipWithFills): BookedProfit[] {
+  const summary = summarizeFlipSells(flip);
+  const entries: BookedProfit[] = summary.fills.map(fill => ({
+    date: new Date(fill.sellDate),
+    profit: fill.tax.profit,
+  }));
+  if (summary.writeOffLoss > 0) {
+    entries.push({ date: summary.closedAt ?? new Date(), profit: -summary.writeOffLoss });
+  }
+  return entries;
+}
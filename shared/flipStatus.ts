@@ -0,0 +1,38 @@
+// Flip lifecycle status
+// open, partially_sold and sold follow from the sell fills and are kept in step
+// with them. cancelled and written_off are set by the user and close the flip:
+// the unsold units stop counting as an open position, a cancellation books
+// nothing for them and a write-off books their buy cost as a loss.
+
+import { z } from "zod";
+
+export const FLIP_STATUSES = ["open", "partially_sold", "sold", "cancelled", "written_off"] as const;
+export type FlipStatus = typeof FLIP_STATUSES[number];
+
+export const CLOSED_FLIP_STATUSES = ["cancelled", "written_off"] as const;
+export type ClosedFlipStatus = typeof CLOSED_FLIP_STATUSES[number];
+
+export const FLIP_STATUS_LABELS: Record<FlipStatus, string> = {
+  open: "Open",
+  partially_sold: "Partially sold",
+  sold: "Sold",
+  cancelled: "Cancelled",
+  written_off: "Written off",
+};
+
+export function isClosedStatus(status: string | null | undefined): status is ClosedFlipStatus {
+  return status === "cancelled" || status === "written_off";
+}
+
+// Status implied by the fills alone
+export function fillStatus(soldQuantity: number, remainingQuantity: number): FlipStatus {
+  if (soldQuantity === 0) return "open";
+  return remainingQuantity > 0 ? "partially_sold" : "sold";
+}
+
+// Sent with PATCH /api/flips/:id. Any of the fill-based values reopens a closed
+// flip (the server works out which one from the fills).
+export const flipStatusUpdateSchema = z.object({
+  status: z.enum(FLIP_STATUSES),
+  closedAt: z.coerce.date().optional(), // defaults to now when closing
+});
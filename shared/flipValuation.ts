@@ -0,0 +1,88 @@
+// Mark-to-market valuation
+// The unsold part of a flip is valued at the current GE price, taxed as if it
+// were sold there now. Realized P&L keeps coming from the sell fills
+// (see flipSells.ts), so the two can be shown side by side.
+
+import { calculateFlipTax } from "./taxCalculator";
+import { summarizeFlipSells, type FlipWithFills } from "./flipSells";
+
+export interface OpenPositionValuation {
+  flipId: string;
+  itemName: string;
+  itemId: number | null;
+  rsAccountId: string | null;
+  openQuantity: number;
+  buyPrice: number;
+  costBasis: number; // buy cost of the open quantity
+  currentPrice: number | null; // null when no GE price was found
+  marketValue: number | null; // gross value at the current price
+  tax: number | null;
+  unrealizedProfit: number | null;
+  unrealizedRoi: number | null;
+  openedAt: string;
+  ageMs: number;
+}
+
+export interface FlipValuation {
+  positions: OpenPositionValuation[];
+  totals: {
+    openCostBasis: number;
+    marketValue: number; // priced positions only
+    unrealizedProfit: number; // priced positions only
+    realizedProfit: number;
+    unpricedPositions: number;
+  };
+  pricedAt: string;
+}
+
+export interface ValuedFlip extends FlipWithFills {
+  id: string;
+  buyDate: Date | string;
+  rsAccountId?: string | null;
+}
+
+// null once the flip is fully sold
+export function valueOpenPosition(flip: ValuedFlip, currentPrice: number | null, now: Date = new Date()): OpenPositionValuation | null {
+  const openQuantity = summarizeFlipSells(flip).remainingQuantity;
+  if (openQuantity <= 0) return null;
+
+  const tax = currentPrice !== null
+    ? calculateFlipTax(currentPrice, flip.buyPrice, openQuantity, flip.itemId, now)
+    : null;
+
+  return {
+    flipId: flip.id,
+    itemName: flip.itemName,
+    itemId: flip.itemId ?? null,
+    rsAccountId: flip.rsAccountId ?? null,
+    openQuantity,
+    buyPrice: flip.buyPrice,
+    costBasis: flip.buyPrice * openQuantity,
+    currentPrice,
+    marketValue: tax ? tax.grossSellTotal : null,
+    tax: tax ? tax.totalTax : null,
+    unrealizedProfit: tax ? tax.profit : null,
+    unrealizedRoi: tax ? tax.roi : null,
+    openedAt: new Date(flip.buyDate).toISOString(),
+    ageMs: Math.max(0, now.getTime() - new Date(flip.buyDate).getTime()),
+  };
+}
+
+export function summarizeValuation(
+  flips: ValuedFlip[],
+  positions: OpenPositionValuation[],
+  now: Date = new Date()
+): FlipValuation {
+  const priced = positions.filter(p => p.unrealizedProfit !== null);
+  return {
+    positions,
+    totals: {
+      openCostBasis: positions.reduce((sum, p) => sum + p.costBasis, 0),
+      marketValue: priced.reduce((sum, p) => sum + (p.marketValue ?? 0), 0),
+      unrealizedProfit: priced.reduce((sum, p) => sum + (p.unrealizedProfit ?? 0), 0),
+      realizedProfit: flips.reduce((sum, flip) => sum + summarizeFlipSells(flip).profit, 0),
+      unpricedPositions: positions.length - priced.length,
+    },
+    pricedAt: now.toISOString(),
+  };
+}
@@ -0,0 +1,183 @@
+// Technical indicators over daily GE prices
+// Each series lines up with the input prices and is null until there are enough
+// points for its window. Windows are in days, since the history is one point per day.
+
+import { z } from "zod";
+
+export const indicatorQuerySchema = z.object({
+  smaWindow: z.coerce.number().int().min(2).max(90).default(20),
+  emaWindow: z.coerce.number().int().min(2).max(90).default(20),
+  rsiPeriod: z.coerce.number().int().min(2).max(90).default(14),
+  bollingerWindow: z.coerce.number().int().min(2).max(90).default(20),
+  bollingerStdDev: z.coerce.number().positive().max(5).default(2),
+  macdFast: z.coerce.number().int().min(2).max(90).default(12),
+  macdSlow: z.coerce.number().int().min(2).max(90).default(26),
+  macdSignal: z.coerce.number().int().min(2).max(90).default(9),
+  rocWindow: z.coerce.number().int().min(1).max(89).default(10),
+}).refine(query => query.macdFast < query.macdSlow, {
+  message: "macdFast must be shorter than macdSlow",
+});
+
+export type IndicatorWindows = z.infer<typeof indicatorQuerySchema>;
+
+export type Series = (number | null)[];
+
+export function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// Population standard deviation
+export function standardDeviation(values: number[]): number {
+  const mean = average(values);
+  return Math.sqrt(average(values.map(value => (value - mean) ** 2)));
+}
+
+export function sma(values: number[], window: number): Series {
+  return values.map((_, i) => (i + 1 < window ? null : average(values.slice(i + 1 - window, i + 1))));
+}
+
+// Seeded with the SMA of the first window
+export function ema(values: number[], window: number): Series {
+  const k = 2 / (window + 1);
+  const result: Series = [];
+  let previous: number | null = null;
+  values.forEach((value, i) => {
+    if (i + 1 < window) {
+      result.push(null);
+      return;
+    }
+    previous = previous === null ? average(values.slice(0, window)) : value * k + previous * (1 - k);
+    result.push(previous);
+  });
+  return result;
+}
+
+// Wilder's RSI: average gains and losses smoothed over the period
+export function rsi(values: number[], period: number): Series {
+  const result: Series = values.map(() => null);
+  if (values.length <= period) return result;
+
+  const changes = values.slice(1).map((value, i) => value - values[i]);
+  let avgGain = average(changes.slice(0, period).map(change => Math.max(change, 0)));
+  let avgLoss = average(changes.slice(0, period).map(change => Math.max(-change, 0)));
+
+  for (let i = period; i < values.length; i++) {
+    if (i > period) {
+      const change = changes[i - 1];
+      avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+      avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    }
+    // No losses is 100; a flat window is neutral
+    result[i] = avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss);
+  }
+  return result;
+}
+
+export interface BollingerBands {
+  upper: Series;
+  middle: Series;
+  lower: Series;
+}
+
+export function bollingerBands(values: number[], window: number, stdDevs: number): BollingerBands {
+  const middle = sma(values, window);
+  const spread = values.map((_, i) => (i + 1 < window ? null : standardDeviation(values.slice(i + 1 - window, i + 1)) * stdDevs));
+  return {
+    upper: middle.map((mid, i) => (mid === null ? null : mid + spread[i]!)),
+    middle,
+    lower: middle.map((mid, i) => (mid === null ? null : mid - spread[i]!)),
+  };
+}
+
+export interface Macd {
+  macd: Series;
+  signal: Series;
+  histogram: Series;
+}
+
+// Fast EMA minus slow EMA, with an EMA of that as the signal line
+export function macd(values: number[], fast: number, slow: number, signalWindow: number): Macd {
+  const fastEma = ema(values, fast);
+  const slowEma = ema(values, slow);
+  const line = fastEma.map((f, i) => (f === null || slowEma[i] === null ? null : f - slowEma[i]!));
+
+  const firstIndex = line.findIndex(value => value !== null);
+  const signal: Series = values.map(() => null);
+  if (firstIndex >= 0) {
+    const defined = line.slice(firstIndex) as number[];
+    ema(defined, signalWindow).forEach((value, i) => { signal[firstIndex + i] = value; });
+  }
+
+  return {
+    macd: line,
+    signal,
+    histogram: line.map((value, i) => (value === null || signal[i] === null ? null : value - signal[i]!)),
+  };
+}
+
+// Percent change over the window
+export function rateOfChange(values: number[], window: number): Series {
+  return values.map((value, i) => {
+    if (i < window || values[i - window] === 0) return null;
+    return ((value - values[i - window]) / values[i - window]) * 100;
+  });
+}
+
+export interface IndicatorPoint {
+  date: string;
+  price: number;
+  sma: number | null;
+  ema: number | null;
+  rsi: number | null;
+  bollingerUpper: number | null;
+  bollingerMiddle: number | null;
+  bollingerLower: number | null;
+  macd: number | null;
+  macdSignal: number | null;
+  macdHistogram: number | null;
+  roc: number | null;
+}
+
+export interface ItemIndicators {
+  itemId: number;
+  windows: IndicatorWindows;
+  points: IndicatorPoint[];
+}
+
+function round(value: number | null): number | null {
+  return value === null ? null : Math.round(value * 100) / 100;
+}
+
+// Points oldest first
+export function computeIndicators(
+  itemId: number,
+  points: { date: string; price: number }[],
+  windows: IndicatorWindows
+): ItemIndicators {
+  const prices = points.map(point => point.price);
+  const smaSeries = sma(prices, windows.smaWindow);
+  const emaSeries = ema(prices, windows.emaWindow);
+  const rsiSeries = rsi(prices, windows.rsiPeriod);
+  const bands = bollingerBands(prices, windows.bollingerWindow, windows.bollingerStdDev);
+  const macdSeries = macd(prices, windows.macdFast, windows.macdSlow, windows.macdSignal);
+  const rocSeries = rateOfChange(prices, windows.rocWindow);
+
+  return {
+    itemId,
+    windows,
+    points: points.map((point, i) => ({
+      date: point.date,
+      price: point.price,
+      sma: round(smaSeries[i]),
+      ema: round(emaSeries[i]),
+      rsi: round(rsiSeries[i]),
+      bollingerUpper: round(bands.upper[i]),
+      bollingerMiddle: round(bands.middle[i]),
+      bollingerLower: round(bands.lower[i]),
+      macd: round(macdSeries.macd[i]),
+      macdSignal: round(macdSeries.signal[i]),
+      macdHistogram: round(macdSeries.histogram[i]),
+      roc: round(rocSeries[i]),
+    })),
+  };
+}
@@ -0,0 +1,137 @@
+// Item overview
+// Everything the app knows about one item in a single response: GE price, trend,
+// history and suggestions, community trade stats and volume, plus the user's own
+// flips, watchlist entry and alerts for it (GET /api/items/:id/overview).
+
+import type { FlipWithSells, ItemVolumeDaily, MarginCheck, PriceAlert, WatchlistItem } from "./schema";
+import type { PriceTrend } from "./priceSignals";
+import type { SuggestionWithMarginCheck } from "./marginChecks";
+import { summarizeFlipSells } from "./flipSells";
+import { flipLedger } from "./profitLedger";
+
+export interface ItemPrice {
+  id: number;
+  name: string;
+  price: number;
+  volume?: number;
+  timestamp?: string;
+  icon?: string;
+  isMembers?: boolean;
+  geLimit?: number;
+  examine?: string;
+}
+
+export interface ItemPricePoint {
+  date: string;
+  price: number;
+  volume?: number;
+}
+
+export type CommunityConfidence = "high" | "medium" | "low";
+
+export interface CommunityPrice {
+  itemId: number;
+  itemName: string;
+  itemIcon: string | null;
+  gePriceValue: number;
+  communityBuyPrice: number;
+  communitySellPrice: number;
+  tradeCount: number;
+  uniqueTraders: number;
+  lastTradeDate: string;
+  avgProfit: number;
+  avgRoi: number;
+  confidence: CommunityConfidence;
+  priceAccuracy: number;
+}
+
+// Logged buy and sell transactions from every user
+export interface CommunityTradeData {
+  totalTransactions: number;
+  buyTransactions: number;
+  sellTransactions: number;
+  avgUserBuyPrice: number | null;
+  avgUserSellPrice: number | null;
+  totalVolume: number;
+  dataSource: string;
+}
+
+export interface VolumePeriod {
+  transactionCount: number;
+  totalQuantity: number;
+  totalValue: number;
+}
+
+export interface ItemVolume {
+  daily: ItemVolumeDaily[];
+  weekly: (VolumePeriod & { week: string })[];
+  monthly: (VolumePeriod & { month: string })[];
+}
+
+export interface ItemTradeSummary {
+  flipCount: number;
+  unitsBought: number;
+  unitsSold: number;
+  openQuantity: number;
+  realizedProfit: number; // net of tax, including write-offs
+  avgBuyPrice: number | null; // per unit, weighted by quantity
+  avgSellPrice: number | null;
+  lastTradeDate: string | null;
+}
+
+export interface ItemOverview {
+  itemId: number;
+  item: ItemPrice | null;
+  trend: PriceTrend | null;
+  history: ItemPricePoint[] | null;
+  suggestions: (SuggestionWithMarginCheck & { priceDate: string; communityData: CommunityTradeData | null }) | null;
+  communityPrice: CommunityPrice | null;
+  volume: ItemVolume;
+  trades: ItemTradeSummary;
+  flips: FlipWithSells[]; // the user's flips of the item, newest first
+  openFlips: FlipWithSells[]; // the ones with units still unsold
+  watchlist: WatchlistItem | null;
+  alerts: PriceAlert[];
+  marginChecks: MarginCheck[]; // the user's, newest first
+}
+
+// Community confidence: enough trades, from enough traders, recently enough
+export function communityConfidence(tradeCount: number, uniqueTraders: number, daysSinceLastTrade: number): CommunityConfidence {
+  if (tradeCount >= 10 && uniqueTraders >= 3 && daysSinceLastTrade <= 7) return "high";
+  if (tradeCount >= 5 && uniqueTraders >= 2 && daysSinceLastTrade <= 14) return "medium";
+  return "low";
+}
+
+export function summarizeItemTrades(flips: FlipWithSells[]): ItemTradeSummary {
+  let unitsBought = 0;
+  let buyTotal = 0;
+  let unitsSold = 0;
+  let grossSellTotal = 0;
+  let openQuantity = 0;
+  let realizedProfit = 0;
+  let lastTrade: Date | null = null;
+
+  for (const flip of flips) {
+    const summary = summarizeFlipSells(flip);
+    unitsBought += flip.quantity;
+    buyTotal += flip.buyPrice * flip.quantity;
+    unitsSold += summary.soldQuantity;
+    grossSellTotal += summary.grossSellTotal;
+    openQuantity += summary.remainingQuantity;
+    realizedProfit += flipLedger(flip).profit;
+    for (const date of [new Date(flip.buyDate), summary.lastSellDate]) {
+      if (date && (!lastTrade || date > lastTrade)) lastTrade = date;
+    }
+  }
+
+  return {
+    flipCount: flips.length,
+    unitsBought,
+    unitsSold,
+    openQuantity,
+    realizedProfit,
+    avgBuyPrice: unitsBought > 0 ? Math.round(buyTotal / unitsBought) : null,
+    avgSellPrice: unitsSold > 0 ? Math.round(grossSellTotal / unitsSold) : null,
+    lastTradeDate: lastTrade ? lastTrade.toISOString() : null,
+  };
+}
@@ -0,0 +1,76 @@
+// Margin checks
+// Insta-buying one unit shows the price buyers are paying right now (the high) and
+// insta-selling it the price sellers are getting (the low). A flip buys at the low
+// and sells at the high, so the check's spread is the live margin.
+// The price suggestions come from the daily GE price, so a margin check taken after
+// the latest daily price replaces their buy and sell prices.
+
+import { z } from "zod";
+import type { MarginCheck } from "./schema";
+import type { PriceSuggestion } from "./priceSignals";
+import { calculateTaxPerItem } from "./taxCalculator";
+
+export const MAX_MARGIN_CHECKS = 500;
+
+// GET /api/margin-checks
+export const marginCheckQuerySchema = z.object({
+  itemId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(MAX_MARGIN_CHECKS).default(100),
+});
+
+export interface MarginCheckLike {
+  itemId: number;
+  instaBuyPrice: number;
+  instaSellPrice: number;
+  checkedAt: Date | string;
+}
+
+export interface MarginSpread {
+  margin: number; // per unit, before tax
+  tax: number; // per unit, selling at the insta-buy price
+  netMargin: number;
+  roi: number; // percent of the insta-sell price
+}
+
+export function marginSpread(check: MarginCheckLike): MarginSpread {
+  const margin = check.instaBuyPrice - check.instaSellPrice;
+  const tax = calculateTaxPerItem(check.instaBuyPrice, check.itemId, check.checkedAt);
+  const netMargin = margin - tax;
+  return {
+    margin,
+    tax,
+    netMargin,
+    roi: check.instaSellPrice > 0 ? Math.round((netMargin / check.instaSellPrice) * 10000) / 100 : 0,
+  };
+}
+
+// Newer than the daily price (yyyy-MM-dd) the suggestions were worked out from
+export function isFresherThanPrice(check: MarginCheckLike, priceDate: string): boolean {
+  return new Date(check.checkedAt).getTime() > new Date(priceDate).getTime();
+}
+
+export type SuggestionSource = "history" | "margin_check";
+
+export type SuggestionWithMarginCheck = PriceSuggestion & {
+  source: SuggestionSource;
+  marginCheck: MarginCheck | null; // the check the prices came from
+};
+
+// Buy at the check's insta-sell price and sell at its insta-buy price. Confidence,
+// volatility and the averages still come from the price history.
+export function applyMarginCheck(suggestion: PriceSuggestion, check: MarginCheck): SuggestionWithMarginCheck {
+  const suggestedBuyPrice = check.instaSellPrice;
+  const suggestedSellPrice = check.instaBuyPrice;
+  const potentialROI = ((suggestedSellPrice - suggestedBuyPrice) / suggestedBuyPrice) * 100;
+  return {
+    ...suggestion,
+    suggestedBuyPrice,
+    suggestedSellPrice,
+    potentialProfit: suggestedSellPrice - suggestedBuyPrice,
+    potentialROI: Math.round(potentialROI * 100) / 100, // as analyzeSuggestions rounds it
+    buyReason: "The insta-sell price from your latest margin check",
+    sellReason: "The insta-buy price from your latest margin check",
+    source: "margin_check",
+    marginCheck: check,
+  };
+}
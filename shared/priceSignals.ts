@@ -0,0 +1,298 @@
+// Price signals
+// The rules behind an item's trend (buy/sell/hold) and its suggested flip prices,
+// worked out from a series of daily prices. Kept free of any fetching so the same
+// rules run live (ge-api.ts) and replayed over history (backtest.ts).
+
+import { average, standardDeviation } from "./indicators";
+
+// Tune the trend rules here; backtest.ts scores how well they call the market
+export const TREND_THRESHOLDS = {
+  stableMovePercent: 2, // moves smaller than this don't break or start a trend
+  nearExtremePercent: 10, // within this of the 30-day low/high counts as near it
+  streakDays: 5, // days in one direction that make a streak
+  risingMaxAboveAvgPercent: 5, // a rising streak is only a buy below this much over the 30-day average
+  belowAvgPercent: 5,
+  aboveAvgPercent: 10,
+};
+
+// First matching rule wins, in this order
+export const TREND_RULES = ["near_low", "near_high", "falling_streak", "rising_streak", "below_average", "above_average", "normal_range"] as const;
+export type TrendRule = typeof TREND_RULES[number];
+
+export const TREND_RULE_ACTIONS: Record<TrendRule, "buy" | "sell" | "hold"> = {
+  near_low: "buy",
+  near_high: "sell",
+  falling_streak: "hold",
+  rising_streak: "buy",
+  below_average: "buy",
+  above_average: "sell",
+  normal_range: "hold",
+};
+
+export const SUGGESTION_RULES = ["moderate_volatility", "high_volatility", "narrow_margin", "falling_above_average", "rising_below_average", "standard"] as const;
+export type SuggestionRule = typeof SUGGESTION_RULES[number];
+
+// The call behind each confidence rule: the confident ones back buying to flip,
+// while a falling price or a margin too thin to cover costs says to wait
+export const SUGGESTION_RULE_ACTIONS: Record<SuggestionRule, "buy" | "sell" | "hold"> = {
+  moderate_volatility: "buy",
+  high_volatility: "buy",
+  narrow_margin: "hold",
+  falling_above_average: "hold",
+  rising_below_average: "buy",
+  standard: "buy",
+};
+
+export interface PriceTrend {
+  direction: "rising" | "falling" | "stable";
+  changePercent: number;
+  changeAmount: number;
+  trendDays: number;
+  avgPrice7d: number;
+  avgPrice30d: number;
+  lowPrice30d: number;
+  highPrice30d: number;
+  recommendation: "buy" | "sell" | "hold";
+  recommendationReason: string;
+  rule: TrendRule; // which rule made the recommendation
+}
+
+export interface PriceSuggestion {
+  suggestedBuyPrice: number;
+  suggestedSellPrice: number;
+  potentialProfit: number;
+  potentialROI: number;
+  confidence: "high" | "medium" | "low";
+  confidenceReason: string;
+  confidenceRule: SuggestionRule;
+  buyReason: string;
+  sellReason: string;
+  currentPrice: number;
+  avgPrice7d: number;
+  avgPrice30d: number;
+  lowPrice30d: number;
+  highPrice30d: number;
+  volatility: number;
+  trend: "rising" | "falling" | "stable";
+}
+
+// Prices oldest first, at least one
+export function analyzeTrend(prices: number[]): PriceTrend {
+  const currentPrice = prices[prices.length - 1];
+  
+  const last7d = prices.slice(-7);
+  const last30d = prices.slice(-30);
+  
+  const avgPrice7d = average(last7d);
+  const avgPrice30d = average(last30d);
+  const lowPrice30d = Math.min(...last30d);
+  const highPrice30d = Math.max(...last30d);
+  
+  let trendDays = 0;
+  let trendDirection: "rising" | "falling" | "stable" = "stable";
+  
+  if (prices.length >= 2) {
+    const recentPrice = prices[prices.length - 1];
+    let lastTrendPrice = recentPrice;
+    
+    for (let i = prices.length - 2; i >= 0; i--) {
+      const diff = recentPrice - prices[i];
+      const percentDiff = Math.abs(diff / prices[i]) * 100;
+      
+      if (percentDiff < TREND_THRESHOLDS.stableMovePercent) {
+        trendDays++;
+        continue;
+      }
+      
+      if (trendDays === 0) {
+        trendDirection = diff > 0 ? "rising" : "falling";
+        trendDays = 1;
+        lastTrendPrice = prices[i];
+      } else {
+        const currentTrend = diff > 0 ? "rising" : "falling";
+        if (currentTrend === trendDirection) {
+          trendDays++;
+          lastTrendPrice = prices[i];
+        } else {
+          break;
+        }
+      }
+    }
+  }
+  
+  const priceWeekAgo = prices[Math.max(0, prices.length - 8)] || currentPrice;
+  const changeAmount = currentPrice - priceWeekAgo;
+  const changePercent = (changeAmount / priceWeekAgo) * 100;
+  
+  let recommendation: "buy" | "sell" | "hold" = "hold";
+  let recommendationReason = "";
+  let rule: TrendRule = "normal_range";
+  
+  const priceVsLow = ((currentPrice - lowPrice30d) / lowPrice30d) * 100;
+  const priceVsHigh = ((highPrice30d - currentPrice) / highPrice30d) * 100;
+  const priceVs30dAvg = ((currentPrice - avgPrice30d) / avgPrice30d) * 100;
+  
+  if (priceVsLow < TREND_THRESHOLDS.nearExtremePercent && trendDirection !== "falling") {
+    rule = "near_low";
+    recommendation = "buy";
+    recommendationReason = `Near 30-day low (${priceVsLow.toFixed(1)}% above). Good entry point.`;
+  } else if (priceVsHigh < TREND_THRESHOLDS.nearExtremePercent && trendDirection !== "rising") {
+    rule = "near_high";
+    recommendation = "sell";
+    recommendationReason = `Near 30-day high (${priceVsHigh.toFixed(1)}% below). Consider selling.`;
+  } else if (trendDirection === "falling" && trendDays >= TREND_THRESHOLDS.streakDays) {
+    rule = "falling_streak";
+    recommendation = "hold";
+    recommendationReason = `Falling for ${trendDays} days. Wait for stabilization.`;
+  } else if (trendDirection === "rising" && trendDays >= TREND_THRESHOLDS.streakDays && priceVs30dAvg < TREND_THRESHOLDS.risingMaxAboveAvgPercent) {
+    rule = "rising_streak";
+    recommendation = "buy";
+    recommendationReason = `Rising trend for ${trendDays} days, still near average.`;
+  } else if (priceVs30dAvg < -TREND_THRESHOLDS.belowAvgPercent) {
+    rule = "below_average";
+    recommendation = "buy";
+    recommendationReason = `${Math.abs(priceVs30dAvg).toFixed(1)}% below 30-day average.`;
+  } else if (priceVs30dAvg > TREND_THRESHOLDS.aboveAvgPercent) {
+    rule = "above_average";
+    recommendation = "sell";
+    recommendationReason = `${priceVs30dAvg.toFixed(1)}% above 30-day average.`;
+  } else {
+    recommendation = "hold";
+    recommendationReason = "Price is within normal range. Monitor for opportunities.";
+  }
+
+  return {
+    direction: trendDirection,
+    changePercent: Math.round(changePercent * 100) / 100,
+    changeAmount: Math.round(changeAmount),
+    trendDays: Math.max(1, trendDays),
+    avgPrice7d: Math.round(avgPrice7d),
+    avgPrice30d: Math.round(avgPrice30d),
+    lowPrice30d: Math.round(lowPrice30d),
+    highPrice30d: Math.round(highPrice30d),
+    recommendation,
+    recommendationReason,
+    rule,
+  };
+}
+
+export function analyzeSuggestions(prices: number[]): PriceSuggestion {
+  const currentPrice = prices[prices.length - 1];
+  
+  const last7d = prices.slice(-7);
+  const last30d = prices.slice(-30);
+  const last14d = prices.slice(-14);
+  
+  const avgPrice7d = average(last7d);
+  const avgPrice30d = average(last30d);
+  const avgPrice14d = average(last14d);
+  const lowPrice30d = Math.min(...last30d);
+  const highPrice30d = Math.max(...last30d);
+  
+  // Calculate volatility (standard deviation / mean)
+  const volatility = (standardDeviation(last30d) / avgPrice30d) * 100;
+  
+  // Determine trend
+  let trend: "rising" | "falling" | "stable" = "stable";
+  const priceChange7d = ((currentPrice - avgPrice7d) / avgPrice7d) * 100;
+  if (priceChange7d > 3) trend = "rising";
+  else if (priceChange7d < -3) trend = "falling";
+  
+  // Calculate suggested buy price
+  // Strategy: Buy below 7-day average, closer to 30-day low for high-volatility items
+  let buyDiscount = 0.05; // Base 5% discount from current price
+  if (volatility > 10) buyDiscount = 0.08; // Higher discount for volatile items
+  if (volatility > 20) buyDiscount = 0.12;
+  if (trend === "falling") buyDiscount += 0.03; // Extra discount when falling
+  
+  // Target buy price between current and 30-day low
+  const targetBuyFromLow = lowPrice30d + (avgPrice30d - lowPrice30d) * 0.3; // 30% above 30-day low
+  const targetBuyFromCurrent = currentPrice * (1 - buyDiscount);
+  const suggestedBuyPrice = Math.round(Math.max(
+    lowPrice30d * 1.02, // At least 2% above 30-day low (realistic)
+    Math.min(targetBuyFromLow, targetBuyFromCurrent)
+  ));
+  
+  // Calculate suggested sell price
+  // Strategy: Sell above 7-day average, closer to 30-day high
+  let sellPremium = 0.05; // Base 5% premium
+  if (volatility > 10) sellPremium = 0.08;
+  if (volatility > 20) sellPremium = 0.12;
+  if (trend === "rising") sellPremium += 0.02;
+  
+  const targetSellFromHigh = highPrice30d - (highPrice30d - avgPrice30d) * 0.3; // 30% below 30-day high
+  const targetSellFromCurrent = currentPrice * (1 + sellPremium);
+  const suggestedSellPrice = Math.round(Math.min(
+    highPrice30d * 0.98, // At most 2% below 30-day high (realistic)
+    Math.max(targetSellFromHigh, targetSellFromCurrent)
+  ));
+  
+  // Calculate potential profit
+  const potentialProfit = suggestedSellPrice - suggestedBuyPrice;
+  const potentialROI = ((suggestedSellPrice - suggestedBuyPrice) / suggestedBuyPrice) * 100;
+  
+  // Determine confidence level
+  let confidence: "high" | "medium" | "low" = "medium";
+  let confidenceReason = "";
+  let confidenceRule: SuggestionRule = "standard";
+  
+  // High confidence when volatility is moderate and we have good spread
+  if (volatility >= 5 && volatility <= 15 && potentialROI >= 8) {
+    confidenceRule = "moderate_volatility";
+    confidence = "high";
+    confidenceReason = "Good price range with moderate volatility. Historical patterns suggest reliable flip opportunities.";
+  } else if (volatility > 20) {
+    confidenceRule = "high_volatility";
+    confidence = "low";
+    confidenceReason = "High price volatility. Prices may swing unexpectedly. Consider smaller positions.";
+  } else if (potentialROI < 5) {
+    confidenceRule = "narrow_margin";
+    confidence = "low";
+    confidenceReason = "Narrow profit margin. Transaction costs and price movements may reduce actual profit.";
+  } else if (trend === "falling" && currentPrice > avgPrice30d) {
+    confidenceRule = "falling_above_average";
+    confidence = "medium";
+    confidenceReason = "Price declining but still above average. Wait for better entry point or use suggested buy price.";
+  } else if (trend === "rising" && currentPrice < avgPrice30d) {
+    confidenceRule = "rising_below_average";
+    confidence = "high";
+    confidenceReason = "Price rising from below average. Good momentum for flipping.";
+  } else {
+    confidenceReason = "Standard market conditions. Suggested prices based on 30-day trading range.";
+  }
+  
+  // Generate buy/sell reasons
+  const buyReason = suggestedBuyPrice < avgPrice7d
+    ? `${((avgPrice7d - suggestedBuyPrice) / avgPrice7d * 100).toFixed(1)}% below 7-day avg (${formatPriceSimple(avgPrice7d)} gp)`
+    : `Near recent low of ${formatPriceSimple(lowPrice30d)} gp`;
+  
+  const sellReason = suggestedSellPrice > avgPrice7d
+    ? `${((suggestedSellPrice - avgPrice7d) / avgPrice7d * 100).toFixed(1)}% above 7-day avg, targeting ${formatPriceSimple(highPrice30d)} gp high`
+    : `Based on ${formatPriceSimple(highPrice30d)} gp 30-day high`;
+
+  return {
+    suggestedBuyPrice,
+    suggestedSellPrice,
+    potentialProfit,
+    potentialROI: Math.round(potentialROI * 100) / 100,
+    confidence,
+    confidenceReason,
+    confidenceRule,
+    buyReason,
+    sellReason,
+    currentPrice,
+    avgPrice7d: Math.round(avgPrice7d),
+    avgPrice30d: Math.round(avgPrice30d),
+    lowPrice30d,
+    highPrice30d,
+    volatility: Math.round(volatility * 100) / 100,
+    trend,
+  };
+}
+
+function formatPriceSimple(price: number): string {
+  if (price >= 1000000000) return `${(price / 1000000000).toFixed(1)}B`;
+  if (price >= 1000000) return `${(price / 1000000).toFixed(1)}M`;
+  if (price >= 1000) return `${(price / 1000).toFixed(1)}K`;
+  return price.toLocaleString();
+}
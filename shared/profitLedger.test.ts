@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { flipLedger, saleLedger, recipeRunLedger, holdingLedger, type LedgerFlip } from "./profitLedger";
+
+const BUY_DATE = "2025-01-01T00:00:00Z";
+const SELL_DATE = "2025-01-03T00:00:00Z";
+const BOND = 29492;
+
+function flip(overrides: Partial<LedgerFlip>): LedgerFlip {
+  return {
+    itemName: "Abyssal whip",
+    itemId: 4151,
+    quantity: 1,
+    buyPrice: 1_000,
+    buyDate: BUY_DATE,
+    status: "open",
+    sells: [],
+    ...overrides,
+  };
+}
+
+test("flipLedger", async (t) => {
+  const cases = [
+    {
+      name: "unsold",
+      flip: flip({ quantity: 10 }),
+      gross: 0, tax: 0, costBasis: 0, profit: 0, roi: 0,
+    },
+    {
+      name: "multi-quantity sell in one fill",
+      flip: flip({ quantity: 10, sells: [{ quantity: 10, sellPrice: 1_100, sellDate: SELL_DATE }] }),
+      gross: 11_000, tax: 220, costBasis: 10_000, profit: 780, roi: 7.8,
+    },
+    {
+      name: "fills at different prices are taxed separately",
+      flip: flip({
+        quantity: 10,
+        buyPrice: 100,
+        sells: [
+          { quantity: 4, sellPrice: 150, sellDate: SELL_DATE },
+          { quantity: 6, sellPrice: 200, sellDate: SELL_DATE },
+        ],
+      }),
+      gross: 1_800, tax: 36, costBasis: 1_000, profit: 764, roi: 76.4,
+    },
+    {
+      name: "partial sell only books what sold",
+      flip: flip({ quantity: 10, buyPrice: 100, sells: [{ quantity: 4, sellPrice: 150, sellDate: SELL_DATE }] }),
+      gross: 600, tax: 12, costBasis: 400, profit: 188, roi: 47,
+    },
+    {
+      name: "sells at 49 gp are untaxed",
+      flip: flip({ itemId: null, quantity: 100, buyPrice: 45, sells: [{ quantity: 100, sellPrice: 49, sellDate: SELL_DATE }] }),
+      gross: 4_900, tax: 0, costBasis: 4_500, profit: 400, roi: 8.89,
+    },
+    {
+      name: "sells at 50 gp pay 1 gp each",
+      flip: flip({ itemId: null, quantity: 100, buyPrice: 45, sells: [{ quantity: 100, sellPrice: 50, sellDate: SELL_DATE }] }),
+      gross: 5_000, tax: 100, costBasis: 4_500, profit: 400, roi: 8.89,
+    },
+    {
+      name: "bonds are untaxed",
+      flip: flip({ itemName: "Bond", itemId: BOND, quantity: 2, buyPrice: 58_000_000, sells: [{ quantity: 2, sellPrice: 60_000_000, sellDate: SELL_DATE }] }),
+      gross: 120_000_000, tax: 0, costBasis: 116_000_000, profit: 4_000_000, roi: 3.45,
+    },
+    {
+      name: "legacy sellPrice covers the whole quantity",
+      flip: flip({ quantity: 5, sells: null, sellPrice: 1_200, sellDate: SELL_DATE }),
+      gross: 6_000, tax: 120, costBasis: 5_000, profit: 880, roi: 17.6,
+    },
+    {
+      name: "sold before the GE tax",
+      flip: flip({ buyDate: "2023-06-01T00:00:00Z", quantity: 5, sells: [{ quantity: 5, sellPrice: 1_200, sellDate: "2023-06-02T00:00:00Z" }] }),
+      gross: 6_000, tax: 0, costBasis: 5_000, profit: 1_000, roi: 20,
+    },
+    {
+      name: "write-off books the unsold units as a loss",
+      flip: flip({ quantity: 10, buyPrice: 100, status: "written_off", closedAt: SELL_DATE, sells: [{ quantity: 4, sellPrice: 150, sellDate: SELL_DATE }] }),
+      gross: 600, tax: 12, costBasis: 1_000, profit: -412, roi: -41.2,
+    },
+    {
+      name: "cancelling books nothing for the unsold units",
+      flip: flip({ quantity: 10, buyPrice: 100, status: "cancelled", closedAt: SELL_DATE, sells: [{ quantity: 4, sellPrice: 150, sellDate: SELL_DATE }] }),
+      gross: 600, tax: 12, costBasis: 400, profit: 188, roi: 47,
+    },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const ledger = flipLedger(c.flip);
+      assert.equal(ledger.grossSellTotal, c.gross);
+      assert.equal(ledger.totalTax, c.tax);
+      assert.equal(ledger.netSellTotal, c.gross - c.tax);
+      assert.equal(ledger.costBasis, c.costBasis);
+      assert.equal(ledger.profit, c.profit);
+      assert.equal(ledger.roi, c.roi);
+    });
+  }
+});
+
+test("flipLedger hold time runs from the buy to the last sell", () => {
+  const ledger = flipLedger(flip({
+    quantity: 2,
+    sells: [
+      { quantity: 1, sellPrice: 1_100, sellDate: "2025-01-02T00:00:00Z" },
+      { quantity: 1, sellPrice: 1_100, sellDate: SELL_DATE },
+    ],
+  }));
+  assert.equal(ledger.holdTimeMs, 2 * 24 * 60 * 60 * 1000);
+  assert.equal(flipLedger(flip({})).holdTimeMs, null);
+});
+
+test("saleLedger", async (t) => {
+  const cases = [
+    { name: "GE tax per item", sale: { sellPrice: 1_000, quantity: 3, costBasis: 2_400, itemId: 4151, soldAt: SELL_DATE }, tax: 60, profit: 540 },
+    { name: "recorded tax wins", sale: { sellPrice: 1_000, quantity: 3, costBasis: 2_400, itemId: 4151, tax: 0, soldAt: SELL_DATE }, tax: 0, profit: 600 },
+    { name: "bond", sale: { sellPrice: 60_000_000, quantity: 1, costBasis: 59_000_000, itemId: BOND, soldAt: SELL_DATE }, tax: 0, profit: 1_000_000 },
+    { name: "under the threshold", sale: { sellPrice: 49, quantity: 1_000, costBasis: 40_000, itemId: null, soldAt: SELL_DATE }, tax: 0, profit: 9_000 },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const ledger = saleLedger(c.sale);
+      assert.equal(ledger.totalTax, c.tax);
+      assert.equal(ledger.profit, c.profit);
+    });
+  }
+});
+
+test("recipeRunLedger spreads the component cost over the whole output", () => {
+  const ledger = recipeRunLedger({ sellPrice: 500, outputQuantity: 10, totalComponentCost: 4_000, itemId: 4151, soldAt: SELL_DATE });
+  assert.equal(ledger.grossSellTotal, 5_000);
+  assert.equal(ledger.totalTax, 100);
+  assert.equal(ledger.profit, 900);
+  assert.equal(ledger.roi, 22.5);
+});
+
+test("holdingLedger costs sells at the average buy price", () => {
+  const ledger = holdingLedger([
+    { transactionType: "buy", quantity: 10, pricePerUnit: 100, transactionDate: "2025-01-01T00:00:00Z" },
+    { transactionType: "buy", quantity: 10, pricePerUnit: 200, transactionDate: "2025-01-02T00:00:00Z" },
+    { transactionType: "sell", quantity: 5, pricePerUnit: 300, fees: 30, transactionDate: "2025-01-03T00:00:00Z" },
+    { transactionType: "sell", quantity: 5, pricePerUnit: 100, fees: 10, transactionDate: "2025-01-04T00:00:00Z" },
+  ]);
+  assert.equal(ledger.quantity, 10);
+  assert.equal(ledger.avgBuyPrice, 150);
+  assert.equal(ledger.realizedProfit, 720);
+  assert.equal(ledger.realizedLoss, 260);
+});
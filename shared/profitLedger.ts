@@ -0,0 +1,178 @@
+// Profit ledger
+// Gross, tax, net, ROI and hold time for everything that books profit: flips
+// (through their sell fills, see flipSells.ts), recipe runs and portfolio
+// holding sales. Server routes, Discord embeds and client pages all read their
+// numbers from here, so GE tax (taxCalculator.ts) is only ever applied one way.
+
+import { startOfDay, startOfWeek, startOfMonth } from "date-fns";
+import { calculateTaxPerItem } from "./taxCalculator";
+import { bookedProfits, summarizeFlipSells, type FlipWithFills } from "./flipSells";
+
+export interface LedgerEntry {
+  grossSellTotal: number;
+  totalTax: number;
+  netSellTotal: number;
+  costBasis: number; // buy cost of what was sold (or written off)
+  profit: number;
+  roi: number; // percent of cost basis, 2 decimals
+  holdTimeMs: number | null; // bought to sold; null while nothing is sold
+}
+
+function ledgerEntry(
+  grossSellTotal: number,
+  totalTax: number,
+  costBasis: number,
+  boughtAt?: Date | string | null,
+  soldAt?: Date | string | null,
+): LedgerEntry {
+  const netSellTotal = grossSellTotal - totalTax;
+  const profit = netSellTotal - costBasis;
+  return {
+    grossSellTotal,
+    totalTax,
+    netSellTotal,
+    costBasis,
+    profit,
+    roi: costBasis > 0 ? Math.round((profit / costBasis) * 10000) / 100 : 0,
+    holdTimeMs: boughtAt && soldAt ? new Date(soldAt).getTime() - new Date(boughtAt).getTime() : null,
+  };
+}
+
+export interface LedgerFlip extends FlipWithFills {
+  buyDate: Date | string;
+}
+
+// Booked so far: the sold fills plus any write-off. Held until the last sell, or
+// until the flip was closed.
+export function flipLedger(flip: LedgerFlip): LedgerEntry {
+  const summary = summarizeFlipSells(flip);
+  return ledgerEntry(
+    summary.grossSellTotal,
+    summary.totalTax,
+    summary.costBasis,
+    flip.buyDate,
+    summary.closedAt ?? summary.lastSellDate,
+  );
+}
+
+export interface Sale {
+  sellPrice: number; // per item
+  quantity: number;
+  costBasis: number; // total buy cost of the quantity sold
+  itemId?: number | null;
+  tax?: number; // tax already recorded for the sale; GE tax when left out
+  soldAt?: Date | string | null; // picks the tax rules; now when left out
+  boughtAt?: Date | string | null;
+}
+
+export function saleLedger(sale: Sale): LedgerEntry {
+  const tax = sale.tax
+    ?? calculateTaxPerItem(sale.sellPrice, sale.itemId, sale.soldAt ?? undefined) * sale.quantity;
+  return ledgerEntry(sale.sellPrice * sale.quantity, tax, sale.costBasis, sale.boughtAt, sale.soldAt);
+}
+
+export interface RecipeRunSale {
+  sellPrice: number; // per crafted item
+  outputQuantity: number;
+  totalComponentCost: number;
+  itemId?: number | null;
+  startedAt?: Date | string | null;
+  soldAt?: Date | string | null;
+}
+
+// The components' total cost is the cost basis of the whole output
+export function recipeRunLedger(run: RecipeRunSale): LedgerEntry {
+  return saleLedger({
+    sellPrice: run.sellPrice,
+    quantity: run.outputQuantity,
+    costBasis: run.totalComponentCost,
+    itemId: run.itemId,
+    boughtAt: run.startedAt,
+    soldAt: run.soldAt,
+  });
+}
+
+export interface HoldingTransactionLike {
+  transactionType: string;
+  quantity: number;
+  pricePerUnit: number;
+  fees?: number | null;
+  transactionDate: Date | string;
+}
+
+export interface HoldingLedger {
+  quantity: number;
+  totalCost: number;
+  avgBuyPrice: number;
+  realizedProfit: number;
+  realizedLoss: number;
+  sales: LedgerEntry[];
+}
+
+// Replays a holding's transactions in date order. Each sell is costed at the average
+// buy price at the time and taxed with the fees recorded on it.
+export function holdingLedger(transactions: HoldingTransactionLike[]): HoldingLedger {
+  const sorted = [...transactions].sort((a, b) =>
+    new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime()
+  );
+
+  let quantity = 0;
+  let totalCost = 0;
+  let realizedProfit = 0;
+  let realizedLoss = 0;
+  const sales: LedgerEntry[] = [];
+
+  for (const tx of sorted) {
+    if (tx.transactionType === "buy") {
+      totalCost += tx.pricePerUnit * tx.quantity;
+      quantity += tx.quantity;
+    } else if (tx.transactionType === "sell") {
+      const costBasis = quantity > 0 ? (totalCost / quantity) * tx.quantity : 0;
+      const sale = saleLedger({
+        sellPrice: tx.pricePerUnit,
+        quantity: tx.quantity,
+        costBasis,
+        tax: tx.fees ?? 0,
+      });
+      sales.push(sale);
+      if (sale.profit >= 0) realizedProfit += sale.profit;
+      else realizedLoss += Math.abs(sale.profit);
+
+      // Clamp so overselling can't leave negative cost or quantity
+      totalCost = Math.max(0, totalCost - costBasis);
+      quantity = Math.max(0, quantity - tx.quantity);
+    }
+  }
+
+  return {
+    quantity,
+    totalCost,
+    avgBuyPrice: quantity > 0 ? totalCost / quantity : 0,
+    realizedProfit,
+    realizedLoss,
+    sales,
+  };
+}
+
+export interface PeriodProfits {
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+// Booked profit since the start of today, this week (from Monday) and this month
+export function periodProfits(flips: FlipWithFills[], now: Date = new Date()): PeriodProfits {
+  const dayStart = startOfDay(now);
+  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+  const monthStart = startOfMonth(now);
+
+  const totals: PeriodProfits = { daily: 0, weekly: 0, monthly: 0 };
+  for (const flip of flips) {
+    for (const { date, profit } of bookedProfits(flip)) {
+      if (date >= dayStart) totals.daily += profit;
+      if (date >= weekStart) totals.weekly += profit;
+      if (date >= monthStart) totals.monthly += profit;
+    }
+  }
+  return totals;
+}
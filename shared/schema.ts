@@ -1,10 +1,13 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, bigint, timestamp, index, jsonb, boolean, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, timestamp, index, uniqueIndex, primaryKey, jsonb, boolean, pgEnum } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { FlipRevisionChanges, FlipSnapshot } from "./flipRevisions";
+import { FLIP_STATUSES } from "./flipStatus";
 
 // Enums
 export const membershipStatusEnum = pgEnum("membership_status", ["F2P", "Members", "Unknown"]);
+export const flipStatusEnum = pgEnum("flip_status", FLIP_STATUSES);
 export const rsAccountTypeEnum = pgEnum("rs_account_type", ["Main", "Ironman", "HCIM", "Ultimate", "GIM", "Alt", "Other"]);
 
 // Session storage table for Replit Auth
@@ -74,11 +77,16 @@ export const flips = pgTable("flips", {
   sellDate: timestamp("sell_date"),
   notes: text("notes"),
   category: varchar("category", { length: 50 }),
-  strategyTag: varchar("strategy_tag", { length: 50 }).default("Other"),
+  strategyTag: varchar("strategy_tag", { length: 50 }), // Legacy single strategy; moved into flipTags at startup (server/strategy-tags.ts)
   membershipStatus: membershipStatusEnum("membership_status").default("Unknown"),
   isMembers: boolean("is_members"),
   geLimit: integer("ge_limit"),
+  status: flipStatusEnum("status").notNull().default("open"), // see shared/flipStatus.ts
+  closedAt: timestamp("closed_at"), // when the flip was cancelled or written off
   deletedAt: timestamp("deleted_at"),
+  // Set when an open flip is moved into the portfolio; moved flips are hidden like deleted ones
+  portfolioHoldingId: varchar("portfolio_holding_id").references(() => portfolioHoldings.id, { onDelete: "set null" }),
+  movedToPortfolioAt: timestamp("moved_to_portfolio_at"),
 });
 
 export type UpsertUser = typeof users.$inferInsert;
@@ -87,7 +95,12 @@ export type User = typeof users.$inferSelect;
 export const insertFlipSchema = createInsertSchema(flips).omit({
   id: true,
   userId: true,
+  strategyTag: true,
+  status: true,
+  closedAt: true,
   deletedAt: true,
+  portfolioHoldingId: true,
+  movedToPortfolioAt: true,
 }).extend({
   rsAccountId: z.string().optional(),
   itemId: z.coerce.number().int().positive().optional(),
@@ -98,15 +111,22 @@ export const insertFlipSchema = createInsertSchema(flips).omit({
   sellDate: z.coerce.date().optional(),
   notes: z.string().optional(),
   category: z.string().max(50).optional(),
-  strategyTag: z.enum(["Fast Flip", "Slow Flip", "Bulk", "High Margin", "Speculative", "Other"]).default("Other"),
   membershipStatus: z.enum(["F2P", "Members", "Unknown"]).default("Unknown"),
   isMembers: z.boolean().optional(),
   geLimit: z.coerce.number().int().positive().optional(),
 });
 
+// Sent alongside flip data on create/update; replaces the flip's tags
+export const flipTagIdsSchema = z.array(z.string()).max(20);
+
 export type InsertFlip = z.infer<typeof insertFlipSchema>;
 export type Flip = typeof flips.$inferSelect;
 
+// Trash bulk actions - omitting ids applies the action to everything in the trash
+export const flipTrashActionSchema = z.object({
+  ids: z.array(z.string()).min(1).max(1000).optional(),
+});
+
 export type FlipWithUser = Flip & {
   user?: {
     id: string;
@@ -116,6 +136,204 @@ export type FlipWithUser = Flip & {
   };
 };
 
+// Strategy tags - Each user's own playbook names (e.g. "Merch hold"), a flip can carry several
+export const strategyTags = pgTable("strategy_tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  name: varchar("name", { length: 50 }).notNull(),
+  color: varchar("color", { length: 7 }).notNull(), // #rrggbb
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_strategy_tags_user_name").on(table.userId, table.name)]);
+
+export const insertStrategyTagSchema = createInsertSchema(strategyTags).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #22c55e"),
+  description: z.string().max(500).optional(),
+});
+
+export type InsertStrategyTag = z.infer<typeof insertStrategyTagSchema>;
+export type StrategyTag = typeof strategyTags.$inferSelect;
+
+// Flip tags - Which strategy tags a flip carries
+export const flipTags = pgTable("flip_tags", {
+  flipId: varchar("flip_id").notNull().references(() => flips.id, { onDelete: "cascade" }),
+  tagId: varchar("tag_id").notNull().references(() => strategyTags.id, { onDelete: "cascade" }),
+}, (table) => [
+  primaryKey({ columns: [table.flipId, table.tagId] }),
+  index("IDX_flip_tags_tag").on(table.tagId),
+]);
+
+export type FlipTag = typeof flipTags.$inferSelect;
+
+export type FlipWithTags = Flip & {
+  tags: StrategyTag[];
+};
+
+// Flip sells - Individual sell fills against a flip's buy leg (partial sells)
+export const flipSells = pgTable("flip_sells", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flipId: varchar("flip_id").notNull().references(() => flips.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  quantity: integer("quantity").notNull(),
+  sellPrice: bigint("sell_price", { mode: "number" }).notNull(),
+  sellDate: timestamp("sell_date").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertFlipSellSchema = createInsertSchema(flipSells).omit({
+  id: true,
+  flipId: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  quantity: z.coerce.number().int().positive(),
+  sellPrice: z.coerce.number().int().positive(),
+  sellDate: z.coerce.date().default(() => new Date()),
+});
+
+// Used when PATCHing a flip with its full list of fills - existing fills keep their id
+export const upsertFlipSellSchema = insertFlipSellSchema.extend({
+  id: z.string().optional(),
+});
+
+export type InsertFlipSell = z.infer<typeof insertFlipSellSchema>;
+export type UpsertFlipSell = z.infer<typeof upsertFlipSellSchema>;
+export type FlipSell = typeof flipSells.$inferSelect;
+
+export type FlipWithSells = Flip & {
+  sells: FlipSell[];
+};
+
+// GET /api/flips/trash - purgeAt is null when retention is disabled
+export type TrashedFlip = FlipWithSells & {
+  purgeAt: Date | null;
+};
+
+export interface FlipTrash {
+  flips: TrashedFlip[];
+  retentionDays: number;
+}
+
+export const flipRevisionActionEnum = pgEnum("flip_revision_action", ["create", "update", "delete", "restore", "revert", "move_to_portfolio", "undo_portfolio_move"]);
+
+// Flip revisions - Audit trail of every change to a flip. The snapshot is the flip as it
+// was after the change; changedBy is whoever made it (an admin editing someone else's flip)
+export const flipRevisions = pgTable("flip_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  flipId: varchar("flip_id").notNull().references(() => flips.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id), // Flip owner
+  changedBy: varchar("changed_by").notNull().references(() => users.id),
+  action: flipRevisionActionEnum("action").notNull(),
+  changes: jsonb("changes").$type<FlipRevisionChanges>().notNull(),
+  snapshot: jsonb("snapshot").$type<FlipSnapshot>().notNull(),
+  revertedFromId: varchar("reverted_from_id"), // Revision a revert restored
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_flip_revisions_flip").on(table.flipId)]);
+
+export type FlipRevision = typeof flipRevisions.$inferSelect;
+export type InsertFlipRevision = Omit<typeof flipRevisions.$inferInsert, "id" | "createdAt">;
+
+export type FlipRevisionWithUser = FlipRevision & {
+  changedByUser?: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+  };
+};
+
+// GE offer enums
+export const geOfferTypeEnum = pgEnum("ge_offer_type", ["buy", "sell"]);
+export const geOfferStatusEnum = pgEnum("ge_offer_status", ["placed", "partial", "completed", "aborted"]);
+
+export const GE_SLOT_COUNT = 8;
+
+// GE offers - Pending buy/sell offers sitting in one of an account's Grand Exchange slots
+export const geOffers = pgTable("ge_offers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rsAccountId: varchar("rs_account_id").references(() => rsAccounts.id),
+  slot: integer("slot").notNull(), // 1-8
+  offerType: geOfferTypeEnum("offer_type").notNull(),
+  status: geOfferStatusEnum("status").notNull().default("placed"),
+  itemName: text("item_name").notNull(),
+  itemIcon: text("item_icon"),
+  itemId: integer("item_id"),
+  limitPrice: bigint("limit_price", { mode: "number" }).notNull(),
+  quantity: integer("quantity").notNull(),
+  filledQuantity: integer("filled_quantity").notNull().default(0),
+  flipId: varchar("flip_id").references(() => flips.id, { onDelete: "set null" }), // Flip opened by a buy, or the flip a sell closes
+  placedAt: timestamp("placed_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertGeOfferSchema = createInsertSchema(geOffers).omit({
+  id: true,
+  userId: true,
+  status: true,
+  filledQuantity: true,
+  placedAt: true,
+  updatedAt: true,
+  completedAt: true,
+}).extend({
+  rsAccountId: z.string().optional(),
+  slot: z.coerce.number().int().min(1).max(GE_SLOT_COUNT),
+  offerType: z.enum(["buy", "sell"]),
+  itemId: z.coerce.number().int().positive().optional(),
+  limitPrice: z.coerce.number().int().positive(),
+  quantity: z.coerce.number().int().positive(),
+  flipId: z.string().optional(),
+});
+
+export const updateGeOfferSchema = z.object({
+  filledQuantity: z.coerce.number().int().min(0).optional(),
+  limitPrice: z.coerce.number().int().positive().optional(),
+});
+
+export type InsertGeOffer = z.infer<typeof insertGeOfferSchema>;
+export type UpdateGeOffer = z.infer<typeof updateGeOfferSchema>;
+export type GeOffer = typeof geOffers.$inferSelect;
+export type GeOfferStatus = GeOffer["status"];
+
+// Margin checks - One unit insta-bought and insta-sold to learn an item's live spread.
+// The latest one overrides the history-based price suggestions when it's newer
+// (see marginChecks.ts).
+export const marginChecks = pgTable("margin_checks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  rsAccountId: varchar("rs_account_id").references(() => rsAccounts.id, { onDelete: "set null" }),
+  itemId: integer("item_id").notNull(),
+  itemName: text("item_name").notNull(),
+  instaBuyPrice: bigint("insta_buy_price", { mode: "number" }).notNull(), // paid buying one unit instantly (the high)
+  instaSellPrice: bigint("insta_sell_price", { mode: "number" }).notNull(), // got selling it instantly (the low)
+  checkedAt: timestamp("checked_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [index("IDX_margin_checks_user_item").on(table.userId, table.itemId, table.checkedAt)]);
+
+export const insertMarginCheckSchema = createInsertSchema(marginChecks).omit({
+  id: true,
+  userId: true,
+  createdAt: true,
+}).extend({
+  rsAccountId: z.string().optional(),
+  itemId: z.coerce.number().int().positive(),
+  itemName: z.string().trim().min(1).max(100),
+  instaBuyPrice: z.coerce.number().int().positive(),
+  instaSellPrice: z.coerce.number().int().positive(),
+  checkedAt: z.coerce.date().optional(), // defaults to now
+});
+
+export type InsertMarginCheck = z.infer<typeof insertMarginCheckSchema>;
+export type MarginCheck = typeof marginChecks.$inferSelect;
+
 // Watchlist table for tracking items without logging flips
 export const watchlist = pgTable("watchlist", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -303,6 +521,7 @@ export const portfolioHoldingTransactions = pgTable("portfolio_holding_transacti
   fees: bigint("fees", { mode: "number" }).default(0), // GE tax for sells
   profitLoss: bigint("profit_loss", { mode: "number" }), // calculated on sell: (sellPrice - avgBuyPrice) * quantity - fees
   notes: text("notes"),
+  flipId: varchar("flip_id").references(() => flips.id, { onDelete: "set null" }), // Buy moved over from a flip
   transactionDate: timestamp("transaction_date").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -312,6 +531,7 @@ export const insertHoldingTransactionSchema = createInsertSchema(portfolioHoldin
   userId: true,
   totalValue: true,
   profitLoss: true,
+  flipId: true,
   createdAt: true,
 }).extend({
   holdingId: z.string(),
@@ -361,6 +581,7 @@ export type PortfolioSnapshotItem = typeof portfolioSnapshotItems.$inferSelect;
 export const flipTransactions = pgTable("flip_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   flipId: varchar("flip_id").references(() => flips.id),
+  sellId: varchar("sell_id").references(() => flipSells.id), // The fill a sell transaction records; edited and removed with it
   userId: varchar("user_id").notNull().references(() => users.id),
   itemId: integer("item_id").notNull(),
   itemName: text("item_name").notNull(),
@@ -369,13 +590,70 @@ export const flipTransactions = pgTable("flip_transactions", {
   quantity: integer("quantity").notNull(),
   totalValue: bigint("total_value", { mode: "number" }).notNull(),
   taxPaid: bigint("tax_paid", { mode: "number" }).default(0), // Only for sell transactions
-  strategyTag: varchar("strategy_tag", { length: 50 }),
+  strategyTag: text("strategy_tag"), // The flip's tag names at the time of the trade, comma-separated
   transactionDate: timestamp("transaction_date").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
 export type FlipTransaction = typeof flipTransactions.$inferSelect;
 
+// System state - Server-side markers kept across restarts, e.g. which tax rules the
+// recorded sells were last taxed under
+export const systemState = pgTable("system_state", {
+  key: varchar("key", { length: 100 }).primaryKey(),
+  value: text("value").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type SystemState = typeof systemState.$inferSelect;
+
+// Tax-exempt items - Items the GE doesn't tax, managed by admins (see taxCalculator.ts)
+export const taxExemptItems = pgTable("tax_exempt_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  itemId: integer("item_id").notNull(),
+  itemName: text("item_name").notNull(),
+  reason: text("reason").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(), // sales on or after this date are exempt
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [uniqueIndex("UQ_tax_exempt_items_item_effective").on(table.itemId, table.effectiveFrom)]);
+
+export const insertTaxExemptItemSchema = createInsertSchema(taxExemptItems).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  itemId: z.coerce.number().int().positive(),
+  itemName: z.string().trim().min(1).max(100),
+  reason: z.string().trim().min(1).max(200),
+  effectiveFrom: z.coerce.date(),
+});
+
+export type InsertTaxExemptItem = z.infer<typeof insertTaxExemptItemSchema>;
+export type TaxExemptItem = typeof taxExemptItems.$inferSelect;
+
+// Item aliases - Community shorthand for item search ("ovl", "sgb"), managed by admins
+// (see server/item-search.ts). Aliases point at an item name so they survive ID changes.
+export const itemAliases = pgTable("item_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  alias: text("alias").notNull().unique(), // lowercase
+  itemName: text("item_name").notNull(),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertItemAliasSchema = createInsertSchema(itemAliases).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+}).extend({
+  alias: z.string().trim().toLowerCase().min(2).max(40),
+  itemName: z.string().trim().min(1).max(100),
+});
+
+export type InsertItemAlias = z.infer<typeof insertItemAliasSchema>;
+export type ItemAlias = typeof itemAliases.$inferSelect;
+
 // Item volume metrics - Daily aggregated volume data per item
 export const itemVolumeDaily = pgTable("item_volume_daily", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -396,6 +674,22 @@ export const itemVolumeDaily = pgTable("item_volume_daily", {
 
 export type ItemVolumeDaily = typeof itemVolumeDaily.$inferSelect;
 
+// GE item catalog - Every tradeable item from the GE dump, refreshed in the background
+// (server/item-catalog.ts) so item search and lookups work while the upstream is down
+export const geItems = pgTable("ge_items", {
+  id: integer("id").primaryKey(), // GE item ID
+  name: text("name").notNull(),
+  members: boolean("members"),
+  buyLimit: integer("buy_limit"), // per 4 hours
+  examine: text("examine"),
+  price: bigint("price", { mode: "number" }), // last known price
+  volume: bigint("volume", { mode: "number" }),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type GeItem = typeof geItems.$inferSelect;
+export type InsertGeItem = typeof geItems.$inferInsert;
+
 // User sessions for presence tracking
 export const userSessions = pgTable("user_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -0,0 +1,40 @@
+// Strategy tag helpers
+// Tags replaced the fixed strategy enum. Users who had flips under the old values
+// get a tag per value (with the colors below) when their flips are migrated.
+
+export const TAG_COLORS = [
+  "#22c55e", // green
+  "#3b82f6", // blue
+  "#f59e0b", // amber
+  "#a855f7", // purple
+  "#ef4444", // red
+  "#14b8a6", // teal
+  "#ec4899", // pink
+  "#64748b", // slate
+];
+
+export const LEGACY_STRATEGY_COLORS: Record<string, string> = {
+  "Fast Flip": "#22c55e",
+  "Slow Flip": "#3b82f6",
+  "Bulk": "#f59e0b",
+  "High Margin": "#a855f7",
+  "Speculative": "#ef4444",
+  "Other": "#64748b",
+};
+
+// Used in breakdowns for flips without any tag
+export const UNTAGGED_LABEL = "Untagged";
+
+export function defaultTagColor(name: string): string {
+  const legacy = Object.entries(LEGACY_STRATEGY_COLORS)
+    .find(([strategy]) => strategy.toLowerCase() === name.trim().toLowerCase());
+  if (legacy) return legacy[1];
+  let hash = 0;
+  for (const char of name) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+// Tag names as stored on flipTransactions.strategyTag
+export function formatTagNames(tags: { name: string }[]): string | undefined {
+  return tags.length > 0 ? tags.map(tag => tag.name).join(", ") : undefined;
+}
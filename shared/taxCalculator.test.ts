@@ -0,0 +1,77 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calculateFlipTax,
+  calculateTaxPerItem,
+  breakEvenSellPrice,
+  minSellPriceForRoi,
+} from "./taxCalculator";
+
+const TAXED = "2025-01-15T12:00:00Z";
+const BEFORE_TAX = "2024-01-15T12:00:00Z";
+const BOND = 29492;
+const PREMIER_CLUB_BOND = 43998;
+
+test("calculateFlipTax", async (t) => {
+  const cases = [
+    { name: "2% per item, floored", sellPrice: 1_000, buyPrice: 900, quantity: 1, itemId: 4151, taxPerItem: 20, totalTax: 20, profit: 80 },
+    { name: "multi-quantity sells are taxed per item", sellPrice: 1_234_567, buyPrice: 1_200_000, quantity: 3, itemId: 4151, taxPerItem: 24_691, totalTax: 74_073, profit: 29_628 },
+    { name: "fractions are floored before multiplying", sellPrice: 149, buyPrice: 100, quantity: 10, itemId: null, taxPerItem: 2, totalTax: 20, profit: 470 },
+    { name: "49 gp sells are exempt", sellPrice: 49, buyPrice: 40, quantity: 100, itemId: null, taxPerItem: 0, totalTax: 0, profit: 900 },
+    { name: "1 gp sells are exempt", sellPrice: 1, buyPrice: 1, quantity: 5_000, itemId: null, taxPerItem: 0, totalTax: 0, profit: 0 },
+    { name: "50 gp sells pay 1 gp", sellPrice: 50, buyPrice: 40, quantity: 100, itemId: null, taxPerItem: 1, totalTax: 100, profit: 900 },
+    { name: "bonds are exempt", sellPrice: 60_000_000, buyPrice: 58_000_000, quantity: 2, itemId: BOND, taxPerItem: 0, totalTax: 0, profit: 4_000_000 },
+    { name: "premier club bonds are exempt", sellPrice: 120_000_000, buyPrice: 118_000_000, quantity: 1, itemId: PREMIER_CLUB_BOND, taxPerItem: 0, totalTax: 0, profit: 2_000_000 },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const result = calculateFlipTax(c.sellPrice, c.buyPrice, c.quantity, c.itemId, TAXED);
+      assert.equal(result.taxPerItem, c.taxPerItem);
+      assert.equal(result.totalTax, c.totalTax);
+      assert.equal(result.grossSellTotal, c.sellPrice * c.quantity);
+      assert.equal(result.netSellTotal, c.sellPrice * c.quantity - c.totalTax);
+      assert.equal(result.profit, c.profit);
+      assert.equal(result.isTaxExempt, c.taxPerItem === 0);
+    });
+  }
+});
+
+test("calculateTaxPerItem picks the rules of the sell date", async (t) => {
+  const cases = [
+    { name: "before the GE tax", sellPrice: 1_000_000, itemId: 4151, sellDate: BEFORE_TAX, tax: 0 },
+    { name: "on the day the tax started", sellPrice: 1_000_000, itemId: 4151, sellDate: "2024-02-26T00:00:00Z", tax: 20_000 },
+    { name: "after the tax started", sellPrice: 1_000_000, itemId: 4151, sellDate: TAXED, tax: 20_000 },
+    { name: "bond before the tax", sellPrice: 60_000_000, itemId: BOND, sellDate: BEFORE_TAX, tax: 0 },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      assert.equal(calculateTaxPerItem(c.sellPrice, c.itemId, c.sellDate), c.tax);
+    });
+  }
+});
+
+test("breakEvenSellPrice", async (t) => {
+  const cases = [
+    { name: "taxed buy price", buyPrice: 1_000, itemId: null, sellPrice: 1_020 },
+    { name: "49 gp needs no tax margin", buyPrice: 49, itemId: null, sellPrice: 49 },
+    { name: "crossing the exempt threshold", buyPrice: 50, itemId: null, sellPrice: 51 },
+    { name: "bond", buyPrice: 60_000_000, itemId: BOND, sellPrice: 60_000_000 },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const sellPrice = breakEvenSellPrice(c.buyPrice, c.itemId, TAXED);
+      assert.equal(sellPrice, c.sellPrice);
+      assert.ok(sellPrice - 1 - calculateTaxPerItem(sellPrice - 1, c.itemId, TAXED) < c.buyPrice);
+    });
+  }
+});
+
+test("minSellPriceForRoi reaches the ROI after tax", () => {
+  const sellPrice = minSellPriceForRoi(1_000, 10, null, TAXED);
+  assert.equal(sellPrice, 1_122);
+  assert.ok(calculateFlipTax(sellPrice, 1_000, 1, null, TAXED).roi >= 10);
+  assert.ok(calculateFlipTax(sellPrice - 1, 1_000, 1, null, TAXED).roi < 10);
+});
@@ -1,12 +1,21 @@
 // RS3 Grand Exchange Tax Calculator
-// Tax rules:
+// Tax rules (from 26 February 2024):
 // - Tax rate = 2% of sell price per item
 // - Tax is applied to seller, calculated per item
 // - Tax amount is rounded down (floor)
 // - Items sold for 49 gp or less per item are exempt (tax = 0)
-// - Bonds are exempt (tax = 0)
+// - Items in the tax-exempt registry (bonds and the like) are exempt (tax = 0)
+// Sales are taxed under the rule set in force on their sell date, so flips sold
+// before the tax existed pay nothing and a future rate change only applies from
+// its effective date.
 
-const GE_TAX_RATE = 0.02;
+export interface TaxRuleSet {
+  id: string;
+  effectiveFrom: Date; // inclusive
+  rate: number; // fraction of the sell price, per item
+  exemptMaxPrice: number; // items sold for this much or less per item are exempt
+  maxTaxPerItem?: number; // optional cap
+}
 
 export interface TaxCalculation {
   taxPerItem: number;
@@ -19,37 +28,84 @@ export interface TaxCalculation {
   roi: number;
   isTaxExempt: boolean;
   exemptReason?: string;
+  ruleSetId: string;
+  taxRate: number;
+}
+
+const GE_TAX_START = new Date("2024-02-26T00:00:00Z");
+
+// Oldest first; each set applies until the next one takes effect
+export const TAX_RULE_SETS: TaxRuleSet[] = [
+  {
+    id: "pre-tax",
+    effectiveFrom: new Date(0),
+    rate: 0,
+    exemptMaxPrice: 0,
+  },
+  {
+    id: "2024-02",
+    effectiveFrom: GE_TAX_START,
+    rate: 0.02,
+    exemptMaxPrice: 49,
+  },
+];
+
+export function getTaxRules(sellDate: Date | string = new Date()): TaxRuleSet {
+  const time = new Date(sellDate).getTime();
+  let rules = TAX_RULE_SETS[0];
+  for (const candidate of TAX_RULE_SETS) {
+    if (candidate.effectiveFrom.getTime() <= time) rules = candidate;
+  }
+  return rules;
+}
+
+// Tax-exempt item registry
+// Admins manage it in the database; the server and the client each load it into
+// this cache (setTaxExemptions) so tax can be worked out synchronously. Until it
+// loads, the default entries below apply.
+
+export interface TaxExemption {
+  itemId: number;
+  itemName: string;
+  reason: string;
+  effectiveFrom: Date | string; // sales on or after this date are exempt
 }
 
-// Known Bond item IDs in RS3
-const BOND_ITEM_IDS = [
-  29492, // Bond
-  43998, // Premier Club bond
+// Seeded into the registry the first time it loads
+export const DEFAULT_TAX_EXEMPTIONS: TaxExemption[] = [
+  { itemId: 29492, itemName: "Bond", reason: "Bonds are tax exempt", effectiveFrom: GE_TAX_START },
+  { itemId: 43998, itemName: "Premier Club bond", reason: "Bonds are tax exempt", effectiveFrom: GE_TAX_START },
 ];
 
-export function isBondItem(itemId: number | undefined | null): boolean {
-  if (!itemId) return false;
-  return BOND_ITEM_IDS.includes(itemId);
+let taxExemptions: TaxExemption[] = DEFAULT_TAX_EXEMPTIONS;
+
+export function setTaxExemptions(entries: TaxExemption[]): void {
+  taxExemptions = entries;
+}
+
+export function getTaxExemption(itemId: number | null | undefined, sellDate: Date | string = new Date()): TaxExemption | undefined {
+  if (!itemId) return undefined;
+  const time = new Date(sellDate).getTime();
+  return taxExemptions.find(entry => entry.itemId === itemId && new Date(entry.effectiveFrom).getTime() <= time);
 }
 
 export function isTaxExempt(
   sellPrice: number,
   itemId?: number | null,
-  itemName?: string
+  sellDate: Date | string = new Date()
 ): { exempt: boolean; reason?: string } {
-  // Check for Bond by ID
-  if (itemId && isBondItem(itemId)) {
-    return { exempt: true, reason: "Bonds are tax exempt" };
+  const rules = getTaxRules(sellDate);
+  if (rules.rate === 0) {
+    return { exempt: true, reason: "No GE tax was charged on this date" };
   }
-  
-  // Check for Bond by name (fallback)
-  if (itemName && itemName.toLowerCase().includes("bond")) {
-    return { exempt: true, reason: "Bonds are tax exempt" };
+
+  const exemption = getTaxExemption(itemId, sellDate);
+  if (exemption) {
+    return { exempt: true, reason: exemption.reason };
   }
   
-  // Items sold for 49 gp or less are exempt
-  if (sellPrice <= 49) {
-    return { exempt: true, reason: "Items sold for 49 gp or less are tax exempt" };
+  if (sellPrice <= rules.exemptMaxPrice) {
+    return { exempt: true, reason: `Items sold for ${rules.exemptMaxPrice} gp or less are tax exempt` };
   }
   
   return { exempt: false };
@@ -58,15 +114,21 @@ export function isTaxExempt(
 export function calculateTaxPerItem(
   sellPrice: number,
   itemId?: number | null,
-  itemName?: string
+  sellDate?: Date | string
 ): number {
-  const exemption = isTaxExempt(sellPrice, itemId, itemName);
-  if (exemption.exempt) {
+  if (isTaxExempt(sellPrice, itemId, sellDate).exempt) {
     return 0;
   }
   
-  // 2% tax, floored per item
-  return Math.floor(sellPrice * GE_TAX_RATE);
+  return taxBeforeExemptions(sellPrice, sellDate);
+}
+
+// Floored per item, then capped if the rule set has a cap. What an exempt sale would
+// have paid without its exemption, which is what the exemption saved.
+export function taxBeforeExemptions(sellPrice: number, sellDate?: Date | string): number {
+  const rules = getTaxRules(sellDate);
+  const tax = Math.floor(sellPrice * rules.rate);
+  return rules.maxTaxPerItem !== undefined ? Math.min(tax, rules.maxTaxPerItem) : tax;
 }
 
 export function calculateFlipTax(
@@ -74,14 +136,13 @@ export function calculateFlipTax(
   buyPrice: number,
   quantity: number = 1,
   itemId?: number | null,
-  itemName?: string
+  sellDate?: Date | string
 ): TaxCalculation {
-  const exemption = isTaxExempt(sellPrice, itemId, itemName);
-  
-  // Calculate per-item tax (floored)
-  const taxPerItem = exemption.exempt ? 0 : Math.floor(sellPrice * GE_TAX_RATE);
+  const rules = getTaxRules(sellDate);
+  const exemption = isTaxExempt(sellPrice, itemId, sellDate);
+  const taxPerItem = calculateTaxPerItem(sellPrice, itemId, sellDate);
   
-  // Calculate total tax (no cap)
+  // Calculate total tax
   const totalTax = taxPerItem * quantity;
   
   const netSellPerItem = sellPrice - taxPerItem;
@@ -103,9 +164,76 @@ export function calculateFlipTax(
     roi: Math.round(roi * 100) / 100,
     isTaxExempt: exemption.exempt,
     exemptReason: exemption.reason,
+    ruleSetId: rules.id,
+    taxRate: rules.rate,
   };
 }
 
+// Reverse calculator: the lowest list price that reaches a target after tax
+// Net received per item (price minus floored tax) never drops as the price goes up,
+// so the lowest price that nets enough is found with a binary search. That handles
+// the floor steps, the 49 gp threshold and any cap exactly.
+
+export function minSellPriceForNet(
+  netPerItem: number,
+  itemId?: number | null,
+  sellDate?: Date | string
+): number {
+  const target = Math.ceil(netPerItem);
+  if (target <= 0) return 0;
+
+  // Net is never more than the price, and the price below nets at least the target
+  const rate = getTaxRules(sellDate).rate;
+  let low = target;
+  let high = Math.ceil(target / (1 - rate)) + 1;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (mid - calculateTaxPerItem(mid, itemId, sellDate) >= target) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+}
+
+export function breakEvenSellPrice(
+  buyPrice: number,
+  itemId?: number | null,
+  sellDate?: Date | string
+): number {
+  return minSellPriceForNet(buyPrice, itemId, sellDate);
+}
+
+export function minSellPriceForMargin(
+  buyPrice: number,
+  marginPerItem: number,
+  itemId?: number | null,
+  sellDate?: Date | string
+): number {
+  return minSellPriceForNet(buyPrice + marginPerItem, itemId, sellDate);
+}
+
+// Total profit across the quantity, so each item has to make its share (rounded up)
+export function minSellPriceForProfit(
+  buyPrice: number,
+  quantity: number,
+  targetProfit: number,
+  itemId?: number | null,
+  sellDate?: Date | string
+): number {
+  return minSellPriceForNet(buyPrice + targetProfit / Math.max(quantity, 1), itemId, sellDate);
+}
+
+// ROI in percent of the buy price, the same as calculateFlipTax's roi
+export function minSellPriceForRoi(
+  buyPrice: number,
+  roiPercent: number,
+  itemId?: number | null,
+  sellDate?: Date | string
+): number {
+  // Rounded to hundredths of a gp so float error can't push the price up by one
+  const netPerItem = Math.round(buyPrice * (100 + roiPercent)) / 100;
+  return minSellPriceForNet(netPerItem, itemId, sellDate);
+}
+
 export function formatGp(value: number): string {
   if (Math.abs(value) >= 1000000000) {
     return `${(value / 1000000000).toFixed(1)}B`;
@@ -0,0 +1,60 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildTaxReport, type TaxReportFlip } from "./taxReport";
+
+const SELL_DATE = "2025-01-03T00:00:00Z";
+
+function flip(overrides: Partial<TaxReportFlip>): TaxReportFlip {
+  return {
+    id: "flip-1",
+    itemName: "Abyssal whip",
+    itemId: 4151,
+    quantity: 10,
+    buyPrice: 1_000,
+    sells: [{ quantity: 10, sellPrice: 1_100, sellDate: SELL_DATE }],
+    ...overrides,
+  };
+}
+
+test("buildTaxReport", async (t) => {
+  const cases = [
+    {
+      name: "without a recorded sell the fill is taxed by the rules",
+      flips: [flip({})],
+      recordedSells: [],
+      taxPaid: 220, exemptSavings: 0,
+    },
+    {
+      name: "the recorded tax wins",
+      flips: [flip({})],
+      recordedSells: [{ flipId: "flip-1", price: 1_100, quantity: 10, taxPaid: 0, transactionDate: new Date(SELL_DATE) }],
+      taxPaid: 0, exemptSavings: 220,
+    },
+    {
+      name: "a recorded sell of another fill is not used",
+      flips: [flip({})],
+      recordedSells: [{ flipId: "flip-1", price: 1_200, quantity: 10, taxPaid: 0, transactionDate: new Date(SELL_DATE) }],
+      taxPaid: 220, exemptSavings: 0,
+    },
+    {
+      name: "identical fills each use one recorded sell",
+      flips: [flip({
+        sells: [
+          { quantity: 5, sellPrice: 1_100, sellDate: SELL_DATE },
+          { quantity: 5, sellPrice: 1_100, sellDate: SELL_DATE },
+        ],
+      })],
+      recordedSells: [{ flipId: "flip-1", price: 1_100, quantity: 5, taxPaid: 0, transactionDate: SELL_DATE }],
+      taxPaid: 110, exemptSavings: 110,
+    },
+  ];
+
+  for (const c of cases) {
+    await t.test(c.name, () => {
+      const report = buildTaxReport(c.flips, c.recordedSells);
+      assert.equal(report.totals.taxPaid, c.taxPaid);
+      assert.equal(report.totals.exemptSavings, c.exemptSavings);
+      assert.equal(report.byItem[0].taxPaid, c.taxPaid);
+    });
+  }
+});
@@ -0,0 +1,175 @@
+// Tax report
+// How much GE tax the sell fills paid, broken down by period, item, strategy tag and
+// RS account, next to the profit it came out of and what exemptions saved. The tax
+// of a fill is what its flipTransactions row recorded (taxPaid, kept up to date
+// when the tax rules or exemptions change); fills without one, such as flips with
+// no item ID, fall back to the per-fill tax of the profit ledger (flipSells.ts).
+
+import { format, startOfDay, startOfWeek, startOfMonth } from "date-fns";
+import { summarizeFlipSells, type FlipWithFills } from "./flipSells";
+import { taxBeforeExemptions } from "./taxCalculator";
+import { UNTAGGED_LABEL } from "./strategyTags";
+
+export const NO_ACCOUNT_LABEL = "No account";
+
+export interface TaxReportFlip extends FlipWithFills {
+  id: string;
+  tags?: { id: string; name: string }[];
+  rsAccountId?: string | null;
+}
+
+// The flipTransactions columns a recorded sell is matched and taxed by
+export interface RecordedSell {
+  flipId: string | null;
+  price: number;
+  quantity: number;
+  taxPaid: number | null;
+  transactionDate: Date | string;
+}
+
+export interface TaxTotals {
+  sales: number; // sell fills
+  quantity: number;
+  grossSellTotal: number;
+  taxPaid: number;
+  grossProfit: number; // before tax
+  taxShareOfProfit: number | null; // percent of gross profit; null without a gross profit
+  exemptSavings: number; // tax the exemptions saved
+}
+
+export interface TaxReportRow extends TaxTotals {
+  key: string;
+  label: string;
+}
+
+export interface TaxReport {
+  totals: TaxTotals;
+  byDay: TaxReportRow[]; // key is the period's first day, yyyy-MM-dd
+  byWeek: TaxReportRow[]; // weeks start on Monday
+  byMonth: TaxReportRow[];
+  byItem: TaxReportRow[];
+  byTag: TaxReportRow[];
+  byAccount: TaxReportRow[];
+  byExemption: TaxReportRow[]; // keyed by exemption reason
+}
+
+interface FillTax {
+  quantity: number;
+  grossSellTotal: number;
+  taxPaid: number;
+  grossProfit: number;
+  exemptSavings: number;
+}
+
+function emptyTotals(): TaxTotals {
+  return { sales: 0, quantity: 0, grossSellTotal: 0, taxPaid: 0, grossProfit: 0, taxShareOfProfit: null, exemptSavings: 0 };
+}
+
+function addFill(totals: TaxTotals, fill: FillTax): void {
+  totals.sales += 1;
+  totals.quantity += fill.quantity;
+  totals.grossSellTotal += fill.grossSellTotal;
+  totals.taxPaid += fill.taxPaid;
+  totals.grossProfit += fill.grossProfit;
+  totals.exemptSavings += fill.exemptSavings;
+}
+
+function withTaxShare<T extends TaxTotals>(totals: T): T {
+  return {
+    ...totals,
+    taxShareOfProfit: totals.grossProfit > 0 ? Math.round((totals.taxPaid / totals.grossProfit) * 10000) / 100 : null,
+  };
+}
+
+type RowGroup = Map<string, TaxReportRow>;
+
+function addRow(group: RowGroup, key: string, label: string, fill: FillTax): void {
+  let row = group.get(key);
+  if (!row) {
+    row = { key, label, ...emptyTotals() };
+    group.set(key, row);
+  }
+  addFill(row, fill);
+}
+
+// Periods in date order; everything else with the most tax first
+function listRows(group: RowGroup, byKey = false): TaxReportRow[] {
+  const rows = Array.from(group.values()).map(withTaxShare);
+  return byKey
+    ? rows.sort((a, b) => a.key.localeCompare(b.key))
+    : rows.sort((a, b) => b.taxPaid - a.taxPaid || a.label.localeCompare(b.label));
+}
+
+function fillKey(flipId: string | null, price: number, quantity: number, date: Date | string): string {
+  return `${flipId}|${price}|${quantity}|${new Date(date).getTime()}`;
+}
+
+// Recorded sells by flip, price, quantity and date; each is used by one fill
+function indexRecordedSells(recordedSells: RecordedSell[]): Map<string, RecordedSell[]> {
+  const index = new Map<string, RecordedSell[]>();
+  for (const sell of recordedSells) {
+    const key = fillKey(sell.flipId, sell.price, sell.quantity, sell.transactionDate);
+    index.set(key, [...(index.get(key) ?? []), sell]);
+  }
+  return index;
+}
+
+export function buildTaxReport(
+  flips: TaxReportFlip[],
+  recordedSells: RecordedSell[] = [],
+  accountNames: Record<string, string> = {}
+): TaxReport {
+  const recorded = indexRecordedSells(recordedSells);
+  const totals = emptyTotals();
+  const days: RowGroup = new Map();
+  const weeks: RowGroup = new Map();
+  const months: RowGroup = new Map();
+  const items: RowGroup = new Map();
+  const tags: RowGroup = new Map();
+  const accounts: RowGroup = new Map();
+  const exemptions: RowGroup = new Map();
+
+  for (const flip of flips) {
+    const flipTags = flip.tags?.length ? flip.tags : [{ id: "", name: UNTAGGED_LABEL }];
+    const accountKey = flip.rsAccountId ?? "";
+    const accountLabel = flip.rsAccountId ? accountNames[flip.rsAccountId] ?? "Deleted account" : NO_ACCOUNT_LABEL;
+
+    for (const { tax, quantity, sellPrice, sellDate } of summarizeFlipSells(flip).fills) {
+      const taxPaid = recorded.get(fillKey(flip.id, sellPrice, quantity, sellDate))?.shift()?.taxPaid ?? tax.totalTax;
+      const fill: FillTax = {
+        quantity,
+        grossSellTotal: tax.grossSellTotal,
+        taxPaid,
+        grossProfit: tax.grossSellTotal - flip.buyPrice * quantity,
+        exemptSavings: Math.max(taxBeforeExemptions(sellPrice, sellDate) * quantity - taxPaid, 0),
+      };
+      const date = new Date(sellDate);
+
+      addFill(totals, fill);
+      const day = format(startOfDay(date), "yyyy-MM-dd");
+      const week = format(startOfWeek(date, { weekStartsOn: 1 }), "yyyy-MM-dd");
+      const month = format(startOfMonth(date), "yyyy-MM-dd");
+      addRow(days, day, day, fill);
+      addRow(weeks, week, week, fill);
+      addRow(months, month, format(date, "MMM yyyy"), fill);
+      addRow(items, flip.itemId ? String(flip.itemId) : flip.itemName, flip.itemName, fill);
+      // A flip with several tags counts towards each of them
+      for (const tag of flipTags) addRow(tags, tag.id, tag.name, fill);
+      addRow(accounts, accountKey, accountLabel, fill);
+      if (fill.exemptSavings > 0 && tax.exemptReason) {
+        addRow(exemptions, tax.exemptReason, tax.exemptReason, fill);
+      }
+    }
+  }
+
+  return {
+    totals: withTaxShare(totals),
+    byDay: listRows(days, true),
+    byWeek: listRows(weeks, true),
+    byMonth: listRows(months, true),
+    byItem: listRows(items),
+    byTag: listRows(tags),
+    byAccount: listRows(accounts),
+    byExemption: listRows(exemptions),
+  };
+}